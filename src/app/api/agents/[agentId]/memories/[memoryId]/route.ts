@@ -0,0 +1,94 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT MEMORY API - Edit, Pin, Delete a specific memory
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agentRecollections } from "@/lib/db/schema";
+import { removeRecollections, updateRecollectionContent } from "@/lib/ai/vectorService";
+import { updateMemorySchema } from "@/lib/memory/payload";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    memoryId: string;
+  };
+}
+
+async function findMemory({ agentId, memoryId }: RouteParams["params"]) {
+  return getDB().query.agentRecollections.findFirst({
+    where: and(
+      eq(agentRecollections.id, memoryId),
+      eq(agentRecollections.agentId, agentId),
+    ),
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATCH /api/agents/[agentId]/memories/[memoryId] - Edit content or pin
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = updateMemorySchema.parse(await request.json());
+
+    let memory = await findMemory(params);
+    if (!memory) {
+      return NextResponse.json({ error: "Memory not found" }, { status: 404 });
+    }
+
+    if (data.content !== undefined && data.content !== memory.content) {
+      memory = await updateRecollectionContent(memory, data.content);
+    }
+
+    if (data.isPinned !== undefined && data.isPinned !== memory.isPinned) {
+      const [updated] = await getDB()
+        .update(agentRecollections)
+        .set({ isPinned: data.isPinned })
+        .where(eq(agentRecollections.id, memory.id))
+        .returning();
+      memory = updated ?? { ...memory, isPinned: data.isPinned };
+    }
+
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error("[AGENT_MEMORY_PATCH]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update memory" },
+      { status: 500 },
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DELETE /api/agents/[agentId]/memories/[memoryId] - Forget one memory
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const memory = await findMemory(params);
+    if (!memory) {
+      return NextResponse.json({ error: "Memory not found" }, { status: 404 });
+    }
+
+    await removeRecollections([memory]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[AGENT_MEMORY_DELETE]", error);
+    return NextResponse.json(
+      { error: "Failed to delete memory" },
+      { status: 500 },
+    );
+  }
+}
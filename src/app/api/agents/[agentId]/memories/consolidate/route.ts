@@ -0,0 +1,39 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT MEMORY CONSOLIDATION API - Run consolidation outside the schedule
+// POST /api/agents/[agentId]/memories/consolidate → 202 Accepted
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import { requestMemoryConsolidation } from "@/lib/memory/consolidation";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { agentId } = params;
+
+    const agent = await getDB().query.agents.findFirst({
+      where: eq(agents.id, agentId),
+    });
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const queued = await requestMemoryConsolidation(agentId);
+
+    return NextResponse.json({ queued }, { status: 202 });
+  } catch (error) {
+    console.error("[AGENT_MEMORIES_CONSOLIDATE]", error);
+    return NextResponse.json(
+      { error: "Failed to start consolidation" },
+      { status: 500 },
+    );
+  }
+}
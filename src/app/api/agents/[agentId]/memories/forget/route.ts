@@ -0,0 +1,66 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT MEMORY FORGET API - Forget everything about a topic
+// POST /api/agents/[agentId]/memories/forget → Delete (or preview) matches
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import { findRecollectionsMatching, removeRecollections } from "@/lib/ai/vectorService";
+import { forgetMemoriesSchema } from "@/lib/memory/payload";
+import type { ForgetAgentMemoriesResponse } from "@/types/agent";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { agentId } = params;
+    const { query, maxDistance, includePinned, dryRun } = forgetMemoriesSchema.parse(
+      await request.json(),
+    );
+
+    const agent = await getDB().query.agents.findFirst({
+      where: eq(agents.id, agentId),
+    });
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const memories = await findRecollectionsMatching({
+      agentId,
+      query,
+      maxDistance,
+      includePinned,
+    });
+
+    if (!dryRun) {
+      await removeRecollections(memories);
+      console.log(
+        `[Memories] Forgot ${memories.length} memories about "${query}" for agent ${agentId}`,
+      );
+    }
+
+    const response: ForgetAgentMemoriesResponse = { memories, deleted: !dryRun };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[AGENT_MEMORIES_FORGET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to forget memories" },
+      { status: 500 },
+    );
+  }
+}
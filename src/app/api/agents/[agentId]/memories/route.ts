@@ -0,0 +1,77 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT MEMORIES API - What an agent remembers
+// GET /api/agents/[agentId]/memories → Paginated list, pinned first
+// (?archived=true lists raw memories that consolidation archived)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, count, desc, eq, isNotNull, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agentRecollections, agents } from "@/lib/db/schema";
+import { listMemoriesQuerySchema } from "@/lib/memory/payload";
+import type { AgentMemoryListResponse } from "@/types/agent";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { agentId } = params;
+    const db = getDB();
+    const { limit, offset, pinned, archived } = listMemoriesQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    const agent = await db.query.agents.findFirst({
+      where: eq(agents.id, agentId),
+    });
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const where = and(
+      eq(agentRecollections.agentId, agentId),
+      archived === "true"
+        ? isNotNull(agentRecollections.archivedAt)
+        : isNull(agentRecollections.archivedAt),
+      pinned ? eq(agentRecollections.isPinned, pinned === "true") : undefined,
+    );
+
+    const memories = await db.query.agentRecollections.findMany({
+      where,
+      orderBy: [desc(agentRecollections.isPinned), desc(agentRecollections.createdAt)],
+      limit,
+      offset,
+    });
+    const [totals] = await db
+      .select({ total: count() })
+      .from(agentRecollections)
+      .where(where);
+
+    const response: AgentMemoryListResponse = {
+      memories,
+      total: totals?.total ?? 0,
+      limit,
+      offset,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[AGENT_MEMORIES_GET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list memories" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT MEMORY SEARCH API - Semantic search over an agent's memories
+// POST /api/agents/[agentId]/memories/search → Hybrid matches with scores
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import { ensureRecollectionRows, searchRecollectionMatches } from "@/lib/ai/vectorService";
+import { searchMemoriesSchema } from "@/lib/memory/payload";
+import type { AgentMemoryMatch } from "@/types/agent";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { agentId } = params;
+    const db = getDB();
+    const { query, nResults, rerank } = searchMemoriesSchema.parse(await request.json());
+
+    const agent = await db.query.agents.findFirst({
+      where: eq(agents.id, agentId),
+    });
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const matches = await searchRecollectionMatches({ agentId, query, nResults, rerank });
+    if (matches.length === 0) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const rows = await ensureRecollectionRows(
+      agentId,
+      matches.map((m) => m.id),
+    );
+    const byChromaId = new Map(rows.map((row) => [row.chromaId, row]));
+
+    // Lexical-only hits whose vector entry is gone have no row to show
+    const results: AgentMemoryMatch[] = matches.flatMap((match) => {
+      const row = byChromaId.get(match.id);
+      if (!row) return [];
+      return [
+        {
+          ...row,
+          score: match.score,
+          matchedBy: match.matchedBy,
+          rerankScore: match.rerankScore,
+        },
+      ];
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("[AGENT_MEMORIES_SEARCH]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to search memories" },
+      { status: 500 },
+    );
+  }
+}
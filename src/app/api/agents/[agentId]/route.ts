@@ -95,6 +95,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (body.systemPrompt !== undefined) updates.systemPrompt = body.systemPrompt;
     if (body.temperature !== undefined) updates.temperature = body.temperature;
     if (body.modelPreference !== undefined) updates.modelPreference = body.modelPreference;
+    if (body.modelFallbacks !== undefined) updates.modelFallbacks = body.modelFallbacks;
     if (body.voiceId !== undefined) updates.voiceId = body.voiceId;
 
     // Update agent
@@ -105,6 +106,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     // Update tool assignments if provided
     if (body.toolIds !== undefined) {
+      // Tools that stay assigned keep their config (approval policy etc.)
+      const previous = await db.query.agentTools.findMany({
+        where: eq(agentTools.agentId, agentId),
+      });
+      const previousByTool = new Map(previous.map((at) => [at.toolId, at]));
+
       // Remove existing assignments
       await db
         .delete(agentTools)
@@ -112,12 +119,13 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
       // Add new assignments
       for (const toolId of body.toolIds) {
+        const kept = previousByTool.get(toolId);
         await db.insert(agentTools).values({
           id: crypto.randomUUID(),
           agentId,
           toolId,
-          config: {},
-          isEnabled: true,
+          config: kept?.config ?? {},
+          isEnabled: kept?.isEnabled ?? true,
         });
       }
     }
@@ -0,0 +1,66 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT TOOL API - Approval policy and enablement of one tool binding
+// PATCH /api/agents/[agentId]/tools/[toolId]
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agentTools } from "@/lib/db/schema";
+import { updateAgentToolSchema } from "@/lib/mcp/payload";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    toolId: string;
+  };
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = updateAgentToolSchema.parse(await request.json());
+    const db = getDB();
+
+    const binding = await db.query.agentTools.findFirst({
+      where: and(
+        eq(agentTools.agentId, params.agentId),
+        eq(agentTools.toolId, params.toolId),
+      ),
+    });
+    if (!binding) {
+      return NextResponse.json(
+        { error: "Tool is not assigned to this agent" },
+        { status: 404 },
+      );
+    }
+
+    const [agentTool] = await db
+      .update(agentTools)
+      .set({
+        config:
+          data.approval !== undefined
+            ? { ...binding.config, approval: data.approval }
+            : binding.config,
+        isEnabled: data.isEnabled ?? binding.isEnabled,
+      })
+      .where(eq(agentTools.id, binding.id))
+      .returning();
+
+    return NextResponse.json({ agentTool });
+  } catch (error) {
+    console.error("[AGENT_TOOL_PATCH]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update tool binding" },
+      { status: 500 },
+    );
+  }
+}
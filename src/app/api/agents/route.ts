@@ -19,6 +19,7 @@ const createAgentSchema = z.object({
   systemPrompt: z.string().min(1).max(10000),
   temperature: z.number().min(0).max(2).default(0.7),
   modelPreference: z.string().min(1).max(100).default("ollama/llama3.1"),
+  modelFallbacks: z.array(z.string().min(1).max(100)).max(5).default([]),
   voiceId: z.string().max(100).optional(),
   toolIds: z.array(z.string()).default([]),
   knowledgeDocIds: z.array(z.string()).default([]),
@@ -75,6 +76,7 @@ export async function POST(request: NextRequest) {
         systemPrompt: data.systemPrompt,
         temperature: data.temperature,
         modelPreference: data.modelPreference,
+        modelFallbacks: data.modelFallbacks,
         voiceId: data.voiceId ?? null,
         status: "active",
       })
@@ -4,12 +4,19 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getDB } from "@/lib/db/client";
-import { messages, chatSessions, agents, toolCalls, mcpTools } from "@/lib/db/schema";
+import { messages, chatSessions, agents } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { unifiedGateway } from "@/lib/ai/unifiedGateway";
 import { contextInjector } from "@/lib/ai/contextInjector";
+import { loadSessionHistory, requestSessionSummary } from "@/lib/chat/summary";
+import {
+  loadResourceContext,
+  ResourceContextError,
+  withResourceContext,
+} from "@/lib/chat/resources";
+import type { ResourceContext } from "@/lib/chat/resources";
+import { toolLoop, ToolLoopError } from "@/lib/ai/toolLoop";
+import type { ToolLoopResult } from "@/lib/ai/toolLoop";
 import { toolRegistry } from "@/lib/mcp/toolRegistry";
-import { addToolExecutionJob } from "@/lib/queue/queues";
 import crypto from "crypto";
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -145,8 +152,9 @@ async function sendMessage(body: {
   sessionId: string;
   content: string;
   stream?: boolean;
+  resourceIds?: string[];
 }) {
-  const { sessionId, content } = body;
+  const { sessionId, content, resourceIds = [] } = body;
 
   if (!sessionId || !content) {
     return NextResponse.json(
@@ -173,6 +181,17 @@ async function sendMessage(body: {
       );
     }
 
+    let resources: ResourceContext;
+    try {
+      resources = await loadResourceContext(resourceIds);
+    } catch (error) {
+      if (!(error instanceof ResourceContextError)) throw error;
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === "NOT_FOUND" ? 404 : error.code === "TOO_MANY" ? 400 : 502 }
+      );
+    }
+
     // Save user message
     const userMessageId = crypto.randomUUID();
     await db.insert(messages).values({
@@ -180,7 +199,7 @@ async function sendMessage(body: {
       sessionId,
       role: "user",
       content,
-      metadata: {},
+      metadata: resources.refs.length > 0 ? { resources: resources.refs } : {},
       isComplete: true,
     });
 
@@ -205,89 +224,103 @@ async function sendMessage(body: {
 
     // For non-streaming response (immediate execution)
     if (session.agent) {
-      // Build system prompt with context injection
-      const systemPrompt = contextInjector.buildSystemPrompt(
-        session.agent.systemPrompt
-      );
+      // Recent history; the new user message is added last, below
+      const { summary, history } = await loadSessionHistory(sessionId, userMessageId);
 
-      // Get message history
-      const messageHistory = await db.query.messages.findMany({
-        where: eq(messages.sessionId, sessionId),
-        orderBy: [desc(messages.createdAt)],
-        limit: 10,
+      // Fit context, history, and the message into the model's window
+      await contextInjector.ensureLoaded();
+      const prompt = await contextInjector.assemblePrompt({
+        basePrompt: session.agent.systemPrompt,
+        agentId: session.agent.id,
+        model: session.agent.modelPreference,
+        query: content,
+        conversation: [
+          ...history,
+          { role: "user", content: withResourceContext(content, resources) },
+        ],
+        summary,
+        tools: availableTools,
       });
 
-      const history = messageHistory
-        .reverse()
-        .map((m) => ({
-          role: m.role as "user" | "assistant" | "system" | "tool",
-          content: m.content,
-        }));
+      // The assistant row must exist before tool_calls rows reference it
+      await db.insert(messages).values({
+        id: assistantMessageId,
+        sessionId,
+        role: "assistant",
+        content: "",
+        agentId: session.agent.id,
+        metadata: {},
+        isComplete: false,
+      });
 
-      // Call LLM
-      const response = await unifiedGateway.complete({
+      // Call LLM, executing tool calls until it answers. Nobody sees an
+      // approval request on this path, so calls needing one are refused.
+      const loop = toolLoop.run({
         model: session.agent.modelPreference,
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...history,
-          { role: "user", content },
-        ],
+        fallbackModels: session.agent.modelFallbacks,
+        messages: prompt.messages,
         tools: availableTools.length > 0 ? availableTools : undefined,
         temperature: session.agent.temperature,
+        sessionId,
+        agentId: session.agent.id,
+        messageId: assistantMessageId,
+        approvals: "refuse",
       });
 
-      // Handle tool calls if any
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        for (const tc of response.toolCalls) {
-          // Find the tool
-          const tool = await db.query.mcpTools.findFirst({
-            where: eq(mcpTools.name, tc.name),
-          });
-
-          if (tool) {
-            // Create tool call record
-            const toolCallId = crypto.randomUUID();
-            await db.insert(toolCalls).values({
-              id: toolCallId,
-              messageId: assistantMessageId,
-              toolId: tool.id,
-              toolName: tc.name,
-              arguments: tc.arguments,
-              status: "pending",
-            });
-
-            // Queue tool execution
-            await addToolExecutionJob({
-              toolCallId,
-              serverId: tool.serverId,
-              toolName: tc.name,
-              arguments: tc.arguments,
-              sessionId,
-              messageId: assistantMessageId,
-              requestId: crypto.randomUUID(),
-            });
-          }
+      let response: ToolLoopResult;
+      try {
+        let next = await loop.next();
+        while (!next.done) {
+          next = await loop.next();
         }
+        response = next.value;
+      } catch (error) {
+        // Leave the placeholder row marked with the failure
+        await db
+          .update(messages)
+          .set({
+            metadata: {
+              error: {
+                code: error instanceof ToolLoopError ? error.code : "COMPLETION_ERROR",
+                message: error instanceof Error ? error.message : "Completion failed",
+              },
+            },
+            isComplete: true,
+          })
+          .where(eq(messages.id, assistantMessageId))
+          .catch(() => undefined);
+        throw error;
       }
+      const hasToolCalls = response.toolCalls.length > 0;
 
       // Save assistant message
-      await db.insert(messages).values({
-        id: assistantMessageId,
-        sessionId,
-        role: "assistant",
-        content: response.content,
-        agentId: session.agent.id,
-        metadata: {
-          provider: response.provider,
-          model: response.model,
-          hasToolCalls: response.toolCalls && response.toolCalls.length > 0,
-          toolCallIds: response.toolCalls?.map(() => crypto.randomUUID()),
-        },
-        promptTokens: response.usage.promptTokens,
-        completionTokens: response.usage.completionTokens,
-        totalTokens: response.usage.totalTokens,
-        isComplete: true,
-      });
+      await db
+        .update(messages)
+        .set({
+          content: response.content,
+          metadata: {
+            provider: response.provider,
+            model: response.model,
+            fallback: response.fallback && {
+              requestedModel: response.fallback.requestedModel,
+              reason: response.fallback.reason,
+            },
+            hasToolCalls,
+            toolCallIds: response.toolCalls.flatMap((tc) =>
+              tc.recordId ? [tc.recordId] : [],
+            ),
+            citations: prompt.citations.length > 0 ? prompt.citations : undefined,
+            promptBudget: prompt.budget,
+            custom: hasToolCalls
+              ? { toolSteps: response.steps, toolStepLimitReached: response.stepLimitReached }
+              : undefined,
+          },
+          promptTokens: response.usage.promptTokens,
+          completionTokens: response.usage.completionTokens,
+          totalTokens: response.usage.totalTokens,
+          isComplete: true,
+        })
+        .where(eq(messages.id, assistantMessageId));
 
       // Update session
       await db
@@ -308,14 +341,20 @@ async function sendMessage(body: {
         })
         .where(eq(agents.id, session.agent.id));
 
+      // Fold messages that left the history window into the session summary
+      requestSessionSummary(sessionId).catch((error) => {
+        console.error("[Chat API] Session summary failed:", error);
+      });
+
       return NextResponse.json({
         message: {
           id: assistantMessageId,
           content: response.content,
           role: "assistant",
-          hasToolCalls: response.toolCalls && response.toolCalls.length > 0,
+          hasToolCalls,
         },
         toolCalls: response.toolCalls,
+        steps: response.steps,
         usage: response.usage,
       });
     }
@@ -0,0 +1,100 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SESSION SUMMARY API - View and Edit a Session's Rolling Summary
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { chatSessions } from "@/lib/db/schema";
+import type { DbChatSession } from "@/lib/db/schema";
+import { updateSessionSummarySchema } from "@/lib/chat/payload";
+import type { SessionSummaryResponse } from "@/types/chat";
+
+interface RouteParams {
+  params: {
+    sessionId: string;
+  };
+}
+
+const summaryColumns = {
+  id: true,
+  summary: true,
+  summarizedThroughId: true,
+  summaryUpdatedAt: true,
+} as const;
+
+function toResponse(
+  session: Pick<DbChatSession, "id" | "summary" | "summarizedThroughId" | "summaryUpdatedAt">,
+): SessionSummaryResponse {
+  return {
+    sessionId: session.id,
+    summary: session.summary,
+    summarizedThroughId: session.summarizedThroughId,
+    summaryUpdatedAt: session.summaryUpdatedAt,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/chat/sessions/[sessionId]/summary - Current summary
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getDB().query.chatSessions.findFirst({
+      where: eq(chatSessions.id, params.sessionId),
+      columns: summaryColumns,
+    });
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toResponse(session));
+  } catch (error) {
+    console.error("[SESSION_SUMMARY_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to load summary" },
+      { status: 500 },
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUT /api/chat/sessions/[sessionId]/summary - Replace the summary
+// Messages already summarized stay summarized; later runs build on this text.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = updateSessionSummarySchema.parse(await request.json());
+
+    const [session] = await getDB()
+      .update(chatSessions)
+      .set({
+        summary: data.summary || null,
+        summaryUpdatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(chatSessions.id, params.sessionId))
+      .returning();
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toResponse(session));
+  } catch (error) {
+    console.error("[SESSION_SUMMARY_PUT]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update summary" },
+      { status: 500 },
+    );
+  }
+}
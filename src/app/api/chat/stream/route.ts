@@ -8,20 +8,22 @@
 import { NextRequest } from "next/server";
 import { v4 as uuidv4 } from "uuid";
 import { getDB } from "@/lib/db/client";
-import {
-  messages,
-  chatSessions,
-  agents,
-  toolCalls,
-  mcpTools,
-} from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { messages, chatSessions, agents } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
 import { unifiedGateway } from "@/lib/ai/unifiedGateway";
 import { contextInjector } from "@/lib/ai/contextInjector";
+import { loadSessionHistory, requestSessionSummary } from "@/lib/chat/summary";
+import {
+  loadResourceContext,
+  ResourceContextError,
+  withResourceContext,
+} from "@/lib/chat/resources";
+import type { ResourceContext } from "@/lib/chat/resources";
 import { addRecollection } from "@/lib/ai/vectorService";
+import { toolLoop, ToolLoopError } from "@/lib/ai/toolLoop";
 import { toolRegistry } from "@/lib/mcp/toolRegistry";
-import { addToolExecutionJob } from "@/lib/queue/queues";
-import type { GatewayStreamChunk } from "@/lib/ai/unifiedGateway";
+import { SwarmEngine } from "@/lib/swarm/SwarmEngine";
+import type { StreamChunk } from "@/types/chat";
 
 // ─── SSE Response Builder ────────────────────────────────────────────────────
 
@@ -57,12 +59,16 @@ function createSSEResponse(
   });
 }
 
+function formatSSE(chunk: StreamChunk): string {
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
 // ─── POST /api/chat/stream ───────────────────────────────────────────────────
 
 export async function POST(request: NextRequest) {
-  let body: { sessionId?: string; content?: string };
+  let body: { sessionId?: string; content?: string; resourceIds?: unknown };
   try {
-    body = (await request.json()) as { sessionId?: string; content?: string };
+    body = (await request.json()) as typeof body;
   } catch {
     return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
       status: 400,
@@ -86,6 +92,27 @@ export async function POST(request: NextRequest) {
     });
   }
 
+  const { resourceIds = [] } = body;
+  if (!Array.isArray(resourceIds) || !resourceIds.every((id) => typeof id === "string")) {
+    return new Response(JSON.stringify({ error: "resourceIds must be an array of ids" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Read attached resources up front so a failure is reported, not streamed
+  let resources: ResourceContext;
+  try {
+    resources = await loadResourceContext(resourceIds);
+  } catch (error) {
+    if (!(error instanceof ResourceContextError)) throw error;
+    console.error("[Stream] Resource context:", error.message);
+    return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+      status: error.code === "NOT_FOUND" ? 404 : error.code === "TOO_MANY" ? 400 : 502,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   const abortController = new AbortController();
 
   request.signal.addEventListener("abort", () => {
@@ -95,6 +122,7 @@ export async function POST(request: NextRequest) {
   const generator = streamConversation(
     sessionId,
     userMessage,
+    resources,
     abortController.signal,
   );
 
@@ -108,6 +136,7 @@ export async function POST(request: NextRequest) {
 async function* streamConversation(
   sessionId: string,
   userMessage: string,
+  resources: ResourceContext,
   signal: AbortSignal,
 ): AsyncGenerator<string> {
   const db = getDB();
@@ -119,6 +148,17 @@ async function* streamConversation(
       with: { agent: true },
     });
 
+    if (session?.swarmId) {
+      yield* streamSwarmConversation(
+        sessionId,
+        session.swarmId,
+        userMessage,
+        resources,
+        signal,
+      );
+      return;
+    }
+
     if (!session || !session.agent) {
       yield `data: ${JSON.stringify({
         type: "error",
@@ -136,157 +176,163 @@ async function* streamConversation(
       sessionId,
       role: "user",
       content: userMessage,
-      metadata: {},
+      metadata: resources.refs.length > 0 ? { resources: resources.refs } : {},
       isComplete: true,
-    });    const agentTools = await toolRegistry.getAgentTools(session.agent.id);
+    });
+
+    const agentTools = await toolRegistry.getAgentTools(session.agent.id);
     const availableTools = toolRegistry.convertToGatewayTools(agentTools);
 
-    await contextInjector.ensureLoaded();
-    const systemPrompt = await contextInjector.buildSystemPrompt(
-      session.agent.systemPrompt,
-      session.agent.id,
-      userMessage,
-    );
+    // Recent history; the new user message is added last, below
+    const { summary, history } = await loadSessionHistory(sessionId, userMessageId);
 
-    const messageHistory = await db.query.messages.findMany({
-      where: eq(messages.sessionId, sessionId),
-      orderBy: [desc(messages.createdAt)],
-      limit: 10,
+    await contextInjector.ensureLoaded();
+    const prompt = await contextInjector.assemblePrompt({
+      basePrompt: session.agent.systemPrompt,
+      agentId: session.agent.id,
+      model: session.agent.modelPreference,
+      query: userMessage,
+      conversation: [
+        ...history,
+        { role: "user", content: withResourceContext(userMessage, resources) },
+      ],
+      summary,
+      tools: availableTools,
     });
+    const { citations } = prompt;
 
-    const history = messageHistory.reverse().map((m) => ({
-      role: m.role as "user" | "assistant" | "system" | "tool",
-      content: m.content,
-    }));
-
-    yield `data: ${JSON.stringify({
+    yield formatSSE({
       type: "start",
       id: assistantMessageId,
       sessionId,
       messageId: assistantMessageId,
       timestamp: Date.now(),
-    })}\n\n`;
+    });
 
-    let fullContent = "";
-    const pendingToolCalls: { id: string; name: string; arguments: string }[] =
-      [];
+    // The assistant row must exist before tool_calls rows reference it
+    await db.insert(messages).values({
+      id: assistantMessageId,
+      sessionId,
+      role: "assistant",
+      content: "",
+      agentId: session.agent.id,
+      metadata: { streaming: true },
+      isComplete: false,
+    });
 
-    const stream = unifiedGateway.streamCompletion({
+    const loop = toolLoop.run({
       model: session.agent.modelPreference,
-      messages: [
-        { role: "system", content: systemPrompt },
-        ...history,
-        { role: "user", content: userMessage },
-      ],
+      fallbackModels: session.agent.modelFallbacks,
+      messages: prompt.messages,
       tools: availableTools.length > 0 ? availableTools : undefined,
       temperature: session.agent.temperature,
+      sessionId,
+      agentId: session.agent.id,
+      messageId: assistantMessageId,
+      stream: true,
       signal,
     });
 
-    for await (const chunk of stream) {
-      if (signal.aborted) break;
+    let next = await loop.next();
+    while (!next.done) {
+      const event = next.value;
 
-      switch (chunk.type) {
+      switch (event.type) {
         case "content":
-          if (chunk.content) {
-            fullContent += chunk.content;
-            yield `data: ${JSON.stringify({
-              type: "content",
-              id: assistantMessageId,
-              sessionId,
-              messageId: assistantMessageId,
-              content: chunk.content,
-              timestamp: Date.now(),
-            })}\n\n`;
-          }
+          yield formatSSE({
+            type: "content",
+            id: assistantMessageId,
+            sessionId,
+            messageId: assistantMessageId,
+            content: event.content,
+            timestamp: Date.now(),
+          });
           break;
 
         case "tool_call":
-          if (chunk.toolCall) {
-            pendingToolCalls.push({
-              id: chunk.toolCall.id,
-              name: chunk.toolCall.name,
-              arguments: chunk.toolCall.arguments,
-            });
-
-            yield `data: ${JSON.stringify({
-              type: "tool_call",
-              id: assistantMessageId,
-              sessionId,
-              messageId: assistantMessageId,
-              toolCall: {
-                id: chunk.toolCall.id,
-                toolName: chunk.toolCall.name,
-                arguments: chunk.toolCall.arguments,
-              },
-              timestamp: Date.now(),
-            })}\n\n`;
-
-            const tool = await db.query.mcpTools.findFirst({
-              where: eq(mcpTools.name, chunk.toolCall.name),
-            });
-
-            if (tool) {
-              const toolCallId = uuidv4();
-              let parsedArgs: Record<string, unknown> = {};
-              try {
-                parsedArgs = JSON.parse(
-                  chunk.toolCall.arguments || "{}",
-                ) as Record<string, unknown>;
-              } catch {
-                parsedArgs = {};
-              }
-
-              await db.insert(toolCalls).values({
-                id: toolCallId,
-                messageId: assistantMessageId,
-                toolId: tool.id,
-                toolName: chunk.toolCall.name,
-                arguments: parsedArgs,
-                status: "pending",
-              });
-
-              await addToolExecutionJob({
-                toolCallId,
-                serverId: tool.serverId,
-                toolName: chunk.toolCall.name,
-                arguments: parsedArgs,
-                sessionId,
-                messageId: assistantMessageId,
-                requestId: uuidv4(),
-              });
-            }
-          }
+          yield formatSSE({
+            type: "tool_call",
+            id: assistantMessageId,
+            sessionId,
+            messageId: assistantMessageId,
+            toolCall: {
+              id: event.toolCall.id,
+              toolName: event.toolCall.name,
+              arguments: event.toolCall.arguments,
+            },
+            timestamp: Date.now(),
+          });
           break;
 
-        case "error":
-          yield `data: ${JSON.stringify({
-            type: "error",
+        case "approval_required":
+          yield formatSSE({
+            type: "approval_required",
             id: assistantMessageId,
             sessionId,
             messageId: assistantMessageId,
-            error: chunk.error ?? { code: "UNKNOWN", message: "Unknown error" },
+            approval: {
+              toolCallId: event.recordId,
+              modelToolCallId: event.toolCallId,
+              toolName: event.name,
+              arguments: event.arguments,
+              expiresAt: event.expiresAt,
+            },
             timestamp: Date.now(),
-          })}\n\n`;
-          return;
+          });
+          break;
 
-        case "done":
+        case "tool_result":
+          yield formatSSE({
+            type: "tool_result",
+            id: assistantMessageId,
+            sessionId,
+            messageId: assistantMessageId,
+            toolResult: {
+              toolCallId: event.toolCallId,
+              result: event.result,
+              error: event.error,
+              errorCode: event.errorCode,
+            },
+            timestamp: Date.now(),
+          });
           break;
       }
+
+      next = await loop.next();
     }
 
-    await db.insert(messages).values({
-      id: assistantMessageId,
-      sessionId,
-      role: "assistant",
-      content: fullContent,
-      agentId: session.agent.id,
-      metadata: {
-        hasToolCalls: pendingToolCalls.length > 0,
-        toolCallIds: pendingToolCalls.map((tc) => tc.id),
-      },
-      isComplete: true,
-    });
+    const result = next.value;
+    const fullContent = result.content;
+    const recordIds = result.toolCalls.flatMap((tc) =>
+      tc.recordId ? [tc.recordId] : [],
+    );
+
+    await db
+      .update(messages)
+      .set({
+        content: fullContent,
+        metadata: {
+          provider: result.provider,
+          model: result.model,
+          fallback: result.fallback && {
+            requestedModel: result.fallback.requestedModel,
+            reason: result.fallback.reason,
+          },
+          hasToolCalls: result.toolCalls.length > 0,
+          toolCallIds: recordIds,
+          citations: citations.length > 0 ? citations : undefined,
+          promptBudget: prompt.budget,
+          custom:
+            result.steps > 0
+              ? { toolSteps: result.steps, toolStepLimitReached: result.stepLimitReached }
+              : undefined,
+        },
+        promptTokens: result.usage.promptTokens,
+        completionTokens: result.usage.completionTokens,
+        totalTokens: result.usage.totalTokens,
+        isComplete: true,
+      })
+      .where(eq(messages.id, assistantMessageId));
 
     await db
       .update(chatSessions)
@@ -314,26 +360,210 @@ async function* streamConversation(
       }).catch(console.error);
     }
 
-    yield `data: ${JSON.stringify({
+    requestSessionSummary(sessionId).catch((error) => {
+      console.error("[Stream] Session summary failed:", error);
+    });
+
+    yield formatSSE({
       type: "complete",
       id: assistantMessageId,
       sessionId,
       messageId: assistantMessageId,
+      metadata: {
+        model: result.model,
+        provider: result.provider,
+        citations: citations.length > 0 ? citations : undefined,
+        promptBudget: prompt.budget,
+        tokens: {
+          prompt: result.usage.promptTokens,
+          completion: result.usage.completionTokens,
+          total: result.usage.totalTokens,
+        },
+      },
       timestamp: Date.now(),
-    })}\n\n`;
+    });
   } catch (error) {
-    console.error("[Stream] Error:", error);
+    const streamError = {
+      code: error instanceof ToolLoopError ? error.code : "STREAM_ERROR",
+      message: error instanceof Error ? error.message : "Stream failed",
+    };
+    if (streamError.code !== "ABORTED") {
+      console.error("[Stream] Error:", error);
+    }
 
-    yield `data: ${JSON.stringify({
+    // Leave the placeholder row (if any) marked with the failure
+    await db
+      .update(messages)
+      .set({ metadata: { error: streamError }, isComplete: true })
+      .where(eq(messages.id, assistantMessageId))
+      .catch(() => undefined);
+
+    // Nobody is listening for an error chunk after a disconnect
+    if (streamError.code === "ABORTED") return;
+
+    yield formatSSE({
       type: "error",
       id: assistantMessageId,
       sessionId,
       messageId: assistantMessageId,
-      error: {
-        code: "STREAM_ERROR",
-        message: error instanceof Error ? error.message : "Stream failed",
-      },
+      error: streamError,
       timestamp: Date.now(),
-    })}\n\n`;
+    });
+  }
+}
+
+// ─── Swarm Stream Generator ──────────────────────────────────────────────────
+
+/**
+ * Drive a swarm-backed session. Each agent turn is streamed as its own
+ * start → content → complete sequence, with a handoff chunk in between.
+ */
+async function* streamSwarmConversation(
+  sessionId: string,
+  swarmId: string,
+  userMessage: string,
+  resources: ResourceContext,
+  signal: AbortSignal,
+): AsyncGenerator<string> {
+  const engine = await SwarmEngine.load(swarmId);
+  const run = engine.run({
+    executionId: uuidv4(),
+    sessionId,
+    userMessage,
+    resources,
+    stream: true,
+    signal,
+  });
+
+  let lastMessageId = uuidv4();
+  let next = await run.next();
+
+  while (!next.done) {
+    const event = next.value;
+
+    switch (event.type) {
+      case "turn_start":
+        lastMessageId = event.messageId;
+        yield formatSSE({
+          type: "start",
+          id: event.messageId,
+          sessionId,
+          messageId: event.messageId,
+          agent: { id: event.agentId, name: event.agentName },
+          metadata: { model: event.model },
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "content":
+        yield formatSSE({
+          type: "content",
+          id: event.messageId,
+          sessionId,
+          messageId: event.messageId,
+          content: event.content,
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "tool_call":
+        yield formatSSE({
+          type: "tool_call",
+          id: event.messageId,
+          sessionId,
+          messageId: event.messageId,
+          toolCall: {
+            id: event.toolCall.id,
+            toolName: event.toolCall.name,
+            arguments: event.toolCall.arguments,
+          },
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "approval_required":
+        yield formatSSE({
+          type: "approval_required",
+          id: event.messageId,
+          sessionId,
+          messageId: event.messageId,
+          approval: {
+            toolCallId: event.recordId,
+            modelToolCallId: event.toolCallId,
+            toolName: event.name,
+            arguments: event.arguments,
+            expiresAt: event.expiresAt,
+          },
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "tool_result":
+        yield formatSSE({
+          type: "tool_result",
+          id: event.messageId,
+          sessionId,
+          messageId: event.messageId,
+          toolResult: {
+            toolCallId: event.toolCallId,
+            result: event.result,
+            error: event.error,
+            errorCode: event.errorCode,
+          },
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "turn_complete":
+        yield formatSSE({
+          type: "complete",
+          id: event.message.id,
+          sessionId,
+          messageId: event.message.id,
+          metadata: {
+            model: event.message.metadata.model,
+            provider: event.message.metadata.provider,
+            promptBudget: event.message.metadata.promptBudget,
+            tokens: {
+              prompt: event.message.promptTokens ?? 0,
+              completion: event.message.completionTokens ?? 0,
+              total: event.message.totalTokens ?? 0,
+            },
+          },
+          timestamp: Date.now(),
+        });
+        break;
+
+      case "handoff":
+        yield formatSSE({
+          type: "handoff",
+          id: lastMessageId,
+          sessionId,
+          messageId: lastMessageId,
+          handoff: {
+            fromAgentId: event.handoff.fromAgentId,
+            toAgentId: event.handoff.toAgentId,
+            fromAgentName: event.handoff.fromAgentName,
+            toAgentName: event.handoff.toAgentName,
+            reason: event.handoff.reason,
+          },
+          timestamp: Date.now(),
+        });
+        break;
+    }
+
+    next = await run.next();
+  }
+
+  const error = engine.getExecution().error;
+  if (!next.value.success && error && !signal.aborted) {
+    yield formatSSE({
+      type: "error",
+      id: lastMessageId,
+      sessionId,
+      messageId: lastMessageId,
+      error: { code: error.code, message: error.message },
+      timestamp: Date.now(),
+    });
   }
 }
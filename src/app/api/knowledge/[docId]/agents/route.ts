@@ -0,0 +1,82 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE DOC AGENTS API - Attach a document to agents
+// PUT /api/knowledge/[docId]/agents → Replace the set of agents using the doc
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, inArray, notInArray } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agentKnowledge, agents, knowledgeDocs } from "@/lib/db/schema";
+import { setDocAgentsSchema } from "@/lib/knowledge/payload";
+
+interface RouteParams {
+  params: {
+    docId: string;
+  };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { docId } = params;
+    const db = getDB();
+    const { agentIds } = setDocAgentsSchema.parse(await request.json());
+
+    const doc = await db.query.knowledgeDocs.findFirst({
+      where: eq(knowledgeDocs.id, docId),
+      with: { agentLinks: true },
+    });
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const wanted = [...new Set(agentIds)];
+    const found =
+      wanted.length > 0
+        ? await db.query.agents.findMany({ where: inArray(agents.id, wanted) })
+        : [];
+    if (found.length !== wanted.length) {
+      const foundIds = new Set(found.map((a) => a.id));
+      return NextResponse.json(
+        {
+          error: "Agent not found",
+          details: wanted.filter((id) => !foundIds.has(id)),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Keep existing links (and their relevance scores) for agents still selected
+    await db
+      .delete(agentKnowledge)
+      .where(
+        wanted.length > 0
+          ? and(eq(agentKnowledge.docId, docId), notInArray(agentKnowledge.agentId, wanted))
+          : eq(agentKnowledge.docId, docId),
+      );
+
+    const linked = new Set(doc.agentLinks.map((link) => link.agentId));
+    const added = wanted.filter((agentId) => !linked.has(agentId));
+    if (added.length > 0) {
+      await db
+        .insert(agentKnowledge)
+        .values(added.map((agentId) => ({ agentId, docId })));
+    }
+
+    return NextResponse.json({ agentIds: wanted });
+  } catch (error) {
+    console.error("[KNOWLEDGE_DOC_AGENTS_PUT]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update document agents" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,155 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE DOC API - Get, Re-index, Delete a specific document
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { knowledgeDocs } from "@/lib/db/schema";
+import {
+  removeKnowledgeArtifacts,
+  scheduleKnowledgeIndexing,
+} from "@/lib/knowledge/indexing";
+import { reindexDocSchema } from "@/lib/knowledge/payload";
+import type { KnowledgeDocWithAgents } from "@/types/tool";
+
+interface RouteParams {
+  params: {
+    docId: string;
+  };
+}
+
+async function loadDoc(docId: string): Promise<KnowledgeDocWithAgents | null> {
+  const doc = await getDB().query.knowledgeDocs.findFirst({
+    where: eq(knowledgeDocs.id, docId),
+    with: { agentLinks: true },
+  });
+  if (!doc) return null;
+
+  const { agentLinks, ...rest } = doc;
+  return { ...rest, agentIds: agentLinks.map((link) => link.agentId) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/knowledge/[docId] - Get document details
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const doc = await loadDoc(params.docId);
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ doc });
+  } catch (error) {
+    console.error("[KNOWLEDGE_DOC_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to get document" },
+      { status: 500 },
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATCH /api/knowledge/[docId] - Re-index with new chunk settings
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { docId } = params;
+    const db = getDB();
+    const data = reindexDocSchema.parse(await request.json());
+
+    const existing = await db.query.knowledgeDocs.findFirst({
+      where: eq(knowledgeDocs.id, docId),
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    if (existing.status === "indexing") {
+      return NextResponse.json(
+        { error: "Document is already being indexed" },
+        { status: 409 },
+      );
+    }
+
+    const chunkSize = data.chunkSize ?? existing.chunkSize ?? 1000;
+    const chunkOverlap = data.chunkOverlap ?? existing.chunkOverlap ?? 200;
+    if (chunkOverlap >= chunkSize) {
+      return NextResponse.json(
+        { error: "chunkOverlap must be smaller than chunkSize" },
+        { status: 400 },
+      );
+    }
+
+    await db
+      .update(knowledgeDocs)
+      .set({
+        chunkSize,
+        chunkOverlap,
+        status: "pending",
+        errorMessage: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(knowledgeDocs.id, docId));
+
+    await scheduleKnowledgeIndexing({
+      docId,
+      ownerId: existing.ownerId,
+      filePath: existing.storagePath,
+      fileType: existing.fileType,
+      chunkSize,
+      chunkOverlap,
+    });
+
+    return NextResponse.json({ doc: await loadDoc(docId) }, { status: 202 });
+  } catch (error) {
+    console.error("[KNOWLEDGE_DOC_PATCH]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to re-index document" },
+      { status: 500 },
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DELETE /api/knowledge/[docId] - Delete document, vectors, and file
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { docId } = params;
+    const db = getDB();
+
+    const existing = await db.query.knowledgeDocs.findFirst({
+      where: eq(knowledgeDocs.id, docId),
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    await removeKnowledgeArtifacts(existing);
+
+    // Cascades to agent_knowledge
+    await db.delete(knowledgeDocs).where(eq(knowledgeDocs.id, docId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[KNOWLEDGE_DOC_DELETE]", error);
+    return NextResponse.json(
+      { error: "Failed to delete document" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,180 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE API — Document Upload and Indexing
+// GET  /api/knowledge → List documents with their linked agents
+// POST /api/knowledge → Upload a document (multipart) and queue it for indexing
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { knowledgeDocs } from "@/lib/db/schema";
+import { scheduleKnowledgeIndexing } from "@/lib/knowledge/indexing";
+import { uploadOptionsSchema } from "@/lib/knowledge/payload";
+import {
+  KNOWLEDGE_MAX_FILE_BYTES,
+  KNOWLEDGE_MIME_TYPES,
+  hashContent,
+  resolveKnowledgeFileKind,
+  storeKnowledgeFile,
+} from "@/lib/knowledge/ingestion";
+import type { KnowledgeDocWithAgents, UploadKnowledgeDocResponse } from "@/types/tool";
+
+// ─── GET /api/knowledge ──────────────────────────────────────────────────────
+
+export async function GET() {
+  try {
+    const db = getDB();
+
+    const userProfile = await db.query.userProfiles.findFirst();
+    if (!userProfile) {
+      return NextResponse.json({ docs: [] });
+    }
+
+    const rows = await db.query.knowledgeDocs.findMany({
+      where: eq(knowledgeDocs.ownerId, userProfile.id),
+      orderBy: [desc(knowledgeDocs.createdAt)],
+      with: { agentLinks: true },
+    });
+
+    const docs: KnowledgeDocWithAgents[] = rows.map(({ agentLinks, ...doc }) => ({
+      ...doc,
+      agentIds: agentLinks.map((link) => link.agentId),
+    }));
+
+    return NextResponse.json({ docs });
+  } catch (error) {
+    console.error("[KNOWLEDGE_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch documents" },
+      { status: 500 },
+    );
+  }
+}
+
+// ─── POST /api/knowledge ─────────────────────────────────────────────────────
+
+export async function POST(request: NextRequest) {
+  try {
+    const db = getDB();
+    const formData = await request.formData();
+
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required" },
+        { status: 400 },
+      );
+    }
+
+    const options = uploadOptionsSchema.parse({
+      chunkSize: formData.get("chunkSize") ?? undefined,
+      chunkOverlap: formData.get("chunkOverlap") ?? undefined,
+    });
+
+    const kind = resolveKnowledgeFileKind(file.name, file.type);
+    if (!kind) {
+      return NextResponse.json(
+        {
+          error:
+            "Unsupported file type. Upload plain text, Markdown, HTML, PDF, or DOCX.",
+        },
+        { status: 415 },
+      );
+    }
+
+    if (file.size === 0) {
+      return NextResponse.json({ error: "File is empty" }, { status: 400 });
+    }
+    if (file.size > KNOWLEDGE_MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `File exceeds the ${KNOWLEDGE_MAX_FILE_BYTES} byte limit` },
+        { status: 413 },
+      );
+    }
+
+    const userProfile = await db.query.userProfiles.findFirst();
+    if (!userProfile) {
+      return NextResponse.json(
+        { error: "No user profile found. Please complete onboarding first." },
+        { status: 400 },
+      );
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const contentHash = hashContent(content);
+
+    const existing = await db.query.knowledgeDocs.findFirst({
+      where: and(
+        eq(knowledgeDocs.ownerId, userProfile.id),
+        eq(knowledgeDocs.contentHash, contentHash),
+      ),
+    });
+    if (existing) {
+      const response: UploadKnowledgeDocResponse = {
+        doc: existing,
+        duplicate: true,
+      };
+      return NextResponse.json(response);
+    }
+
+    const docId = uuidv4();
+    const { filename, storagePath } = await storeKnowledgeFile(
+      userProfile.id,
+      docId,
+      file.name,
+      content,
+    );
+
+    const [doc] = await db
+      .insert(knowledgeDocs)
+      .values({
+        id: docId,
+        ownerId: userProfile.id,
+        filename,
+        originalName: file.name,
+        fileType: KNOWLEDGE_MIME_TYPES[kind],
+        fileSize: file.size,
+        contentHash,
+        storagePath,
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+        status: "pending",
+      })
+      .returning();
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Failed to save document" },
+        { status: 500 },
+      );
+    }
+
+    await scheduleKnowledgeIndexing({
+      docId,
+      ownerId: userProfile.id,
+      filePath: storagePath,
+      fileType: doc.fileType,
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+    });
+
+    const response: UploadKnowledgeDocResponse = { doc, duplicate: false };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[KNOWLEDGE_POST]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to upload document" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE SEARCH API - Test Retrieval Against Indexed Documents
+// POST /api/knowledge/search → Chunks a query would retrieve, with scores
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { searchKnowledgeDocs } from "@/lib/knowledge/retrieval";
+import { knowledgeSearchSchema } from "@/lib/knowledge/payload";
+
+export async function POST(request: NextRequest) {
+  try {
+    const data = knowledgeSearchSchema.parse(await request.json());
+
+    const userProfile = await getDB().query.userProfiles.findFirst();
+    if (!userProfile) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const results = await searchKnowledgeDocs({
+      ownerId: userProfile.id,
+      query: data.query,
+      docIds: data.docIds,
+      nResults: data.nResults,
+      rerank: data.rerank,
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("[KNOWLEDGE_SEARCH]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to search knowledge" },
+      { status: 500 },
+    );
+  }
+}
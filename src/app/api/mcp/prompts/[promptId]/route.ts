@@ -0,0 +1,74 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP PROMPT API - Expand a prompt template on its server
+// POST /api/mcp/prompts/[promptId] → Messages the template produces
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { mcpPrompts } from "@/lib/db/schema";
+import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
+import { getMCPPromptSchema } from "@/lib/mcp/payload";
+
+interface RouteParams {
+  params: {
+    promptId: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDB();
+    const data = getMCPPromptSchema.parse(await request.json());
+
+    const prompt = await db.query.mcpPrompts.findFirst({
+      where: eq(mcpPrompts.id, params.promptId),
+    });
+    if (!prompt) {
+      return NextResponse.json({ error: "Prompt not found" }, { status: 404 });
+    }
+
+    const missing = prompt.arguments
+      .filter((arg) => arg.required && !data.arguments[arg.name])
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required arguments: ${missing.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const result = await mcpServerManager.getPrompt(
+        prompt.serverId,
+        prompt.name,
+        data.arguments,
+      );
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("[MCP_PROMPT_POST]", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error ? error.message : "The server could not run the prompt",
+        },
+        { status: 502 },
+      );
+    }
+  } catch (error) {
+    console.error("[MCP_PROMPT_POST]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to run prompt" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP PROMPTS API - Prompt templates synced from connected servers
+// GET /api/mcp/prompts → All prompts of enabled servers, or of one server
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { mcpPrompts } from "@/lib/db/schema";
+import { listMCPCatalogQuerySchema } from "@/lib/mcp/payload";
+import type { MCPPromptListResponse } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = getDB();
+    const { serverId } = listMCPCatalogQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    const rows = await db.query.mcpPrompts.findMany({
+      where: serverId ? eq(mcpPrompts.serverId, serverId) : undefined,
+      with: { server: { columns: { name: true, isEnabled: true } } },
+      orderBy: [asc(mcpPrompts.name)],
+    });
+
+    const response: MCPPromptListResponse = {
+      prompts: rows
+        .filter((row) => row.server.isEnabled)
+        .map(({ server, ...prompt }) => ({ ...prompt, serverName: server.name })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[MCP_PROMPTS_GET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list prompts" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP RESOURCE API - Read a resource from its server
+// GET /api/mcp/resources/[resourceId] → Resource and its current contents
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { mcpResources } from "@/lib/db/schema";
+import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
+import type { MCPResourceReadResponse } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    resourceId: string;
+  };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDB();
+    const resource = await db.query.mcpResources.findFirst({
+      where: eq(mcpResources.id, params.resourceId),
+    });
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 });
+    }
+
+    try {
+      const contents = await mcpServerManager.readResource(resource.serverId, resource.uri);
+      const response: MCPResourceReadResponse = { resource, contents };
+      return NextResponse.json(response);
+    } catch (error) {
+      console.error("[MCP_RESOURCE_GET]", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error ? error.message : "The server could not read the resource",
+        },
+        { status: 502 },
+      );
+    }
+  } catch (error) {
+    console.error("[MCP_RESOURCE_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to read resource" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP RESOURCE UPDATES API - Server-Sent Events when a resource changes
+// GET /api/mcp/resources/[resourceId]/updates
+//
+// Subscribes to the resource on its server for as long as the stream is
+// open. Each change is sent as an MCPResourceUpdateEvent; read the resource
+// again to get the new contents.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { mcpResources } from "@/lib/db/schema";
+import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
+import type { MCPResourceUpdateEvent } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+/** Comment line sent periodically so proxies keep the stream open */
+const KEEPALIVE_MS = 25000;
+
+interface RouteParams {
+  params: {
+    resourceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const db = getDB();
+  const resource = await db.query.mcpResources.findFirst({
+    where: eq(mcpResources.id, params.resourceId),
+  });
+  if (!resource) {
+    return NextResponse.json({ error: "Resource not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => Promise<void>) | null = null;
+  let keepalive: NodeJS.Timeout | null = null;
+
+  const close = () => {
+    if (keepalive) clearInterval(keepalive);
+    keepalive = null;
+    void unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          close();
+        }
+      };
+
+      try {
+        unsubscribe = await mcpServerManager.subscribeResource(
+          resource.serverId,
+          resource.uri,
+          (uri) => {
+            const event: MCPResourceUpdateEvent = {
+              resourceId: resource.id,
+              uri,
+              updatedAt: Date.now(),
+            };
+            send(`data: ${JSON.stringify(event)}\n\n`);
+          },
+        );
+      } catch (error) {
+        console.error("[MCP_RESOURCE_UPDATES]", error);
+        controller.error(error);
+        return;
+      }
+
+      // The client may have left while subscribing
+      if (request.signal.aborted) {
+        close();
+        return;
+      }
+
+      keepalive = setInterval(() => send(": keepalive\n\n"), KEEPALIVE_MS);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  request.signal.addEventListener("abort", close);
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
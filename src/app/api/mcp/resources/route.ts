@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP RESOURCES API - Resources synced from connected servers
+// GET /api/mcp/resources → All resources of enabled servers, or of one server
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { mcpResources } from "@/lib/db/schema";
+import { listMCPCatalogQuerySchema } from "@/lib/mcp/payload";
+import type { MCPResourceListResponse } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = getDB();
+    const { serverId } = listMCPCatalogQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    const rows = await db.query.mcpResources.findMany({
+      where: serverId ? eq(mcpResources.serverId, serverId) : undefined,
+      with: { server: { columns: { name: true, isEnabled: true } } },
+      orderBy: [asc(mcpResources.name)],
+    });
+
+    const response: MCPResourceListResponse = {
+      resources: rows
+        .filter((row) => row.server.isEnabled)
+        .map(({ server, ...resource }) => ({ ...resource, serverName: server.name })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[MCP_RESOURCES_GET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list resources" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP SERVER EVENTS API - Connection history from the health monitor
+// GET /api/mcp/servers/[serverId]/events → Recent connection events, newest first
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { mcpServers } from "@/lib/db/schema";
+import { listConnectionEvents } from "@/lib/mcp/connectionEvents";
+import type { MCPConnectionEventListResponse } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    serverId: string;
+  };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDB();
+    const server = await db.query.mcpServers.findFirst({
+      where: eq(mcpServers.id, params.serverId),
+    });
+    if (!server) {
+      return NextResponse.json({ error: "Server not found" }, { status: 404 });
+    }
+
+    const events = await listConnectionEvents(server.id);
+    const response: MCPConnectionEventListResponse = { events };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[MCP_SERVER_EVENTS_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to list connection events" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SEARCH API - Hybrid Search over Knowledge and Recollections
+// POST /api/search → BM25 + vector results fused with reciprocal rank fusion
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import { searchRecollectionMatches } from "@/lib/ai/vectorService";
+import { searchAgentKnowledge, searchKnowledgeDocs } from "@/lib/knowledge/retrieval";
+import type { HybridSearchResponse } from "@/types/tool";
+
+const searchSchema = z.object({
+  query: z.string().min(1).max(2000),
+  agentId: z.string().min(1).optional(),
+  scope: z.enum(["all", "knowledge", "recollections"]).default("all"),
+  nResults: z.number().int().min(1).max(50).default(5),
+  rerank: z.boolean().default(true),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const db = getDB();
+    const { query, agentId, scope, nResults, rerank } = searchSchema.parse(
+      await request.json(),
+    );
+
+    if (agentId) {
+      const agent = await db.query.agents.findFirst({
+        where: eq(agents.id, agentId),
+      });
+      if (!agent) {
+        return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+      }
+    } else if (scope === "recollections") {
+      return NextResponse.json(
+        { error: "agentId is required to search recollections" },
+        { status: 400 },
+      );
+    }
+
+    const response: HybridSearchResponse = { knowledge: [], recollections: [] };
+
+    if (scope !== "recollections") {
+      if (agentId) {
+        response.knowledge = await searchAgentKnowledge({
+          agentId,
+          query,
+          nResults,
+          rerank,
+        });
+      } else {
+        const userProfile = await db.query.userProfiles.findFirst();
+        response.knowledge = userProfile
+          ? await searchKnowledgeDocs({
+              ownerId: userProfile.id,
+              query,
+              nResults,
+              rerank,
+            })
+          : [];
+      }
+    }
+
+    if (scope !== "knowledge" && agentId) {
+      response.recollections = await searchRecollectionMatches({
+        agentId,
+        query,
+        nResults,
+        rerank,
+      });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[SEARCH_POST]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM EXECUTE API — Queue a swarm run for the swarm worker
+// POST /api/swarms/[swarmId]/execute
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDB } from "@/lib/db/client";
+import { chatSessions, swarmDefs } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { addSwarmExecutionJob } from "@/lib/queue/queues";
+import { SwarmGraph, validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import { executeSwarmSchema } from "@/lib/swarm/payload";
+import type { ExecuteSwarmResponse } from "@/types/swarm";
+
+interface RouteParams {
+  params: {
+    swarmId: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId } = params;
+    const body = await request.json();
+    const data = executeSwarmSchema.parse(body);
+
+    const db = getDB();
+
+    const swarm = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+    });
+
+    if (!swarm) {
+      return NextResponse.json(
+        { error: "Swarm not found" },
+        { status: 404 },
+      );
+    }
+
+    const errors = validateSwarmGraph(swarm.graphJson, swarm.entryAgentId);
+    const entryAgentId = new SwarmGraph(
+      swarm.graphJson,
+      swarm.entryAgentId,
+    ).getEntryAgentId();
+
+    if (errors.length > 0 || !entryAgentId) {
+      return NextResponse.json(
+        { error: "Swarm graph is invalid", details: errors },
+        { status: 400 },
+      );
+    }
+
+    // Reuse the caller's session, or open a fresh one bound to this swarm
+    let sessionId = data.sessionId;
+    if (sessionId) {
+      const session = await db.query.chatSessions.findFirst({
+        where: eq(chatSessions.id, sessionId),
+      });
+
+      if (!session) {
+        return NextResponse.json(
+          { error: "Session not found" },
+          { status: 404 },
+        );
+      }
+
+      if (session.swarmId !== swarmId) {
+        return NextResponse.json(
+          { error: "Session does not belong to this swarm" },
+          { status: 400 },
+        );
+      }
+    } else {
+      const [session] = await db
+        .insert(chatSessions)
+        .values({
+          ownerId: swarm.ownerId,
+          swarmId,
+          title: swarm.name,
+        })
+        .returning();
+
+      if (!session) {
+        return NextResponse.json(
+          { error: "Failed to create session" },
+          { status: 500 },
+        );
+      }
+      sessionId = session.id;
+    }
+
+    const executionId = uuidv4();
+    const jobId = await addSwarmExecutionJob({
+      swarmId,
+      sessionId,
+      userMessage: data.content,
+      entryAgentId,
+      executionId,
+      maxIterations: swarm.maxIterations,
+    });
+
+    const response: ExecuteSwarmResponse = { executionId, sessionId, jobId };
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    console.error("[SWARMS_EXECUTE]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to execute swarm" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,211 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM DETAIL API - Get, Update, Delete specific swarm
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDB } from "@/lib/db/client";
+import { agents, swarmDefs } from "@/lib/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import {
+  buildGraphNodes,
+  flattenHandoffRules,
+  loadAgentNames,
+  updateSwarmSchema,
+} from "@/lib/swarm/payload";
+
+interface RouteParams {
+  params: {
+    swarmId: string;
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GET /api/swarms/[swarmId] - Get swarm details
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId } = params;
+    const db = getDB();
+
+    const swarm = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+      with: {
+        entryAgent: true,
+      },
+    });
+
+    if (!swarm) {
+      return NextResponse.json(
+        { error: "Swarm not found" },
+        { status: 404 }
+      );
+    }
+
+    const agentIds = swarm.graphJson.map((node) => node.agentId);
+    const swarmAgents =
+      agentIds.length > 0
+        ? await db.query.agents.findMany({
+            where: inArray(agents.id, agentIds),
+          })
+        : [];
+
+    // Agents may have been deleted since the swarm was saved
+    const existingIds = new Set(swarmAgents.map((a) => a.id));
+    const validationErrors = validateSwarmGraph(
+      swarm.graphJson,
+      swarm.entryAgentId
+    );
+    for (const node of swarm.graphJson) {
+      if (!existingIds.has(node.agentId)) {
+        validationErrors.push(`Agent "${node.agentName}" no longer exists`);
+      }
+    }
+
+    return NextResponse.json({
+      swarm: { ...swarm, agents: swarmAgents },
+      validationErrors,
+    });
+  } catch (error) {
+    console.error("[Swarm Detail API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to get swarm" },
+      { status: 500 }
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATCH /api/swarms/[swarmId] - Update swarm
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId } = params;
+    const body = updateSwarmSchema.parse(await request.json());
+
+    const db = getDB();
+
+    // Check if swarm exists
+    const existing = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Swarm not found" },
+        { status: 404 }
+      );
+    }
+
+    // Build update object
+    const updates: Partial<typeof swarmDefs.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.description !== undefined) updates.description = body.description;
+    if (body.maxIterations !== undefined) updates.maxIterations = body.maxIterations;
+    if (body.autoStart !== undefined) updates.autoStart = body.autoStart;
+
+    // Any graph-related field means the graph is rebuilt and re-validated
+    const touchesGraph =
+      body.agentIds !== undefined ||
+      body.handoffRules !== undefined ||
+      body.positions !== undefined ||
+      body.entryAgentId !== undefined;
+
+    if (touchesGraph) {
+      const agentIds =
+        body.agentIds ?? existing.graphJson.map((node) => node.agentId);
+      const handoffRules =
+        body.handoffRules ?? flattenHandoffRules(existing.graphJson);
+      const entryAgentId = body.entryAgentId ?? existing.entryAgentId;
+
+      const agentNames = await loadAgentNames([
+        ...agentIds,
+        ...handoffRules.map((rule) => rule.toAgentId),
+      ]);
+
+      const { nodes, errors } = buildGraphNodes(
+        { agentIds, handoffRules, positions: body.positions },
+        agentNames,
+        existing.graphJson
+      );
+      errors.push(...validateSwarmGraph(nodes, entryAgentId));
+
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: "Invalid swarm graph", details: errors },
+          { status: 400 }
+        );
+      }
+
+      updates.graphJson = nodes;
+      updates.entryAgentId = entryAgentId;
+    }
+
+    await db
+      .update(swarmDefs)
+      .set(updates)
+      .where(eq(swarmDefs.id, swarmId));
+
+    const swarm = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+      with: {
+        entryAgent: true,
+      },
+    });
+
+    return NextResponse.json({ swarm });
+  } catch (error) {
+    console.error("[Swarm Detail API] Error updating swarm:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update swarm" },
+      { status: 500 }
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DELETE /api/swarms/[swarmId] - Delete swarm
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId } = params;
+    const db = getDB();
+
+    const existing = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Swarm not found" },
+        { status: 404 }
+      );
+    }
+
+    // Sessions keep their messages; chat_sessions.swarm_id is set to null
+    await db.delete(swarmDefs).where(eq(swarmDefs.id, swarmId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Swarm Detail API] Error deleting swarm:", error);
+    return NextResponse.json(
+      { error: "Failed to delete swarm" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM RUN DETAIL API — One Run with the Messages It Produced
+// GET /api/swarms/[swarmId]/runs/[runId]
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDB } from "@/lib/db/client";
+import { messages, swarmRuns } from "@/lib/db/schema";
+import { and, asc, eq, sql } from "drizzle-orm";
+
+interface RouteParams {
+  params: {
+    swarmId: string;
+    runId: string;
+  };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId, runId } = params;
+    const db = getDB();
+
+    const run = await db.query.swarmRuns.findFirst({
+      where: and(eq(swarmRuns.id, runId), eq(swarmRuns.swarmId, swarmId)),
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Run not found" },
+        { status: 404 },
+      );
+    }
+
+    // Assistant turns are tagged with the execution ID by the SwarmEngine
+    const runMessages = run.sessionId
+      ? await db.query.messages.findMany({
+          where: and(
+            eq(messages.sessionId, run.sessionId),
+            eq(
+              sql`json_extract(${messages.metadata}, '$.custom.swarmExecutionId')`,
+              runId,
+            ),
+          ),
+          orderBy: [asc(messages.createdAt)],
+        })
+      : [];
+
+    return NextResponse.json({ run, messages: runMessages });
+  } catch (error) {
+    console.error("[SWARM_RUN_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch swarm run" },
+      { status: 500 },
+    );
+  }
+}
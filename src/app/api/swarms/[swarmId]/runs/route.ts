@@ -0,0 +1,67 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM RUNS API — Execution History and Handoff Heatmap
+// GET /api/swarms/[swarmId]/runs?limit=20
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDB } from "@/lib/db/client";
+import { swarmDefs, swarmRuns } from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+
+interface RouteParams {
+  params: {
+    swarmId: string;
+  };
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { swarmId } = params;
+    const db = getDB();
+
+    const swarm = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+    });
+
+    if (!swarm) {
+      return NextResponse.json(
+        { error: "Swarm not found" },
+        { status: 404 },
+      );
+    }
+
+    const requested = Number.parseInt(
+      request.nextUrl.searchParams.get("limit") ?? "",
+      10,
+    );
+    const limit = Number.isNaN(requested)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requested, 1), MAX_LIMIT);
+
+    const runs = await db.query.swarmRuns.findMany({
+      where: eq(swarmRuns.swarmId, swarmId),
+      orderBy: [desc(swarmRuns.startedAt)],
+      limit,
+    });
+
+    // How often each edge fired across these runs, keyed "fromId->toId"
+    const edgeCounts: Record<string, number> = {};
+    for (const run of runs) {
+      for (const event of run.executionLog) {
+        const key = `${event.fromAgentId}->${event.toAgentId}`;
+        edgeCounts[key] = (edgeCounts[key] ?? 0) + 1;
+      }
+    }
+
+    return NextResponse.json({ runs, edgeCounts });
+  } catch (error) {
+    console.error("[SWARM_RUNS_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch swarm runs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,109 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARMS API — CRUD for Multi-Agent Swarm Definitions
+// GET  /api/swarms     → List all swarms
+// POST /api/swarms     → Create new swarm (aligned with CreateSwarmPayload)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDB } from "@/lib/db/client";
+import { swarmDefs } from "@/lib/db/schema";
+import { desc } from "drizzle-orm";
+import { z } from "zod";
+import { validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import {
+  buildGraphNodes,
+  createSwarmSchema,
+  loadAgentNames,
+} from "@/lib/swarm/payload";
+
+// ─── GET /api/swarms ─────────────────────────────────────────────────────────
+
+export async function GET() {
+  try {
+    const db = getDB();
+
+    const allSwarms = await db.query.swarmDefs.findMany({
+      orderBy: [desc(swarmDefs.createdAt)],
+      with: {
+        entryAgent: true,
+      },
+    });
+
+    return NextResponse.json({ swarms: allSwarms });
+  } catch (error) {
+    console.error("[SWARMS_GET]", error);
+    return NextResponse.json(
+      { error: "Failed to fetch swarms" },
+      { status: 500 },
+    );
+  }
+}
+
+// ─── POST /api/swarms ────────────────────────────────────────────────────────
+
+export async function POST(request: NextRequest) {
+  try {
+    const db = getDB();
+    const body = await request.json();
+    const data = createSwarmSchema.parse(body);
+
+    const userProfile = await db.query.userProfiles.findFirst();
+    if (!userProfile) {
+      return NextResponse.json(
+        { error: "No user profile found. Please complete onboarding first." },
+        { status: 400 },
+      );
+    }
+
+    const agentNames = await loadAgentNames([
+      ...data.agentIds,
+      ...data.handoffRules.map((rule) => rule.toAgentId),
+    ]);
+
+    const { nodes, errors } = buildGraphNodes(data, agentNames);
+    errors.push(...validateSwarmGraph(nodes, data.entryAgentId));
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid swarm graph", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const [swarm] = await db
+      .insert(swarmDefs)
+      .values({
+        ownerId: userProfile.id,
+        name: data.name,
+        description: data.description ?? null,
+        graphJson: nodes,
+        entryAgentId: data.entryAgentId,
+        maxIterations: data.maxIterations,
+        autoStart: data.autoStart,
+      })
+      .returning();
+
+    if (!swarm) {
+      return NextResponse.json(
+        { error: "Failed to create swarm" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ swarm }, { status: 201 });
+  } catch (error) {
+    console.error("[SWARMS_POST]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create swarm" },
+      { status: 500 },
+    );
+  }
+}
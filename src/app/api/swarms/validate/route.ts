@@ -0,0 +1,53 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM VALIDATION API — Dry-run graph validation (nothing is persisted)
+// POST /api/swarms/validate
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import {
+  buildGraphNodes,
+  createSwarmSchema,
+  loadAgentNames,
+} from "@/lib/swarm/payload";
+
+// Same shape as a create request, but a draft does not need a name yet
+const validateSwarmSchema = createSwarmSchema.extend({
+  name: z.string().max(100).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const data = validateSwarmSchema.parse(body);
+
+    const agentNames = await loadAgentNames([
+      ...data.agentIds,
+      ...data.handoffRules.map((rule) => rule.toAgentId),
+    ]);
+
+    const { nodes, errors } = buildGraphNodes(data, agentNames);
+    errors.push(...validateSwarmGraph(nodes, data.entryAgentId));
+
+    return NextResponse.json({
+      valid: errors.length === 0,
+      errors,
+      graph: nodes,
+    });
+  } catch (error) {
+    console.error("[SWARMS_VALIDATE]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to validate swarm" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL APPROVALS API - Audit log of tool call decisions
+// GET /api/tools/approvals → Newest first, filterable by agent, session, call
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, count, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { toolCallApprovals } from "@/lib/db/schema";
+import { listToolApprovalsQuerySchema } from "@/lib/mcp/payload";
+import type { ToolApprovalListResponse } from "@/types/tool";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = getDB();
+    const { agentId, sessionId, toolCallId, limit, offset } =
+      listToolApprovalsQuerySchema.parse(
+        Object.fromEntries(request.nextUrl.searchParams),
+      );
+
+    const where = and(
+      agentId ? eq(toolCallApprovals.agentId, agentId) : undefined,
+      sessionId ? eq(toolCallApprovals.sessionId, sessionId) : undefined,
+      toolCallId ? eq(toolCallApprovals.toolCallId, toolCallId) : undefined,
+    );
+
+    const approvals = await db.query.toolCallApprovals.findMany({
+      where,
+      orderBy: [desc(toolCallApprovals.createdAt)],
+      limit,
+      offset,
+    });
+    const [totals] = await db
+      .select({ total: count() })
+      .from(toolCallApprovals)
+      .where(where);
+
+    const response: ToolApprovalListResponse = {
+      approvals,
+      total: totals?.total ?? 0,
+      limit,
+      offset,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[TOOL_APPROVALS_GET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list approvals" },
+      { status: 500 },
+    );
+  }
+}
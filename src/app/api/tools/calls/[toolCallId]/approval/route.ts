@@ -0,0 +1,50 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL CALL APPROVAL API - Approve, edit, or reject a waiting tool call
+// POST /api/tools/calls/[toolCallId]/approval
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { decideToolCall, ToolApprovalError } from "@/lib/mcp/toolApproval";
+import { toolApprovalDecisionSchema } from "@/lib/mcp/payload";
+
+interface RouteParams {
+  params: {
+    toolCallId: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = toolApprovalDecisionSchema.parse(await request.json());
+
+    const toolCall = await decideToolCall(params.toolCallId, {
+      approve: data.decision === "approve",
+      arguments: data.arguments,
+      reason: data.reason,
+    });
+
+    return NextResponse.json({ toolCall });
+  } catch (error) {
+    console.error("[TOOL_APPROVAL_POST]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof ToolApprovalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_FOUND" ? 404 : 409 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to record decision" },
+      { status: 500 },
+    );
+  }
+}
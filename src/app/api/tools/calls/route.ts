@@ -0,0 +1,72 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL CALLS API - Calls waiting for the user
+// GET /api/tools/calls → Calls awaiting approval, oldest first, by session/swarm
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getDB } from "@/lib/db/client";
+import { chatSessions, messages, toolCalls } from "@/lib/db/schema";
+import { listPendingToolCallsQuerySchema } from "@/lib/mcp/payload";
+import { TOOL_APPROVAL_TIMEOUT_MS } from "@/lib/mcp/toolApproval";
+import type { PendingToolApprovalListResponse } from "@/types/chat";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = getDB();
+    const { sessionId, swarmId } = listPendingToolCallsQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    const rows = await db
+      .select({
+        toolCallId: toolCalls.id,
+        toolName: toolCalls.toolName,
+        arguments: toolCalls.arguments,
+        createdAt: toolCalls.createdAt,
+        messageId: messages.id,
+        sessionId: messages.sessionId,
+      })
+      .from(toolCalls)
+      .innerJoin(messages, eq(toolCalls.messageId, messages.id))
+      .innerJoin(chatSessions, eq(messages.sessionId, chatSessions.id))
+      .where(
+        and(
+          eq(toolCalls.status, "awaiting_approval"),
+          sessionId ? eq(messages.sessionId, sessionId) : undefined,
+          swarmId ? eq(chatSessions.swarmId, swarmId) : undefined,
+        ),
+      )
+      .orderBy(asc(toolCalls.createdAt));
+
+    // Rows past the timeout are refused by the waiting request on its next read
+    const now = Date.now();
+    const response: PendingToolApprovalListResponse = {
+      approvals: rows
+        .map(({ createdAt, ...row }) => ({
+          ...row,
+          expiresAt: createdAt.getTime() + TOOL_APPROVAL_TIMEOUT_MS,
+        }))
+        .filter((approval) => approval.expiresAt > now),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[TOOL_CALLS_GET]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list tool calls" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,120 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE PAGE - Document Library and Retrieval Tester
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { DesktopShell } from "@/components/layout/DesktopShell";
+import { MobileShell } from "@/components/layout/MobileShell";
+import { useIsMobile } from "@/hooks/useIsMobile";
+import { Button } from "@/components/ui/button";
+import { KnowledgeDocCard } from "@/components/knowledge/KnowledgeDocCard";
+import { KnowledgeUploader } from "@/components/knowledge/KnowledgeUploader";
+import { RetrievalTester } from "@/components/knowledge/RetrievalTester";
+import { useAgentStore } from "@/lib/stores/agentStore";
+import { useKnowledgeStore } from "@/lib/stores/knowledgeStore";
+import { Loader2, X } from "lucide-react";
+
+/** How often to refresh while documents are still being indexed */
+const INDEXING_POLL_MS = 3000;
+
+export default function KnowledgePage() {
+  const router = useRouter();
+  const isMobile = useIsMobile();
+
+  const { agents, fetchAgents } = useAgentStore();
+  const { docs, isLoading, error, fetchDocs, clearError } = useKnowledgeStore();
+
+  // Check authentication
+  React.useEffect(() => {
+    const isGenesisComplete = localStorage.getItem("omni-genesis-complete") === "true";
+    if (!isGenesisComplete) {
+      router.replace("/onboarding");
+    }
+  }, [router]);
+
+  React.useEffect(() => {
+    void fetchAgents();
+    void fetchDocs();
+  }, [fetchAgents, fetchDocs]);
+
+  const hasIndexing = docs.some(
+    (doc) => doc.status === "pending" || doc.status === "indexing",
+  );
+  React.useEffect(() => {
+    if (!hasIndexing) return;
+    const timer = setInterval(() => void fetchDocs(), INDEXING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasIndexing, fetchDocs]);
+
+  const libraryContent = (
+    <div className="space-y-4">
+      <h1 className="text-xl font-bold text-white">Knowledge</h1>
+
+      <KnowledgeUploader />
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-300">
+          <p className="flex-1 whitespace-pre-line">{error}</p>
+          <Button variant="ghost" size="icon" aria-label="Dismiss" onClick={clearError}>
+            <X />
+          </Button>
+        </div>
+      )}
+
+      {docs.length === 0 ? (
+        isLoading ? (
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-white/40" />
+        ) : (
+          <p className="text-sm text-white/40">No documents yet</p>
+        )
+      ) : (
+        <div className="space-y-3">
+          {docs.map((doc) => (
+            <KnowledgeDocCard key={doc.id} doc={doc} agents={agents} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  // Mobile view
+  if (isMobile) {
+    return (
+      <MobileShell
+        defaultTab={0}
+        children={[
+          <div key="knowledge" className="space-y-8 p-4">
+            {libraryContent}
+            <RetrievalTester />
+          </div>,
+          <div key="agents" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Agents</h2>
+            <p className="text-white/60">Your agents will appear here</p>
+          </div>,
+          <div key="tools" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Tools</h2>
+            <p className="text-white/60">Connected tools will appear here</p>
+          </div>,
+          <div key="settings" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Settings</h2>
+            <p className="text-white/60">Configure your workspace</p>
+          </div>,
+        ]}
+      />
+    );
+  }
+
+  // Desktop view
+  return (
+    <DesktopShell contextPanel={<RetrievalTester />}>
+      {libraryContent}
+      {/* The context panel is only shown on xl screens */}
+      <div className="mt-8 xl:hidden">
+        <RetrievalTester />
+      </div>
+    </DesktopShell>
+  );
+}
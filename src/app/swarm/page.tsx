@@ -0,0 +1,219 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM PAGE - Visual Swarm Builder
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { DesktopShell } from "@/components/layout/DesktopShell";
+import { MobileShell } from "@/components/layout/MobileShell";
+import { useIsMobile } from "@/hooks/useIsMobile";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AgentPalette } from "@/components/swarm/AgentPalette";
+import { SwarmCanvas } from "@/components/swarm/SwarmCanvas";
+import { SwarmInspector } from "@/components/swarm/SwarmInspector";
+import { SwarmRunPanel } from "@/components/swarm/SwarmRunPanel";
+import { useAgentStore } from "@/lib/stores/agentStore";
+import { useReplayPosition, useSwarmStore } from "@/lib/stores/swarmStore";
+import { Flame, Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+export default function SwarmPage() {
+  const router = useRouter();
+  const isMobile = useIsMobile();
+
+  const { agents, fetchAgents } = useAgentStore();
+  const {
+    swarms,
+    draft,
+    builder,
+    edgeCounts,
+    isSaving,
+    error,
+    fetchSwarms,
+    loadSwarm,
+    saveSwarm,
+    deleteSwarm,
+    newSwarm,
+    updateDraft,
+    addNode,
+  } = useSwarmStore();
+  const replayPosition = useReplayPosition();
+  const [showHeatmap, setShowHeatmap] = React.useState(false);
+
+  // Check authentication
+  React.useEffect(() => {
+    const isGenesisComplete = localStorage.getItem("omni-genesis-complete") === "true";
+    if (!isGenesisComplete) {
+      router.replace("/onboarding");
+    }
+  }, [router]);
+
+  React.useEffect(() => {
+    void fetchAgents();
+    void fetchSwarms();
+  }, [fetchAgents, fetchSwarms]);
+
+  // Clicking a palette entry drops the agent below the existing nodes
+  const handleAddAgent = React.useCallback(
+    (agent: (typeof agents)[number]) => {
+      const index = builder.nodes.length;
+      addNode(agent, {
+        x: 40 + (index % 3) * 240,
+        y: 40 + Math.floor(index / 3) * 140,
+      });
+    },
+    [addNode, builder.nodes.length],
+  );
+
+  const builderContent = (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.id ?? ""}
+          onChange={(e) => {
+            if (e.target.value) void loadSwarm(e.target.value);
+            else newSwarm();
+          }}
+          className="h-10 min-h-[44px] rounded-md border border-white/10 bg-black/40 px-3 text-sm text-white"
+        >
+          <option value="">New swarm</option>
+          {swarms.map((swarm) => (
+            <option key={swarm.id} value={swarm.id}>
+              {swarm.name}
+            </option>
+          ))}
+        </select>
+
+        <Input
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          className="max-w-xs flex-1"
+          aria-label="Swarm name"
+        />
+
+        <Input
+          type="number"
+          min={1}
+          max={100}
+          value={draft.maxIterations}
+          onChange={(e) =>
+            updateDraft({ maxIterations: Number.parseInt(e.target.value, 10) || 1 })
+          }
+          className="w-20"
+          aria-label="Max iterations"
+          title="Max iterations"
+        />
+
+        <div className="ml-auto flex gap-2">
+          {draft.id && (
+            <Button
+              variant={showHeatmap ? "secondary" : "ghost"}
+              aria-pressed={showHeatmap}
+              title="Colour edges by how often they fired in recent runs"
+              onClick={() => setShowHeatmap(!showHeatmap)}
+            >
+              <Flame />
+            </Button>
+          )}
+          <Button variant="outline" onClick={newSwarm}>
+            <Plus />
+            New
+          </Button>
+          {draft.id && (
+            <Button
+              variant="ghost"
+              className="text-red-400"
+              onClick={() => void deleteSwarm(draft.id!)}
+            >
+              <Trash2 />
+            </Button>
+          )}
+          <Button
+            onClick={() => void saveSwarm()}
+            disabled={isSaving || builder.errors.length > 0 || !builder.isDirty}
+          >
+            {isSaving ? <Loader2 className="animate-spin" /> : <Save />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <SwarmCanvas
+        agents={agents}
+        edgeCounts={showHeatmap || replayPosition ? edgeCounts : undefined}
+        activeAgentId={replayPosition?.activeAgentId}
+        activeEdge={replayPosition?.activeEdge}
+        readOnly={replayPosition !== null}
+      />
+
+      <p className="text-xs text-white/40">
+        Drag agents from the sidebar onto the canvas. Drag from a node&apos;s
+        right-hand handle to another node to add a handoff rule.
+      </p>
+    </div>
+  );
+
+  // Mobile view
+  if (isMobile) {
+    return (
+      <MobileShell
+        defaultTab={0}
+        children={[
+          <div key="swarm" className="space-y-4 p-4">
+            {builderContent}
+            <AgentPalette
+              agents={agents}
+              usedAgentIds={builder.nodes.map((n) => n.agentId)}
+              onAdd={handleAddAgent}
+            />
+            <SwarmInspector />
+            <SwarmRunPanel />
+          </div>,
+          <div key="agents" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Agents</h2>
+            <p className="text-white/60">Your agents will appear here</p>
+          </div>,
+          <div key="tools" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Tools</h2>
+            <p className="text-white/60">Connected tools will appear here</p>
+          </div>,
+          <div key="settings" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Settings</h2>
+            <p className="text-white/60">Configure your workspace</p>
+          </div>,
+        ]}
+      />
+    );
+  }
+
+  // Desktop view
+  return (
+    <DesktopShell
+      sidebarContent={
+        <AgentPalette
+          agents={agents}
+          usedAgentIds={builder.nodes.map((n) => n.agentId)}
+          onAdd={handleAddAgent}
+        />
+      }
+      contextPanel={
+        <div className="space-y-8">
+          <SwarmInspector />
+          <SwarmRunPanel />
+        </div>
+      }
+    >
+      {builderContent}
+      {/* The context panel is only shown on xl screens */}
+      <div className="mt-6 space-y-8 xl:hidden">
+        <SwarmInspector />
+        <SwarmRunPanel />
+      </div>
+    </DesktopShell>
+  );
+}
@@ -0,0 +1,97 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOLS PAGE - MCP Servers, Connection Status and History
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { DesktopShell } from "@/components/layout/DesktopShell";
+import { MobileShell } from "@/components/layout/MobileShell";
+import { useIsMobile } from "@/hooks/useIsMobile";
+import { Button } from "@/components/ui/button";
+import { MCPServerCard } from "@/components/tools/MCPServerCard";
+import { useMCPStore } from "@/lib/stores/mcpStore";
+import { Loader2, X } from "lucide-react";
+
+/** How often to refresh server status written by the health monitor */
+const STATUS_POLL_MS = 10000;
+
+export default function ToolsPage() {
+  const router = useRouter();
+  const isMobile = useIsMobile();
+
+  const { servers, isLoading, error, fetchServers, clearError } = useMCPStore();
+
+  // Check authentication
+  React.useEffect(() => {
+    const isGenesisComplete = localStorage.getItem("omni-genesis-complete") === "true";
+    if (!isGenesisComplete) {
+      router.replace("/onboarding");
+    }
+  }, [router]);
+
+  React.useEffect(() => {
+    void fetchServers();
+    const timer = setInterval(() => void fetchServers(), STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [fetchServers]);
+
+  const serversContent = (
+    <div className="space-y-4">
+      <h1 className="text-xl font-bold text-white">Tools</h1>
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-300">
+          <p className="flex-1 whitespace-pre-line">{error}</p>
+          <Button variant="ghost" size="icon" aria-label="Dismiss" onClick={clearError}>
+            <X />
+          </Button>
+        </div>
+      )}
+
+      {servers.length === 0 ? (
+        isLoading ? (
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-white/40" />
+        ) : (
+          <p className="text-sm text-white/40">No MCP servers registered</p>
+        )
+      ) : (
+        <div className="space-y-3">
+          {servers.map((server) => (
+            <MCPServerCard key={server.id} server={server} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  // Mobile view
+  if (isMobile) {
+    return (
+      <MobileShell
+        defaultTab={2}
+        children={[
+          <div key="dashboard" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Home</h2>
+            <p className="text-white/60">Open the dashboard for an overview</p>
+          </div>,
+          <div key="agents" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Agents</h2>
+            <p className="text-white/60">Your agents will appear here</p>
+          </div>,
+          <div key="tools" className="p-4">
+            {serversContent}
+          </div>,
+          <div key="settings" className="p-4">
+            <h2 className="text-xl font-bold text-white mb-4">Settings</h2>
+            <p className="text-white/60">Configure your workspace</p>
+          </div>,
+        ]}
+      />
+    );
+  }
+
+  // Desktop view
+  return <DesktopShell>{serversContent}</DesktopShell>;
+}
@@ -0,0 +1,249 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CHAT INPUT - Message Box with MCP Prompt Slash Commands and Resources
+//
+// Not mounted yet: the app has no chat view. It belongs below the message
+// list of the open session. Until then resources and prompts can only be sent
+// through /api/chat/stream.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { Paperclip, Play, Send, SquareSlash, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useChatStore } from "@/lib/stores/chatStore";
+import { useMCPStore } from "@/lib/stores/mcpStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { MCPPromptWithServerName } from "@/types/tool";
+
+interface ChatInputProps {
+  sessionId: string;
+}
+
+/** "/name" with nothing after it yet */
+const SLASH_COMMAND = /^\/(\S*)$/;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function ChatInput({ sessionId }: ChatInputProps) {
+  const {
+    inputValue,
+    setInputValue,
+    sendMessage,
+    isSending,
+    resourceAttachments,
+    attachResource,
+    detachResource,
+  } = useChatStore();
+  const { resources, prompts, fetchCatalog, runPrompt, isRunningPrompt, error } =
+    useMCPStore();
+
+  const [showResources, setShowResources] = React.useState(false);
+  const [prompt, setPrompt] = React.useState<MCPPromptWithServerName | null>(null);
+  const [promptArgs, setPromptArgs] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    void fetchCatalog();
+  }, [fetchCatalog]);
+
+  const slashQuery = SLASH_COMMAND.exec(inputValue)?.[1];
+  const matchingPrompts =
+    slashQuery === undefined
+      ? []
+      : prompts.filter((p) => p.name.toLowerCase().startsWith(slashQuery.toLowerCase()));
+
+  const busy = isSending || isRunningPrompt;
+  const missingArgs = prompt?.arguments.some((arg) => arg.required && !promptArgs[arg.name]);
+
+  const send = () => {
+    if (busy) return;
+    void sendMessage({ sessionId, content: inputValue });
+  };
+
+  /**
+   * Expand the prompt on its server and send what it produces.
+   */
+  const run = async (target: MCPPromptWithServerName, args: Record<string, string>) => {
+    const result = await runPrompt(target.id, { arguments: args });
+    if (!result) return;
+
+    setPrompt(null);
+    setPromptArgs({});
+    const content = result.messages.map((m) => m.content).join("\n\n");
+    await sendMessage({ sessionId, content });
+  };
+
+  const choosePrompt = (target: MCPPromptWithServerName) => {
+    setInputValue("");
+    if (target.arguments.length === 0) {
+      void run(target, {});
+      return;
+    }
+    setPrompt(target);
+    setPromptArgs({});
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== "Enter" || event.shiftKey) return;
+    event.preventDefault();
+
+    const first = matchingPrompts[0];
+    if (first) {
+      choosePrompt(first);
+    } else {
+      send();
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-white/5 p-3">
+      {/* Slash command menu */}
+      {matchingPrompts.length > 0 && (
+        <div className="max-h-56 space-y-1 overflow-auto rounded-xl border border-white/10 bg-black/40 p-1">
+          {matchingPrompts.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => choosePrompt(p)}
+              className="flex w-full min-h-[44px] items-center gap-2 rounded-lg px-3 py-2 text-left hover:bg-white/5"
+            >
+              <SquareSlash className="h-4 w-4 shrink-0 text-white/40" />
+              <span className="font-mono text-sm text-white">/{p.name}</span>
+              <span className="truncate text-xs text-white/40">{p.description}</span>
+              <span className="ml-auto shrink-0 text-xs text-white/30">{p.serverName}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Prompt arguments */}
+      {prompt && (
+        <div className="space-y-2 rounded-xl border border-violet-500/30 bg-violet-500/5 p-3">
+          <div className="flex items-center gap-2">
+            <SquareSlash className="h-4 w-4 shrink-0 text-violet-400" />
+            <span className="font-mono text-sm text-white">/{prompt.name}</span>
+            <span className="truncate text-xs text-white/40">{prompt.description}</span>
+          </div>
+          {prompt.arguments.map((arg) => (
+            <Input
+              key={arg.name}
+              value={promptArgs[arg.name] ?? ""}
+              onChange={(e) => setPromptArgs({ ...promptArgs, [arg.name]: e.target.value })}
+              placeholder={`${arg.name}${arg.required ? " (required)" : ""}${
+                arg.description ? ` — ${arg.description}` : ""
+              }`}
+            />
+          ))}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setPrompt(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={busy || missingArgs}
+              onClick={() => void run(prompt, promptArgs)}
+            >
+              <Play />
+              Run
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Resource picker */}
+      {showResources && (
+        <div className="max-h-56 space-y-1 overflow-auto rounded-xl border border-white/10 bg-black/40 p-1">
+          {resources.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-white/40">
+              No resources on the connected MCP servers
+            </p>
+          ) : (
+            resources.map((resource) => {
+              const attached = resourceAttachments.some((r) => r.resourceId === resource.id);
+              return (
+                <button
+                  key={resource.id}
+                  type="button"
+                  disabled={attached}
+                  onClick={() =>
+                    attachResource({
+                      resourceId: resource.id,
+                      serverId: resource.serverId,
+                      uri: resource.uri,
+                      name: resource.name,
+                    })
+                  }
+                  className={cn(
+                    "flex w-full min-h-[44px] flex-col rounded-lg px-3 py-2 text-left hover:bg-white/5",
+                    attached && "opacity-40",
+                  )}
+                >
+                  <span className="truncate text-sm text-white">{resource.name}</span>
+                  <span className="truncate text-xs text-white/40">
+                    {resource.serverName} · {resource.uri}
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {/* Attached resources */}
+      {resourceAttachments.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {resourceAttachments.map((resource) => (
+            <Badge key={resource.resourceId} variant="secondary" className="gap-1">
+              {resource.name}
+              <button
+                type="button"
+                aria-label={`Remove ${resource.name}`}
+                onClick={() => detachResource(resource.resourceId)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Message box */}
+      <div className="flex items-end gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Attach an MCP resource"
+          aria-expanded={showResources}
+          onClick={() => setShowResources(!showResources)}
+        >
+          <Paperclip />
+        </Button>
+        <Textarea
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onKeyDown={onKeyDown}
+          rows={1}
+          placeholder={
+            prompts.length > 0 ? "Message, or / for MCP prompts" : "Message"
+          }
+          className="min-h-[44px] resize-none"
+        />
+        <Button
+          size="icon"
+          aria-label="Send"
+          disabled={busy || !inputValue.trim()}
+          onClick={send}
+        >
+          <Send />
+        </Button>
+      </div>
+    </div>
+  );
+}
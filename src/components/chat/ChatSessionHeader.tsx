@@ -0,0 +1,129 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CHAT SESSION HEADER - Title, Participants, and the Rolling Summary
+//
+// Not mounted yet: the app has no chat view. It belongs above the message
+// list of the open session. Until then the summary is only reachable through
+// /api/chat/sessions/[sessionId]/summary.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { BookText, Bot, Network, Pencil } from "lucide-react";
+import { useChatStore } from "@/lib/stores/chatStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ChatSession } from "@/types/chat";
+
+interface ChatSessionHeaderProps {
+  session: ChatSession;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function ChatSessionHeader({ session }: ChatSessionHeaderProps) {
+  const { fetchSessionSummary, updateSessionSummary } = useChatStore();
+  const [showSummary, setShowSummary] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [draft, setDraft] = React.useState("");
+
+  React.useEffect(() => {
+    setIsEditing(false);
+    void fetchSessionSummary(session.id);
+  }, [session.id, fetchSessionSummary]);
+
+  const participant = session.agent?.name ?? session.swarm?.name ?? "Conversation";
+
+  const startEditing = () => {
+    setDraft(session.summary ?? "");
+    setIsEditing(true);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    const saved = await updateSessionSummary(session.id, draft);
+    setIsSaving(false);
+    if (saved) setIsEditing(false);
+  };
+
+  return (
+    <div className="border-b border-white/5 px-4 py-3">
+      {/* Title */}
+      <div className="flex items-center gap-3">
+        {session.swarmId ? (
+          <Network className="h-5 w-5 shrink-0 text-white/40" />
+        ) : (
+          <Bot className="h-5 w-5 shrink-0 text-white/40" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium text-white">
+            {session.title ?? "New Conversation"}
+          </div>
+          <div className="truncate text-xs text-white/40">
+            {participant}
+            {session.modelUsed && ` · ${session.modelUsed}`} · {session.messageCount} messages
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-expanded={showSummary}
+          onClick={() => setShowSummary(!showSummary)}
+        >
+          <BookText />
+          Summary
+          {session.summary && (
+            <Badge variant="secondary" className="ml-1">
+              on
+            </Badge>
+          )}
+        </Button>
+      </div>
+
+      {/* Summary */}
+      {showSummary && (
+        <div className="mt-3 space-y-2 rounded-xl border border-white/5 bg-white/[0.02] p-3">
+          {isEditing ? (
+            <>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={8}
+                placeholder="What the assistant should remember about earlier messages"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" disabled={isSaving} onClick={() => void save()}>
+                  Save
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="whitespace-pre-wrap text-xs text-white/70">
+                {session.summary ??
+                  "No summary yet. Older messages are summarized once the conversation outgrows its history window."}
+              </p>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-white/30">
+                  {session.summaryUpdatedAt &&
+                    `Updated ${new Date(session.summaryUpdatedAt).toLocaleString()}`}
+                </span>
+                <Button variant="ghost" size="sm" onClick={startEditing}>
+                  <Pencil />
+                  Edit
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
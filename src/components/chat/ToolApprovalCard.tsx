@@ -0,0 +1,173 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL APPROVAL CARD - Approve, Edit, or Reject a Waiting Tool Call
+//
+// Mounted by the swarm run panel for calls listed from /api/tools/calls.
+// There is no chat view yet; when there is, it should render one card per
+// entry in chatStore.pendingApprovals for the open session.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { Check, Pencil, ShieldAlert, X } from "lucide-react";
+import { useChatStore } from "@/lib/stores/chatStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { PendingToolApproval } from "@/types/chat";
+import type { ToolApprovalDecisionPayload } from "@/types/tool";
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval;
+  /** Called once the decision is recorded, e.g. to refetch the list */
+  onDecided?: () => void;
+}
+
+type Mode = "view" | "edit" | "reject";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function ToolApprovalCard({ approval, onDecided }: ToolApprovalCardProps) {
+  const { decideToolCall } = useChatStore();
+  const [mode, setMode] = React.useState<Mode>("view");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [draft, setDraft] = React.useState(() =>
+    JSON.stringify(approval.arguments, null, 2),
+  );
+  const [draftError, setDraftError] = React.useState<string | null>(null);
+  const [reason, setReason] = React.useState("");
+
+  const decide = async (payload: ToolApprovalDecisionPayload) => {
+    setIsSubmitting(true);
+    const recorded = await decideToolCall(approval.toolCallId, payload);
+    setIsSubmitting(false);
+    if (recorded) onDecided?.();
+  };
+
+  const approveEdited = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      setDraftError("Arguments must be valid JSON");
+      return;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      setDraftError("Arguments must be a JSON object");
+      return;
+    }
+    setDraftError(null);
+    void decide({
+      decision: "approve",
+      arguments: parsed as Record<string, unknown>,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-amber-500/30 bg-amber-500/5 p-3">
+      {/* Header */}
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4 shrink-0 text-amber-400" />
+        <span className="text-sm text-white">
+          Run <span className="font-mono">{approval.toolName}</span>?
+        </span>
+        <Badge variant="outline" className="ml-auto">
+          until {new Date(approval.expiresAt).toLocaleTimeString()}
+        </Badge>
+      </div>
+
+      {/* Arguments */}
+      {mode === "edit" ? (
+        <div className="space-y-1">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+          />
+          {draftError && <p className="text-xs text-red-400">{draftError}</p>}
+        </div>
+      ) : (
+        <pre className="max-h-48 overflow-auto rounded-lg bg-black/30 p-2 text-xs text-white/70">
+          {JSON.stringify(approval.arguments, null, 2)}
+        </pre>
+      )}
+
+      {mode === "reject" && (
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional, shown to the agent)"
+        />
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-end gap-2">
+        {mode === "view" && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => setMode("reject")}
+            >
+              <X />
+              Reject
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => setMode("edit")}
+            >
+              <Pencil />
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => void decide({ decision: "approve" })}
+            >
+              <Check />
+              Approve
+            </Button>
+          </>
+        )}
+
+        {mode === "edit" && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setMode("view")}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={isSubmitting} onClick={approveEdited}>
+              <Check />
+              Approve edited
+            </Button>
+          </>
+        )}
+
+        {mode === "reject" && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setMode("view")}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() =>
+                void decide({ decision: "reject", reason: reason.trim() || undefined })
+              }
+            >
+              <X />
+              Reject
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
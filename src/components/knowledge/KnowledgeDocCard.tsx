@@ -0,0 +1,173 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE DOC CARD - Status, Re-indexing, and Agent Links for One Document
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { FileText, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useKnowledgeStore } from "@/lib/stores/knowledgeStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Agent } from "@/types/agent";
+import type { KnowledgeDocStatus, KnowledgeDocWithAgents } from "@/types/tool";
+
+const STATUS_VARIANTS: Record<
+  KnowledgeDocStatus,
+  "outline" | "warning" | "success" | "destructive"
+> = {
+  pending: "outline",
+  indexing: "warning",
+  ready: "success",
+  error: "destructive",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface KnowledgeDocCardProps {
+  doc: KnowledgeDocWithAgents;
+  agents: Agent[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function KnowledgeDocCard({ doc, agents }: KnowledgeDocCardProps) {
+  const { reindexDoc, deleteDoc, setDocAgents } = useKnowledgeStore();
+  const [showReindex, setShowReindex] = React.useState(false);
+  const [chunkSize, setChunkSize] = React.useState(doc.chunkSize ?? 1000);
+  const [chunkOverlap, setChunkOverlap] = React.useState(doc.chunkOverlap ?? 200);
+
+  const isBusy = doc.status === "pending" || doc.status === "indexing";
+  const linked = new Set(doc.agentIds);
+
+  const toggleAgent = (agentId: string) => {
+    const next = linked.has(agentId)
+      ? doc.agentIds.filter((id) => id !== agentId)
+      : [...doc.agentIds, agentId];
+    void setDocAgents(doc.id, next);
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <FileText className="mt-0.5 h-5 w-5 shrink-0 text-white/40" />
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium text-white" title={doc.originalName}>
+            {doc.originalName}
+          </div>
+          <div className="text-xs text-white/40">
+            {formatBytes(doc.fileSize)} · {doc.vectorCount} chunks · size{" "}
+            {doc.chunkSize ?? "—"} / overlap {doc.chunkOverlap ?? "—"}
+          </div>
+        </div>
+        <Badge variant={STATUS_VARIANTS[doc.status]} className="shrink-0">
+          {isBusy && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {doc.status}
+        </Badge>
+      </div>
+
+      {doc.status === "error" && doc.errorMessage && (
+        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-2 text-xs text-red-300">
+          {doc.errorMessage}
+        </div>
+      )}
+
+      {/* Agents */}
+      <div className="flex flex-wrap gap-1">
+        {agents.length === 0 ? (
+          <span className="text-xs text-white/40">No agents to attach</span>
+        ) : (
+          agents.map((agent) => (
+            <button
+              key={agent.id}
+              type="button"
+              aria-pressed={linked.has(agent.id)}
+              onClick={() => toggleAgent(agent.id)}
+              className={cn(
+                "rounded-md border px-2 py-1 text-xs transition-colors",
+                linked.has(agent.id)
+                  ? "border-violet-500/50 bg-violet-500/20 text-white"
+                  : "border-white/10 text-white/50 hover:bg-white/5",
+              )}
+            >
+              {agent.name}
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Re-index */}
+      {showReindex && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+          <label className="flex items-center gap-2">
+            Chunk size
+            <Input
+              type="number"
+              min={100}
+              max={8000}
+              value={chunkSize}
+              onChange={(e) => setChunkSize(Number.parseInt(e.target.value, 10) || 1000)}
+              className="w-24"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Overlap
+            <Input
+              type="number"
+              min={0}
+              max={2000}
+              value={chunkOverlap}
+              onChange={(e) => setChunkOverlap(Number.parseInt(e.target.value, 10) || 0)}
+              className="w-24"
+            />
+          </label>
+          <Button
+            size="sm"
+            disabled={isBusy}
+            onClick={() => {
+              void reindexDoc(doc.id, { chunkSize, chunkOverlap });
+              setShowReindex(false);
+            }}
+          >
+            Re-index
+          </Button>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => setShowReindex(!showReindex)}
+        >
+          <RefreshCw />
+          Re-index
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-400"
+          onClick={() => {
+            if (confirm(`Delete ${doc.originalName} and its vectors?`)) {
+              void deleteDoc(doc.id);
+            }
+          }}
+        >
+          <Trash2 />
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+}
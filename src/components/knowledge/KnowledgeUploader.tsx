@@ -0,0 +1,105 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE UPLOADER - Drag-and-Drop Document Upload
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { Loader2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useKnowledgeStore } from "@/lib/stores/knowledgeStore";
+import { Input } from "@/components/ui/input";
+
+const ACCEPTED_FILES = ".txt,.text,.md,.markdown,.html,.htm,.pdf,.docx";
+
+export function KnowledgeUploader() {
+  const { isUploading, uploadFiles } = useKnowledgeStore();
+  const [isDragging, setIsDragging] = React.useState(false);
+  const [chunkSize, setChunkSize] = React.useState(1000);
+  const [chunkOverlap, setChunkOverlap] = React.useState(200);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0 || isUploading) return;
+    void uploadFiles(files, { chunkSize, chunkOverlap });
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault();
+          event.dataTransfer.dropEffect = "copy";
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setIsDragging(false);
+          handleFiles(event.dataTransfer.files);
+        }}
+        disabled={isUploading}
+        className={cn(
+          "flex w-full flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed px-6 py-10 text-sm transition-colors",
+          isDragging
+            ? "border-violet-500 bg-violet-500/10 text-white"
+            : "border-white/10 bg-white/[0.02] text-white/60 hover:bg-white/5",
+        )}
+      >
+        {isUploading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : (
+          <Upload className="h-6 w-6" />
+        )}
+        <span>
+          {isUploading
+            ? "Uploading…"
+            : "Drop files here or click to browse"}
+        </span>
+        <span className="text-xs text-white/40">
+          Text, Markdown, HTML, PDF, or DOCX
+        </span>
+      </button>
+
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={(event) => {
+          handleFiles(event.target.files);
+          event.target.value = "";
+        }}
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-white/60">
+        <label className="flex items-center gap-2">
+          Chunk size
+          <Input
+            type="number"
+            min={100}
+            max={8000}
+            value={chunkSize}
+            onChange={(e) => setChunkSize(Number.parseInt(e.target.value, 10) || 1000)}
+            className="w-24"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Overlap
+          <Input
+            type="number"
+            min={0}
+            max={2000}
+            value={chunkOverlap}
+            onChange={(e) => setChunkOverlap(Number.parseInt(e.target.value, 10) || 0)}
+            className="w-24"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RETRIEVAL TESTER - Preview Which Chunks a Query Retrieves
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { Loader2, Search } from "lucide-react";
+import { useKnowledgeStore } from "@/lib/stores/knowledgeStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export function RetrievalTester() {
+  const { results, lastQuery, isSearching, testRetrieval } = useKnowledgeStore();
+  const [query, setQuery] = React.useState("");
+  const [nResults, setNResults] = React.useState(5);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    void testRetrieval({ query: trimmed, nResults });
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="flex items-center gap-2 text-sm font-medium text-white">
+        <Search className="h-4 w-4" />
+        Test retrieval
+      </h3>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Ask something your documents should answer"
+          aria-label="Query"
+        />
+        <Input
+          type="number"
+          min={1}
+          max={50}
+          value={nResults}
+          onChange={(e) => setNResults(Number.parseInt(e.target.value, 10) || 5)}
+          className="w-16"
+          aria-label="Number of results"
+          title="Number of results"
+        />
+        <Button type="submit" disabled={isSearching || !query.trim()}>
+          {isSearching ? <Loader2 className="animate-spin" /> : <Search />}
+        </Button>
+      </form>
+
+      {lastQuery !== null && results.length === 0 && !isSearching && (
+        <p className="text-xs text-white/40">No ready documents matched.</p>
+      )}
+
+      <ul className="space-y-2">
+        {results.map((chunk) => (
+          <li
+            key={`${chunk.docId}_${chunk.chunkIndex}`}
+            className="space-y-1 rounded-lg border border-white/5 bg-white/[0.02] p-3 text-xs"
+          >
+            <div className="flex items-center gap-2">
+              <span className="truncate font-medium text-white">{chunk.originalName}</span>
+              <span className="text-white/40">chunk {chunk.chunkIndex}</span>
+              <span className="ml-auto flex gap-1">
+                {chunk.matchedBy.map((source) => (
+                  <Badge key={source} variant="secondary">
+                    {source}
+                  </Badge>
+                ))}
+                {chunk.rerankScore !== undefined && (
+                  <Badge variant="default" title="Rerank score">
+                    {chunk.rerankScore}/10
+                  </Badge>
+                )}
+                <Badge variant="outline" title="Fused rank score">
+                  {chunk.score.toFixed(4)}
+                </Badge>
+              </span>
+            </div>
+            <p className="line-clamp-6 whitespace-pre-wrap text-white/70">{chunk.content}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
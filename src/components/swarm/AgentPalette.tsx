@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// AGENT PALETTE - Agents That Can Be Dragged Onto the Swarm Canvas
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { AGENT_DRAG_TYPE } from "./SwarmCanvas";
+import type { Agent } from "@/types/agent";
+
+interface AgentPaletteProps {
+  agents: Agent[];
+  /** Agents already placed on the canvas */
+  usedAgentIds: string[];
+  /** Keyboard / tap alternative to dragging */
+  onAdd: (agent: Agent) => void;
+}
+
+export function AgentPalette({ agents, usedAgentIds, onAdd }: AgentPaletteProps) {
+  const used = new Set(usedAgentIds);
+  const available = agents.filter((a) => !used.has(a.id));
+
+  return (
+    <div className="mt-6 space-y-2">
+      <h3 className="px-2 text-xs font-medium uppercase tracking-wide text-white/40">
+        Agents
+      </h3>
+
+      {available.length === 0 ? (
+        <p className="px-2 text-xs text-white/40">
+          {agents.length === 0 ? "No agents yet" : "All agents are in the swarm"}
+        </p>
+      ) : (
+        available.map((agent) => (
+          <button
+            key={agent.id}
+            type="button"
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.setData(AGENT_DRAG_TYPE, agent.id);
+              event.dataTransfer.effectAllowed = "copy";
+            }}
+            onClick={() => onAdd(agent)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2 text-left text-sm text-white/80",
+              "min-h-[44px] cursor-grab hover:bg-white/5 active:cursor-grabbing",
+            )}
+            title="Drag onto the canvas or click to add"
+          >
+            <span className="truncate">{agent.name}</span>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM CANVAS - Drag-and-Drop Editor for Swarm Graphs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { useSwarmStore } from "@/lib/stores/swarmStore";
+import { Badge } from "@/components/ui/badge";
+import type { Agent } from "@/types/agent";
+import type {
+  SwarmVisualizationEdge,
+  SwarmVisualizationNode,
+} from "@/types/swarm";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const AGENT_DRAG_TYPE = "application/x-omni-agent";
+
+const NODE_WIDTH = 176;
+const NODE_HEIGHT = 64;
+const CLICK_TOLERANCE = 3;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface SwarmCanvasProps {
+  /** All agents, used to resolve avatars and palette drops */
+  agents: Agent[];
+  /** Handoff counts across recent runs, keyed by edgeId(); enables the heatmap */
+  edgeCounts?: Record<string, number>;
+  /** Agent and edge lit up during run replay */
+  activeAgentId?: string | null;
+  activeEdge?: { from: string; to: string } | null;
+  /** Disable editing (used during run replay) */
+  readOnly?: boolean;
+  className?: string;
+}
+
+interface DragState {
+  agentId: string;
+  offsetX: number;
+  offsetY: number;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+interface ConnectState {
+  fromAgentId: string;
+  x: number;
+  y: number;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function edgeId(fromAgentId: string, toAgentId: string): string {
+  return `${fromAgentId}->${toAgentId}`;
+}
+
+/**
+ * Point where the line from a node's center towards (dx, dy) leaves its box.
+ */
+function boxExit(cx: number, cy: number, dx: number, dy: number) {
+  const t = Math.min(
+    dx === 0 ? Infinity : NODE_WIDTH / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : NODE_HEIGHT / 2 / Math.abs(dy),
+  );
+  return { x: cx + dx * t, y: cy + dy * t };
+}
+
+function conditionLabel(edge: SwarmVisualizationEdge): string {
+  if (edge.condition === "always") return "always";
+  if (edge.condition === "custom") return "custom";
+  return edge.conditionValue
+    ? `${edge.condition.replace("_", " ")}: ${edge.conditionValue}`
+    : edge.condition.replace("_", " ");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function SwarmCanvas({
+  agents,
+  edgeCounts,
+  activeAgentId,
+  activeEdge,
+  readOnly = false,
+  className,
+}: SwarmCanvasProps) {
+  const {
+    draft,
+    builder,
+    addNode,
+    moveNode,
+    addEdge,
+    selectNode,
+    selectEdge,
+  } = useSwarmStore();
+
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = React.useState<DragState | null>(null);
+  const [connect, setConnect] = React.useState<ConnectState | null>(null);
+
+  const avatars = React.useMemo(
+    () => new Map(agents.map((a) => [a.id, a.avatar])),
+    [agents],
+  );
+
+  const nodes: SwarmVisualizationNode[] = builder.nodes.map((node) => ({
+    id: node.agentId,
+    agentId: node.agentId,
+    agentName: node.agentName,
+    agentAvatar: avatars.get(node.agentId) ?? null,
+    x: node.position.x,
+    y: node.position.y,
+    isActive: node.agentId === activeAgentId,
+    isEntry: node.agentId === draft.entryAgentId,
+    handoffCount: 0,
+  }));
+
+  const edges: SwarmVisualizationEdge[] = builder.nodes.flatMap((node) =>
+    node.handoffRules.map((rule) => {
+      const id = edgeId(node.agentId, rule.targetAgentId);
+      const selected = activeEdge ?? builder.selectedEdge;
+      return {
+        id,
+        fromNodeId: node.agentId,
+        toNodeId: rule.targetAgentId,
+        condition: rule.condition,
+        conditionValue: rule.conditionValue,
+        isActive:
+          selected?.from === node.agentId && selected.to === rule.targetAgentId,
+        handoffCount: edgeCounts?.[id] ?? 0,
+      };
+    }),
+  );
+
+  for (const edge of edges) {
+    const from = nodes.find((n) => n.id === edge.fromNodeId);
+    if (from) from.handoffCount += edge.handoffCount;
+  }
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const maxCount = Math.max(1, ...edges.map((e) => e.handoffCount));
+
+  // ─── Pointer Handling ──────────────────────────────────────────────────────
+
+  const toCanvas = React.useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: clientX - rect.left, y: clientY - rect.top }
+      : { x: clientX, y: clientY };
+  }, []);
+
+  const handleNodePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    node: SwarmVisualizationNode,
+  ) => {
+    if (readOnly) {
+      selectNode(node.agentId);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toCanvas(event.clientX, event.clientY);
+    setDrag({
+      agentId: node.agentId,
+      offsetX: point.x - node.x,
+      offsetY: point.y - node.y,
+      startX: point.x,
+      startY: point.y,
+      moved: false,
+    });
+  };
+
+  const handleNodePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = toCanvas(event.clientX, event.clientY);
+    const moved =
+      drag.moved ||
+      Math.abs(point.x - drag.startX) > CLICK_TOLERANCE ||
+      Math.abs(point.y - drag.startY) > CLICK_TOLERANCE;
+
+    if (moved) {
+      moveNode(drag.agentId, {
+        x: Math.max(0, Math.round(point.x - drag.offsetX)),
+        y: Math.max(0, Math.round(point.y - drag.offsetY)),
+      });
+    }
+    if (moved !== drag.moved) setDrag({ ...drag, moved });
+  };
+
+  const handleNodePointerUp = () => {
+    if (drag && !drag.moved) selectNode(drag.agentId);
+    setDrag(null);
+  };
+
+  const handleConnectStart = (
+    event: React.PointerEvent<HTMLButtonElement>,
+    agentId: string,
+  ) => {
+    event.stopPropagation();
+    event.preventDefault();
+    setConnect({ fromAgentId: agentId, ...toCanvas(event.clientX, event.clientY) });
+  };
+
+  // While connecting, track the pointer globally so the edge can be dropped anywhere
+  React.useEffect(() => {
+    if (!connect) return;
+
+    const onMove = (event: PointerEvent) => {
+      setConnect((c) => (c ? { ...c, ...toCanvas(event.clientX, event.clientY) } : c));
+    };
+    const onUp = (event: PointerEvent) => {
+      const target = document
+        .elementFromPoint(event.clientX, event.clientY)
+        ?.closest<HTMLElement>("[data-agent-id]");
+      const toAgentId = target?.dataset.agentId;
+      if (toAgentId && toAgentId !== connect.fromAgentId) {
+        addEdge(connect.fromAgentId, toAgentId);
+      }
+      setConnect(null);
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [connect, addEdge, toCanvas]);
+
+  // ─── Palette Drops ─────────────────────────────────────────────────────────
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const agentId = event.dataTransfer.getData(AGENT_DRAG_TYPE);
+    const agent = agents.find((a) => a.id === agentId);
+    if (!agent) return;
+
+    const point = toCanvas(event.clientX, event.clientY);
+    addNode(agent, {
+      x: Math.max(0, Math.round(point.x - NODE_WIDTH / 2)),
+      y: Math.max(0, Math.round(point.y - NODE_HEIGHT / 2)),
+    });
+  };
+
+  // ─── Render ────────────────────────────────────────────────────────────────
+
+  const connectFrom = connect ? byId.get(connect.fromAgentId) : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative h-[560px] overflow-hidden rounded-xl border border-white/5 bg-white/[0.02]",
+        "bg-[radial-gradient(circle,rgba(255,255,255,0.06)_1px,transparent_1px)] [background-size:24px_24px]",
+        className,
+      )}
+      onDragOver={(event) => {
+        if (!readOnly) event.preventDefault();
+      }}
+      onDrop={readOnly ? undefined : handleDrop}
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) selectNode(null);
+      }}
+    >
+      {nodes.length === 0 && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-white/40">
+          Drag agents here to build the swarm
+        </div>
+      )}
+
+      <svg className="pointer-events-none absolute inset-0 h-full w-full">
+        <defs>
+          <marker
+            id="swarm-arrow"
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+          </marker>
+        </defs>
+
+        {edges.map((edge) => {
+          const from = byId.get(edge.fromNodeId);
+          const to = byId.get(edge.toNodeId);
+          if (!from || !to) return null;
+
+          const fx = from.x + NODE_WIDTH / 2;
+          const fy = from.y + NODE_HEIGHT / 2;
+          const tx = to.x + NODE_WIDTH / 2;
+          const ty = to.y + NODE_HEIGHT / 2;
+
+          // Offset opposing edges so A→B and B→A do not overlap
+          const length = Math.hypot(tx - fx, ty - fy) || 1;
+          const reverse = edges.some(
+            (e) => e.fromNodeId === edge.toNodeId && e.toNodeId === edge.fromNodeId,
+          );
+          const ox = reverse ? (-(ty - fy) / length) * 8 : 0;
+          const oy = reverse ? ((tx - fx) / length) * 8 : 0;
+
+          const start = boxExit(fx, fy, tx - fx, ty - fy);
+          const end = boxExit(tx, ty, fx - tx, fy - ty);
+          const x1 = start.x + ox;
+          const y1 = start.y + oy;
+          const x2 = end.x + ox;
+          const y2 = end.y + oy;
+
+          // Heatmap: thicker, brighter edges fire more often
+          const heat = edge.handoffCount / maxCount;
+
+          return (
+            <g
+              key={edge.id}
+              className={cn(
+                edge.isActive
+                  ? "text-violet-400"
+                  : edgeCounts && edge.handoffCount > 0
+                    ? "text-amber-400"
+                    : "text-white/30",
+              )}
+            >
+              <line
+                x1={x1}
+                y1={y1}
+                x2={x2}
+                y2={y2}
+                stroke="currentColor"
+                strokeWidth={edgeCounts ? 1.5 + heat * 6 : 1.5}
+                strokeOpacity={edgeCounts && !edge.isActive ? 0.35 + heat * 0.65 : 1}
+                strokeDasharray={edge.condition === "always" ? undefined : "6 4"}
+                markerEnd="url(#swarm-arrow)"
+              />
+              {/* Wide transparent hit area */}
+              <line
+                x1={x1}
+                y1={y1}
+                x2={x2}
+                y2={y2}
+                stroke="transparent"
+                strokeWidth={14}
+                className="pointer-events-auto cursor-pointer"
+                onPointerDown={(event) => {
+                  event.stopPropagation();
+                  selectEdge({ from: edge.fromNodeId, to: edge.toNodeId });
+                }}
+              />
+              <text
+                x={(x1 + x2) / 2}
+                y={(y1 + y2) / 2 - 6}
+                textAnchor="middle"
+                className="fill-current text-[10px]"
+              >
+                {conditionLabel(edge)}
+                {edgeCounts ? ` · ${edge.handoffCount}` : ""}
+              </text>
+            </g>
+          );
+        })}
+
+        {connect && connectFrom && (
+          <line
+            x1={connectFrom.x + NODE_WIDTH}
+            y1={connectFrom.y + NODE_HEIGHT / 2}
+            x2={connect.x}
+            y2={connect.y}
+            stroke="rgb(167 139 250)"
+            strokeWidth={1.5}
+            strokeDasharray="4 4"
+          />
+        )}
+      </svg>
+
+      {nodes.map((node) => (
+        <div
+          key={node.id}
+          data-agent-id={node.agentId}
+          className={cn(
+            "absolute flex select-none items-center gap-3 rounded-xl border bg-black/80 px-3 backdrop-blur",
+            "touch-none",
+            readOnly ? "cursor-pointer" : "cursor-grab active:cursor-grabbing",
+            builder.selectedNodeId === node.agentId
+              ? "border-violet-500"
+              : "border-white/10",
+            node.isEntry && "ring-1 ring-emerald-500/60",
+            node.isActive && "border-violet-400 shadow-[0_0_24px_rgba(139,92,246,0.6)]",
+          )}
+          style={{
+            left: node.x,
+            top: node.y,
+            width: NODE_WIDTH,
+            height: NODE_HEIGHT,
+          }}
+          onPointerDown={(event) => handleNodePointerDown(event, node)}
+          onPointerMove={handleNodePointerMove}
+          onPointerUp={handleNodePointerUp}
+        >
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-violet-600/20 text-lg">
+            {node.agentAvatar && !node.agentAvatar.startsWith("http") && !node.agentAvatar.startsWith("data:")
+              ? node.agentAvatar
+              : node.agentName.charAt(0).toUpperCase()}
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-sm font-medium text-white">
+              {node.agentName}
+            </div>
+            {node.isEntry ? (
+              <Badge variant="success" className="mt-0.5 px-1.5 py-0 text-[10px]">
+                Entry
+              </Badge>
+            ) : edgeCounts ? (
+              <div className="text-[10px] text-white/40">
+                {node.handoffCount} handoffs out
+              </div>
+            ) : null}
+          </div>
+
+          {!readOnly && (
+            <button
+              type="button"
+              aria-label={`Draw handoff from ${node.agentName}`}
+              className="absolute -right-2 top-1/2 h-4 w-4 -translate-y-1/2 cursor-crosshair rounded-full border border-violet-400 bg-black hover:bg-violet-500"
+              onPointerDown={(event) => handleConnectStart(event, node.agentId)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
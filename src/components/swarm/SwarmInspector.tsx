@@ -0,0 +1,206 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM INSPECTOR - Edit the Selected Agent Node or Handoff Rule
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { AlertTriangle, CheckCircle2, Flag, Trash2 } from "lucide-react";
+import { useSwarmStore } from "@/lib/stores/swarmStore";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { HandoffCondition } from "@/types/swarm";
+
+// ─── Condition Picker Options ────────────────────────────────────────────────
+
+const CONDITIONS: { value: HandoffCondition; label: string; hint: string }[] = [
+  { value: "keyword", label: "Keyword", hint: "Word, phrase, or /regex/ in the response" },
+  { value: "intent_match", label: "Intent", hint: "Intent name picked by a local classifier" },
+  { value: "tool_required", label: "Tool required", hint: "Tool name the agent is not bound to (blank = any)" },
+  { value: "custom", label: "Custom judge", hint: "Yes/no question answered by a local model" },
+  { value: "always", label: "Always", hint: "Hand off after every response" },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function SwarmInspector() {
+  const {
+    draft,
+    builder,
+    setEntryAgent,
+    removeNode,
+    updateEdge,
+    removeEdge,
+    selectEdge,
+  } = useSwarmStore();
+
+  const selectedNode = builder.nodes.find(
+    (n) => n.agentId === builder.selectedNodeId,
+  );
+  const edge = builder.selectedEdge;
+  const edgeFrom = edge
+    ? builder.nodes.find((n) => n.agentId === edge.from)
+    : undefined;
+  const rule = edge
+    ? edgeFrom?.handoffRules.find((r) => r.targetAgentId === edge.to)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* Live validation */}
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium text-white">Validation</h3>
+        {builder.errors.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-emerald-400">
+            <CheckCircle2 className="h-4 w-4" />
+            Graph is valid
+          </p>
+        ) : (
+          <ul className="space-y-1.5">
+            {builder.errors.map((error) => (
+              <li key={error} className="flex gap-2 text-xs text-amber-300">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {selectedNode && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-white">{selectedNode.agentName}</h3>
+
+          {selectedNode.handoffRules.length > 0 ? (
+            <ul className="space-y-1">
+              {[...selectedNode.handoffRules]
+                .sort((a, b) => b.priority - a.priority)
+                .map((r) => (
+                  <li key={r.targetAgentId}>
+                    <button
+                      type="button"
+                      className="w-full rounded-md px-2 py-1.5 text-left text-xs text-white/70 hover:bg-white/5"
+                      onClick={() =>
+                        selectEdge({ from: selectedNode.agentId, to: r.targetAgentId })
+                      }
+                    >
+                      → {r.targetAgentName}{" "}
+                      <span className="text-white/40">({r.condition})</span>
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-white/40">
+              Drag from the handle on the right of the node to add a handoff.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={draft.entryAgentId === selectedNode.agentId}
+              onClick={() => setEntryAgent(selectedNode.agentId)}
+            >
+              <Flag />
+              {draft.entryAgentId === selectedNode.agentId ? "Entry agent" : "Set as entry"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-400"
+              onClick={() => removeNode(selectedNode.agentId)}
+            >
+              <Trash2 />
+              Remove
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {edge && edgeFrom && rule && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-white">
+            {edgeFrom.agentName} → {rule.targetAgentName}
+          </h3>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-white/60">Condition</span>
+            <select
+              value={rule.condition}
+              onChange={(e) =>
+                updateEdge(edge.from, edge.to, {
+                  condition: e.target.value as HandoffCondition,
+                })
+              }
+              className="h-10 min-h-[44px] w-full rounded-md border border-white/10 bg-black/40 px-3 text-sm text-white focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-violet-500"
+            >
+              {CONDITIONS.map((c) => (
+                <option key={c.value} value={c.value}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+            <span className="block text-[11px] text-white/40">
+              {CONDITIONS.find((c) => c.value === rule.condition)?.hint}
+            </span>
+          </label>
+
+          {(rule.condition === "keyword" ||
+            rule.condition === "intent_match" ||
+            rule.condition === "tool_required") && (
+            <label className="block space-y-1">
+              <span className="text-xs text-white/60">Value</span>
+              <Input
+                value={rule.conditionValue ?? ""}
+                onChange={(e) =>
+                  updateEdge(edge.from, edge.to, { conditionValue: e.target.value })
+                }
+              />
+            </label>
+          )}
+
+          {rule.condition === "custom" && (
+            <label className="block space-y-1">
+              <span className="text-xs text-white/60">Question</span>
+              <Textarea
+                value={rule.customPrompt ?? ""}
+                placeholder="Does the user need billing help?"
+                onChange={(e) =>
+                  updateEdge(edge.from, edge.to, { customPrompt: e.target.value })
+                }
+              />
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-xs text-white/60">Priority (higher runs first)</span>
+            <Input
+              type="number"
+              value={rule.priority}
+              onChange={(e) =>
+                updateEdge(edge.from, edge.to, {
+                  priority: Number.parseInt(e.target.value, 10) || 0,
+                })
+              }
+            />
+          </label>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-400"
+            onClick={() => removeEdge(edge.from, edge.to)}
+          >
+            <Trash2 />
+            Delete handoff
+          </Button>
+        </section>
+      )}
+    </div>
+  );
+}
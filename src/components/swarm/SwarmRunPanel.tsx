@@ -0,0 +1,253 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM RUN PANEL - Run History, Step-by-Step Replay, and Tool Approvals
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  History,
+  Pause,
+  Play,
+  RefreshCw,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSwarmStore } from "@/lib/stores/swarmStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ToolApprovalCard } from "@/components/chat/ToolApprovalCard";
+import type { SwarmRunStatus } from "@/types/swarm";
+
+const PLAYBACK_INTERVAL_MS = 1200;
+
+/** How often calls waiting for approval are re-listed */
+const APPROVAL_POLL_MS = 5000;
+
+const STATUS_VARIANTS: Record<SwarmRunStatus, "secondary" | "success" | "destructive"> = {
+  running: "secondary",
+  completed: "success",
+  error: "destructive",
+};
+
+function formatTime(value: Date | string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function SwarmRunPanel() {
+  const {
+    draft,
+    runs,
+    replay,
+    pendingApprovals,
+    fetchRuns,
+    fetchPendingApprovals,
+    openReplay,
+    setReplayStep,
+    setReplayPlaying,
+    closeReplay,
+  } = useSwarmStore();
+
+  const swarmId = draft.id;
+  React.useEffect(() => {
+    if (swarmId) void fetchRuns(swarmId);
+  }, [swarmId, fetchRuns]);
+
+  // Runs park "ask" tool calls until someone decides; list them while open
+  React.useEffect(() => {
+    if (!swarmId) return;
+    void fetchPendingApprovals(swarmId);
+    const timer = setInterval(() => void fetchPendingApprovals(swarmId), APPROVAL_POLL_MS);
+    return () => clearInterval(timer);
+  }, [swarmId, fetchPendingApprovals]);
+
+  const lastStep = replay?.run.executionLog.length ?? 0;
+  const isPlaying = replay?.isPlaying ?? false;
+  const step = replay?.step ?? 0;
+
+  // Auto-advance while playing; the store stops playback at the final step.
+  // Setting an absolute step keeps this idempotent if the panel is mounted twice.
+  React.useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => setReplayStep(step + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, setReplayStep]);
+
+  if (!swarmId) {
+    return (
+      <p className="text-xs text-white/40">Save the swarm to start recording runs.</p>
+    );
+  }
+
+  // ─── Tool Approvals ────────────────────────────────────────────────────────
+
+  const approvals = pendingApprovals.length > 0 && (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-white">Waiting for approval</h3>
+      {pendingApprovals.map((approval) => (
+        <ToolApprovalCard
+          key={approval.toolCallId}
+          approval={approval}
+          onDecided={() => void fetchPendingApprovals(swarmId)}
+        />
+      ))}
+    </div>
+  );
+
+  // ─── Replay View ───────────────────────────────────────────────────────────
+
+  if (replay) {
+    const { run, messages } = replay;
+    const event = run.executionLog[step - 1];
+    // Assistant turns are stored in order, one per iteration
+    const turns = messages.filter((m) => m.role === "assistant");
+    const turn = turns[step];
+
+    return (
+      <div className="space-y-4">
+        {approvals}
+
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-white">Replay</h3>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close replay"
+            onClick={closeReplay}
+          >
+            <X />
+          </Button>
+        </div>
+
+        <p className="line-clamp-2 text-xs text-white/60">“{run.userMessage}”</p>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="secondary"
+            size="icon"
+            aria-label="Previous step"
+            disabled={step === 0}
+            onClick={() => setReplayStep(step - 1)}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            aria-label={isPlaying ? "Pause" : "Play"}
+            disabled={lastStep === 0}
+            onClick={() => setReplayPlaying(!isPlaying)}
+          >
+            {isPlaying ? <Pause /> : <Play />}
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            aria-label="Next step"
+            disabled={step >= lastStep}
+            onClick={() => setReplayStep(step + 1)}
+          >
+            <ChevronRight />
+          </Button>
+          <span className="ml-auto text-xs text-white/40">
+            Step {step} / {lastStep}
+          </span>
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-white/5 bg-white/[0.02] p-3 text-xs">
+          {event ? (
+            <>
+              <div className="font-medium text-white">
+                {event.fromAgentName} → {event.toAgentName}
+              </div>
+              <div className="text-white/60">{event.reason}</div>
+              {event.triggeredCondition && (
+                <Badge variant="outline">{event.triggeredCondition}</Badge>
+              )}
+            </>
+          ) : (
+            <div className="text-white/60">Run started at the entry agent</div>
+          )}
+
+          {turn && (
+            <p className="line-clamp-6 whitespace-pre-wrap border-t border-white/5 pt-2 text-white/70">
+              {typeof turn.content === "string" ? turn.content : ""}
+            </p>
+          )}
+        </div>
+
+        {step === lastStep && run.error && (
+          <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-xs text-red-300">
+            <div className="font-medium">{run.error.code}</div>
+            <div>{run.error.message}</div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ─── Run List ──────────────────────────────────────────────────────────────
+
+  return (
+    <div className="space-y-3">
+      {approvals}
+
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-medium text-white">
+          <History className="h-4 w-4" />
+          Recent runs
+        </h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Refresh runs"
+          onClick={() => void fetchRuns(swarmId)}
+        >
+          <RefreshCw />
+        </Button>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-xs text-white/40">No runs yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {runs.map((run) => (
+            <li key={run.id}>
+              <button
+                type="button"
+                onClick={() => void openReplay(run.id)}
+                className={cn(
+                  "w-full space-y-1 rounded-lg px-3 py-2 text-left hover:bg-white/5",
+                  "min-h-[44px]",
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[run.status]}>{run.status}</Badge>
+                  <span className="text-[11px] text-white/40">
+                    {formatTime(run.startedAt)}
+                  </span>
+                </div>
+                <div className="truncate text-xs text-white/70">{run.userMessage}</div>
+                <div className="text-[11px] text-white/40">
+                  {run.iterationCount} iterations · {run.executionLog.length} handoffs
+                  {run.error ? ` · ${run.error.code}` : ""}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP SERVER CARD - Connection Status and Recent Connection Events for a Server
+// ═══════════════════════════════════════════════════════════════════════════════
+
+"use client";
+
+import * as React from "react";
+import { ChevronDown, ChevronRight, Loader2, Server } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useMCPStore } from "@/lib/stores/mcpStore";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { MCPConnectionEventType, MCPServer, MCPServerStatus } from "@/types/tool";
+
+const STATUS_VARIANTS: Record<
+  MCPServerStatus,
+  "outline" | "warning" | "success" | "destructive"
+> = {
+  disconnected: "outline",
+  connecting: "warning",
+  connected: "success",
+  error: "destructive",
+};
+
+const EVENT_COLORS: Record<MCPConnectionEventType, string> = {
+  connected: "text-emerald-400",
+  reconnected: "text-emerald-400",
+  reconnecting: "text-amber-400",
+  disconnected: "text-white/50",
+  connection_lost: "text-red-400",
+  reconnect_failed: "text-red-400",
+  error: "text-red-400",
+};
+
+interface MCPServerCardProps {
+  server: MCPServer;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function MCPServerCard({ server }: MCPServerCardProps) {
+  const { connectionEvents, fetchConnectionEvents } = useMCPStore();
+  const [showHistory, setShowHistory] = React.useState(false);
+
+  const events = connectionEvents[server.id];
+
+  // Refresh the history whenever the server's status changes while it's open
+  React.useEffect(() => {
+    if (showHistory) void fetchConnectionEvents(server.id);
+  }, [showHistory, server.id, server.status, server.statusMessage, fetchConnectionEvents]);
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/5 bg-white/[0.02] p-4">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Server className="mt-0.5 h-5 w-5 shrink-0 text-white/40" />
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium text-white" title={server.name}>
+            {server.name}
+          </div>
+          <div className="truncate text-xs text-white/40">
+            {server.transport} · {server.url ?? server.command ?? "—"} · {server.toolCount} tools
+          </div>
+        </div>
+        <Badge variant={STATUS_VARIANTS[server.status]} className="shrink-0">
+          {server.status === "connecting" && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {server.status}
+        </Badge>
+      </div>
+
+      {server.statusMessage && (
+        <div
+          className={cn(
+            "text-xs",
+            server.status === "error"
+              ? "rounded-lg border border-red-500/20 bg-red-500/10 p-2 text-red-300"
+              : "text-white/60",
+          )}
+        >
+          {server.statusMessage}
+        </div>
+      )}
+
+      {/* Connection history */}
+      <Button
+        variant="ghost"
+        size="sm"
+        aria-expanded={showHistory}
+        onClick={() => setShowHistory(!showHistory)}
+      >
+        {showHistory ? <ChevronDown /> : <ChevronRight />}
+        Connection history
+      </Button>
+
+      {showHistory &&
+        (events === undefined ? (
+          <Loader2 className="h-4 w-4 animate-spin text-white/40" />
+        ) : events.length === 0 ? (
+          <p className="text-xs text-white/40">No connection events yet</p>
+        ) : (
+          <ul className="max-h-64 space-y-1 overflow-auto text-xs">
+            {events.map((event) => (
+              <li key={event.id} className="flex gap-2">
+                <span className="shrink-0 text-white/30">
+                  {new Date(event.createdAt).toLocaleString()}
+                </span>
+                <span className={cn("shrink-0 font-mono", EVENT_COLORS[event.type])}>
+                  {event.type}
+                  {event.attempt !== null && ` #${event.attempt}`}
+                </span>
+                {event.message && (
+                  <span className="min-w-0 break-words text-white/60">{event.message}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+}
@@ -9,7 +9,27 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { reconstructGenesisData } from "@/lib/db/client";
-import { searchRecollections } from "@/lib/ai/vectorService";
+import { listPinnedRecollections, searchRecollections } from "@/lib/ai/vectorService";
+import {
+  groupKnowledgeSources,
+  searchAgentKnowledge,
+} from "@/lib/knowledge/retrieval";
+import type { KnowledgeSource } from "@/lib/knowledge/retrieval";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getContextLength,
+  responseReserve,
+  truncateToTokens,
+} from "@/lib/ai/tokenBudget";
+import type { GatewayMessage, GatewayTool } from "@/lib/ai/unifiedGateway";
+import type {
+  MessageCitation,
+  PromptBudgetReport,
+  PromptSection,
+  PromptSectionUsage,
+} from "@/types/chat";
+import type { KnowledgeChunk } from "@/types/tool";
 import type {
   GenesisData,
   GenesisContext,
@@ -34,6 +54,133 @@ export interface InjectionOptions {
   format?: "detailed" | "compact" | "minimal";
 }
 
+/**
+ * System prompt plus the knowledge sources it cites.
+ */
+export interface PromptContext {
+  systemPrompt: string;
+  citations: MessageCitation[];
+}
+
+export interface PromptAssemblyInput {
+  basePrompt: string;
+  agentId: string;
+  /** Model whose context window the prompt must fit */
+  model: string;
+  /** Text knowledge and recollections are retrieved for */
+  query: string;
+  /** Messages after the system prompt, oldest first. The last one is being answered and is always sent. */
+  conversation: GatewayMessage[];
+  /** Rolling summary of messages older than `conversation` */
+  summary?: string | null;
+  /** Tool definitions sent with the request; they count against the window */
+  tools?: GatewayTool[];
+  options?: InjectionOptions & { position?: "start" | "end" };
+}
+
+/**
+ * Messages ready for the gateway, the knowledge sources they cite, and how
+ * the context window was spent.
+ */
+export interface AssembledPrompt {
+  messages: GatewayMessage[];
+  citations: MessageCitation[];
+  budget: PromptBudgetReport;
+}
+
+interface RetrievedContext {
+  pinned: string[];
+  recollections: string[];
+  knowledge: KnowledgeChunk[];
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/**
+ * Messages loaded as history per turn. The token budget decides how many of
+ * them are sent.
+ */
+export const PROMPT_HISTORY_LIMIT = 50;
+
+/** Allowance for a context block's header and footer lines */
+const BLOCK_TOKENS = 48;
+
+/** Allowance for a knowledge source's title line, charged per chunk */
+const SOURCE_HEADER_TOKENS = 16;
+
+/** Role framing of the system message */
+const SYSTEM_FRAMING_TOKENS = estimateMessageTokens({ role: "system", content: "" });
+
+/** Below this, a history message is dropped rather than cut down */
+const MIN_TRUNCATED_TOKENS = 64;
+
+// ─── Budget Helpers ──────────────────────────────────────────────────────────
+
+function usageOf(section: PromptSection, included: number): PromptSectionUsage {
+  return { section, tokens: 0, included, dropped: 0, truncated: 0 };
+}
+
+function formatRecollection(recollection: string): string {
+  return `\u2022 ${recollection.replace(/\n/g, " \\ ")}`;
+}
+
+function recollectionTokens(recollection: string): number {
+  return estimateTokens(formatRecollection(recollection)) + 1;
+}
+
+/**
+ * Keep items, in order, while they fit in `budget`; items too large to fit
+ * are skipped so smaller ones after them still get a chance. `blockTokens`
+ * is charged once when anything is kept.
+ */
+function fitItems<T>(
+  items: T[],
+  sizeOf: (item: T) => number,
+  budget: number,
+  blockTokens: number,
+): { kept: T[]; tokens: number } {
+  const kept: T[] = [];
+  let tokens = blockTokens;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+    if (tokens + size > budget) continue;
+    kept.push(item);
+    tokens += size;
+  }
+
+  return { kept, tokens: kept.length > 0 ? tokens : 0 };
+}
+
+function fittedUsage(
+  section: PromptSection,
+  available: number,
+  fitted: { kept: unknown[]; tokens: number },
+): PromptSectionUsage {
+  return {
+    ...usageOf(section, fitted.kept.length),
+    tokens: fitted.tokens,
+    dropped: available - fitted.kept.length,
+  };
+}
+
+// ─── Citation Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Chunks of a knowledge source, 1-based with consecutive runs collapsed,
+ * e.g. [1, 2, 3, 8] → "chunks 2–4, 9".
+ */
+function formatChunkIndexes(indexes: number[]): string {
+  const runs: string[] = [];
+  for (let i = 0; i < indexes.length; i++) {
+    const start = indexes[i]!;
+    while (indexes[i + 1] === indexes[i]! + 1) i++;
+    const end = indexes[i]!;
+    runs.push(start === end ? `${start + 1}` : `${start + 1}\u2013${end + 1}`);
+  }
+  return `${indexes.length === 1 ? "chunk" : "chunks"} ${runs.join(", ")}`;
+}
+
 // ─── Context Injector Class ──────────────────────────────────────────────────
 
 export class ContextInjector {
@@ -151,7 +298,6 @@ export class ContextInjector {
 
   /**
    * Build a complete system prompt with injected context.
-   * This is the primary entry point used by API routes.
    */
   async buildSystemPrompt(
     basePrompt: string,
@@ -159,39 +305,265 @@ export class ContextInjector {
     userMessage: string,
     options: InjectionOptions & { position?: "start" | "end" } = {},
   ): Promise<string> {
-    const genesisContext = this.getGenesisContext(options);
+    const { systemPrompt } = await this.buildPromptContext(
+      basePrompt,
+      agentId,
+      userMessage,
+      options,
+    );
+    return systemPrompt;
+  }
 
-    const relevantRecollections = await searchRecollections({
+  /**
+   * Build the system prompt with genesis context, recollections, and
+   * knowledge retrieved from the agent's linked documents. Returns the
+   * citations so the reply can reference its sources.
+   * Nothing is trimmed to fit a context window; see assemblePrompt.
+   */
+  async buildPromptContext(
+    basePrompt: string,
+    agentId: string,
+    userMessage: string,
+    options: InjectionOptions & { position?: "start" | "end" } = {},
+  ): Promise<PromptContext> {
+    const { pinned, recollections, knowledge } = await this.retrieveContext(
       agentId,
-      query: userMessage,
-      nResults: 5,
-    });
+      userMessage,
+    );
+    const sources = groupKnowledgeSources(knowledge);
+
+    const systemPrompt = this.composeSystemPrompt(
+      basePrompt,
+      [
+        this.getGenesisContext(options),
+        this.formatRecollectionContext(Array.from(new Set([...pinned, ...recollections]))),
+        this.formatKnowledgeContext(sources),
+      ],
+      options.position,
+    );
+
+    return { systemPrompt, citations: sources.map((source) => source.citation) };
+  }
 
-    let recollectionContext = "";
-    if (relevantRecollections.length > 0) {
-      recollectionContext = [
-        "[RELEVANT RECOLLECTIONS]",
-        "\u2500".repeat(40),
-        ...relevantRecollections.map((r) => `\u2022 ${r.replace(/\n/g, " \\ ")}`),
-        "\u2500".repeat(40),
-        "[END RECOLLECTIONS]",
-      ].join("\n");
+  /**
+   * Assemble the messages for a model call within the model's context
+   * window. Sections are filled in priority order — system prompt and latest
+   * message, pinned memories, knowledge, session summary, history, then
+   * searched recollections — and whatever doesn't fit is truncated or dropped.
+   * This is the primary entry point used by API routes.
+   */
+  async assemblePrompt({
+    basePrompt,
+    agentId,
+    model,
+    query,
+    conversation,
+    summary,
+    tools,
+    options = {},
+  }: PromptAssemblyInput): Promise<AssembledPrompt> {
+    const contextLength = await getContextLength(model);
+    const toolTokens = tools?.length ? estimateTokens(JSON.stringify(tools)) : 0;
+    // Whatever the tools cost, at least half the window stays for the prompt
+    const reserved = Math.min(
+      responseReserve(contextLength) + toolTokens,
+      Math.floor(contextLength / 2),
+    );
+    let remaining = contextLength - reserved;
+
+    // ── System prompt and latest message: always sent, shortened if needed
+    const earlier = conversation.slice(0, -1);
+    let latest = conversation[conversation.length - 1];
+    let genesisContext = this.getGenesisContext(options);
+    let systemPrompt = basePrompt;
+    const system = usageOf("system", 1);
+    const message = usageOf("message", latest ? 1 : 0);
+
+    const coreTokens = () =>
+      estimateTokens(this.composeSystemPrompt(systemPrompt, [genesisContext], options.position)) +
+      SYSTEM_FRAMING_TOKENS;
+    let latestTokens = latest ? estimateMessageTokens(latest) : 0;
+
+    if (latest && coreTokens() + latestTokens > remaining) {
+      // A long paste gives way first, down to half the window
+      const limit = Math.max(remaining - coreTokens(), Math.min(latestTokens, Math.floor(remaining / 2)));
+      if (latestTokens > limit && typeof latest.content === "string") {
+        const framing = estimateMessageTokens({ ...latest, content: "" });
+        latest = { ...latest, content: truncateToTokens(latest.content, limit - framing) };
+        latestTokens = estimateMessageTokens(latest);
+        message.truncated = 1;
+      }
+    }
+    if (coreTokens() + latestTokens > remaining) {
+      // Personalisation is optional; the agent's own instructions are not
+      genesisContext = "";
+      systemPrompt = truncateToTokens(
+        basePrompt,
+        remaining - latestTokens - SYSTEM_FRAMING_TOKENS,
+      );
+      system.truncated = 1;
+    }
+    system.tokens = coreTokens();
+    message.tokens = latestTokens;
+    remaining = Math.max(0, remaining - system.tokens - latestTokens);
+
+    const retrieved = await this.retrieveContext(agentId, query);
+
+    // ── Pinned memories
+    const pinned = fitItems(retrieved.pinned, recollectionTokens, remaining, BLOCK_TOKENS);
+    remaining -= pinned.tokens;
+
+    // ── Knowledge
+    const knowledge = fitItems(
+      retrieved.knowledge,
+      (chunk) => estimateTokens(chunk.content) + SOURCE_HEADER_TOKENS,
+      remaining,
+      BLOCK_TOKENS,
+    );
+    remaining -= knowledge.tokens;
+
+    // ── Session summary, shortened if it doesn't fit
+    let summaryMessage: GatewayMessage | null = null;
+    const summaryUsage = usageOf("summary", 0);
+    if (summary) {
+      summaryMessage = { role: "system", content: this.formatSummaryContext(summary) };
+      const tokens = estimateMessageTokens(summaryMessage);
+
+      if (tokens > remaining) {
+        const shortened =
+          remaining >= MIN_TRUNCATED_TOKENS + BLOCK_TOKENS
+            ? truncateToTokens(summary, remaining - BLOCK_TOKENS)
+            : "";
+        summaryMessage = shortened
+          ? { role: "system", content: this.formatSummaryContext(shortened) }
+          : null;
+        summaryUsage[summaryMessage ? "truncated" : "dropped"] = 1;
+      }
+      if (summaryMessage) {
+        summaryUsage.included = 1;
+        summaryUsage.tokens = estimateMessageTokens(summaryMessage);
+        remaining -= summaryUsage.tokens;
+      }
     }
 
-    const fullContext = [genesisContext, recollectionContext]
-      .filter(Boolean)
-      .join("\n\n");
+    // ── History, newest first; the first message that doesn't fit is
+    // shortened when there's room to say something useful
+    const history: GatewayMessage[] = [];
+    const historyUsage = usageOf("history", 0);
+    for (let i = earlier.length - 1; i >= 0; i--) {
+      let entry = earlier[i]!;
+      let tokens = estimateMessageTokens(entry);
+
+      if (tokens > remaining) {
+        if (remaining < MIN_TRUNCATED_TOKENS || typeof entry.content !== "string") break;
+        const framing = estimateMessageTokens({ ...entry, content: "" });
+        entry = { ...entry, content: truncateToTokens(entry.content, remaining - framing) };
+        tokens = estimateMessageTokens(entry);
+        historyUsage.truncated = 1;
+      }
 
-    if (!fullContext) {
-      return basePrompt;
+      history.unshift(entry);
+      historyUsage.tokens += tokens;
+      remaining -= tokens;
+      if (historyUsage.truncated) break;
     }
+    historyUsage.included = history.length;
+    historyUsage.dropped = earlier.length - history.length;
+
+    // ── Searched recollections fill what's left
+    const pinnedSet = new Set(retrieved.pinned);
+    const searched = retrieved.recollections.filter((r) => !pinnedSet.has(r));
+    const recollections = fitItems(
+      searched,
+      recollectionTokens,
+      remaining,
+      pinned.kept.length > 0 ? 0 : BLOCK_TOKENS,
+    );
+
+    const sources = groupKnowledgeSources(knowledge.kept);
+    const messages: GatewayMessage[] = [
+      {
+        role: "system",
+        content: this.composeSystemPrompt(
+          systemPrompt,
+          [
+            genesisContext,
+            this.formatRecollectionContext([...pinned.kept, ...recollections.kept]),
+            this.formatKnowledgeContext(sources),
+          ],
+          options.position,
+        ),
+      },
+      ...(summaryMessage ? [summaryMessage] : []),
+      ...history,
+      ...(latest ? [latest] : []),
+    ];
 
-    const position = options.position ?? "end";
+    return {
+      messages,
+      citations: sources.map((source) => source.citation),
+      budget: {
+        model,
+        contextLength,
+        reserved,
+        used: messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0),
+        sections: [
+          system,
+          message,
+          fittedUsage("pinned", retrieved.pinned.length, pinned),
+          fittedUsage("knowledge", retrieved.knowledge.length, knowledge),
+          summaryUsage,
+          historyUsage,
+          fittedUsage("recollections", searched.length, recollections),
+        ],
+      },
+    };
+  }
 
-    if (position === "start") {
-      return `${fullContext}\n\n${basePrompt}`;
-    }
-    return `${basePrompt}\n\n${fullContext}`;
+  /**
+   * Pinned memories, searched recollections, and knowledge for a query.
+   * Each lookup is best-effort: an unavailable vector store or embedding
+   * model shouldn't block the chat.
+   */
+  private async retrieveContext(agentId: string, query: string): Promise<RetrievedContext> {
+    const recollections = await searchRecollections({
+      agentId,
+      query,
+      nResults: 5,
+    }).catch((error) => {
+      console.error("[ContextInjector] Recollection search failed:", error);
+      return [] as string[];
+    });
+
+    const pinned = await listPinnedRecollections(agentId)
+      .then((rows) => rows.map((row) => row.content))
+      .catch((error) => {
+        console.error("[ContextInjector] Pinned recollections failed:", error);
+        return [] as string[];
+      });
+
+    const knowledge = await searchAgentKnowledge({ agentId, query }).catch((error) => {
+      console.error("[ContextInjector] Knowledge search failed:", error);
+      return [] as KnowledgeChunk[];
+    });
+
+    return { pinned, recollections, knowledge };
+  }
+
+  /**
+   * Place context blocks before or after the base prompt.
+   */
+  private composeSystemPrompt(
+    basePrompt: string,
+    blocks: string[],
+    position: "start" | "end" = "end",
+  ): string {
+    const context = blocks.filter(Boolean).join("\n\n");
+    if (!context) return basePrompt;
+
+    return position === "start"
+      ? `${context}\n\n${basePrompt}`
+      : `${basePrompt}\n\n${context}`;
   }
 
   // ─── Formatting Methods ────────────────────────────────────────────────────
@@ -279,6 +651,49 @@ export class ContextInjector {
     return "[Personalized Context Active]";
   }
 
+  private formatSummaryContext(summary: string): string {
+    return [
+      "[CONVERSATION SUMMARY]",
+      "Summary of earlier messages in this conversation:",
+      summary,
+      "[END SUMMARY]",
+    ].join("\n");
+  }
+
+  private formatRecollectionContext(recollections: string[]): string {
+    if (recollections.length === 0) return "";
+
+    return [
+      "[RELEVANT RECOLLECTIONS]",
+      "\u2500".repeat(40),
+      ...recollections.map(formatRecollection),
+      "\u2500".repeat(40),
+      "[END RECOLLECTIONS]",
+    ].join("\n");
+  }
+
+  private formatKnowledgeContext(sources: KnowledgeSource[]): string {
+    if (sources.length === 0) return "";
+
+    const lines: string[] = [
+      "[KNOWLEDGE BASE]",
+      "\u2500".repeat(40),
+      "Excerpts from the user's documents. When you use one, cite it with its",
+      "source number in square brackets, e.g. [1].",
+    ];
+
+    for (const { citation, chunks } of sources) {
+      lines.push(
+        "",
+        `[${citation.index}] ${citation.originalName} (${formatChunkIndexes(citation.chunkIndexes)})`,
+      );
+      lines.push(...chunks.map((chunk) => chunk.content));
+    }
+
+    lines.push("\u2500".repeat(40), "[END KNOWLEDGE BASE]");
+    return lines.join("\n");
+  }
+
   // ─── Guidance Generators ───────────────────────────────────────────────────
 
   private getExpertiseGuidance(level: SkillLevel): string {
@@ -0,0 +1,137 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMBEDDINGS — Local-First Embedding Functions for the Vector Store
+//
+// Sovereignty: Ollama is the DEFAULT embedding backend. OpenAI embeddings are
+// opt-in via EMBEDDING_PROVIDER=openai and require OPENAI_API_KEY.
+//
+// EMBEDDING_MODEL overrides the model (default: nomic-embed-text for Ollama,
+// text-embedding-3-small for OpenAI).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { OpenAIEmbeddingFunction } from "chromadb";
+import type { IEmbeddingFunction } from "chromadb";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+const OLLAMA_BASE_URL =
+  process.env.OLLAMA_URL ?? "http://host.docker.internal:11434";
+
+export type EmbeddingProvider = "ollama" | "openai";
+
+const DEFAULT_MODELS: Record<EmbeddingProvider, string> = {
+  ollama: "nomic-embed-text",
+  openai: "text-embedding-3-small",
+};
+
+/** Texts sent per embedding request */
+const EMBED_BATCH_SIZE = 32;
+
+// ─── Ollama Embedding Function ───────────────────────────────────────────────
+
+/**
+ * Chroma-compatible embedding function backed by Ollama's /api/embed.
+ * Falls back to the older one-text-per-call /api/embeddings endpoint.
+ * (chromadb's bundled Ollama embedder needs the `ollama` npm package.)
+ */
+export class OllamaEmbeddingFunction implements IEmbeddingFunction {
+  constructor(
+    private readonly model: string,
+    private readonly baseUrl: string = OLLAMA_BASE_URL,
+  ) {}
+
+  async generate(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      embeddings.push(...(await this.embedBatch(texts.slice(i, i + EMBED_BATCH_SIZE))));
+    }
+    return embeddings;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (response.status === 404) {
+      const errorText = await response.text();
+      // A 404 naming the model means it isn't pulled; otherwise the server
+      // predates /api/embed
+      if (errorText.includes(this.model)) {
+        throw new Error(`Ollama embedding model "${this.model}" not found: ${errorText}`);
+      }
+      return Promise.all(texts.map((text) => this.embedLegacy(text)));
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Ollama embedding error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as { embeddings: number[][] };
+    return data.embeddings;
+  }
+
+  private async embedLegacy(text: string): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, prompt: text }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Ollama embedding error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as { embedding: number[] };
+    return data.embedding;
+  }
+}
+
+// ─── Selection ───────────────────────────────────────────────────────────────
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProvider;
+  model: string;
+  /** Stable identifier stored with collections, e.g. "ollama/nomic-embed-text" */
+  id: string;
+}
+
+/**
+ * Embedding backend chosen by the environment. Ollama unless OpenAI is
+ * explicitly requested.
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider: EmbeddingProvider =
+    process.env.EMBEDDING_PROVIDER === "openai" ? "openai" : "ollama";
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider];
+  return { provider, model, id: `${provider}/${model}` };
+}
+
+let _embedder: { id: string; fn: IEmbeddingFunction } | null = null;
+
+/**
+ * Shared embedding function for the configured backend.
+ */
+export function getEmbeddingFunction(): IEmbeddingFunction {
+  const config = getEmbeddingConfig();
+  if (_embedder?.id === config.id) return _embedder.fn;
+
+  let fn: IEmbeddingFunction;
+  if (config.provider === "openai") {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY");
+    }
+    fn = new OpenAIEmbeddingFunction({
+      openai_api_key: process.env.OPENAI_API_KEY,
+      openai_model: config.model,
+    });
+  } else {
+    fn = new OllamaEmbeddingFunction(config.model);
+  }
+
+  _embedder = { id: config.id, fn };
+  return fn;
+}
@@ -0,0 +1,75 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// HYBRID SEARCH TESTS - Reciprocal Rank Fusion
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HYBRID_RRF_K, reciprocalRankFusion } from "@/lib/ai/hybridSearch";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+interface Hit {
+  id: string;
+  from: string;
+}
+
+function hits(from: string, ...ids: string[]): Hit[] {
+  return ids.map((id) => ({ id, from }));
+}
+
+const keyOf = (hit: Hit) => hit.id;
+
+/** RRF contribution of a 1-based rank with k = 60 */
+const rrf = (rank: number) => 1 / (60 + rank);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("reciprocalRankFusion", () => {
+  it("defaults k to 60", () => {
+    assert.equal(HYBRID_RRF_K, 60);
+  });
+
+  it("sums 1 / (k + rank) across the rankings an item appears in", () => {
+    const fused = reciprocalRankFusion([hits("vector", "a", "b"), hits("lexical", "b", "c")], keyOf);
+
+    assert.deepEqual(
+      fused.map((r) => [r.item.id, r.score, r.rankings]),
+      [
+        ["b", rrf(2) + rrf(1), [0, 1]],
+        ["a", rrf(1), [0]],
+        ["c", rrf(2), [1]],
+      ],
+    );
+  });
+
+  it("keeps the item from the first ranking it appears in", () => {
+    const [top] = reciprocalRankFusion([hits("vector", "a"), hits("lexical", "a")], keyOf);
+    assert.equal(top?.item.from, "vector");
+  });
+
+  it("orders tied scores by first appearance", () => {
+    const fused = reciprocalRankFusion(
+      [hits("vector", "a", "b", "c"), hits("lexical", "c", "d", "a")],
+      keyOf,
+    );
+
+    // a and c both score 1/61 + 1/63; b and d both score 1/62
+    assert.deepEqual(
+      fused.map((r) => r.item.id),
+      ["a", "c", "b", "d"],
+    );
+    assert.equal(fused[0]!.score, fused[1]!.score);
+    assert.equal(fused[2]!.score, fused[3]!.score);
+  });
+
+  it("uses the given k", () => {
+    const [top] = reciprocalRankFusion([hits("vector", "a")], keyOf, 0);
+    assert.equal(top?.score, 1);
+  });
+
+  it("returns nothing for empty rankings", () => {
+    assert.deepEqual(reciprocalRankFusion<Hit>([[], []], keyOf), []);
+  });
+});
@@ -0,0 +1,150 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// HYBRID SEARCH - Reciprocal Rank Fusion and Optional LLM Reranking
+//
+// Retrievers run a vector query and a BM25 query (lexicalIndex) and merge the
+// two rankings here. Reranking is opt-in: set RERANK_MODEL to a model the
+// UnifiedGateway can reach (e.g. "ollama/qwen2.5:3b").
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** RRF damping constant; 60 is the value from the original paper */
+export const HYBRID_RRF_K = Number.parseInt(process.env.HYBRID_RRF_K ?? "60", 10);
+
+export const RERANK_MODEL = process.env.RERANK_MODEL || null;
+
+/** Candidates fetched from each ranking per requested result */
+const CANDIDATE_MULTIPLIER = 4;
+const MIN_CANDIDATES = 20;
+
+/** Fused results sent to the rerank model per requested result */
+const RERANK_POOL_MULTIPLIER = 2;
+
+/** Passages longer than this are truncated in the rerank prompt */
+const RERANK_PASSAGE_CHARS = 1200;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface FusedResult<T> {
+  item: T;
+  /** Sum of 1 / (k + rank) across the rankings the item appeared in */
+  score: number;
+  /** Indexes of the rankings the item appeared in */
+  rankings: number[];
+}
+
+// ─── Fusion ──────────────────────────────────────────────────────────────────
+
+/**
+ * How many candidates each retriever should return for `nResults` results.
+ */
+export function candidateCount(nResults: number): number {
+  return Math.max(MIN_CANDIDATES, nResults * CANDIDATE_MULTIPLIER);
+}
+
+/**
+ * How many of the top fused results to rerank for `nResults` results.
+ */
+export function rerankPoolSize(nResults: number): number {
+  return nResults * RERANK_POOL_MULTIPLIER;
+}
+
+/**
+ * Merge ranked lists with reciprocal rank fusion. Items are matched by key;
+ * the first list an item appears in supplies the returned item.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  keyOf: (item: T) => string,
+  k: number = HYBRID_RRF_K,
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  rankings.forEach((ranking, listIndex) => {
+    ranking.forEach((item, rank) => {
+      const key = keyOf(item);
+      const entry = fused.get(key) ?? { item, score: 0, rankings: [] };
+      entry.score += 1 / (k + rank + 1);
+      entry.rankings.push(listIndex);
+      fused.set(key, entry);
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+// ─── Reranking ───────────────────────────────────────────────────────────────
+
+/**
+ * Ask a local model to score each passage's relevance to the query (0–10).
+ * Returns null when reranking is disabled or the model's reply can't be
+ * used, so callers keep the fused order.
+ */
+export async function rerankPassages(
+  query: string,
+  passages: string[],
+  model: string | null = RERANK_MODEL,
+): Promise<number[] | null> {
+  if (!model || passages.length < 2) return null;
+
+  const numbered = passages
+    .map((passage, i) => `[${i + 1}] ${passage.slice(0, RERANK_PASSAGE_CHARS)}`)
+    .join("\n\n");
+
+  try {
+    const response = await unifiedGateway.complete({
+      model,
+      temperature: 0,
+      maxTokens: passages.length * 4 + 16,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You judge how well passages answer a search query. " +
+            "Reply with only a JSON array of integers from 0 (irrelevant) to 10 " +
+            "(directly answers), one per passage, in the order given.",
+        },
+        {
+          role: "user",
+          content: `Query: ${query}\n\nPassages:\n${numbered}`,
+        },
+      ],
+    });
+
+    const json = response.content.match(/\[[\s\S]*?\]/)?.[0];
+    const scores: unknown = json ? JSON.parse(json) : null;
+    if (
+      !Array.isArray(scores) ||
+      scores.length !== passages.length ||
+      !scores.every((score) => typeof score === "number")
+    ) {
+      console.error("[HybridSearch] Unusable rerank response:", response.content);
+      return null;
+    }
+
+    return scores as number[];
+  } catch (error) {
+    console.error("[HybridSearch] Rerank failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Rerank items by relevance to the query, keeping the incoming order for
+ * ties and when reranking is disabled or fails (rerankScore is then null).
+ */
+export async function rerankItems<T>(
+  query: string,
+  items: T[],
+  textOf: (item: T) => string,
+  model: string | null = RERANK_MODEL,
+): Promise<{ item: T; rerankScore: number | null }[]> {
+  const scores = await rerankPassages(query, items.map(textOf), model);
+  if (!scores) return items.map((item) => ({ item, rerankScore: null }));
+
+  return items
+    .map((item, i) => ({ item, rerankScore: scores[i]! }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
@@ -0,0 +1,45 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LEXICAL INDEX TESTS - FTS5 Query Building
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toFtsQuery } from "@/lib/ai/lexicalIndex";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("toFtsQuery", () => {
+  it("quotes each term and ORs them by default", () => {
+    assert.equal(toFtsQuery("reset  the\nconnection"), '"reset" OR "the" OR "connection"');
+    assert.equal(toFtsQuery("reset connection", "AND"), '"reset" AND "connection"');
+  });
+
+  it("keeps identifiers with punctuation as single phrases", () => {
+    assert.equal(
+      toFtsQuery("ERR_CONN_RESET x-request-id foo.bar()"),
+      '"ERR_CONN_RESET" OR "x-request-id" OR "foo.bar"',
+    );
+  });
+
+  it("quotes FTS5 operators and syntax so they match as words", () => {
+    assert.equal(toFtsQuery("cats AND NOT dogs"), '"cats" OR "AND" OR "NOT" OR "dogs"');
+    assert.equal(toFtsQuery("NEAR(a b) col:val ^start *"), '"NEAR(a" OR "b" OR "col:val" OR "start"');
+  });
+
+  it("doubles quotes inside a term and trims them from its ends", () => {
+    assert.equal(toFtsQuery('say "hello" a"b'), '"say" OR "hello" OR "a""b"');
+  });
+
+  it("drops repeated terms and stops at 32 terms", () => {
+    assert.equal(toFtsQuery("dup dup DUP"), '"dup" OR "DUP"');
+    const many = Array.from({ length: 40 }, (_, i) => `t${i}`).join(" ");
+    assert.equal(toFtsQuery(many)?.split(" OR ").length, 32);
+  });
+
+  it("returns null when nothing is searchable", () => {
+    assert.equal(toFtsQuery(""), null);
+    assert.equal(toFtsQuery('*** -- () ""'), null);
+  });
+});
@@ -0,0 +1,168 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LEXICAL INDEX - SQLite FTS5 Mirror of Knowledge Chunks and Recollections
+//
+// Vector search misses exact identifiers, error codes, and names. These FTS5
+// tables (see migration 0004_fts_search) hold the same text as the vector
+// collections so the hybrid retriever can rank it with BM25 as well.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { sql } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Query terms beyond this are ignored to keep MATCH expressions cheap */
+const MAX_QUERY_TERMS = 32;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface LexicalChunk {
+  id: string;
+  docId: string;
+  ownerId: string;
+  chunkIndex: number;
+  content: string;
+}
+
+export interface LexicalRecollection {
+  id: string;
+  agentId: string;
+  content: string;
+}
+
+/** A lexical hit; `rank` is the BM25 score, lower is better */
+export type LexicalMatch<T> = T & { rank: number };
+
+// ─── Query Building ──────────────────────────────────────────────────────────
+
+/**
+ * Turn free text into an FTS5 MATCH expression. Each whitespace-separated
+ * term is quoted so punctuation inside identifiers (`ERR_CONN_RESET`,
+ * `x-request-id`, `foo.bar()`) becomes a phrase instead of query syntax.
+ * Terms are OR-ed and left for BM25 to rank, or AND-ed when every term
+ * must appear.
+ * @returns null when the text has nothing searchable.
+ */
+export function toFtsQuery(text: string, operator: "OR" | "AND" = "OR"): string | null {
+  const terms = new Set<string>();
+  for (const raw of text.split(/\s+/)) {
+    const term = raw.replace(/^[^\p{L}\p{N}_]+|[^\p{L}\p{N}_]+$/gu, "");
+    if (!/[\p{L}\p{N}]/u.test(term)) continue;
+    terms.add(`"${term.replace(/"/g, '""')}"`);
+    if (terms.size >= MAX_QUERY_TERMS) break;
+  }
+
+  return terms.size > 0 ? Array.from(terms).join(` ${operator} `) : null;
+}
+
+function inList(values: string[]) {
+  return sql.join(
+    values.map((value) => sql`${value}`),
+    sql`, `,
+  );
+}
+
+// ─── Knowledge Chunks ────────────────────────────────────────────────────────
+
+/**
+ * Replace a document's chunks in the lexical index.
+ */
+export function indexKnowledgeChunks(docId: string, chunks: LexicalChunk[]): void {
+  getDB().transaction((tx) => {
+    tx.run(sql`DELETE FROM knowledge_chunks_fts WHERE doc_id = ${docId}`);
+    for (const chunk of chunks) {
+      tx.run(sql`
+        INSERT INTO knowledge_chunks_fts (content, chunk_id, doc_id, owner_id, chunk_index)
+        VALUES (${chunk.content}, ${chunk.id}, ${chunk.docId}, ${chunk.ownerId}, ${chunk.chunkIndex})
+      `);
+    }
+  });
+}
+
+export function deleteKnowledgeChunks(docId: string): void {
+  getDB().run(sql`DELETE FROM knowledge_chunks_fts WHERE doc_id = ${docId}`);
+}
+
+/**
+ * BM25 search over an owner's chunks, limited to the given documents.
+ */
+export function searchKnowledgeChunks({
+  ownerId,
+  docIds,
+  query,
+  limit,
+}: {
+  ownerId: string;
+  docIds: string[];
+  query: string;
+  limit: number;
+}): LexicalMatch<LexicalChunk>[] {
+  const match = toFtsQuery(query);
+  if (!match || docIds.length === 0) return [];
+
+  return getDB().all<LexicalMatch<LexicalChunk>>(sql`
+    SELECT
+      chunk_id AS id,
+      doc_id AS docId,
+      owner_id AS ownerId,
+      chunk_index AS chunkIndex,
+      content,
+      bm25(knowledge_chunks_fts) AS rank
+    FROM knowledge_chunks_fts
+    WHERE knowledge_chunks_fts MATCH ${match}
+      AND owner_id = ${ownerId}
+      AND doc_id IN (${inList(docIds)})
+    ORDER BY rank
+    LIMIT ${limit}
+  `);
+}
+
+// ─── Recollections ───────────────────────────────────────────────────────────
+
+export function indexRecollection(recollection: LexicalRecollection): void {
+  const db = getDB();
+  db.transaction((tx) => {
+    tx.run(sql`DELETE FROM recollections_fts WHERE recollection_id = ${recollection.id}`);
+    tx.run(sql`
+      INSERT INTO recollections_fts (content, recollection_id, agent_id)
+      VALUES (${recollection.content}, ${recollection.id}, ${recollection.agentId})
+    `);
+  });
+}
+
+export function deleteRecollections(ids: string[]): void {
+  if (ids.length === 0) return;
+  getDB().run(sql`DELETE FROM recollections_fts WHERE recollection_id IN (${inList(ids)})`);
+}
+
+/**
+ * BM25 search over one agent's recollections.
+ */
+export function searchRecollectionsLexical({
+  agentId,
+  query,
+  limit,
+  matchAll = false,
+}: {
+  agentId: string;
+  query: string;
+  limit: number;
+  /** Only return recollections containing every query term */
+  matchAll?: boolean;
+}): LexicalMatch<LexicalRecollection>[] {
+  const match = toFtsQuery(query, matchAll ? "AND" : "OR");
+  if (!match) return [];
+
+  return getDB().all<LexicalMatch<LexicalRecollection>>(sql`
+    SELECT
+      recollection_id AS id,
+      agent_id AS agentId,
+      content,
+      bm25(recollections_fts) AS rank
+    FROM recollections_fts
+    WHERE recollections_fts MATCH ${match}
+      AND agent_id = ${agentId}
+    ORDER BY rank
+    LIMIT ${limit}
+  `);
+}
@@ -0,0 +1,187 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER RESILIENCE TESTS - Gateway Retries and Circuit Breaking
+//
+// Runs UnifiedGateway's Anthropic provider against a local HTTP server that
+// answers with scripted statuses, so transient failures can be produced on
+// demand.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { UnifiedGateway } from "@/lib/ai/unifiedGateway";
+import type { UnifiedGatewayOptions } from "@/lib/ai/unifiedGateway";
+import { GatewayError } from "@/lib/ai/providerResilience";
+
+// ─── Mock Provider ───────────────────────────────────────────────────────────
+
+const MODEL = "claude-test";
+
+/** Statuses for the next requests; once used up, every request succeeds */
+let script: number[] = [];
+/** Arrival time of each request */
+let requestTimes: number[] = [];
+
+const server = http.createServer((req, res) => {
+  requestTimes.push(Date.now());
+  const status = script.shift() ?? 200;
+
+  let raw = "";
+  req.on("data", (chunk: Buffer) => (raw += chunk.toString()));
+  req.on("end", () => {
+    if (status !== 200) {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ type: "error", error: { message: `scripted ${status}` } }));
+      return;
+    }
+
+    const body = JSON.parse(raw) as { stream?: boolean };
+    if (body.stream) {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      const events = [
+        { type: "message_start", message: { model: MODEL, usage: { input_tokens: 3 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "streamed" } },
+        { type: "content_block_stop", index: 0 },
+        { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 1 } },
+        { type: "message_stop" },
+      ];
+      for (const event of events) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        model: MODEL,
+        content: [{ type: "text", text: "ok" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 3, output_tokens: 1 },
+      }),
+    );
+  });
+});
+
+let baseUrl = "";
+
+function createGateway(options: UnifiedGatewayOptions = {}): UnifiedGateway {
+  const gateway = new UnifiedGateway(options);
+  gateway.enableCloudProvider("anthropic", "test-key", { baseUrl });
+  return gateway;
+}
+
+function complete(gateway: UnifiedGateway) {
+  return gateway.complete({ model: MODEL, messages: [{ role: "user", content: "hi" }] });
+}
+
+/** Milliseconds between consecutive requests */
+function gaps(): number[] {
+  return requestTimes.slice(1).map((time, i) => time - requestTimes[i]!);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("UnifiedGateway resilience", () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    script = [];
+    requestTimes = [];
+  });
+
+  it("retries 429 and 5xx responses with growing backoff", async () => {
+    script = [429, 503];
+
+    const response = await complete(createGateway());
+
+    assert.equal(response.content, "ok");
+    assert.equal(requestTimes.length, 3);
+    // backoffDelay(1) is 250–500ms, backoffDelay(2) is 500–1000ms
+    const [first, second] = gaps();
+    assert.ok(first! >= 240, `first retry after ${first}ms`);
+    assert.ok(second! >= 490, `second retry after ${second}ms`);
+  });
+
+  it("does not retry a request the provider rejected", async () => {
+    script = [400];
+
+    await assert.rejects(complete(createGateway()), (error: unknown) => {
+      assert.ok(error instanceof GatewayError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+    assert.equal(requestTimes.length, 1);
+  });
+
+  it("gives up after the retries are used", async () => {
+    script = [500, 502, 504];
+
+    await assert.rejects(complete(createGateway()), (error: unknown) => {
+      assert.ok(error instanceof GatewayError);
+      assert.equal(error.status, 504);
+      return true;
+    });
+    assert.equal(requestTimes.length, 3);
+  });
+
+  it("retries a stream that fails before producing output", async () => {
+    script = [529];
+
+    let content = "";
+    for await (const chunk of createGateway().streamCompletion({
+      model: MODEL,
+      messages: [{ role: "user", content: "hi" }],
+    })) {
+      assert.notEqual(chunk.type, "error", chunk.error?.message);
+      if (chunk.type === "content") content += chunk.content;
+    }
+
+    assert.equal(content, "streamed");
+    assert.equal(requestTimes.length, 2);
+  });
+
+  it("opens the circuit after repeated failures and recovers after the cooldown", async () => {
+    const gateway = createGateway({ breakerThreshold: 2, breakerCooldownMs: 300 });
+    script = [500, 500];
+
+    // Second failure opens the circuit, so the last retry is not sent
+    await assert.rejects(complete(gateway));
+    assert.equal(requestTimes.length, 2);
+
+    // Open: refused without reaching the provider
+    await assert.rejects(complete(gateway), /circuit open/);
+    assert.equal(requestTimes.length, 2);
+
+    // Half-open after the cooldown: one trial request closes it again
+    await new Promise((resolve) => setTimeout(resolve, 350));
+    assert.equal((await complete(gateway)).content, "ok");
+    assert.equal((await complete(gateway)).content, "ok");
+    assert.equal(requestTimes.length, 4);
+  });
+
+  it("reopens the circuit when the trial request fails", async () => {
+    const gateway = createGateway({ breakerThreshold: 1, breakerCooldownMs: 300 });
+    script = [503];
+
+    await assert.rejects(complete(gateway));
+    await new Promise((resolve) => setTimeout(resolve, 350));
+
+    script = [503];
+    await assert.rejects(complete(gateway));
+    await assert.rejects(complete(gateway), /circuit open/);
+    assert.equal(requestTimes.length, 2);
+  });
+});
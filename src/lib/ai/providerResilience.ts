@@ -0,0 +1,151 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER RESILIENCE - Retry, Backoff, and Circuit Breaking for LLM Calls
+//
+// Used by UnifiedGateway to decide when a failed call is worth retrying and
+// to stop sending traffic to a provider that keeps failing.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Extra attempts per model after the first one fails transiently */
+export const MAX_RETRIES = 2;
+
+/** First backoff delay; doubles on each retry */
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+/** Consecutive transient failures before a provider's circuit opens */
+const BREAKER_FAILURE_THRESHOLD = 5;
+
+/** How long an open circuit rejects calls before allowing a trial request */
+const BREAKER_COOLDOWN_MS = 30_000;
+
+/** HTTP statuses that indicate a temporary provider problem */
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+/**
+ * Provider call failure with enough detail to decide on retries.
+ */
+export class GatewayError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "GatewayError";
+  }
+}
+
+/**
+ * Whether an error is likely to go away on retry: network failures,
+ * timeouts, rate limits, and 5xx responses. Aborts are never transient.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === "AbortError") return false;
+
+  // GatewayError and OpenAI SDK APIError both expose `status`
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number") return TRANSIENT_STATUSES.has(status);
+
+  // fetch() rejects with a TypeError when the host is unreachable
+  if (error.name === "TypeError" || error.name === "APIConnectionError") return true;
+  return /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|fetch failed|socket hang up/i.test(
+    error.message,
+  );
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (1-based).
+ */
+export function backoffDelay(retry: number): number {
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** (retry - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GatewayError("ABORTED", "Request was aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GatewayError("ABORTED", "Request was aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ─── Circuit Breaker ─────────────────────────────────────────────────────────
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Per-provider circuit breaker. Opens after repeated transient failures,
+ * then lets a single trial request through once the cooldown has passed.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly threshold = BREAKER_FAILURE_THRESHOLD,
+    private readonly cooldownMs = BREAKER_COOLDOWN_MS,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.cooldownMs ? "half_open" : "open";
+  }
+
+  /**
+   * Whether a call may be attempted now. In the half-open state only one
+   * trial call is allowed until it reports back.
+   */
+  canRequest(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half_open":
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** Give up a half-open trial without a verdict (e.g. the caller aborted) */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (this.failures >= this.threshold || this.openedAt !== null) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** Milliseconds until an open circuit allows a trial request */
+  retryAfterMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.cooldownMs - (Date.now() - this.openedAt));
+  }
+}
@@ -0,0 +1,194 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOKEN BUDGET - Context Window Lookup and Token Estimation
+//
+// Context lengths come from, in order: MODEL_CONTEXT_LENGTHS overrides,
+// Ollama's /api/show, the table of known cloud models below, and finally
+// DEFAULT_CONTEXT_LENGTH. Token counts are estimates — no tokenizer ships
+// with the app — and lean high so prompts err on the side of fitting.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import type { GatewayMessage } from "@/lib/ai/unifiedGateway";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Window assumed for models nothing else describes */
+const DEFAULT_CONTEXT_LENGTH = 4096;
+
+/**
+ * num_ctx Ollama runs models with when their Modelfile doesn't set one.
+ * Matches the Ollama server setting of the same name.
+ */
+const OLLAMA_CONTEXT_LENGTH = Number.parseInt(
+  process.env.OLLAMA_CONTEXT_LENGTH ?? "4096",
+  10,
+);
+
+/** Tokens held back for the reply, capped at a quarter of the window */
+const RESPONSE_RESERVE_TOKENS = Number.parseInt(
+  process.env.PROMPT_RESPONSE_TOKENS ?? "1024",
+  10,
+);
+
+/**
+ * JSON object of model → context length, e.g. {"ollama/llama3.1": 32768}.
+ * Keys match the model string as configured on the agent.
+ */
+const CONTEXT_LENGTH_OVERRIDES = parseOverrides(process.env.MODEL_CONTEXT_LENGTHS);
+
+/** Known cloud model windows, matched by longest prefix of the model id */
+const KNOWN_CONTEXT_LENGTHS: Record<string, number> = {
+  "gpt-4.1": 1_047_576,
+  "gpt-4o": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-4": 8_192,
+  "gpt-3.5-turbo": 16_385,
+  o1: 200_000,
+  o3: 200_000,
+  "o4-mini": 200_000,
+  claude: 200_000,
+};
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+/** Fallback answers are retried sooner in case Ollama was just starting */
+const FALLBACK_CACHE_TTL_MS = 60 * 1000;
+
+/** Rough characters per token for English prose and code */
+const CHARS_PER_TOKEN = 3.5;
+
+/** Role and separator tokens each chat message adds */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Tokens charged per image part */
+const IMAGE_TOKENS = 768;
+
+// ─── Context Length ──────────────────────────────────────────────────────────
+
+const contextLengthCache = new Map<string, { length: number; expiresAt: number }>();
+
+/**
+ * Context window, in tokens, that `model` will be run with.
+ */
+export async function getContextLength(model: string): Promise<number> {
+  const cached = contextLengthCache.get(model);
+  if (cached && cached.expiresAt > Date.now()) return cached.length;
+
+  const id = modelId(model);
+  const override = CONTEXT_LENGTH_OVERRIDES[model] ?? CONTEXT_LENGTH_OVERRIDES[id];
+  let length = override ?? null;
+
+  if (length === null) {
+    const info = await unifiedGateway.getOllamaContextInfo(model);
+    if (info) {
+      // Ollama truncates to num_ctx, not to what the model was trained on
+      length =
+        info.numCtx ?? Math.min(info.contextLength ?? Infinity, OLLAMA_CONTEXT_LENGTH);
+    }
+  }
+
+  length ??= knownContextLength(id);
+
+  const entry =
+    length === null
+      ? { length: DEFAULT_CONTEXT_LENGTH, expiresAt: Date.now() + FALLBACK_CACHE_TTL_MS }
+      : { length, expiresAt: Date.now() + CACHE_TTL_MS };
+  contextLengthCache.set(model, entry);
+  return entry.length;
+}
+
+/**
+ * Tokens to keep free for the model's reply in a window of `contextLength`.
+ */
+export function responseReserve(contextLength: number): number {
+  return Math.min(RESPONSE_RESERVE_TOKENS, Math.floor(contextLength / 4));
+}
+
+function knownContextLength(id: string): number | null {
+  let best: string | null = null;
+  for (const prefix of Object.keys(KNOWN_CONTEXT_LENGTHS)) {
+    if (id.startsWith(prefix) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? KNOWN_CONTEXT_LENGTHS[best]! : null;
+}
+
+/** The model id without its provider prefix */
+function modelId(model: string): string {
+  return model.replace(/^(?:custom:[^/]+|ollama|local|openai|anthropic)\//, "");
+}
+
+function parseOverrides(raw: string | undefined): Record<string, number> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === "number" && entry[1] > 0,
+      ),
+    );
+  } catch (error) {
+    console.error("[TokenBudget] Invalid MODEL_CONTEXT_LENGTHS:", error);
+    return {};
+  }
+}
+
+// ─── Estimation ──────────────────────────────────────────────────────────────
+
+/**
+ * Estimated token count of a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 0x80) ascii++;
+  }
+  // CJK, emoji, and accented text run close to a token per character
+  return Math.ceil(ascii / CHARS_PER_TOKEN) + (text.length - ascii);
+}
+
+/**
+ * Estimated token count of a chat message, including its framing.
+ */
+export function estimateMessageTokens(message: GatewayMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === "string") {
+    tokens += estimateTokens(message.content);
+  } else {
+    for (const part of message.content) {
+      tokens += part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKENS;
+    }
+  }
+
+  for (const call of message.tool_calls ?? []) {
+    tokens += estimateTokens(call.function.name) + estimateTokens(call.function.arguments);
+  }
+  return tokens;
+}
+
+/**
+ * Shorten text to about `maxTokens`, keeping its beginning and end and
+ * marking what was cut. Returns the text unchanged when it already fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) return text;
+  if (maxTokens <= 0) return "";
+
+  let keep = Math.floor((text.length * maxTokens) / tokens);
+  for (;;) {
+    const head = Math.ceil((keep * 2) / 3);
+    const tail = keep - head;
+    const truncated =
+      `${text.slice(0, head)}\n[… ${text.length - keep} characters omitted to fit the context window …]\n` +
+      (tail > 0 ? text.slice(-tail) : "");
+
+    if (estimateTokens(truncated) <= maxTokens) return truncated;
+    if (keep === 0) return "";
+    keep = Math.floor(keep * 0.9);
+  }
+}
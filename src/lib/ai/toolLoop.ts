@@ -0,0 +1,572 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL LOOP - Multi-step Tool Calling for Chat and Swarm Agent Turns
+//
+// Calls the model, executes every tool call it asks for, feeds the results
+// back as `role: "tool"` messages, and repeats until the model answers in
+// plain text or the step limit is reached. Calls the agent's tool binding
+// marks "ask" wait for the user's decision first (see lib/mcp/toolApproval).
+// Before each step the tool results gathered so far are shortened, oldest
+// first, until the conversation fits the model's context window again.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { v4 as uuidv4 } from "uuid";
+import { getDB } from "@/lib/db/client";
+import { toolCalls } from "@/lib/db/schema";
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import {
+  addToolExecutionJob,
+  getToolQueue,
+  waitForToolExecutionJob,
+} from "@/lib/queue/queues";
+import type { ToolExecutionJob, ToolExecutionResult } from "@/lib/queue/queues";
+import { isRedisConnected } from "@/lib/queue/connection";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getContextLength,
+  responseReserve,
+  truncateToTokens,
+} from "@/lib/ai/tokenBudget";
+import { executeToolJob } from "@/lib/queue/workers/toolWorker";
+import {
+  TOOL_APPROVAL_TIMEOUT_MS,
+  recordApprovalDecision,
+  resolveBoundTool,
+  waitForApproval,
+} from "@/lib/mcp/toolApproval";
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  GatewayMessage,
+  GatewayTool,
+  ModelFallback,
+} from "@/lib/ai/unifiedGateway";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Rounds of tool execution before the model is asked for a final answer */
+export const MAX_TOOL_STEPS = Number.parseInt(process.env.MAX_TOOL_STEPS ?? "5", 10);
+
+/** How long to wait for a queued tool job before giving up on it */
+const TOOL_RESULT_TIMEOUT_MS = Number.parseInt(
+  process.env.TOOL_RESULT_TIMEOUT_MS ?? "120000",
+  10,
+);
+
+/** Tool output fed back to the model is truncated to this many characters */
+const TOOL_RESULT_MAX_CHARS = 8000;
+
+/** Put between the text of consecutive steps in the combined reply */
+const STEP_SEPARATOR = "\n\n";
+
+/** Tool results are never shortened below this when fitting the window */
+const TOOL_RESULT_MIN_TOKENS = 64;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ToolLoopInput {
+  model: string;
+  /** Tried in order when `model` fails */
+  fallbackModels?: string[];
+  /** Conversation so far, including the system prompt and new user message */
+  messages: GatewayMessage[];
+  tools?: GatewayTool[];
+  temperature?: number;
+  sessionId: string;
+  /** Agent whose tool bindings decide which tools can run and which need approval */
+  agentId: string;
+  /** Assistant message the tool_calls rows belong to. Must already exist. */
+  messageId: string;
+  /** Stream model output; otherwise each step is a single completion */
+  stream?: boolean;
+  /**
+   * Calls needing approval wait for the user's decision ("wait", the
+   * default) or, when nobody can see the approval request, are refused.
+   */
+  approvals?: "wait" | "refuse";
+  signal?: AbortSignal;
+  maxSteps?: number;
+}
+
+export interface ToolLoopCall {
+  /** Id assigned by the model; used as `tool_call_id` */
+  id: string;
+  /** tool_calls row id (absent if the agent is not bound to the tool) */
+  recordId?: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  /** Set when the failure has a code, e.g. a sandbox violation */
+  errorCode?: string;
+}
+
+export type ToolLoopEvent =
+  | { type: "content"; content: string }
+  | {
+      type: "tool_call";
+      toolCall: { id: string; name: string; arguments: Record<string, unknown> };
+    }
+  | {
+      type: "approval_required";
+      /** Id assigned by the model */
+      toolCallId: string;
+      /** tool_calls row to approve or reject */
+      recordId: string;
+      name: string;
+      arguments: Record<string, unknown>;
+      expiresAt: number;
+    }
+  | {
+      type: "tool_result";
+      toolCallId: string;
+      result: unknown;
+      error?: string;
+      errorCode?: string;
+    };
+
+export interface ToolLoopResult {
+  /** Assistant text across all steps, separated by blank lines */
+  content: string;
+  toolCalls: ToolLoopCall[];
+  usage: CompletionResponse["usage"];
+  model: string;
+  provider: CompletionResponse["provider"];
+  finishReason: CompletionResponse["finishReason"];
+  /** Set when any step was answered by a fallback model */
+  fallback?: ModelFallback;
+  /** Rounds of tool execution performed */
+  steps: number;
+  /** The model still wanted tools when the step limit was hit */
+  stepLimitReached: boolean;
+}
+
+export class ToolLoopError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ToolLoopError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL LOOP
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class ToolLoop {
+  /**
+   * Run the model/tool loop, yielding content, tool calls, and tool results
+   * as they happen. Returns the combined outcome once the model stops.
+   */
+  async *run(input: ToolLoopInput): AsyncGenerator<ToolLoopEvent, ToolLoopResult> {
+    const maxSteps = input.maxSteps ?? MAX_TOOL_STEPS;
+    const conversation = [...input.messages];
+    const executed: ToolLoopCall[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    let content = "";
+    let steps = 0;
+    let fallback: ModelFallback | undefined;
+
+    while (true) {
+      this.throwIfAborted(input.signal);
+
+      // Once the limit is hit the tools are withheld so the model has to answer
+      const allowTools = steps < maxSteps;
+      if (steps > 0) {
+        await this.fitConversation(
+          conversation,
+          input.messages.length,
+          input.model,
+          allowTools ? input.tools : undefined,
+        );
+      }
+      const separator = content ? STEP_SEPARATOR : "";
+      const response: CompletionResponse = yield* this.callModel(
+        input,
+        {
+          model: input.model,
+          fallbackModels: input.fallbackModels,
+          messages: conversation,
+          tools: allowTools ? input.tools : undefined,
+          temperature: input.temperature,
+          signal: input.signal,
+        },
+        separator,
+      );
+
+      if (response.content) content += separator + response.content;
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      fallback = response.fallback ?? fallback;
+
+      const requested = response.toolCalls ?? [];
+      if (requested.length === 0 || !allowTools) {
+        return {
+          content,
+          toolCalls: executed,
+          usage,
+          model: response.model,
+          provider: response.provider,
+          finishReason: response.finishReason,
+          fallback,
+          steps,
+          stepLimitReached: !allowTools && requested.length > 0,
+        };
+      }
+
+      steps++;
+      conversation.push({
+        role: "assistant",
+        content: response.content,
+        tool_calls: requested.map((tc) => ({
+          id: tc.id,
+          type: "function" as const,
+          function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+        })),
+      });
+
+      for (const tc of requested) {
+        this.throwIfAborted(input.signal);
+
+        const call: ToolLoopCall = yield* this.executeToolCall(tc, input);
+        executed.push(call);
+
+        yield {
+          type: "tool_result",
+          toolCallId: call.id,
+          result: call.result ?? null,
+          error: call.error,
+          errorCode: call.errorCode,
+        };
+
+        conversation.push({
+          role: "tool",
+          tool_call_id: call.id,
+          name: call.name,
+          content: formatToolResult(call),
+        });
+      }
+    }
+  }
+
+  // ─── Model Calls ──────────────────────────────────────────────────────────
+
+  /**
+   * One model call. `separator` is prepended to the first content event so
+   * streamed text matches the combined reply.
+   */
+  private async *callModel(
+    input: ToolLoopInput,
+    request: CompletionRequest,
+    separator: string,
+  ): AsyncGenerator<ToolLoopEvent, CompletionResponse> {
+    if (!input.stream) {
+      const response = await unifiedGateway.complete(request);
+      if (response.content) {
+        yield { type: "content", content: separator + response.content };
+      }
+      for (const toolCall of response.toolCalls ?? []) {
+        yield { type: "tool_call", toolCall };
+      }
+      return response;
+    }
+
+    let content = "";
+    const calls = new Map<string, { id: string; name: string; arguments: Record<string, unknown> }>();
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let finishReason: CompletionResponse["finishReason"] = "stop";
+    let answeredBy: Pick<CompletionResponse, "model" | "provider" | "fallback"> = {
+      model: input.model,
+      provider: unifiedGateway.resolveProvider(input.model),
+    };
+
+    for await (const chunk of unifiedGateway.streamCompletion(request)) {
+      this.throwIfAborted(input.signal);
+
+      switch (chunk.type) {
+        case "content":
+          if (chunk.content) {
+            yield { type: "content", content: (content ? "" : separator) + chunk.content };
+            content += chunk.content;
+          }
+          break;
+
+        case "tool_call":
+          if (chunk.toolCall?.isComplete) {
+            const toolCall = {
+              id: chunk.toolCall.id,
+              name: chunk.toolCall.name,
+              arguments: parseToolArguments(chunk.toolCall.arguments),
+            };
+            calls.set(toolCall.id, toolCall);
+            yield { type: "tool_call", toolCall };
+          }
+          break;
+
+        case "usage":
+          usage.promptTokens = chunk.usage?.promptTokens ?? usage.promptTokens;
+          usage.completionTokens =
+            chunk.usage?.completionTokens ?? usage.completionTokens;
+          usage.totalTokens = chunk.usage?.totalTokens ?? usage.totalTokens;
+          break;
+
+        case "error":
+          throw new ToolLoopError(
+            chunk.error?.code ?? "PROVIDER_ERROR",
+            chunk.error?.message ?? "Model stream failed",
+          );
+
+        case "done":
+          if (chunk.finishReason) finishReason = chunk.finishReason;
+          if (chunk.model && chunk.provider) {
+            answeredBy = {
+              model: chunk.model,
+              provider: chunk.provider,
+              fallback: chunk.fallback,
+            };
+          }
+          break;
+      }
+    }
+
+    return {
+      content,
+      toolCalls: calls.size > 0 ? Array.from(calls.values()) : undefined,
+      usage,
+      finishReason,
+      ...answeredBy,
+    };
+  }
+
+  // ─── Context Budget ───────────────────────────────────────────────────────
+
+  /**
+   * Shorten the tool results appended since `from`, oldest first, until the
+   * conversation fits `model`'s window. Results are cut rather than dropped
+   * so every tool call keeps its answer.
+   */
+  private async fitConversation(
+    conversation: GatewayMessage[],
+    from: number,
+    model: string,
+    tools: GatewayTool[] | undefined,
+  ): Promise<void> {
+    const contextLength = await getContextLength(model);
+    const toolTokens = tools?.length ? estimateTokens(JSON.stringify(tools)) : 0;
+    // Same reservation as prompt assembly in contextInjector
+    const reserved = Math.min(
+      responseReserve(contextLength) + toolTokens,
+      Math.floor(contextLength / 2),
+    );
+
+    let excess =
+      conversation.reduce((sum, message) => sum + estimateMessageTokens(message), 0) -
+      (contextLength - reserved);
+
+    for (let i = from; i < conversation.length && excess > 0; i++) {
+      const message = conversation[i]!;
+      if (message.role !== "tool" || typeof message.content !== "string") continue;
+
+      const tokens = estimateTokens(message.content);
+      const target = Math.max(TOOL_RESULT_MIN_TOKENS, tokens - excess);
+      if (target >= tokens) continue;
+
+      const content = truncateToTokens(message.content, target);
+      conversation[i] = { ...message, content };
+      excess -= tokens - estimateTokens(content);
+    }
+
+    if (excess > 0) {
+      console.warn(
+        `[ToolLoop] Conversation still exceeds the ${model} context window by ~${excess} tokens after shortening tool results.`,
+      );
+    }
+  }
+
+  // ─── Tool Execution ───────────────────────────────────────────────────────
+
+  /**
+   * Record and execute one tool call, first asking the user if the agent's
+   * binding requires it. Failures are returned as the call's error so the
+   * model can see them and recover.
+   */
+  private async *executeToolCall(
+    tc: { id: string; name: string; arguments: Record<string, unknown> },
+    input: ToolLoopInput,
+  ): AsyncGenerator<ToolLoopEvent, ToolLoopCall> {
+    const db = getDB();
+    const bound = await resolveBoundTool(input.agentId, tc.name);
+
+    if (!bound) {
+      return {
+        ...tc,
+        error: `Tool "${tc.name}" is not available to this agent`,
+        errorCode: "TOOL_NOT_AVAILABLE",
+      };
+    }
+
+    const { tool, policy } = bound;
+
+    // Asking needs someone watching the stream for the approval chunk
+    const refusal =
+      policy === "deny"
+        ? { error: "This agent is not allowed to run this tool", errorCode: "TOOL_DENIED" }
+        : policy === "ask" && input.approvals === "refuse"
+          ? {
+              error: "This tool needs the user's approval, which requires a streaming request",
+              errorCode: "TOOL_APPROVAL_UNAVAILABLE",
+            }
+          : null;
+
+    const recordId = uuidv4();
+    const [record] = await db
+      .insert(toolCalls)
+      .values({
+        id: recordId,
+        messageId: input.messageId,
+        toolId: tool.id,
+        toolName: tc.name,
+        arguments: tc.arguments,
+        ...(refusal
+          ? { status: "error" as const, ...refusal, executedAt: new Date() }
+          : { status: policy === "ask" ? ("awaiting_approval" as const) : ("pending" as const) }),
+      })
+      .returning();
+
+    let args = tc.arguments;
+
+    if (policy !== "allow") {
+      const context = { agentId: input.agentId, sessionId: input.sessionId };
+
+      if (refusal) {
+        await recordApprovalDecision({
+          call: record!,
+          ...context,
+          decision: policy === "deny" ? "denied" : "rejected",
+          decidedBy: "policy",
+          reason: policy === "deny" ? undefined : refusal.error,
+        });
+        return { ...tc, recordId, ...refusal };
+      }
+
+      yield {
+        type: "approval_required",
+        toolCallId: tc.id,
+        recordId,
+        name: tc.name,
+        arguments: tc.arguments,
+        expiresAt: Date.now() + TOOL_APPROVAL_TIMEOUT_MS,
+      };
+
+      const decided = await waitForApproval(record!, context, input.signal);
+      this.throwIfAborted(input.signal);
+
+      if (decided.status !== "pending") {
+        return {
+          ...tc,
+          recordId,
+          error: decided.error ?? "Tool call was not approved",
+          errorCode: decided.errorCode ?? undefined,
+        };
+      }
+      args = decided.arguments;
+    }
+
+    const job: ToolExecutionJob = {
+      toolCallId: recordId,
+      serverId: tool.serverId,
+      toolName: tc.name,
+      arguments: args,
+      sessionId: input.sessionId,
+      messageId: input.messageId,
+      requestId: uuidv4(),
+    };
+
+    try {
+      const outcome = await this.dispatch(job);
+      return {
+        ...tc,
+        arguments: args,
+        recordId,
+        result: outcome.result,
+        error: outcome.success ? undefined : (outcome.error ?? "Tool execution failed"),
+        errorCode: outcome.success ? undefined : outcome.errorCode,
+      };
+    } catch (error) {
+      return {
+        ...tc,
+        arguments: args,
+        recordId,
+        error: error instanceof Error ? error.message : "Tool execution failed",
+      };
+    }
+  }
+
+  /**
+   * Hand the job to a tool worker and wait for it, or run it in-process
+   * when Redis or the worker is not available.
+   */
+  private async dispatch(job: ToolExecutionJob): Promise<ToolExecutionResult> {
+    if (await this.hasToolWorker()) {
+      const jobId = await addToolExecutionJob(job);
+      return waitForToolExecutionJob(jobId, TOOL_RESULT_TIMEOUT_MS);
+    }
+    return executeToolJob(job);
+  }
+
+  private async hasToolWorker(): Promise<boolean> {
+    if (!isRedisConnected()) return false;
+    try {
+      return (await getToolQueue().getWorkersCount()) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new ToolLoopError("ABORTED", "Request was aborted");
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    return JSON.parse(raw || "{}") as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Serialize a tool outcome for the `role: "tool"` message.
+ */
+function formatToolResult(call: ToolLoopCall): string {
+  const text = call.error
+    ? JSON.stringify({ error: call.error, code: call.errorCode })
+    : typeof call.result === "string"
+      ? call.result
+      : JSON.stringify(call.result ?? null);
+
+  return text.length > TOOL_RESULT_MAX_CHARS
+    ? `${text.slice(0, TOOL_RESULT_MAX_CHARS)}… [truncated]`
+    : text;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const toolLoop = new ToolLoop();
@@ -0,0 +1,295 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// UNIFIED GATEWAY TESTS - Anthropic Messages API against a Mock Provider
+//
+// Runs the Anthropic provider against a local HTTP server that records each
+// request body and answers with a scripted response, so the message
+// conversion and stream parsing can be checked without an API key.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { UnifiedGateway } from "@/lib/ai/unifiedGateway";
+import type { GatewayMessage, GatewayStreamChunk } from "@/lib/ai/unifiedGateway";
+
+// ─── Mock Provider ───────────────────────────────────────────────────────────
+
+const MODEL = "claude-test";
+
+/** Body of every request the provider received */
+let requests: Record<string, unknown>[] = [];
+/** JSON answer to non-streaming requests */
+let reply: Record<string, unknown> = {};
+/** SSE events answering streaming requests */
+let events: Record<string, unknown>[] = [];
+
+const server = http.createServer((req, res) => {
+  let raw = "";
+  req.on("data", (chunk: Buffer) => (raw += chunk.toString()));
+  req.on("end", () => {
+    const body = JSON.parse(raw) as Record<string, unknown>;
+    requests.push(body);
+
+    if (body.stream) {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (const event of events) {
+        res.write(`event: ${String(event.type)}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(reply));
+  });
+});
+
+const gateway = new UnifiedGateway();
+
+function textReply(text: string): Record<string, unknown> {
+  return {
+    model: MODEL,
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: 3, output_tokens: 1 },
+  };
+}
+
+/** Messages sent in the last request */
+async function sentMessages(messages: GatewayMessage[]): Promise<unknown> {
+  await gateway.complete({ model: MODEL, messages });
+  return requests.at(-1)!.messages;
+}
+
+async function collect(stream: AsyncIterable<GatewayStreamChunk>): Promise<GatewayStreamChunk[]> {
+  const chunks: GatewayStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("UnifiedGateway Anthropic provider", () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    gateway.enableCloudProvider("anthropic", "test-key", { baseUrl });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = textReply("ok");
+    events = [];
+  });
+
+  it("lifts system messages into the top-level system field", async () => {
+    const messages = await sentMessages([
+      { role: "system", content: "You are terse." },
+      { role: "system", content: [{ type: "text", text: "Answer in French." }] },
+      { role: "user", content: "hi" },
+    ]);
+
+    assert.equal(requests[0]!.system, "You are terse.\n\nAnswer in French.");
+    assert.deepEqual(messages, [{ role: "user", content: [{ type: "text", text: "hi" }] }]);
+  });
+
+  it("omits the system field when there is no system prompt", async () => {
+    await sentMessages([{ role: "user", content: "hi" }]);
+
+    assert.equal("system" in requests[0]!, false);
+    assert.equal(requests[0]!.max_tokens, 4096);
+  });
+
+  it("converts image parts to image blocks", async () => {
+    const messages = await sentMessages([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What are these?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+          { type: "image_url", image_url: { url: "https://example.com/cat.jpg" } },
+          { type: "inline_data", inline_data: { mimeType: "image/webp", data: "UklGRg==" } },
+        ],
+      },
+    ]);
+
+    assert.deepEqual(messages, [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What are these?" },
+          {
+            type: "image",
+            source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" },
+          },
+          { type: "image", source: { type: "url", url: "https://example.com/cat.jpg" } },
+          {
+            type: "image",
+            source: { type: "base64", media_type: "image/webp", data: "UklGRg==" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("maps tool turns to tool_use and tool_result blocks, merging same-role turns", async () => {
+    const messages = await sentMessages([
+      { role: "user", content: "Read both files" },
+      {
+        role: "assistant",
+        content: "Reading them.",
+        tool_calls: [
+          { id: "call_1", type: "function", function: { name: "read", arguments: '{"path":"a"}' } },
+          { id: "call_2", type: "function", function: { name: "read", arguments: "not json" } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "A" },
+      { role: "tool", tool_call_id: "call_2", content: [{ type: "text", text: "B" }] },
+      { role: "user", content: "Summarize" },
+    ]);
+
+    assert.deepEqual(messages, [
+      { role: "user", content: [{ type: "text", text: "Read both files" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Reading them." },
+          { type: "tool_use", id: "call_1", name: "read", input: { path: "a" } },
+          { type: "tool_use", id: "call_2", name: "read", input: {} },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "A" },
+          { type: "tool_result", tool_use_id: "call_2", content: "B" },
+          { type: "text", text: "Summarize" },
+        ],
+      },
+    ]);
+  });
+
+  it("returns tool_use blocks in a response as tool calls", async () => {
+    reply = {
+      model: MODEL,
+      content: [
+        { type: "text", text: "Checking." },
+        { type: "tool_use", id: "toolu_1", name: "search", input: { query: "mcp" } },
+      ],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 10, output_tokens: 5 },
+    };
+
+    const response = await gateway.complete({
+      model: MODEL,
+      messages: [{ role: "user", content: "hi" }],
+      tools: [
+        {
+          type: "function",
+          function: { name: "search", description: "Search", parameters: { type: "object" } },
+        },
+      ],
+    });
+
+    assert.deepEqual(requests[0]!.tools, [
+      { name: "search", description: "Search", input_schema: { type: "object" } },
+    ]);
+    assert.equal(response.content, "Checking.");
+    assert.deepEqual(response.toolCalls, [
+      { id: "toolu_1", name: "search", arguments: { query: "mcp" } },
+    ]);
+    assert.equal(response.finishReason, "tool_calls");
+    assert.deepEqual(response.usage, { promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+  });
+
+  it("streams input_json_delta events as tool_call chunks", async () => {
+    events = [
+      { type: "message_start", message: { model: MODEL, usage: { input_tokens: 7 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Looking" } },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "search", input: {} },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"query":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '"mcp"}' },
+      },
+      { type: "content_block_stop", index: 1 },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 4 } },
+      { type: "message_stop" },
+    ];
+
+    const chunks = await collect(
+      gateway.streamCompletion({ model: MODEL, messages: [{ role: "user", content: "hi" }] }),
+    );
+
+    assert.equal(requests[0]!.stream, true);
+    assert.deepEqual(
+      chunks.filter((c) => c.type === "content").map((c) => c.content),
+      ["Looking"],
+    );
+    assert.deepEqual(
+      chunks.filter((c) => c.type === "tool_call").map((c) => c.toolCall),
+      [
+        {
+          id: "toolu_1",
+          name: "search",
+          arguments: '{"query":',
+          argumentsDelta: '{"query":',
+          isComplete: false,
+        },
+        {
+          id: "toolu_1",
+          name: "search",
+          arguments: '{"query":"mcp"}',
+          argumentsDelta: '"mcp"}',
+          isComplete: false,
+        },
+        { id: "toolu_1", name: "search", arguments: '{"query":"mcp"}', isComplete: true },
+      ],
+    );
+
+    const usage = chunks.find((c) => c.type === "usage");
+    assert.deepEqual(usage?.usage, { promptTokens: 7, completionTokens: 4, totalTokens: 11 });
+    const done = chunks.find((c) => c.type === "done");
+    assert.equal(done?.finishReason, "tool_calls");
+  });
+
+  it("completes a tool call streamed without arguments with an empty object", async () => {
+    events = [
+      { type: "message_start", message: { model: MODEL, usage: { input_tokens: 1 } } },
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "tool_use", id: "toolu_2", name: "now", input: {} },
+      },
+      { type: "content_block_stop", index: 0 },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 1 } },
+    ];
+
+    const chunks = await collect(
+      gateway.streamCompletion({ model: MODEL, messages: [{ role: "user", content: "time?" }] }),
+    );
+
+    assert.deepEqual(
+      chunks.filter((c) => c.type === "tool_call").map((c) => c.toolCall),
+      [{ id: "toolu_2", name: "now", arguments: "{}", isComplete: true }],
+    );
+  });
+});
@@ -5,11 +5,21 @@
 // Cloud providers (OpenAI, Anthropic) are optional BYOK overlays that must be
 // explicitly enabled via enableCloudProvider(). They do NOT auto-initialize
 // from environment variables alone.
+// Custom OpenAI-compatible local servers (llama.cpp, vLLM, LM Studio) are
+// registered by name and addressed as `custom:<name>/<model>`.
 //
 // Ollama endpoint: http://host.docker.internal:11434 (ai-stack-net bridge)
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import OpenAI from "openai";
+import {
+  CircuitBreaker,
+  GatewayError,
+  MAX_RETRIES,
+  backoffDelay,
+  isTransientError,
+  sleep,
+} from "@/lib/ai/providerResilience";
 import type { MCPTool } from "@/types/tool";
 import type {
   MessageContentPart,
@@ -20,7 +30,20 @@ import type {
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-export type LLMProvider = "ollama" | "openai" | "anthropic";
+export type LLMProvider = "ollama" | "openai" | "anthropic" | "custom";
+
+/**
+ * A named OpenAI-compatible server (llama.cpp, vLLM, LM Studio, ...).
+ * Models are addressed as `custom:<name>/<model>`.
+ */
+export interface CustomProviderConfig {
+  name: string;
+  /** API root including the version segment, e.g. http://localhost:8080/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Extra model prefix routed to this provider, e.g. "lmstudio/" */
+  modelPrefix?: string;
+}
 
 export interface GatewayMessage {
   role: "system" | "user" | "assistant" | "tool";
@@ -44,8 +67,11 @@ export interface GatewayTool {
 }
 
 export interface CompletionRequest {
+  /** Provider override for `model` (fallback models are always auto-detected) */
   provider?: LLMProvider;
   model: string;
+  /** Models to try in order when `model` fails, e.g. ["ollama/mistral", "openai/gpt-4o-mini"] */
+  fallbackModels?: string[];
   messages: GatewayMessage[];
   tools?: GatewayTool[];
   toolChoice?:
@@ -75,6 +101,31 @@ export interface CompletionResponse {
   model: string;
   provider: LLMProvider;
   finishReason: "stop" | "length" | "tool_calls" | "content_filter";
+  /** Set when a model other than the requested one answered */
+  fallback?: ModelFallback;
+}
+
+export interface ModelFallback {
+  /** Model the request asked for */
+  requestedModel: string;
+  /** Why the requested model was not used */
+  reason: string;
+  /** Every model that was tried or skipped before the one that answered */
+  attempts: { model: string; error: string }[];
+}
+
+export interface UnifiedGatewayOptions {
+  /** Consecutive transient failures before a provider's circuit opens */
+  breakerThreshold?: number;
+  /** How long an open circuit rejects calls before a trial request (ms) */
+  breakerCooldownMs?: number;
+}
+
+export interface OllamaContextInfo {
+  /** Context length the model was trained with */
+  contextLength: number | null;
+  /** num_ctx from the model's Modelfile, which Ollama runs it with */
+  numCtx: number | null;
 }
 
 export interface GatewayStreamChunk {
@@ -92,8 +143,12 @@ export interface GatewayStreamChunk {
     completionTokens?: number;
     totalTokens?: number;
   };
-  error?: { code: string; message: string };
+  error?: { code: string; message: string; status?: number };
   finishReason?: "stop" | "length" | "tool_calls" | "content_filter";
+  /** Answering model and provider (on 'done' chunks) */
+  model?: string;
+  provider?: LLMProvider;
+  fallback?: ModelFallback;
 }
 
 // ─── Configuration ───────────────────────────────────────────────────────────
@@ -101,6 +156,78 @@ export interface GatewayStreamChunk {
 const OLLAMA_BASE_URL =
   process.env.OLLAMA_URL ?? "http://host.docker.internal:11434";
 
+/**
+ * JSON array of CustomProviderConfig. Custom providers are local servers, so
+ * unlike the cloud providers they may be configured from the environment.
+ */
+const CUSTOM_PROVIDERS_ENV = process.env.CUSTOM_LLM_PROVIDERS;
+
+const ANTHROPIC_BASE_URL =
+  process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+/** The Messages API requires max_tokens on every request */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+// ─── Anthropic Wire Types ────────────────────────────────────────────────────
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source:
+        | { type: "base64"; media_type: string; data: string }
+        | { type: "url"; url: string };
+    }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+type AnthropicStreamEvent =
+  | { type: "message_start"; message: { model: string; usage: { input_tokens: number; output_tokens?: number } } }
+  | { type: "content_block_start"; index: number; content_block: AnthropicContentBlock }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | { type: "message_delta"; delta: { stop_reason: string | null }; usage?: { output_tokens: number } }
+  | { type: "message_stop" }
+  | { type: "ping" }
+  | { type: "error"; error: { type: string; message: string } };
+
+// ─── Routing ─────────────────────────────────────────────────────────────────
+
+interface CustomProvider {
+  config: CustomProviderConfig;
+  client: OpenAI;
+}
+
+/** Where a model string is sent */
+interface ModelRoute {
+  provider: LLMProvider;
+  /** Model id as the provider knows it */
+  model: string;
+  /** Circuit breaker key: the provider, or `custom:<name>` */
+  key: string;
+  custom?: CustomProvider;
+}
+
+const CUSTOM_MODEL_PATTERN = /^custom:([^/]+)\/(.+)$/;
+
 // ─── Unified Gateway Class ───────────────────────────────────────────────────
 
 export class UnifiedGateway {
@@ -108,27 +235,79 @@ export class UnifiedGateway {
   private openaiEnabled = false;
   private anthropicEnabled = false;
   private anthropicKey = "";
+  private anthropicBaseUrl = ANTHROPIC_BASE_URL;
+  private customProviders = new Map<string, CustomProvider>();
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly options: UnifiedGatewayOptions = {}) {
+    if (CUSTOM_PROVIDERS_ENV) {
+      try {
+        const configs = JSON.parse(CUSTOM_PROVIDERS_ENV) as CustomProviderConfig[];
+        for (const config of configs) this.registerCustomProvider(config);
+      } catch (error) {
+        console.error("[Gateway] Invalid CUSTOM_LLM_PROVIDERS:", error);
+      }
+    }
+  }
 
   /**
    * Explicitly enable a cloud provider. Cloud providers do NOT auto-initialize.
-   * This is the BYOK opt-in gate.
+   * This is the BYOK opt-in gate. `baseUrl` points the provider at a proxy or
+   * a local mock server.
    */
-  enableCloudProvider(provider: "openai" | "anthropic", apiKey: string): void {
+  enableCloudProvider(
+    provider: "openai" | "anthropic",
+    apiKey: string,
+    options: { baseUrl?: string } = {},
+  ): void {
     if (!apiKey) return;
 
     if (provider === "openai") {
-      this.openaiClient = new OpenAI({ apiKey });
+      this.openaiClient = new OpenAI({ apiKey, baseURL: options.baseUrl });
       this.openaiEnabled = true;
     } else if (provider === "anthropic") {
       this.anthropicKey = apiKey;
+      this.anthropicBaseUrl = (options.baseUrl ?? ANTHROPIC_BASE_URL).replace(/\/+$/, "");
       this.anthropicEnabled = true;
     }
   }
 
+  /**
+   * Register (or replace) a named OpenAI-compatible provider.
+   */
+  registerCustomProvider(config: CustomProviderConfig): void {
+    if (!config.name || !config.baseUrl) return;
+
+    this.customProviders.set(config.name, {
+      config,
+      client: new OpenAI({
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: config.apiKey || "not-needed",
+        baseURL: config.baseUrl.replace(/\/+$/, ""),
+      }),
+    });
+    this.breakers.delete(`custom:${config.name}`);
+  }
+
+  removeCustomProvider(name: string): void {
+    this.customProviders.delete(name);
+    this.breakers.delete(`custom:${name}`);
+  }
+
+  getCustomProviders(): CustomProviderConfig[] {
+    return Array.from(this.customProviders.values(), (p) => ({
+      ...p.config,
+      apiKey: undefined,
+    }));
+  }
+
   /**
    * Detect provider from model string. Defaults to Ollama (sovereignty).
    */
   private detectProvider(model: string): LLMProvider {
+    if (CUSTOM_MODEL_PATTERN.test(model) || this.findCustomProvider(model)) {
+      return "custom";
+    }
     if (model.startsWith("gpt-") || model.startsWith("openai/"))
       return "openai";
     if (model.startsWith("claude-") || model.startsWith("anthropic/"))
@@ -136,6 +315,52 @@ export class UnifiedGateway {
     return "ollama";
   }
 
+  /**
+   * Provider a model string will be routed to.
+   */
+  resolveProvider(model: string): LLMProvider {
+    return this.detectProvider(model);
+  }
+
+  /**
+   * Custom provider a model string addresses, either as
+   * `custom:<name>/<model>` or through the provider's model prefix.
+   */
+  private findCustomProvider(
+    model: string,
+  ): { provider: CustomProvider; model: string } | null {
+    const match = CUSTOM_MODEL_PATTERN.exec(model);
+    if (match) {
+      const provider = this.customProviders.get(match[1]!);
+      return provider ? { provider, model: match[2]! } : null;
+    }
+
+    for (const provider of this.customProviders.values()) {
+      const prefix = provider.config.modelPrefix;
+      if (prefix && model.startsWith(prefix)) {
+        return { provider, model: model.slice(prefix.length) };
+      }
+    }
+    return null;
+  }
+
+  private resolveRoute(model: string, override?: LLMProvider): ModelRoute {
+    const provider = override ?? this.detectProvider(model);
+
+    if (provider === "custom") {
+      const custom = this.findCustomProvider(model);
+      const name = custom?.provider.config.name ?? CUSTOM_MODEL_PATTERN.exec(model)?.[1];
+      return {
+        provider,
+        model: custom?.model ?? model,
+        key: `custom:${name ?? "unknown"}`,
+        custom: custom?.provider,
+      };
+    }
+
+    return { provider, model: this.normalizeModel(model), key: provider };
+  }
+
   /**
    * Strip provider prefix from model name.
    */
@@ -214,6 +439,27 @@ export class UnifiedGateway {
     };
   }
 
+  /**
+   * Ollama expects tool call arguments as an object rather than a JSON string.
+   */
+  private toOllamaMessage(message: GatewayMessage): GatewayMessage {
+    const transformed = this.transformMessageContent(message, "ollama");
+    if (!transformed.tool_calls) return transformed;
+
+    return {
+      ...transformed,
+      tool_calls: transformed.tool_calls.map((tc) => {
+        let args: unknown = {};
+        try {
+          args = JSON.parse(tc.function.arguments || "{}");
+        } catch {
+          // Leave malformed arguments empty
+        }
+        return { ...tc, function: { ...tc.function, arguments: args } };
+      }),
+    } as GatewayMessage;
+  }
+
   /**
    * Convert MCP tools to gateway tool format.
    */
@@ -232,65 +478,288 @@ export class UnifiedGateway {
 
   // ─── Public API ────────────────────────────────────────────────────────────
 
+  /**
+   * Complete with the requested model, retrying transient failures and then
+   * walking `fallbackModels` until one answers.
+   */
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    const provider = request.provider ?? this.detectProvider(request.model);
-    const model = this.normalizeModel(request.model);
+    const attempts: ModelFallback["attempts"] = [];
+    let lastError: unknown;
+
+    for (const [index, candidate] of this.candidateModels(request).entries()) {
+      const route = this.resolveRoute(candidate, index === 0 ? request.provider : undefined);
+      const skipReason = this.skipReason(route);
+      if (skipReason) {
+        attempts.push({ model: candidate, error: skipReason });
+        continue;
+      }
 
-    switch (provider) {
+      for (let retry = 0; ; retry++) {
+        try {
+          const response = await this.completeWith(route, request);
+          this.breakerFor(route.key).recordSuccess();
+          return attempts.length > 0
+            ? { ...response, fallback: this.describeFallback(request.model, attempts) }
+            : response;
+        } catch (error) {
+          lastError = error;
+          if (!(await this.prepareRetry(route.key, error, retry, request.signal))) {
+            attempts.push({ model: candidate, error: errorMessage(error) });
+            break;
+          }
+        }
+      }
+    }
+
+    if (attempts.length === 1) {
+      throw (
+        lastError ??
+        new GatewayError("PROVIDER_UNAVAILABLE", `${attempts[0]!.model}: ${attempts[0]!.error}`)
+      );
+    }
+    throw new GatewayError("ALL_MODELS_FAILED", this.describeFailure(attempts));
+  }
+
+  /**
+   * Stream with the same retry and fallback rules as `complete()`. A model is
+   * only abandoned before it has produced output; errors after that point are
+   * passed through. The 'done' chunk names the model that answered.
+   */
+  async *streamCompletion(
+    request: CompletionRequest,
+  ): AsyncGenerator<GatewayStreamChunk> {
+    const attempts: ModelFallback["attempts"] = [];
+
+    for (const [index, candidate] of this.candidateModels(request).entries()) {
+      const route = this.resolveRoute(candidate, index === 0 ? request.provider : undefined);
+      const skipReason = this.skipReason(route);
+      if (skipReason) {
+        attempts.push({ model: candidate, error: skipReason });
+        continue;
+      }
+
+      for (let retry = 0; ; retry++) {
+        let emitted = false;
+        try {
+          for await (const chunk of this.streamWith(route, request)) {
+            if (chunk.type === "error" && !emitted) {
+              throw new GatewayError(
+                chunk.error?.code ?? "STREAM_ERROR",
+                chunk.error?.message ?? "Model stream failed",
+                chunk.error?.status,
+              );
+            }
+
+            if (chunk.type === "done") {
+              yield {
+                ...chunk,
+                model: this.routeLabel(route),
+                provider: route.provider,
+                fallback:
+                  attempts.length > 0
+                    ? this.describeFallback(request.model, attempts)
+                    : undefined,
+              };
+            } else {
+              yield chunk;
+            }
+
+            if (chunk.type === "content" || chunk.type === "tool_call") {
+              emitted = true;
+            }
+          }
+          this.breakerFor(route.key).recordSuccess();
+          return;
+        } catch (error) {
+          if (emitted) {
+            this.breakerFor(route.key).recordFailure();
+            yield {
+              type: "error",
+              error: {
+                code: error instanceof GatewayError ? error.code : "STREAM_ERROR",
+                message: errorMessage(error),
+              },
+            };
+            return;
+          }
+
+          if (!(await this.prepareRetry(route.key, error, retry, request.signal))) {
+            attempts.push({ model: candidate, error: errorMessage(error) });
+            break;
+          }
+        }
+      }
+
+      if (request.signal?.aborted) return;
+    }
+
+    yield {
+      type: "error",
+      error: {
+        code: attempts.length === 1 ? "PROVIDER_ERROR" : "ALL_MODELS_FAILED",
+        message:
+          attempts.length === 1 ? attempts[0]!.error : this.describeFailure(attempts),
+      },
+    };
+  }
+
+  // ─── Routing & Resilience ─────────────────────────────────────────────────
+
+  private async completeWith(
+    route: ModelRoute,
+    request: CompletionRequest,
+  ): Promise<CompletionResponse> {
+    const routed = { ...request, model: route.model };
+
+    switch (route.provider) {
       case "ollama":
-        return this.completeOllama({ ...request, model });
+        return this.completeOllama(routed);
       case "openai":
-        return this.completeOpenAI({ ...request, model });
+        return this.completeOpenAI(routed);
       case "anthropic":
-        throw new Error(
-          "Anthropic provider is not yet implemented. Use Ollama for local-first operation.",
-        );
+        return this.completeAnthropic(routed);
+      case "custom": {
+        const response = await this.completeOpenAI(routed, route.custom);
+        return { ...response, model: this.routeLabel(route) };
+      }
       default:
-        throw new Error(`Unsupported provider: ${provider}`);
+        throw new Error(`Unsupported provider: ${route.provider}`);
     }
   }
 
-  async *streamCompletion(
+  private async *streamWith(
+    route: ModelRoute,
     request: CompletionRequest,
   ): AsyncGenerator<GatewayStreamChunk> {
-    const provider = request.provider ?? this.detectProvider(request.model);
-    const model = this.normalizeModel(request.model);
+    const routed = { ...request, model: route.model };
 
-    switch (provider) {
+    switch (route.provider) {
       case "ollama":
-        yield* this.streamOllama({ ...request, model });
+        yield* this.streamOllama(routed);
         break;
       case "openai":
-        yield* this.streamOpenAI({ ...request, model });
+        yield* this.streamOpenAI(routed);
         break;
       case "anthropic":
-        yield {
-          type: "error",
-          error: {
-            code: "NOT_IMPLEMENTED",
-            message:
-              "Anthropic streaming is not yet implemented. Route to Ollama.",
-          },
-        };
+        yield* this.streamAnthropic(routed);
+        break;
+      case "custom":
+        yield* this.streamOpenAI(routed, route.custom);
         break;
       default:
         yield {
           type: "error",
           error: {
             code: "UNSUPPORTED_PROVIDER",
-            message: `Provider ${provider} is not supported`,
+            message: `Provider ${route.provider} is not supported`,
           },
         };
     }
   }
 
+  /**
+   * Model name reported back to callers. Custom models keep their
+   * `custom:<name>/` prefix so the answering server is identifiable.
+   */
+  private routeLabel(route: ModelRoute): string {
+    return route.custom
+      ? `custom:${route.custom.config.name}/${route.model}`
+      : route.model;
+  }
+
+  /**
+   * The requested model followed by its fallbacks, without duplicates.
+   */
+  private candidateModels(request: CompletionRequest): string[] {
+    return Array.from(new Set([request.model, ...(request.fallbackModels ?? [])]));
+  }
+
+  /**
+   * Why a route cannot be tried right now, or null if it can.
+   */
+  private skipReason(route: ModelRoute): string | null {
+    if (route.provider === "custom" && !route.custom) {
+      return `${route.key} is not registered`;
+    }
+    if (!this.isProviderAvailable(route.provider)) {
+      return `${route.provider} is not enabled`;
+    }
+    const breaker = this.breakerFor(route.key);
+    if (!breaker.canRequest()) {
+      return `${route.key} circuit open (retry in ${Math.ceil(breaker.retryAfterMs() / 1000)}s)`;
+    }
+    return null;
+  }
+
+  /**
+   * Record a failed call against the provider's circuit breaker and, if the
+   * error is transient and retries remain, wait before the next attempt.
+   * Rethrows when the caller aborted.
+   */
+  private async prepareRetry(
+    key: string,
+    error: unknown,
+    retry: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    const breaker = this.breakerFor(key);
+
+    if (signal?.aborted) {
+      breaker.releaseTrial();
+      throw error;
+    }
+
+    if (!isTransientError(error)) {
+      // The provider answered; the request itself was bad (e.g. unknown model)
+      breaker.recordSuccess();
+      return false;
+    }
+
+    breaker.recordFailure();
+    if (retry >= MAX_RETRIES || !breaker.canRequest()) return false;
+
+    const delay = backoffDelay(retry + 1);
+    console.error(
+      `[Gateway] ${key} call failed (${errorMessage(error)}), retrying in ${delay}ms`,
+    );
+    await sleep(delay, signal);
+    return true;
+  }
+
+  private breakerFor(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        this.options.breakerThreshold,
+        this.options.breakerCooldownMs,
+      );
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  private describeFallback(
+    requestedModel: string,
+    attempts: ModelFallback["attempts"],
+  ): ModelFallback {
+    return {
+      requestedModel,
+      reason: attempts[0]!.error,
+      attempts: [...attempts],
+    };
+  }
+
+  private describeFailure(attempts: ModelFallback["attempts"]): string {
+    return `All models failed: ${attempts.map((a) => `${a.model}: ${a.error}`).join("; ")}`;
+  }
+
   // ─── Ollama Implementation ─────────────────────────────────────────────────
 
   private async completeOllama(
     request: CompletionRequest & { model: string },
   ): Promise<CompletionResponse> {
     const transformedMessages = request.messages.map((m) =>
-      this.transformMessageContent(m, "ollama"),
+      this.toOllamaMessage(m),
     );
     const response = await fetch(`${OLLAMA_BASE_URL}/api/chat`, {
       method: "POST",
@@ -315,7 +784,11 @@ export class UnifiedGateway {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Ollama error (${response.status}): ${errorText}`);
+      throw new GatewayError(
+        "OLLAMA_ERROR",
+        `Ollama error (${response.status}): ${errorText}`,
+        response.status,
+      );
     }
 
     const data = (await response.json()) as {
@@ -353,7 +826,7 @@ export class UnifiedGateway {
     request: CompletionRequest & { model: string },
   ): AsyncGenerator<GatewayStreamChunk> {
     const transformedMessages = request.messages.map((m) =>
-      this.transformMessageContent(m, "ollama"),
+      this.toOllamaMessage(m),
     );
     const response = await fetch(`${OLLAMA_BASE_URL}/api/chat`, {
       method: "POST",
@@ -380,7 +853,7 @@ export class UnifiedGateway {
       const errorText = await response.text();
       yield {
         type: "error",
-        error: { code: "OLLAMA_ERROR", message: errorText },
+        error: { code: "OLLAMA_ERROR", message: errorText, status: response.status },
       };
       return;
     }
@@ -429,11 +902,11 @@ export class UnifiedGateway {
             }
 
             if (chunk.message?.tool_calls) {
-              for (const tc of chunk.message.tool_calls) {
+              for (const [idx, tc] of chunk.message.tool_calls.entries()) {
                 yield {
                   type: "tool_call",
                   toolCall: {
-                    id: `call_${Date.now()}`,
+                    id: `call_${Date.now()}_${idx}`,
                     name: tc.function.name,
                     arguments: JSON.stringify(tc.function.arguments),
                     isComplete: true,
@@ -466,10 +939,16 @@ export class UnifiedGateway {
 
   // ─── OpenAI Implementation (BYOK only) ────────────────────────────────────
 
+  /**
+   * OpenAI chat completions. Also serves custom OpenAI-compatible servers,
+   * which pass their own client.
+   */
   private async completeOpenAI(
     request: CompletionRequest & { model: string },
+    custom?: CustomProvider,
   ): Promise<CompletionResponse> {
-    if (!this.openaiClient || !this.openaiEnabled) {
+    const client = custom ? custom.client : this.openaiEnabled ? this.openaiClient : null;
+    if (!client) {
       throw new Error(
         "OpenAI is not enabled. Call enableCloudProvider('openai', apiKey) first.",
       );
@@ -479,7 +958,7 @@ export class UnifiedGateway {
       this.transformMessageContent(m, "openai"),
     );
 
-    const response = await this.openaiClient.chat.completions.create({
+    const response = await client.chat.completions.create({
       model: request.model,
       messages: transformedMessages as OpenAI.Chat.ChatCompletionMessageParam[],
       tools: request.tools,
@@ -491,7 +970,7 @@ export class UnifiedGateway {
     });
 
     const choice = response.choices[0];
-    if (!choice) throw new Error("No response from OpenAI");
+    if (!choice) throw new Error(`No response from ${custom?.config.name ?? "OpenAI"}`);
 
     return {
       content: choice.message.content ?? "",
@@ -506,15 +985,17 @@ export class UnifiedGateway {
         totalTokens: response.usage?.total_tokens ?? 0,
       },
       model: response.model,
-      provider: "openai",
+      provider: custom ? "custom" : "openai",
       finishReason: choice.finish_reason as CompletionResponse["finishReason"],
     };
   }
 
   private async *streamOpenAI(
     request: CompletionRequest & { model: string },
+    custom?: CustomProvider,
   ): AsyncGenerator<GatewayStreamChunk> {
-    if (!this.openaiClient || !this.openaiEnabled) {
+    const client = custom ? custom.client : this.openaiEnabled ? this.openaiClient : null;
+    if (!client) {
       yield {
         type: "error",
         error: {
@@ -529,7 +1010,7 @@ export class UnifiedGateway {
       this.transformMessageContent(m, "openai"),
     );
 
-    const stream = await this.openaiClient.chat.completions.create({
+    const stream = await client.chat.completions.create({
       model: request.model,
       messages: transformedMessages as OpenAI.Chat.ChatCompletionMessageParam[],
       tools: request.tools,
@@ -541,8 +1022,9 @@ export class UnifiedGateway {
       stream: true,
     });
 
-    const toolCallBuffers: Record<string, { name: string; arguments: string }> =
-      {};
+    // Only the first delta of a tool call carries its id; later deltas are
+    // matched by index. Calls are complete once the choice finishes.
+    const toolCallBuffers = new Map<number, { id: string; name: string; arguments: string }>();
 
     for await (const chunk of stream) {
       const delta = chunk.choices[0]?.delta;
@@ -554,32 +1036,41 @@ export class UnifiedGateway {
 
       if (delta.tool_calls) {
         for (const tc of delta.tool_calls) {
-          const id = tc.id ?? `call_${Date.now()}`;
-          if (!toolCallBuffers[id])
-            toolCallBuffers[id] = { name: "", arguments: "" };
-          if (tc.function?.name) toolCallBuffers[id].name += tc.function.name;
-          if (tc.function?.arguments)
-            toolCallBuffers[id].arguments += tc.function.arguments;
-
-          const isComplete =
-            toolCallBuffers[id].name &&
-            toolCallBuffers[id].arguments &&
-            tc.function?.arguments?.includes("}");
+          let buffer = toolCallBuffers.get(tc.index);
+          if (!buffer) {
+            buffer = { id: tc.id ?? `call_${Date.now()}_${tc.index}`, name: "", arguments: "" };
+            toolCallBuffers.set(tc.index, buffer);
+          }
+          if (tc.function?.name) buffer.name += tc.function.name;
+          if (tc.function?.arguments) buffer.arguments += tc.function.arguments;
 
           yield {
             type: "tool_call",
             toolCall: {
-              id,
-              name: toolCallBuffers[id].name,
-              arguments: toolCallBuffers[id].arguments,
+              id: buffer.id,
+              name: buffer.name,
+              arguments: buffer.arguments,
               argumentsDelta: tc.function?.arguments,
-              isComplete: !!isComplete,
+              isComplete: false,
             },
           };
         }
       }
 
       if (chunk.choices[0]?.finish_reason) {
+        for (const buffer of toolCallBuffers.values()) {
+          yield {
+            type: "tool_call",
+            toolCall: {
+              id: buffer.id,
+              name: buffer.name,
+              arguments: buffer.arguments || "{}",
+              isComplete: true,
+            },
+          };
+        }
+        toolCallBuffers.clear();
+
         yield {
           type: "done",
           finishReason: chunk.choices[0]
@@ -600,6 +1091,368 @@ export class UnifiedGateway {
     }
   }
 
+  // ─── Anthropic Implementation (BYOK only) ─────────────────────────────────
+
+  private async completeAnthropic(
+    request: CompletionRequest & { model: string },
+  ): Promise<CompletionResponse> {
+    if (!this.anthropicEnabled) {
+      throw new Error(
+        "Anthropic is not enabled. Call enableCloudProvider('anthropic', apiKey) first.",
+      );
+    }
+
+    const response = await this.anthropicFetch("/v1/messages", {
+      method: "POST",
+      body: JSON.stringify(this.buildAnthropicBody(request, false)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new GatewayError(
+        "ANTHROPIC_ERROR",
+        `Anthropic error (${response.status}): ${errorText}`,
+        response.status,
+      );
+    }
+
+    const data = (await response.json()) as AnthropicResponse;
+
+    const content = data.content
+      .flatMap((block) => (block.type === "text" ? [block.text] : []))
+      .join("");
+    const toolCalls = data.content.flatMap((block) =>
+      block.type === "tool_use"
+        ? [{ id: block.id, name: block.name, arguments: block.input }]
+        : [],
+    );
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+      model: data.model,
+      provider: "anthropic",
+      finishReason: this.mapAnthropicStopReason(data.stop_reason),
+    };
+  }
+
+  private async *streamAnthropic(
+    request: CompletionRequest & { model: string },
+  ): AsyncGenerator<GatewayStreamChunk> {
+    if (!this.anthropicEnabled) {
+      yield {
+        type: "error",
+        error: {
+          code: "ANTHROPIC_NOT_ENABLED",
+          message: "Anthropic BYOK not enabled",
+        },
+      };
+      return;
+    }
+
+    const response = await this.anthropicFetch("/v1/messages", {
+      method: "POST",
+      body: JSON.stringify(this.buildAnthropicBody(request, true)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      yield {
+        type: "error",
+        error: { code: "ANTHROPIC_ERROR", message: errorText, status: response.status },
+      };
+      return;
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      yield {
+        type: "error",
+        error: { code: "STREAM_ERROR", message: "No response body reader" },
+      };
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let promptTokens = 0;
+    // tool_use blocks being assembled, keyed by content block index
+    const toolBuffers = new Map<number, { id: string; name: string; arguments: string }>();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(line.slice(5).trim()) as AnthropicStreamEvent;
+          } catch {
+            // Skip malformed SSE lines
+            continue;
+          }
+
+          switch (event.type) {
+            case "message_start":
+              promptTokens = event.message.usage.input_tokens;
+              break;
+
+            case "content_block_start":
+              if (event.content_block.type === "tool_use") {
+                toolBuffers.set(event.index, {
+                  id: event.content_block.id,
+                  name: event.content_block.name,
+                  arguments: "",
+                });
+              } else if (event.content_block.type === "text" && event.content_block.text) {
+                yield { type: "content", content: event.content_block.text };
+              }
+              break;
+
+            case "content_block_delta":
+              if (event.delta.type === "text_delta") {
+                yield { type: "content", content: event.delta.text };
+              } else {
+                const tool = toolBuffers.get(event.index);
+                if (!tool) break;
+                tool.arguments += event.delta.partial_json;
+                yield {
+                  type: "tool_call",
+                  toolCall: {
+                    id: tool.id,
+                    name: tool.name,
+                    arguments: tool.arguments,
+                    argumentsDelta: event.delta.partial_json,
+                    isComplete: false,
+                  },
+                };
+              }
+              break;
+
+            case "content_block_stop": {
+              const tool = toolBuffers.get(event.index);
+              if (!tool) break;
+              toolBuffers.delete(event.index);
+              yield {
+                type: "tool_call",
+                toolCall: {
+                  id: tool.id,
+                  name: tool.name,
+                  arguments: tool.arguments || "{}",
+                  isComplete: true,
+                },
+              };
+              break;
+            }
+
+            case "message_delta": {
+              const completionTokens = event.usage?.output_tokens ?? 0;
+              yield {
+                type: "usage",
+                usage: {
+                  promptTokens,
+                  completionTokens,
+                  totalTokens: promptTokens + completionTokens,
+                },
+              };
+              yield {
+                type: "done",
+                finishReason: this.mapAnthropicStopReason(event.delta.stop_reason),
+              };
+              break;
+            }
+
+            case "error":
+              yield {
+                type: "error",
+                error: {
+                  code: "ANTHROPIC_ERROR",
+                  message: event.error.message,
+                  // Mid-stream overload is reported as an event, not an HTTP status
+                  status: event.error.type === "overloaded_error" ? 529 : undefined,
+                },
+              };
+              return;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private anthropicFetch(path: string, init: RequestInit): Promise<Response> {
+    return fetch(`${this.anthropicBaseUrl}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.anthropicKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+    });
+  }
+
+  /**
+   * Build a Messages API request. System messages are lifted into the
+   * top-level `system` field; tool turns become tool_use / tool_result blocks.
+   */
+  private buildAnthropicBody(
+    request: CompletionRequest & { model: string },
+    stream: boolean,
+  ): Record<string, unknown> {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => this.textOf(m.content))
+      .filter(Boolean)
+      .join("\n\n");
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      system: system || undefined,
+      messages: this.toAnthropicMessages(request.messages),
+      tools: request.tools?.map((t) => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: t.function.parameters,
+      })),
+      tool_choice: request.tools?.length
+        ? this.toAnthropicToolChoice(request.toolChoice)
+        : undefined,
+      temperature: request.temperature,
+      top_p: request.topP,
+      stop_sequences: request.stop,
+      stream,
+    };
+  }
+
+  private toAnthropicMessages(messages: GatewayMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === "system") continue;
+
+      const role = message.role === "assistant" ? "assistant" : "user";
+      const blocks: AnthropicContentBlock[] = [];
+
+      if (message.role === "tool") {
+        blocks.push({
+          type: "tool_result",
+          tool_use_id: message.tool_call_id ?? "",
+          content: this.textOf(message.content),
+        });
+      } else {
+        blocks.push(...this.toAnthropicContent(message.content));
+        for (const tc of message.tool_calls ?? []) {
+          let input: Record<string, unknown> = {};
+          try {
+            input = JSON.parse(tc.function.arguments || "{}") as Record<string, unknown>;
+          } catch {
+            // Leave malformed arguments empty
+          }
+          blocks.push({ type: "tool_use", id: tc.id, name: tc.function.name, input });
+        }
+      }
+
+      if (blocks.length === 0) continue;
+
+      // The API expects alternating roles; consecutive turns (e.g. several
+      // tool results) are merged into one message.
+      const previous = result[result.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    }
+
+    return result;
+  }
+
+  private toAnthropicContent(
+    content: string | MessageContentPart[],
+  ): AnthropicContentBlock[] {
+    if (typeof content === "string") {
+      return content ? [{ type: "text", text: content }] : [];
+    }
+
+    return content.flatMap((part): AnthropicContentBlock[] => {
+      switch (part.type) {
+        case "text":
+          return part.text ? [{ type: "text", text: part.text }] : [];
+        case "image_url": {
+          const match = /^data:([^;]+);base64,(.*)$/.exec(part.image_url.url);
+          return [
+            {
+              type: "image",
+              source: match
+                ? { type: "base64", media_type: match[1]!, data: match[2]! }
+                : { type: "url", url: part.image_url.url },
+            },
+          ];
+        }
+        case "inline_data":
+          return [
+            {
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: part.inline_data.mimeType,
+                data: part.inline_data.data,
+              },
+            },
+          ];
+        default:
+          return [];
+      }
+    });
+  }
+
+  private toAnthropicToolChoice(
+    choice: CompletionRequest["toolChoice"],
+  ): Record<string, unknown> | undefined {
+    if (!choice) return undefined;
+    if (choice === "auto") return { type: "auto" };
+    if (choice === "none") return { type: "none" };
+    return { type: "tool", name: choice.function.name };
+  }
+
+  private mapAnthropicStopReason(
+    reason: string | null,
+  ): CompletionResponse["finishReason"] {
+    switch (reason) {
+      case "max_tokens":
+        return "length";
+      case "tool_use":
+        return "tool_calls";
+      case "refusal":
+        return "content_filter";
+      default:
+        return "stop";
+    }
+  }
+
+  private textOf(content: string | MessageContentPart[]): string {
+    if (typeof content === "string") return content;
+    return content
+      .flatMap((part) => (part.type === "text" ? [part.text] : []))
+      .join("\n");
+  }
+
   // ─── Utility ───────────────────────────────────────────────────────────────
 
   isProviderAvailable(provider: LLMProvider): boolean {
@@ -610,13 +1463,32 @@ export class UnifiedGateway {
         return this.openaiEnabled;
       case "anthropic":
         return this.anthropicEnabled;
+      case "custom":
+        return this.customProviders.size > 0;
       default:
         return false;
     }
   }
 
+  /**
+   * Models a provider can serve. Custom provider models are returned in
+   * their routable `custom:<name>/<model>` form.
+   */
   async listModels(provider: LLMProvider): Promise<string[]> {
     switch (provider) {
+      case "custom": {
+        const lists = await Promise.all(
+          Array.from(this.customProviders.values(), async ({ config, client }) => {
+            try {
+              const models = await client.models.list();
+              return models.data.map((m) => `custom:${config.name}/${m.id}`);
+            } catch {
+              return [];
+            }
+          }),
+        );
+        return lists.flat();
+      }
       case "ollama":
         try {
           const response = await fetch(`${OLLAMA_BASE_URL}/api/tags`);
@@ -639,15 +1511,59 @@ export class UnifiedGateway {
         }
       case "anthropic":
         if (!this.anthropicEnabled) return [];
-        return [
-          "claude-3-opus-20240229",
-          "claude-3-sonnet-20240229",
-          "claude-3-haiku-20240307",
-        ];
+        try {
+          const response = await this.anthropicFetch("/v1/models?limit=1000", {
+            method: "GET",
+          });
+          if (!response.ok) return [];
+          const data = (await response.json()) as { data: { id: string }[] };
+          return data.data.map((m) => m.id);
+        } catch {
+          return [];
+        }
       default:
         return [];
     }
   }
+
+  /**
+   * Context window details from Ollama's /api/show. Null when the model
+   * isn't routed to Ollama or Ollama can't describe it.
+   */
+  async getOllamaContextInfo(model: string): Promise<OllamaContextInfo | null> {
+    const route = this.resolveRoute(model);
+    if (route.provider !== "ollama") return null;
+
+    try {
+      const response = await fetch(`${OLLAMA_BASE_URL}/api/show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: route.model }),
+      });
+      if (!response.ok) return null;
+
+      const data = (await response.json()) as {
+        model_info?: Record<string, unknown>;
+        parameters?: string;
+      };
+      // Keyed by architecture, e.g. "llama.context_length"
+      const trained = Object.entries(data.model_info ?? {}).find(([key]) =>
+        key.endsWith(".context_length"),
+      )?.[1];
+      const numCtx = data.parameters?.match(/^num_ctx\s+(\d+)/m)?.[1];
+
+      return {
+        contextLength: typeof trained === "number" ? trained : null,
+        numCtx: numCtx ? Number.parseInt(numCtx, 10) : null,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 // ─── Singleton ───────────────────────────────────────────────────────────────
@@ -1,92 +1,146 @@
-import { ChromaClient, OpenAIEmbeddingFunction } from "chromadb";
-import type { Collection } from "chromadb";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { getDB } from "@/lib/db/client";
+import { agentRecollections } from "@/lib/db/schema";
+import type { DbAgentRecollection } from "@/lib/db/schema";
+import { getVectorStore } from "@/lib/ai/vectorStore";
+import {
+  deleteRecollections as deleteLexicalRecollections,
+  indexRecollection,
+  searchRecollectionsLexical,
+} from "@/lib/ai/lexicalIndex";
+import {
+  candidateCount,
+  reciprocalRankFusion,
+  rerankItems,
+  rerankPoolSize,
+} from "@/lib/ai/hybridSearch";
+import type { RecollectionMatch, RetrievalMatchSource } from "@/types/tool";
+import type { RecollectionKind } from "@/types/agent";
 
-// ─── Singleton ChromaDB Client ───────────────────────────────────────────────────
-
-let _chromaClient: ChromaClient | null = null;
-let _recollectionCollection: Collection | null = null;
+// ─── Collections ─────────────────────────────────────────────────────────────────
 
 const OMNI_RECOLLECTION_COLLECTION = "omni_recollections";
 
-function getChromaClient(): ChromaClient {
-  if (!_chromaClient) {
-    // By default, ChromaClient will connect to http://localhost:8000
-    _chromaClient = new ChromaClient();
-  }
-  return _chromaClient;
-}
-
-// ─── Embedding Function ──────────────────────────────────────────────────────────
+/** Order of the rankings passed to reciprocalRankFusion */
+const RANKINGS: RetrievalMatchSource[] = ["vector", "lexical"];
 
-// Using OpenAI's embedding function as an example.
-// We can replace this with a local one (e.g., Ollama) if needed.
-const embedder = new OpenAIEmbeddingFunction({
-  openai_api_key: process.env.OPENAI_API_KEY || "dummy-key",
-});
+/** Cosine distance at or below which a bulk forget treats a memory as a match */
+export const FORGET_MAX_DISTANCE = 0.35;
 
+/** Upper bound on memories a single bulk forget inspects per ranking */
+const FORGET_SCAN_LIMIT = 500;
 
 // ─── Public API ──────────────────────────────────────────────────────────────────
 
 /**
- * Get the ChromaDB collection for agent recollections.
- * Initializes the collection if it doesn't exist.
- */
-export async function getRecollectionCollection(): Promise<Collection> {
-  if (_recollectionCollection) {
-    return _recollectionCollection;
-  }
-
-  const client = getChromaClient();
-
-  try {
-    // Check if the collection already exists
-    _recollectionCollection = await client.getCollection({
-      name: OMNI_RECOLLECTION_COLLECTION,
-      embeddingFunction: embedder,
-    });
-    console.log("[ChromaDB] Re-using existing collection:", OMNI_RECOLLECTION_COLLECTION);
-  } catch (error) {
-    // If it doesn't exist, create it
-    _recollectionCollection = await client.createCollection({
-      name: OMNI_RECOLLECTION_COLLECTION,
-      embeddingFunction: embedder,
-      metadata: {
-        "hnsw:space": "cosine",
-      },
-    });
-    console.log("[ChromaDB] Created new collection:", OMNI_RECOLLECTION_COLLECTION);
-  }
-
-  return _recollectionCollection;
-}
-
-/**
- * Adds a new recollection to the vector store.
+ * Adds a new recollection to the vector store, the lexical index, and
+ * agent_recollections.
  *
  * @param content - The text content of the memory.
  * @param agentId - The ID of the agent this memory belongs to.
- * @returns The ID of the newly created recollection in ChromaDB.
+ * @returns The ID of the newly created recollection in the vector store.
  */
 export async function addRecollection({
   content,
   agentId,
+  kind = "raw",
+  importance = null,
+  sourceIds = [],
 }: {
   content: string;
   agentId: string;
+  kind?: RecollectionKind;
+  importance?: number | null;
+  sourceIds?: string[];
 }): Promise<string> {
-  const collection = await getRecollectionCollection();
-  const docId = `recollection_${agentId}_${Date.now()}`;
+  const store = await getVectorStore();
+  // Unique even when several are written in the same millisecond (consolidation)
+  const docId = `recollection_${agentId}_${uuidv4()}`;
 
-  await collection.add({
-    ids: [docId],
-    documents: [content],
-    metadatas: [{ agentId, createdAt: new Date().toISOString() }],
-  });
+  await store.add(OMNI_RECOLLECTION_COLLECTION, [
+    {
+      id: docId,
+      document: content,
+      metadata: { agentId, createdAt: new Date().toISOString() },
+    },
+  ]);
+  indexRecollection({ id: docId, agentId, content });
+  await getDB()
+    .insert(agentRecollections)
+    .values({ agentId, content, chromaId: docId, kind, importance, sourceIds });
 
-  console.log(`[ChromaDB] Added recollection ${docId} for agent ${agentId}.`);
+  console.log(`[VectorStore] Added recollection ${docId} for agent ${agentId}.`);
   return docId;
 }
 
+/**
+ * Hybrid (vector + BM25) search over an agent's recollections, optionally
+ * reranked.
+ *
+ * @param query - The search query text.
+ * @param agentId - The ID of the agent to search memories for.
+ * @param nResults - The number of results to return.
+ * @param rerank - Rerank with RERANK_MODEL when it is configured.
+ * @returns The best matches, most relevant first.
+ */
+export async function searchRecollectionMatches({
+  query,
+  agentId,
+  nResults = 5,
+  rerank = true,
+}: {
+  query: string;
+  agentId: string;
+  nResults?: number;
+  rerank?: boolean;
+}): Promise<RecollectionMatch[]> {
+  const store = await getVectorStore();
+  const limit = candidateCount(nResults);
+
+  const matches = await store.query(OMNI_RECOLLECTION_COLLECTION, {
+    text: query,
+    nResults: limit,
+    where: { agentId },
+  });
+  const vectorRanking = matches.map((match) => ({
+    id: match.id,
+    content: match.document,
+  }));
+
+  // The lexical index is an addition; vector results still stand without it
+  let lexicalRanking: typeof vectorRanking = [];
+  try {
+    lexicalRanking = searchRecollectionsLexical({ agentId, query, limit });
+  } catch (error) {
+    console.error("[VectorStore] Lexical recollection search failed:", error);
+  }
+
+  const ranked: RecollectionMatch[] = reciprocalRankFusion(
+    [vectorRanking, lexicalRanking],
+    (recollection) => recollection.id,
+  ).map((result) => ({
+    id: result.item.id,
+    content: result.item.content,
+    score: result.score,
+    matchedBy: result.rankings.map((index) => RANKINGS[index]!),
+  }));
+
+  if (!rerank) return ranked.slice(0, nResults);
+
+  const reranked = await rerankItems(
+    query,
+    ranked.slice(0, rerankPoolSize(nResults)),
+    (recollection) => recollection.content,
+  );
+
+  return reranked
+    .slice(0, nResults)
+    .map(({ item, rerankScore }) =>
+      rerankScore === null ? item : { ...item, rerankScore },
+    );
+}
+
 /**
  * Searches for relevant recollections based on a query.
  *
@@ -104,13 +158,180 @@ export async function searchRecollections({
   agentId: string;
   nResults?: number;
 }): Promise<string[]> {
-  const collection = await getRecollectionCollection();
+  const matches = await searchRecollectionMatches({ query, agentId, nResults });
+  return matches.map((match) => match.content);
+}
 
-  const results = await collection.query({
-    queryTexts: [query],
-    nResults,
-    where: { agentId: { "$eq": agentId } },
+// ─── Memory Management ───────────────────────────────────────────────────────────
+
+/**
+ * Pinned recollections for an agent, newest first.
+ */
+export async function listPinnedRecollections(agentId: string): Promise<DbAgentRecollection[]> {
+  return getDB().query.agentRecollections.findMany({
+    where: and(
+      eq(agentRecollections.agentId, agentId),
+      eq(agentRecollections.isPinned, true),
+    ),
+    orderBy: [desc(agentRecollections.createdAt)],
   });
+}
+
+/**
+ * Replace a recollection's content, re-embedding it in the vector store and
+ * re-indexing it for lexical search. Archived recollections only get the new
+ * content in their row; they stay out of retrieval.
+ */
+export async function updateRecollectionContent(
+  recollection: DbAgentRecollection,
+  content: string,
+): Promise<DbAgentRecollection> {
+  if (!recollection.archivedAt) {
+    const store = await getVectorStore();
+    await store.add(OMNI_RECOLLECTION_COLLECTION, [
+      {
+        id: recollection.chromaId,
+        document: content,
+        metadata: {
+          agentId: recollection.agentId,
+          createdAt: recollection.createdAt.toISOString(),
+        },
+      },
+    ]);
+    indexRecollection({ id: recollection.chromaId, agentId: recollection.agentId, content });
+  }
+
+  const [updated] = await getDB()
+    .update(agentRecollections)
+    .set({ content, editedAt: new Date() })
+    .where(eq(agentRecollections.id, recollection.id))
+    .returning();
+
+  return updated ?? { ...recollection, content, editedAt: new Date() };
+}
+
+/**
+ * Delete recollections from the vector store, the lexical index, and
+ * agent_recollections.
+ */
+export async function removeRecollections(recollections: DbAgentRecollection[]): Promise<void> {
+  if (recollections.length === 0) return;
+
+  const chromaIds = recollections.map((r) => r.chromaId);
+  const store = await getVectorStore();
+  await store.delete(OMNI_RECOLLECTION_COLLECTION, { ids: chromaIds });
+  deleteLexicalRecollections(chromaIds);
+
+  await getDB()
+    .delete(agentRecollections)
+    .where(inArray(agentRecollections.id, recollections.map((r) => r.id)));
+}
+
+/**
+ * Take recollections out of retrieval (vector store and lexical index) while
+ * keeping their rows, marked archived.
+ */
+export async function archiveRecollections(recollections: DbAgentRecollection[]): Promise<void> {
+  if (recollections.length === 0) return;
+
+  const chromaIds = recollections.map((r) => r.chromaId);
+  const store = await getVectorStore();
+  await store.delete(OMNI_RECOLLECTION_COLLECTION, { ids: chromaIds });
+  deleteLexicalRecollections(chromaIds);
+
+  await getDB()
+    .update(agentRecollections)
+    .set({ archivedAt: new Date() })
+    .where(inArray(agentRecollections.id, recollections.map((r) => r.id)));
+}
+
+/**
+ * Find every recollection about a topic: those within `maxDistance` of the
+ * query embedding, plus those containing every query term. Unlike search,
+ * this is not limited to the top few matches.
+ */
+export async function findRecollectionsMatching({
+  agentId,
+  query,
+  maxDistance = FORGET_MAX_DISTANCE,
+  includePinned = false,
+}: {
+  agentId: string;
+  query: string;
+  maxDistance?: number;
+  includePinned?: boolean;
+}): Promise<DbAgentRecollection[]> {
+  const store = await getVectorStore();
+  const matches = await store.query(OMNI_RECOLLECTION_COLLECTION, {
+    text: query,
+    nResults: FORGET_SCAN_LIMIT,
+    where: { agentId },
+  });
+
+  const chromaIds = new Set(
+    matches.filter((match) => match.distance <= maxDistance).map((match) => match.id),
+  );
+  for (const match of searchRecollectionsLexical({
+    agentId,
+    query,
+    limit: FORGET_SCAN_LIMIT,
+    matchAll: true,
+  })) {
+    chromaIds.add(match.id);
+  }
+  if (chromaIds.size === 0) return [];
+
+  const rows = await ensureRecollectionRows(agentId, Array.from(chromaIds));
+  return includePinned ? rows : rows.filter((row) => !row.isPinned);
+}
+
+/**
+ * agent_recollections rows for vector entries, newest first. Entries
+ * written before the table existed get a row here, so every memory that
+ * retrieval can return can also be listed, edited, and forgotten.
+ */
+export async function ensureRecollectionRows(
+  agentId: string,
+  chromaIds: string[],
+): Promise<DbAgentRecollection[]> {
+  if (chromaIds.length === 0) return [];
+
+  const db = getDB();
+  const findRows = () =>
+    db.query.agentRecollections.findMany({
+      where: and(
+        eq(agentRecollections.agentId, agentId),
+        inArray(agentRecollections.chromaId, chromaIds),
+      ),
+      orderBy: [desc(agentRecollections.createdAt)],
+    });
+
+  const rows = await findRows();
+  const known = new Set(rows.map((row) => row.chromaId));
+  const missing = chromaIds.filter((id) => !known.has(id));
+  if (missing.length === 0) return rows;
+
+  const store = await getVectorStore();
+  const entries = (await store.get(OMNI_RECOLLECTION_COLLECTION, { ids: missing })).filter(
+    (entry) => entry.metadata.agentId === agentId,
+  );
+  if (entries.length === 0) return rows;
+
+  await db
+    .insert(agentRecollections)
+    .values(
+      entries.map((entry) => {
+        const createdAt = new Date(String(entry.metadata.createdAt));
+        return {
+          agentId,
+          content: entry.document,
+          chromaId: entry.id,
+          ...(Number.isNaN(createdAt.getTime()) ? {} : { createdAt }),
+        };
+      }),
+    )
+    .onConflictDoNothing({ target: agentRecollections.chromaId });
+  console.log(`[VectorStore] Backfilled ${entries.length} recollection rows for agent ${agentId}.`);
 
-  return results.documents[0] ?? [];
+  return findRows();
 }
@@ -0,0 +1,566 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// VECTOR STORE - Pluggable Backends for Semantic Memory
+//
+// Two interchangeable backends behind one interface:
+//   • chroma — ChromaDB server (docker-compose)
+//   • sqlite — vectors kept in the app's SQLite file, brute-force cosine search
+//
+// VECTOR_STORE selects the backend explicitly. When unset, ChromaDB is used if
+// it answers a heartbeat, otherwise the embedded store takes over so single
+// container and mobile installs still get long-term memory.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ChromaClient, IncludeEnum } from "chromadb";
+import type { Collection, IEmbeddingFunction, Where } from "chromadb";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { vectorCollections, vectorEntries } from "@/lib/db/schema";
+import { getEmbeddingConfig, getEmbeddingFunction } from "@/lib/ai/embeddings";
+import type { EmbeddingConfig } from "@/lib/ai/embeddings";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** How long to wait for ChromaDB's heartbeat before using the embedded store */
+const CHROMA_HEARTBEAT_TIMEOUT_MS = 3000;
+
+/** Collection metadata key recording which embedding model built the vectors */
+const EMBEDDING_MODEL_KEY = "embeddingModel";
+
+/** Records written per request when re-embedding a collection */
+const REEMBED_BATCH_SIZE = 100;
+
+/** Suffix of the collection a Chroma re-embed is written to before the swap */
+const REEMBED_SUFFIX = "__reembed";
+
+const METADATA_KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type VectorBackend = "chroma" | "sqlite";
+
+export type VectorMetadataValue = string | number | boolean;
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+/**
+ * Metadata filter. Every key must match: either equal to the value or,
+ * with `$in`, one of the listed values.
+ */
+export type VectorWhere = Record<
+  string,
+  VectorMetadataValue | { $in: VectorMetadataValue[] }
+>;
+
+export interface VectorRecord {
+  id: string;
+  document: string;
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch extends VectorRecord {
+  /** Cosine distance (0 = identical) */
+  distance: number;
+}
+
+export interface VectorQuery {
+  text: string;
+  nResults?: number;
+  where?: VectorWhere;
+}
+
+export interface VectorSelector {
+  ids?: string[];
+  where?: VectorWhere;
+}
+
+export interface VectorStore {
+  readonly backend: VectorBackend;
+  /** Embed and store records. Existing ids are replaced. */
+  add(collection: string, records: VectorRecord[]): Promise<void>;
+  /** Nearest records to the query text, closest first */
+  query(collection: string, query: VectorQuery): Promise<VectorMatch[]>;
+  get(collection: string, selector?: VectorSelector): Promise<VectorRecord[]>;
+  delete(collection: string, selector: VectorSelector): Promise<void>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CHROMA BACKEND
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class ChromaVectorStore implements VectorStore {
+  readonly backend = "chroma" as const;
+  private collections = new Map<string, Promise<Collection>>();
+
+  constructor(private readonly client: ChromaClient) {}
+
+  async add(collection: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const target = await this.getCollection(collection);
+    await target.upsert({
+      ids: records.map((r) => r.id),
+      documents: records.map((r) => r.document),
+      metadatas: records.map((r) => r.metadata),
+    });
+  }
+
+  async query(collection: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const target = await this.getCollection(collection);
+    const results = await target.query({
+      queryTexts: [query.text],
+      nResults: query.nResults ?? 5,
+      where: toChromaWhere(query.where),
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances],
+    });
+
+    const ids = results.ids[0] ?? [];
+    const matches: VectorMatch[] = [];
+    ids.forEach((id, i) => {
+      const document = results.documents[0]?.[i];
+      if (document == null) return;
+      matches.push({
+        id,
+        document,
+        metadata: results.metadatas[0]?.[i] ?? {},
+        distance: results.distances?.[0]?.[i] ?? 0,
+      });
+    });
+    return matches;
+  }
+
+  async get(collection: string, selector: VectorSelector = {}): Promise<VectorRecord[]> {
+    const target = await this.getCollection(collection);
+    const results = await target.get({
+      ids: selector.ids,
+      where: toChromaWhere(selector.where),
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas],
+    });
+
+    const records: VectorRecord[] = [];
+    results.ids.forEach((id, i) => {
+      const document = results.documents[i];
+      if (document == null) return;
+      records.push({ id, document, metadata: results.metadatas[i] ?? {} });
+    });
+    return records;
+  }
+
+  async delete(collection: string, selector: VectorSelector): Promise<void> {
+    const target = await this.getCollection(collection);
+    await target.delete({
+      ids: selector.ids,
+      where: toChromaWhere(selector.where),
+    });
+  }
+
+  // ─── Collection Setup ─────────────────────────────────────────────────────
+
+  private getCollection(name: string): Promise<Collection> {
+    let pending = this.collections.get(name);
+    if (!pending) {
+      // Shared promise so concurrent callers don't race a re-embed
+      pending = this.openCollection(name).catch((error) => {
+        this.collections.delete(name);
+        throw error;
+      });
+      this.collections.set(name, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Open a collection, creating it if needed. A collection built with a
+   * different embedding model is re-embedded so vector spaces never mix.
+   */
+  private async openCollection(name: string): Promise<Collection> {
+    const embedding = getEmbeddingConfig();
+    const embeddingFunction = getEmbeddingFunction();
+
+    let collection: Collection;
+    try {
+      collection = await this.client.getCollection({ name, embeddingFunction });
+    } catch {
+      // A re-embed stopped between dropping the original and the rename
+      const rebuilt = await this.client
+        .getCollection({ name: `${name}${REEMBED_SUFFIX}`, embeddingFunction })
+        .catch(() => null);
+      if (rebuilt) {
+        await rebuilt.modify({ name });
+        console.log("[ChromaDB] Finished interrupted re-embed of collection:", name);
+        return this.client.getCollection({ name, embeddingFunction });
+      }
+
+      collection = await this.createCollection(name, embedding, embeddingFunction);
+      console.log("[ChromaDB] Created new collection:", name);
+      return collection;
+    }
+
+    if (collection.metadata?.[EMBEDDING_MODEL_KEY] !== embedding.id) {
+      return this.reembedCollection(collection, embedding, embeddingFunction);
+    }
+
+    console.log("[ChromaDB] Re-using existing collection:", name);
+    return collection;
+  }
+
+  private createCollection(
+    name: string,
+    embedding: EmbeddingConfig,
+    embeddingFunction: IEmbeddingFunction,
+  ): Promise<Collection> {
+    return this.client.createCollection({
+      name,
+      embeddingFunction,
+      metadata: {
+        "hnsw:space": "cosine",
+        [EMBEDDING_MODEL_KEY]: embedding.id,
+      },
+    });
+  }
+
+  /**
+   * Rebuild a collection with the current embedding model. The new vectors
+   * are written to a separate collection that replaces the original only
+   * once complete, so a failure at any point leaves the old vectors intact.
+   */
+  private async reembedCollection(
+    existing: Collection,
+    embedding: EmbeddingConfig,
+    embeddingFunction: IEmbeddingFunction,
+  ): Promise<Collection> {
+    const previous = existing.metadata?.[EMBEDDING_MODEL_KEY] ?? "unknown";
+    const rebuiltName = `${existing.name}${REEMBED_SUFFIX}`;
+
+    const records = await existing.get({
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas],
+    });
+
+    const ids: string[] = [];
+    const documents: string[] = [];
+    const metadatas: VectorMetadata[] = [];
+    records.ids.forEach((id, i) => {
+      const document = records.documents[i];
+      if (document == null) return;
+      ids.push(id);
+      documents.push(document);
+      metadatas.push(records.metadatas[i] ?? {});
+    });
+
+    const embeddings = documents.length > 0 ? await embeddingFunction.generate(documents) : [];
+
+    // Left over from an earlier attempt that failed while writing
+    await this.client.deleteCollection({ name: rebuiltName }).catch(() => undefined);
+    const rebuilt = await this.createCollection(rebuiltName, embedding, embeddingFunction);
+
+    try {
+      for (let i = 0; i < ids.length; i += REEMBED_BATCH_SIZE) {
+        await rebuilt.add({
+          ids: ids.slice(i, i + REEMBED_BATCH_SIZE),
+          embeddings: embeddings.slice(i, i + REEMBED_BATCH_SIZE),
+          documents: documents.slice(i, i + REEMBED_BATCH_SIZE),
+          metadatas: metadatas.slice(i, i + REEMBED_BATCH_SIZE),
+        });
+      }
+    } catch (error) {
+      await this.client.deleteCollection({ name: rebuiltName }).catch(() => undefined);
+      throw error;
+    }
+
+    await this.client.deleteCollection({ name: existing.name });
+    await rebuilt.modify({ name: existing.name });
+
+    console.log(
+      `[ChromaDB] Re-embedded ${ids.length} records in ${existing.name} (${String(previous)} → ${embedding.id}).`,
+    );
+    return this.client.getCollection({ name: existing.name, embeddingFunction });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SQLITE BACKEND
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Embedded store in the app database. Queries score every vector in the
+ * collection that passes the metadata filter, which is plenty for personal
+ * memory and document libraries.
+ */
+export class SQLiteVectorStore implements VectorStore {
+  readonly backend = "sqlite" as const;
+  private collections = new Map<string, Promise<void>>();
+
+  async add(collection: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.ensureCollection(collection);
+
+    const embeddings = await embedTexts(records.map((r) => r.document));
+    const db = getDB();
+    db.transaction((tx) => {
+      records.forEach((record, i) => {
+        tx.insert(vectorEntries)
+          .values({
+            collection,
+            id: record.id,
+            document: record.document,
+            metadata: record.metadata,
+            embedding: encodeVector(embeddings[i]!),
+          })
+          .onConflictDoUpdate({
+            target: [vectorEntries.collection, vectorEntries.id],
+            set: {
+              document: record.document,
+              metadata: record.metadata,
+              embedding: encodeVector(embeddings[i]!),
+            },
+          })
+          .run();
+      });
+    });
+  }
+
+  async query(collection: string, query: VectorQuery): Promise<VectorMatch[]> {
+    await this.ensureCollection(collection);
+
+    const [queryVector] = (await embedTexts([query.text])) as [number[]];
+    const rows = getDB()
+      .select()
+      .from(vectorEntries)
+      .where(this.selection(collection, { where: query.where }))
+      .all();
+
+    const matches: VectorMatch[] = [];
+    for (const row of rows) {
+      const vector = decodeVector(row.embedding);
+      if (vector.length !== queryVector.length) continue;
+      matches.push({
+        id: row.id,
+        document: row.document,
+        metadata: row.metadata,
+        distance: cosineDistance(queryVector, vector),
+      });
+    }
+
+    return matches
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, query.nResults ?? 5);
+  }
+
+  async get(collection: string, selector: VectorSelector = {}): Promise<VectorRecord[]> {
+    await this.ensureCollection(collection);
+    const rows = getDB()
+      .select({
+        id: vectorEntries.id,
+        document: vectorEntries.document,
+        metadata: vectorEntries.metadata,
+      })
+      .from(vectorEntries)
+      .where(this.selection(collection, selector))
+      .all();
+    return rows;
+  }
+
+  async delete(collection: string, selector: VectorSelector): Promise<void> {
+    await this.ensureCollection(collection);
+    getDB().delete(vectorEntries).where(this.selection(collection, selector)).run();
+  }
+
+  // ─── Collection Setup ─────────────────────────────────────────────────────
+
+  private ensureCollection(name: string): Promise<void> {
+    let pending = this.collections.get(name);
+    if (!pending) {
+      pending = this.openCollection(name).catch((error) => {
+        this.collections.delete(name);
+        throw error;
+      });
+      this.collections.set(name, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Register the collection, re-embedding its entries if they were built
+   * with a different embedding model.
+   */
+  private async openCollection(name: string): Promise<void> {
+    const db = getDB();
+    const embedding = getEmbeddingConfig();
+    const existing = await db.query.vectorCollections.findFirst({
+      where: eq(vectorCollections.name, name),
+    });
+
+    if (!existing) {
+      await db.insert(vectorCollections).values({ name, embeddingModel: embedding.id });
+      return;
+    }
+    if (existing.embeddingModel === embedding.id) return;
+
+    const rows = db
+      .select({ id: vectorEntries.id, document: vectorEntries.document })
+      .from(vectorEntries)
+      .where(eq(vectorEntries.collection, name))
+      .all();
+
+    // Embed everything first so a failing embedder leaves the old vectors intact
+    const embeddings =
+      rows.length > 0 ? await embedTexts(rows.map((r) => r.document)) : [];
+
+    db.transaction((tx) => {
+      rows.forEach((row, i) => {
+        tx.update(vectorEntries)
+          .set({ embedding: encodeVector(embeddings[i]!) })
+          .where(and(eq(vectorEntries.collection, name), eq(vectorEntries.id, row.id)))
+          .run();
+      });
+      tx.update(vectorCollections)
+        .set({ embeddingModel: embedding.id })
+        .where(eq(vectorCollections.name, name))
+        .run();
+    });
+
+    console.log(
+      `[VectorStore] Re-embedded ${rows.length} records in ${name} (${existing.embeddingModel} → ${embedding.id}).`,
+    );
+  }
+
+  // ─── Filters ──────────────────────────────────────────────────────────────
+
+  private selection(collection: string, selector: VectorSelector): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [eq(vectorEntries.collection, collection)];
+
+    if (selector.ids) {
+      conditions.push(
+        selector.ids.length > 0 ? inArray(vectorEntries.id, selector.ids) : sql`0`,
+      );
+    }
+
+    for (const [key, condition] of Object.entries(selector.where ?? {})) {
+      if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid metadata filter key: ${key}`);
+      }
+      const field = sql`json_extract(${vectorEntries.metadata}, ${`$.${key}`})`;
+
+      if (typeof condition === "object") {
+        const values = condition.$in.map(toSqlValue);
+        conditions.push(values.length > 0 ? inArray(field, values) : sql`0`);
+      } else {
+        conditions.push(sql`${field} = ${toSqlValue(condition)}`);
+      }
+    }
+
+    return and(...conditions);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Embed texts with the configured model, one vector per text.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings = await getEmbeddingFunction().generate(texts);
+  if (embeddings.length !== texts.length) {
+    throw new Error(
+      `Embedding model returned ${embeddings.length} vectors for ${texts.length} texts`,
+    );
+  }
+  return embeddings;
+}
+
+function toChromaWhere(where?: VectorWhere): Where | undefined {
+  const clauses: Where[] = Object.entries(where ?? {}).map(([key, condition]) =>
+    typeof condition === "object"
+      ? { [key]: { $in: condition.$in as string[] } }
+      : { [key]: { $eq: condition } },
+  );
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/** json_extract() returns booleans as 0/1 */
+function toSqlValue(value: VectorMetadataValue): string | number {
+  return typeof value === "boolean" ? Number(value) : value;
+}
+
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function decodeVector(buffer: Buffer): Float32Array {
+  // Copy into an aligned buffer; SQLite blobs may start at any offset
+  return new Float32Array(new Uint8Array(buffer).buffer);
+}
+
+export function cosineDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!;
+    const y = b[i]!;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+async function isChromaReachable(client: ChromaClient): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      client.heartbeat(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("heartbeat timed out")),
+          CHROMA_HEARTBEAT_TIMEOUT_MS,
+        );
+      }),
+    ]);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let _vectorStore: Promise<VectorStore> | null = null;
+
+async function createVectorStore(): Promise<VectorStore> {
+  const requested = process.env.VECTOR_STORE;
+  if (requested === "sqlite") return new SQLiteVectorStore();
+
+  // By default, ChromaClient will connect to http://localhost:8000
+  const client = new ChromaClient({ path: process.env.CHROMA_URL || undefined });
+  if (requested === "chroma") return new ChromaVectorStore(client);
+
+  if (await isChromaReachable(client)) {
+    console.log("[VectorStore] Using ChromaDB");
+    return new ChromaVectorStore(client);
+  }
+  console.log("[VectorStore] ChromaDB unreachable, using embedded SQLite store");
+  return new SQLiteVectorStore();
+}
+
+/**
+ * Get the vector store for this process. The backend is chosen once, on
+ * first use.
+ */
+export function getVectorStore(): Promise<VectorStore> {
+  if (!_vectorStore) {
+    _vectorStore = createVectorStore();
+  }
+  return _vectorStore;
+}
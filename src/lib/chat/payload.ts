@@ -0,0 +1,12 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CHAT PAYLOADS - Request Validation for /api/chat/sessions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod";
+
+// ─── Validation Schemas ──────────────────────────────────────────────────────
+
+/** An empty summary clears it */
+export const updateSessionSummarySchema = z.object({
+  summary: z.string().trim().max(20000),
+});
@@ -0,0 +1,110 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESOURCE CONTEXT - MCP Resources Attached to a Chat Message
+//
+// Attached resources are read from their servers when the message is sent
+// and appended to it for that turn. The stored message keeps only references
+// (MessageMetadata.resources), so later turns don't resend the contents.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { inArray } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { mcpResources } from "@/lib/db/schema";
+import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
+import type { MessageResourceRef } from "@/types/chat";
+import type { MCPResourceContents } from "@/types/tool";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Resources one message may carry */
+export const MAX_ATTACHED_RESOURCES = 10;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Resources to send with a message */
+export interface ResourceContext {
+  refs: MessageResourceRef[];
+  /** Text to append to the message; empty when nothing is attached */
+  text: string;
+}
+
+export class ResourceContextError extends Error {
+  constructor(
+    public readonly code: "NOT_FOUND" | "TOO_MANY" | "READ_FAILED",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ResourceContextError";
+  }
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read attached resources from their servers. Throws if any is unknown or
+ * can't be read, so the message isn't sent without context the user chose.
+ */
+export async function loadResourceContext(resourceIds: string[]): Promise<ResourceContext> {
+  const ids = [...new Set(resourceIds)];
+  if (ids.length === 0) return { refs: [], text: "" };
+  if (ids.length > MAX_ATTACHED_RESOURCES) {
+    throw new ResourceContextError(
+      "TOO_MANY",
+      `At most ${MAX_ATTACHED_RESOURCES} resources can be attached to a message`,
+    );
+  }
+
+  const db = getDB();
+  const rows = await db.query.mcpResources.findMany({
+    where: inArray(mcpResources.id, ids),
+  });
+  const missing = ids.filter((id) => !rows.some((row) => row.id === id));
+  if (missing.length > 0) {
+    throw new ResourceContextError("NOT_FOUND", `Resources not found: ${missing.join(", ")}`);
+  }
+
+  const blocks: string[] = [];
+  for (const id of ids) {
+    const resource = rows.find((row) => row.id === id)!;
+    let contents: MCPResourceContents[];
+    try {
+      contents = await mcpServerManager.readResource(resource.serverId, resource.uri);
+    } catch (error) {
+      throw new ResourceContextError(
+        "READ_FAILED",
+        `Could not read ${resource.name}: ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    }
+    blocks.push(formatResource(resource.name, resource.uri, contents));
+  }
+
+  return {
+    refs: rows.map((row) => ({
+      resourceId: row.id,
+      serverId: row.serverId,
+      uri: row.uri,
+      name: row.name,
+    })),
+    text: blocks.join("\n\n"),
+  };
+}
+
+/**
+ * Append attached resources to the text of a user message.
+ */
+export function withResourceContext(content: string, context: ResourceContext): string {
+  return context.text ? `${content}\n\n${context.text}` : content;
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+
+function formatResource(name: string, uri: string, contents: MCPResourceContents[]): string {
+  const body = contents
+    .map((item) =>
+      item.text !== undefined
+        ? item.text
+        : `[Binary content${item.mimeType ? ` (${item.mimeType})` : ""} not shown]`,
+    )
+    .join("\n");
+
+  return [`<resource name="${name}" uri="${uri}">`, body, "</resource>"].join("\n");
+}
@@ -0,0 +1,248 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SESSION SUMMARIES - Rolling Summary of a Conversation's Older Messages
+//
+// The newest SUMMARY_RECENT_MESSAGES messages of a session stay verbatim.
+// Once enough older ones build up, a background job folds them into
+// chat_sessions.summary, which prompts carry as a system block ahead of the
+// recent history. Users can edit the summary; later runs build on their text.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { and, asc, count, desc, eq, isNull, ne, or, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { chatSessions, messages } from "@/lib/db/schema";
+import type { DbChatSession, DbMessage } from "@/lib/db/schema";
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import type { GatewayMessage } from "@/lib/ai/unifiedGateway";
+import { PROMPT_HISTORY_LIMIT } from "@/lib/ai/contextInjector";
+import { addSessionSummaryJob, getSummaryQueue } from "@/lib/queue/queues";
+import type { SessionSummaryResult } from "@/lib/queue/queues";
+import { isRedisConnected } from "@/lib/queue/connection";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Used for swarm sessions, which have no agent model of their own */
+const SUMMARY_MODEL = process.env.SUMMARY_MODEL ?? "ollama/llama3.1";
+
+/** Messages kept out of the summary and sent verbatim */
+const RECENT_MESSAGES = Number.parseInt(process.env.SUMMARY_RECENT_MESSAGES ?? "20", 10);
+
+/** Older messages that must build up before the summary is updated */
+const MIN_BATCH = 10;
+
+/** Messages folded into the summary per model call */
+const MAX_BATCH = 40;
+
+/** Messages longer than this are truncated in the summary prompt */
+const MAX_MESSAGE_CHARS = 2000;
+
+const SUMMARY_MAX_TOKENS = 600;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** What a prompt needs from a session: its summary and unsummarized history */
+export interface SessionHistory {
+  summary: string | null;
+  /** Messages after the summary, oldest first */
+  history: GatewayMessage[];
+}
+
+type SummaryState = Pick<DbChatSession, "id" | "summarizedThroughId">;
+
+// ─── History ─────────────────────────────────────────────────────────────────
+
+/**
+ * Messages of a session not yet folded into its summary. Insertion order
+ * (rowid) breaks ties between messages created in the same second.
+ */
+function unsummarized(session: SummaryState): SQL | undefined {
+  return and(
+    eq(messages.sessionId, session.id),
+    session.summarizedThroughId
+      ? sql`rowid > coalesce((SELECT rowid FROM messages WHERE id = ${session.summarizedThroughId}), 0)`
+      : undefined,
+  );
+}
+
+/**
+ * The session's summary and the most recent messages after it. Assistant
+ * replies still being written, or that failed before producing text, are
+ * left out.
+ * @param excludeMessageId - A message the caller sends separately, usually
+ * the user message being answered.
+ */
+export async function loadSessionHistory(
+  sessionId: string,
+  excludeMessageId?: string,
+): Promise<SessionHistory> {
+  const db = getDB();
+  const session = await db.query.chatSessions.findFirst({
+    where: eq(chatSessions.id, sessionId),
+    columns: { id: true, summary: true, summarizedThroughId: true },
+  });
+  if (!session) return { summary: null, history: [] };
+
+  const rows = await db
+    .select({ role: messages.role, content: messages.content })
+    .from(messages)
+    .where(
+      and(
+        unsummarized(session),
+        excludeMessageId ? ne(messages.id, excludeMessageId) : undefined,
+        or(
+          ne(messages.role, "assistant"),
+          and(eq(messages.isComplete, true), ne(messages.content, "")),
+        ),
+      ),
+    )
+    .orderBy(desc(messages.createdAt), desc(sql`rowid`))
+    .limit(PROMPT_HISTORY_LIMIT);
+
+  return {
+    summary: session.summary,
+    history: rows.reverse().map((m) => ({ role: m.role, content: m.content })),
+  };
+}
+
+// ─── Summarizing ─────────────────────────────────────────────────────────────
+
+/**
+ * Ask the model to fold new messages into the running summary.
+ */
+async function foldIntoSummary(
+  models: string[],
+  summary: string | null,
+  batch: DbMessage[],
+): Promise<string> {
+  const transcript = batch
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => `${m.role.toUpperCase()}: ${m.content.slice(0, MAX_MESSAGE_CHARS)}`)
+    .join("\n\n");
+
+  const response = await unifiedGateway.complete({
+    model: models[0]!,
+    fallbackModels: models.slice(1),
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    messages: [
+      {
+        role: "system",
+        content: [
+          "You keep a running summary of a conversation between a user and an assistant.",
+          "Update the summary with the new messages. Keep facts, decisions, names, numbers,",
+          "open questions, and anything the assistant agreed to do; drop pleasantries.",
+          "Keep whatever the current summary says unless the new messages change it.",
+          "Stay under 300 words. Reply with only the updated summary.",
+        ].join(" "),
+      },
+      {
+        role: "user",
+        content: `Current summary:\n${summary || "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+  });
+
+  return response.content.trim();
+}
+
+/**
+ * Fold the session's messages beyond the recent window into its summary.
+ * Stops early if the summary is edited while it runs, so the user's text is
+ * never overwritten; the next run continues from it.
+ */
+export async function summarizeSession(sessionId: string): Promise<SessionSummaryResult> {
+  const result: SessionSummaryResult = { sessionId, summarized: 0 };
+  const db = getDB();
+
+  for (;;) {
+    const session = await db.query.chatSessions.findFirst({
+      where: eq(chatSessions.id, sessionId),
+      with: { agent: true },
+    });
+    if (!session) return result;
+
+    const pending = await db
+      .select()
+      .from(messages)
+      .where(unsummarized(session))
+      .orderBy(asc(messages.createdAt), asc(sql`rowid`));
+
+    const older = pending.slice(0, Math.max(0, pending.length - RECENT_MESSAGES));
+    if (older.length < MIN_BATCH) return result;
+
+    const batch = older.slice(0, MAX_BATCH);
+    const models = session.agent
+      ? [session.agent.modelPreference, ...session.agent.modelFallbacks]
+      : [SUMMARY_MODEL];
+    const summary = await foldIntoSummary(models, session.summary, batch);
+    if (!summary) return result;
+
+    const updated = await db
+      .update(chatSessions)
+      .set({
+        summary,
+        summarizedThroughId: batch[batch.length - 1]!.id,
+        summaryUpdatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(chatSessions.id, sessionId),
+          session.summaryUpdatedAt
+            ? eq(chatSessions.summaryUpdatedAt, session.summaryUpdatedAt)
+            : isNull(chatSessions.summaryUpdatedAt),
+        ),
+      )
+      .returning({ id: chatSessions.id });
+
+    if (updated.length === 0) {
+      console.log(`[SessionSummary] Session ${sessionId} summary changed mid-run; stopping`);
+      return result;
+    }
+    result.summarized += batch.length;
+  }
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────────────
+
+const inProcess = new Set<string>();
+
+/**
+ * Update the session's summary if enough messages have left the recent
+ * window: through the worker when one is running, otherwise in-process in
+ * the background.
+ * @returns Whether a summary update was started or queued.
+ */
+export async function requestSessionSummary(sessionId: string): Promise<boolean> {
+  const db = getDB();
+  const session = await db.query.chatSessions.findFirst({
+    where: eq(chatSessions.id, sessionId),
+    columns: { id: true, summarizedThroughId: true },
+  });
+  if (!session) return false;
+
+  const [row] = await db.select({ total: count() }).from(messages).where(unsummarized(session));
+  if ((row?.total ?? 0) < RECENT_MESSAGES + MIN_BATCH) return false;
+
+  let hasWorker = false;
+  if (isRedisConnected()) {
+    try {
+      hasWorker = (await getSummaryQueue().getWorkersCount()) > 0;
+    } catch {
+      hasWorker = false;
+    }
+  }
+
+  if (hasWorker) {
+    await addSessionSummaryJob({ sessionId });
+    return true;
+  }
+
+  if (inProcess.has(sessionId)) return true;
+  inProcess.add(sessionId);
+  void summarizeSession(sessionId)
+    .catch((error) => {
+      console.error(`[SessionSummary] Failed for session ${sessionId}:`, error);
+    })
+    .finally(() => inProcess.delete(sessionId));
+  return true;
+}
@@ -0,0 +1,25 @@
+CREATE TABLE `agent_recollections` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`content` text NOT NULL,
+	`chrom-id` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`agent_id`) REFERENCES `agents`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `swarm_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`swarm_id` text NOT NULL,
+	`session_id` text,
+	`status` text DEFAULT 'running' NOT NULL,
+	`user_message` text NOT NULL,
+	`entry_agent_id` text,
+	`current_agent_id` text,
+	`iteration_count` integer DEFAULT 0 NOT NULL,
+	`execution_log` text DEFAULT '[]' NOT NULL,
+	`error` text,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer,
+	FOREIGN KEY (`swarm_id`) REFERENCES `swarm_defs`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `chat_sessions`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1 @@
+ALTER TABLE `agents` ADD `model_fallbacks` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `vector_collections` (
+	`name` text PRIMARY KEY NOT NULL,
+	`embedding_model` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `vector_entries` (
+	`collection` text NOT NULL,
+	`id` text NOT NULL,
+	`document` text NOT NULL,
+	`metadata` text DEFAULT '{}' NOT NULL,
+	`embedding` blob NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`collection`, `id`),
+	FOREIGN KEY (`collection`) REFERENCES `vector_collections`(`name`) ON UPDATE no action ON DELETE cascade
+);
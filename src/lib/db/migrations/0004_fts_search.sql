@@ -0,0 +1,29 @@
+-- Lexical mirrors of the vector collections for hybrid (BM25 + vector) search.
+-- Only `content` is tokenized; the other columns are kept for filtering.
+CREATE VIRTUAL TABLE `knowledge_chunks_fts` USING fts5(
+	`content`,
+	`chunk_id` UNINDEXED,
+	`doc_id` UNINDEXED,
+	`owner_id` UNINDEXED,
+	`chunk_index` UNINDEXED,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `recollections_fts` USING fts5(
+	`content`,
+	`recollection_id` UNINDEXED,
+	`agent_id` UNINDEXED,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+-- Backfill from the embedded vector store. Chroma-backed installs fill these
+-- as documents are re-indexed and new recollections are written.
+INSERT INTO `knowledge_chunks_fts` (`content`, `chunk_id`, `doc_id`, `owner_id`, `chunk_index`)
+SELECT `document`, `id`, json_extract(`metadata`, '$.docId'), json_extract(`metadata`, '$.ownerId'), json_extract(`metadata`, '$.chunkIndex')
+FROM `vector_entries`
+WHERE `collection` LIKE 'knowledge\_%' ESCAPE '\';
+--> statement-breakpoint
+INSERT INTO `recollections_fts` (`content`, `recollection_id`, `agent_id`)
+SELECT `document`, `id`, json_extract(`metadata`, '$.agentId')
+FROM `vector_entries`
+WHERE `collection` = 'omni_recollections';
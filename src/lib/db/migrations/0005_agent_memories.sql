@@ -0,0 +1,13 @@
+ALTER TABLE `agent_recollections` ADD `is_pinned` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `agent_recollections` ADD `edited_at` integer;--> statement-breakpoint
+CREATE INDEX `agent_recollections_agent_idx` ON `agent_recollections` (`agent_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `agent_recollections_chroma_id_idx` ON `agent_recollections` (`chrom-id`);--> statement-breakpoint
+-- Recollections used to be written to the vector store only. Give the ones in
+-- the embedded store a row so they show up in the memory API.
+INSERT INTO `agent_recollections` (`id`, `agent_id`, `content`, `chrom-id`, `created_at`)
+SELECT lower(hex(randomblob(16))), json_extract(`metadata`, '$.agentId'), `document`, `id`,
+	coalesce(unixepoch(json_extract(`metadata`, '$.createdAt')), `created_at`)
+FROM `vector_entries`
+WHERE `collection` = 'omni_recollections'
+	AND json_extract(`metadata`, '$.agentId') IN (SELECT `id` FROM `agents`)
+	AND `id` NOT IN (SELECT `chrom-id` FROM `agent_recollections`);
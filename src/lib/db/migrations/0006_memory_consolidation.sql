@@ -0,0 +1,4 @@
+ALTER TABLE `agent_recollections` ADD `kind` text DEFAULT 'raw' NOT NULL;--> statement-breakpoint
+ALTER TABLE `agent_recollections` ADD `importance` real;--> statement-breakpoint
+ALTER TABLE `agent_recollections` ADD `source_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `agent_recollections` ADD `archived_at` integer;
\ No newline at end of file
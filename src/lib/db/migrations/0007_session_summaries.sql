@@ -0,0 +1,3 @@
+ALTER TABLE `chat_sessions` ADD `summary` text;--> statement-breakpoint
+ALTER TABLE `chat_sessions` ADD `summarized_through_id` text;--> statement-breakpoint
+ALTER TABLE `chat_sessions` ADD `summary_updated_at` integer;
\ No newline at end of file
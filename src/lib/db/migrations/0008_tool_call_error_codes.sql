@@ -0,0 +1 @@
+ALTER TABLE `tool_calls` ADD `error_code` text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `tool_call_approvals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tool_call_id` text,
+	`agent_id` text,
+	`session_id` text,
+	`tool_name` text NOT NULL,
+	`decision` text NOT NULL,
+	`decided_by` text NOT NULL,
+	`requested_arguments` text DEFAULT '{}' NOT NULL,
+	`approved_arguments` text,
+	`reason` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`tool_call_id`) REFERENCES `tool_calls`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`agent_id`) REFERENCES `agents`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`session_id`) REFERENCES `chat_sessions`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `tool_call_approvals_tool_call_idx` ON `tool_call_approvals` (`tool_call_id`);--> statement-breakpoint
+CREATE INDEX `tool_call_approvals_agent_idx` ON `tool_call_approvals` (`agent_id`);
\ No newline at end of file
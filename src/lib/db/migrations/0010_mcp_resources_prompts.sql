@@ -0,0 +1,25 @@
+CREATE TABLE `mcp_prompts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`server_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`arguments` text DEFAULT '[]' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`server_id`) REFERENCES `mcp_servers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mcp_prompts_server_name_idx` ON `mcp_prompts` (`server_id`,`name`);--> statement-breakpoint
+CREATE TABLE `mcp_resources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`server_id` text NOT NULL,
+	`uri` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`mime_type` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`server_id`) REFERENCES `mcp_servers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mcp_resources_server_uri_idx` ON `mcp_resources` (`server_id`,`uri`);
\ No newline at end of file
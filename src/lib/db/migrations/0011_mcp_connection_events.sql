@@ -0,0 +1,11 @@
+CREATE TABLE `mcp_connection_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`server_id` text NOT NULL,
+	`type` text NOT NULL,
+	`message` text,
+	`attempt` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`server_id`) REFERENCES `mcp_servers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `mcp_connection_events_server_idx` ON `mcp_connection_events` (`server_id`);
\ No newline at end of file
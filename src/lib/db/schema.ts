@@ -1,4 +1,13 @@
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import {
+  sqliteTable,
+  text,
+  integer,
+  real,
+  blob,
+  primaryKey,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import { sql, relations } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 
@@ -9,15 +18,24 @@ import type {
   ContentTone,
   GenesisRawAnswers,
 } from "@/types/genesis";
-import type { AgentStatus } from "@/types/agent";
+import type { AgentStatus, AgentToolConfig, RecollectionKind } from "@/types/agent";
 import type { MessageRole, MessageMetadata } from "@/types/chat";
 import type {
+  MCPConnectionEventType,
+  MCPPromptArgument,
+  MCPServerConfig,
   MCPTransportType,
   MCPServerStatus,
   ToolCallStatus,
+  ToolApprovalDecision,
   KnowledgeDocStatus,
 } from "@/types/tool";
-import type { SwarmGraphNode } from "@/types/swarm";
+import type {
+  SwarmExecution,
+  SwarmGraphNode,
+  SwarmHandoffEvent,
+  SwarmRunStatus,
+} from "@/types/swarm";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // OMNI-PRIME — Drizzle ORM Schema (SQLite)
@@ -91,6 +109,11 @@ export const agents = sqliteTable("agents", {
   modelPreference: text("model_preference")
     .notNull()
     .default("ollama/llama3.1"),
+  // Ordered models to try when modelPreference fails
+  modelFallbacks: text("model_fallbacks", { mode: "json" })
+    .$type<string[]>()
+    .notNull()
+    .default(sql`'[]'`),
   voiceId: text("voice_id"), // For TTS
 
   // State
@@ -141,7 +164,7 @@ export const agentTools = sqliteTable("agent_tools", {
     .notNull()
     .references(() => mcpTools.id, { onDelete: "cascade" }),
   config: text("config", { mode: "json" })
-    .$type<Record<string, unknown>>()
+    .$type<AgentToolConfig>()
     .notNull()
     .default(sql`'{}'`),
   isEnabled: integer("is_enabled", { mode: "boolean" }).notNull().default(true),
@@ -199,19 +222,38 @@ export const agentKnowledgeRelations = relations(agentKnowledge, ({ one }) => ({
 // AGENT RECOLLECTIONS (Vector Memory)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export const agentRecollections = sqliteTable("agent_recollections", {
-  id: text("id")
-    .primaryKey()
-    .$defaultFn(() => uuidv4()),
-  agentId: text("agent_id")
-    .notNull()
-    .references(() => agents.id, { onDelete: "cascade" }),
-  content: text("content").notNull(),
-  chromaId: text("chrom-id").notNull(), // ID from the vector store
-  createdAt: integer("created_at", { mode: "timestamp" })
-    .notNull()
-    .default(sql`(unixepoch())`),
-});
+export const agentRecollections = sqliteTable(
+  "agent_recollections",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv4()),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    chromaId: text("chrom-id").notNull(), // ID from the vector store
+    /** Pinned memories are always injected and survive bulk forgets */
+    isPinned: integer("is_pinned", { mode: "boolean" }).notNull().default(false),
+    // Consolidation
+    kind: text("kind").$type<RecollectionKind>().notNull().default("raw"),
+    importance: real("importance"), // 0–1, scored when consolidated
+    sourceIds: text("source_ids", { mode: "json" }) // Originals a consolidated memory came from
+      .$type<string[]>()
+      .notNull()
+      .default(sql`'[]'`),
+    archivedAt: integer("archived_at", { mode: "timestamp" }), // Consolidated away; kept for provenance
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    /** Set when a user edits the memory's content */
+    editedAt: integer("edited_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    agentIdx: index("agent_recollections_agent_idx").on(table.agentId),
+    chromaIdIdx: uniqueIndex("agent_recollections_chroma_id_idx").on(table.chromaId),
+  }),
+);
 
 export const agentRecollectionsRelations = relations(
   agentRecollections,
@@ -272,6 +314,51 @@ export const swarmDefsRelations = relations(swarmDefs, ({ one, many }) => ({
     references: [agents.id],
   }),
   sessions: many(chatSessions),
+  runs: many(swarmRuns),
+}));
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM RUNS (Execution History)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const swarmRuns = sqliteTable("swarm_runs", {
+  // Same ID as the SwarmEngine execution
+  id: text("id").primaryKey(),
+  swarmId: text("swarm_id")
+    .notNull()
+    .references(() => swarmDefs.id, { onDelete: "cascade" }),
+  sessionId: text("session_id").references(() => chatSessions.id, {
+    onDelete: "set null",
+  }),
+
+  status: text("status").$type<SwarmRunStatus>().notNull().default("running"),
+  userMessage: text("user_message").notNull(),
+  entryAgentId: text("entry_agent_id"),
+  currentAgentId: text("current_agent_id"),
+  iterationCount: integer("iteration_count").notNull().default(0),
+
+  // Handoff log (stored as JSON)
+  executionLog: text("execution_log", { mode: "json" })
+    .$type<SwarmHandoffEvent[]>()
+    .notNull()
+    .default(sql`'[]'`),
+  error: text("error", { mode: "json" }).$type<SwarmExecution["error"]>(),
+
+  startedAt: integer("started_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
+export const swarmRunsRelations = relations(swarmRuns, ({ one }) => ({
+  swarm: one(swarmDefs, {
+    fields: [swarmRuns.swarmId],
+    references: [swarmDefs.id],
+  }),
+  session: one(chatSessions, {
+    fields: [swarmRuns.sessionId],
+    references: [chatSessions.id],
+  }),
 }));
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -304,6 +391,12 @@ export const chatSessions = sqliteTable("chat_sessions", {
     .default(false),
   lastMessageAt: integer("last_message_at", { mode: "timestamp" }),
 
+  // Rolling summary of the messages older than the prompt's history window
+  summary: text("summary"),
+  // messages.id of the last message folded into the summary
+  summarizedThroughId: text("summarized_through_id"),
+  summaryUpdatedAt: integer("summary_updated_at", { mode: "timestamp" }),
+
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -410,6 +503,7 @@ export const toolCalls = sqliteTable("tool_calls", {
     .default(sql`'{}'`),
   result: text("result", { mode: "json" }),
   error: text("error"),
+  errorCode: text("error_code"),
 
   // Status tracking
   status: text("status").$type<ToolCallStatus>().notNull().default("pending"),
@@ -423,7 +517,7 @@ export const toolCalls = sqliteTable("tool_calls", {
     .default(sql`(unixepoch())`),
 });
 
-export const toolCallsRelations = relations(toolCalls, ({ one }) => ({
+export const toolCallsRelations = relations(toolCalls, ({ one, many }) => ({
   message: one(messages, {
     fields: [toolCalls.messageId],
     references: [messages.id],
@@ -432,6 +526,61 @@ export const toolCallsRelations = relations(toolCalls, ({ one }) => ({
     fields: [toolCalls.toolId],
     references: [mcpTools.id],
   }),
+  approvals: many(toolCallApprovals),
+}));
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL CALL APPROVALS (Audit Log of Human-in-the-loop Decisions)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const toolCallApprovals = sqliteTable(
+  "tool_call_approvals",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv4()),
+    // Audit rows outlive the call, agent, and session they describe
+    toolCallId: text("tool_call_id").references(() => toolCalls.id, {
+      onDelete: "set null",
+    }),
+    agentId: text("agent_id").references(() => agents.id, { onDelete: "set null" }),
+    sessionId: text("session_id").references(() => chatSessions.id, {
+      onDelete: "set null",
+    }),
+    toolName: text("tool_name").notNull(),
+    decision: text("decision").$type<ToolApprovalDecision>().notNull(),
+    decidedBy: text("decided_by").notNull(), // "user" | "policy" | "timeout"
+    requestedArguments: text("requested_arguments", { mode: "json" })
+      .$type<Record<string, unknown>>()
+      .notNull()
+      .default(sql`'{}'`),
+    approvedArguments: text("approved_arguments", { mode: "json" }).$type<
+      Record<string, unknown>
+    >(),
+    reason: text("reason"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    toolCallIdx: index("tool_call_approvals_tool_call_idx").on(table.toolCallId),
+    agentIdx: index("tool_call_approvals_agent_idx").on(table.agentId),
+  }),
+);
+
+export const toolCallApprovalsRelations = relations(toolCallApprovals, ({ one }) => ({
+  toolCall: one(toolCalls, {
+    fields: [toolCallApprovals.toolCallId],
+    references: [toolCalls.id],
+  }),
+  agent: one(agents, {
+    fields: [toolCallApprovals.agentId],
+    references: [agents.id],
+  }),
+  session: one(chatSessions, {
+    fields: [toolCallApprovals.sessionId],
+    references: [chatSessions.id],
+  }),
 }));
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -518,7 +667,7 @@ export const mcpServers = sqliteTable("mcp_servers", {
 
   // Additional configuration
   config: text("config", { mode: "json" })
-    .$type<Record<string, unknown>>()
+    .$type<MCPServerConfig>()
     .default(sql`'{}'`),
 
   // Status
@@ -552,6 +701,9 @@ export const mcpServersRelations = relations(mcpServers, ({ one, many }) => ({
     references: [userProfiles.id],
   }),
   tools: many(mcpTools),
+  resources: many(mcpResources),
+  prompts: many(mcpPrompts),
+  connectionEvents: many(mcpConnectionEvents),
 }));
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -603,6 +755,152 @@ export const mcpToolsRelations = relations(mcpTools, ({ one, many }) => ({
   toolCalls: many(toolCalls),
 }));
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP RESOURCES & PROMPTS (Discovered from Servers)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const mcpResources = sqliteTable(
+  "mcp_resources",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv4()),
+    serverId: text("server_id")
+      .notNull()
+      .references(() => mcpServers.id, { onDelete: "cascade" }),
+
+    // Resource definition
+    uri: text("uri").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    mimeType: text("mime_type"),
+
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    serverUriIdx: uniqueIndex("mcp_resources_server_uri_idx").on(table.serverId, table.uri),
+  })
+);
+
+export const mcpResourcesRelations = relations(mcpResources, ({ one }) => ({
+  server: one(mcpServers, {
+    fields: [mcpResources.serverId],
+    references: [mcpServers.id],
+  }),
+}));
+
+export const mcpPrompts = sqliteTable(
+  "mcp_prompts",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv4()),
+    serverId: text("server_id")
+      .notNull()
+      .references(() => mcpServers.id, { onDelete: "cascade" }),
+
+    // Prompt template definition
+    name: text("name").notNull(),
+    description: text("description"),
+    arguments: text("arguments", { mode: "json" })
+      .$type<MCPPromptArgument[]>()
+      .notNull()
+      .default(sql`'[]'`),
+
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    serverNameIdx: uniqueIndex("mcp_prompts_server_name_idx").on(table.serverId, table.name),
+  })
+);
+
+export const mcpPromptsRelations = relations(mcpPrompts, ({ one }) => ({
+  server: one(mcpServers, {
+    fields: [mcpPrompts.serverId],
+    references: [mcpServers.id],
+  }),
+}));
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP CONNECTION EVENTS (Health Monitor History)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const mcpConnectionEvents = sqliteTable(
+  "mcp_connection_events",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuidv4()),
+    serverId: text("server_id")
+      .notNull()
+      .references(() => mcpServers.id, { onDelete: "cascade" }),
+
+    type: text("type").$type<MCPConnectionEventType>().notNull(),
+    message: text("message"),
+    attempt: integer("attempt"),
+
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    serverIdx: index("mcp_connection_events_server_idx").on(table.serverId),
+  })
+);
+
+export const mcpConnectionEventsRelations = relations(mcpConnectionEvents, ({ one }) => ({
+  server: one(mcpServers, {
+    fields: [mcpConnectionEvents.serverId],
+    references: [mcpServers.id],
+  }),
+}));
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMBEDDED VECTOR STORE (Used when ChromaDB is unavailable)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const vectorCollections = sqliteTable("vector_collections", {
+  name: text("name").primaryKey(),
+  // Embedding model that produced every vector in the collection
+  embeddingModel: text("embedding_model").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const vectorEntries = sqliteTable(
+  "vector_entries",
+  {
+    collection: text("collection")
+      .notNull()
+      .references(() => vectorCollections.name, { onDelete: "cascade" }),
+    id: text("id").notNull(),
+    document: text("document").notNull(),
+    metadata: text("metadata", { mode: "json" })
+      .$type<Record<string, string | number | boolean>>()
+      .notNull()
+      .default(sql`'{}'`),
+    // Float32 vector
+    embedding: blob("embedding", { mode: "buffer" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.collection, table.id] }),
+  }),
+);
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // DRIZZLE-INFERRED ROW TYPES
 // Prefixed with "Db" to distinguish from the richer application-level interfaces
@@ -625,12 +923,12 @@ export type NewAgentKnowledge = typeof agentKnowledge.$inferInsert;
 export type DbAgentRecollection = typeof agentRecollections.$inferSelect;
 export type NewAgentRecollection = typeof agentRecollections.$inferInsert;
 
-export type DbAgentRecollection = typeof agentRecollections.$inferSelect;
-export type NewAgentRecollection = typeof agentRecollections.$inferInsert;
-
 export type DbSwarmDef = typeof swarmDefs.$inferSelect;
 export type NewSwarmDef = typeof swarmDefs.$inferInsert;
 
+export type DbSwarmRun = typeof swarmRuns.$inferSelect;
+export type NewSwarmRun = typeof swarmRuns.$inferInsert;
+
 export type DbChatSession = typeof chatSessions.$inferSelect;
 export type NewChatSession = typeof chatSessions.$inferInsert;
 
@@ -640,6 +938,9 @@ export type NewMessage = typeof messages.$inferInsert;
 export type DbToolCall = typeof toolCalls.$inferSelect;
 export type NewToolCall = typeof toolCalls.$inferInsert;
 
+export type DbToolCallApproval = typeof toolCallApprovals.$inferSelect;
+export type NewToolCallApproval = typeof toolCallApprovals.$inferInsert;
+
 export type DbKnowledgeDoc = typeof knowledgeDocs.$inferSelect;
 export type NewKnowledgeDoc = typeof knowledgeDocs.$inferInsert;
 
@@ -648,3 +949,15 @@ export type NewMCPServer = typeof mcpServers.$inferInsert;
 
 export type DbMCPTool = typeof mcpTools.$inferSelect;
 export type NewMCPTool = typeof mcpTools.$inferInsert;
+export type DbMCPResource = typeof mcpResources.$inferSelect;
+export type NewMCPResource = typeof mcpResources.$inferInsert;
+export type DbMCPPrompt = typeof mcpPrompts.$inferSelect;
+export type NewMCPPrompt = typeof mcpPrompts.$inferInsert;
+export type DbMCPConnectionEvent = typeof mcpConnectionEvents.$inferSelect;
+export type NewMCPConnectionEvent = typeof mcpConnectionEvents.$inferInsert;
+
+export type DbVectorCollection = typeof vectorCollections.$inferSelect;
+export type NewVectorCollection = typeof vectorCollections.$inferInsert;
+
+export type DbVectorEntry = typeof vectorEntries.$inferSelect;
+export type NewVectorEntry = typeof vectorEntries.$inferInsert;
@@ -0,0 +1,54 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE INDEXING - Scheduling and Cleanup for Document Vectors
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { unlink } from "node:fs/promises";
+import { addKnowledgeIndexingJob, getIndexingQueue } from "@/lib/queue/queues";
+import type { KnowledgeIndexingJob } from "@/lib/queue/queues";
+import { isRedisConnected } from "@/lib/queue/connection";
+import { indexKnowledgeDocument } from "@/lib/queue/workers/indexingWorker";
+import { getVectorStore } from "@/lib/ai/vectorStore";
+import { deleteKnowledgeChunks } from "@/lib/ai/lexicalIndex";
+import { knowledgeCollectionName } from "@/lib/knowledge/ingestion";
+import type { DbKnowledgeDoc } from "@/lib/db/schema";
+
+/**
+ * Queue the document for the indexing worker, or index it in-process when
+ * Redis or the worker is not available.
+ */
+export async function scheduleKnowledgeIndexing(job: KnowledgeIndexingJob): Promise<void> {
+  let hasWorker = false;
+  if (isRedisConnected()) {
+    try {
+      hasWorker = (await getIndexingQueue().getWorkersCount()) > 0;
+    } catch {
+      hasWorker = false;
+    }
+  }
+
+  if (hasWorker) {
+    await addKnowledgeIndexingJob(job);
+    return;
+  }
+
+  // Runs after the response is sent; failures are recorded on the document
+  void indexKnowledgeDocument(job).catch(() => {});
+}
+
+/**
+ * Remove a document's vectors, lexical index entries, and stored file. The
+ * row itself is left to the caller.
+ */
+export async function removeKnowledgeArtifacts(doc: DbKnowledgeDoc): Promise<void> {
+  const store = await getVectorStore();
+  await store.delete(knowledgeCollectionName(doc.ownerId), {
+    where: { docId: doc.id },
+  });
+  deleteKnowledgeChunks(doc.id);
+
+  try {
+    await unlink(doc.storagePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
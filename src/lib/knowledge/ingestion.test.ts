@@ -0,0 +1,63 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE INGESTION TESTS - Chunking and HTML Extraction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText, htmlToText } from "@/lib/knowledge/ingestion";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const WORDS = "one two three four five six seven eight nine ten";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("chunkText", () => {
+  it("ends chunks at word breaks", () => {
+    assert.deepEqual(chunkText(WORDS, 20, 0), [
+      "one two three four",
+      "five six seven",
+      "eight nine ten",
+    ]);
+  });
+
+  it("starts each chunk inside the previous one on a word boundary", () => {
+    assert.deepEqual(chunkText(WORDS, 20, 6), [
+      "one two three four",
+      "four five six seven",
+      "seven eight nine ten",
+    ]);
+  });
+
+  it("caps the overlap at half the chunk size", () => {
+    assert.deepEqual(chunkText("abcdefghij", 4, 10), ["abcd", "cdef", "efgh", "ghij"]);
+    assert.deepEqual(chunkText(WORDS, 20, 100), chunkText(WORDS, 20, 10));
+  });
+
+  it("prefers paragraph breaks and collapses blank lines", () => {
+    assert.deepEqual(chunkText("First para here.\r\n\r\n\r\n\r\nSecond para that is longer.", 30, 0), [
+      "First para here.",
+      "Second para that is longer.",
+    ]);
+  });
+
+  it("keeps short text whole and returns nothing for blank text", () => {
+    assert.deepEqual(chunkText("  short  ", 100, 20), ["short"]);
+    assert.deepEqual(chunkText(" \r\n\t ", 10, 2), []);
+  });
+});
+
+describe("htmlToText", () => {
+  it("drops scripts, styles, comments, and tags, keeping block breaks", () => {
+    const html =
+      "<head><style>p { color: red }</style><script>track()</script></head>" +
+      "<body><!-- nav --><h1>Title</h1><p>First<br/>line</p><p>Second</p></body>";
+    assert.equal(htmlToText(html), "Title\n\nFirst\nline\n\nSecond\n\n");
+  });
+
+  it("decodes named and numeric entities, leaving unknown ones", () => {
+    assert.equal(htmlToText("A &amp; B &lt;3 &#x41;&#66;&nbsp;&bogus;"), "A & B <3 AB &bogus;");
+  });
+});
@@ -0,0 +1,228 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE INGESTION - File Storage, Text Extraction, and Chunking
+//
+// Shared by the upload route (storage + type detection) and the indexing
+// worker (extraction + chunking). Server-side only.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+export const KNOWLEDGE_STORAGE_DIR =
+  process.env.KNOWLEDGE_STORAGE_DIR ?? "./data/knowledge";
+
+export const KNOWLEDGE_MAX_FILE_BYTES = Number.parseInt(
+  process.env.KNOWLEDGE_MAX_FILE_BYTES ?? String(25 * 1024 * 1024),
+  10,
+);
+
+/** A chunk may end early at a natural break once it is at least this full */
+const MIN_CHUNK_FILL = 0.5;
+
+/** Preferred chunk boundaries, best first */
+const CHUNK_BREAKS = ["\n\n", "\n", ". ", " "];
+
+// ─── File Types ──────────────────────────────────────────────────────────────
+
+export type KnowledgeFileKind = "text" | "markdown" | "html" | "pdf" | "docx";
+
+/** Canonical mime type stored in knowledge_docs.file_type */
+export const KNOWLEDGE_MIME_TYPES: Record<KnowledgeFileKind, string> = {
+  text: "text/plain",
+  markdown: "text/markdown",
+  html: "text/html",
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+const EXTENSION_KINDS: Record<string, KnowledgeFileKind> = {
+  ".txt": "text",
+  ".text": "text",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".pdf": "pdf",
+  ".docx": "docx",
+};
+
+/**
+ * Work out what kind of document a file is. The mime type wins when it is
+ * specific; browsers often send an empty or generic one for Markdown.
+ */
+export function resolveKnowledgeFileKind(
+  filename: string,
+  mimeType: string,
+): KnowledgeFileKind | null {
+  const mime = mimeType.split(";")[0]?.trim().toLowerCase() ?? "";
+  const byMime = (Object.keys(KNOWLEDGE_MIME_TYPES) as KnowledgeFileKind[]).find(
+    (kind) => KNOWLEDGE_MIME_TYPES[kind] === mime,
+  );
+  if (byMime) return byMime;
+  if (mime === "text/x-markdown") return "markdown";
+
+  return EXTENSION_KINDS[path.extname(filename).toLowerCase()] ?? null;
+}
+
+function kindFromMime(mimeType: string): KnowledgeFileKind | null {
+  return resolveKnowledgeFileKind("", mimeType);
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────────────
+
+export function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Write an uploaded file under the owner's directory.
+ * @returns The storage path recorded on the document.
+ */
+export async function storeKnowledgeFile(
+  ownerId: string,
+  docId: string,
+  originalName: string,
+  content: Buffer,
+): Promise<{ filename: string; storagePath: string }> {
+  const filename = `${docId}${path.extname(originalName).toLowerCase()}`;
+  const directory = path.join(KNOWLEDGE_STORAGE_DIR, ownerId);
+  await mkdir(directory, { recursive: true });
+
+  const storagePath = path.join(directory, filename);
+  await writeFile(storagePath, content);
+  return { filename, storagePath };
+}
+
+/** Vector store collection holding one owner's knowledge chunks */
+export function knowledgeCollectionName(ownerId: string): string {
+  return `knowledge_${ownerId}`;
+}
+
+// ─── Text Extraction ─────────────────────────────────────────────────────────
+
+/**
+ * Extract plain text from a stored document.
+ */
+export async function extractDocumentText(
+  filePath: string,
+  mimeType: string,
+): Promise<string> {
+  const kind = kindFromMime(mimeType);
+  const content = await readFile(filePath);
+
+  switch (kind) {
+    case "text":
+    case "markdown":
+      return content.toString("utf8");
+
+    case "html":
+      return htmlToText(content.toString("utf8"));
+
+    case "pdf": {
+      const { extractText } = await import("unpdf");
+      const { text } = await extractText(new Uint8Array(content), { mergePages: true });
+      return text;
+    }
+
+    case "docx": {
+      const mammoth = await import("mammoth");
+      const result = await mammoth.extractRawText({ buffer: content });
+      return result.value;
+    }
+
+    default:
+      throw new Error(`Unsupported document type: ${mimeType}`);
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Strip markup from an HTML page, keeping block breaks as blank lines and
+ * dropping scripts, styles, and comments.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point =
+          code[1]?.toLowerCase() === "x"
+            ? Number.parseInt(code.slice(2), 16)
+            : Number.parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+// ─── Chunking ────────────────────────────────────────────────────────────────
+
+/**
+ * Split text into chunks of at most `chunkSize` characters, each starting
+ * `chunkOverlap` characters before the previous one ended. Chunks end at a
+ * paragraph, line, sentence, or word break when one is close enough.
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number,
+): string[] {
+  const normalized = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!normalized) return [];
+
+  const size = Math.max(1, chunkSize);
+  // Overlap must leave room for progress
+  const overlap = Math.min(Math.max(0, chunkOverlap), Math.floor(size / 2));
+  const minBreak = Math.floor(size * MIN_CHUNK_FILL);
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      for (const separator of CHUNK_BREAKS) {
+        const index = window.lastIndexOf(separator);
+        if (index >= minBreak) {
+          end = start + index + separator.length;
+          break;
+        }
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+
+    let next = Math.max(end - overlap, start + 1);
+    // Start the overlap on a word boundary
+    if (/\S/.test(normalized[next - 1] ?? "")) {
+      const space = normalized.slice(next, end).search(/\s/);
+      if (space !== -1) next += space + 1;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,46 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE PAYLOADS - Request Validation for /api/knowledge
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod";
+
+// ─── Validation Schemas ──────────────────────────────────────────────────────
+
+const chunkSizeSchema = z.coerce.number().int().min(100).max(8000);
+const chunkOverlapSchema = z.coerce.number().int().min(0).max(2000);
+
+function overlapFitsChunk(data: { chunkSize?: number; chunkOverlap?: number }): boolean {
+  if (data.chunkSize === undefined || data.chunkOverlap === undefined) return true;
+  return data.chunkOverlap < data.chunkSize;
+}
+
+const overlapMessage = {
+  message: "chunkOverlap must be smaller than chunkSize",
+  path: ["chunkOverlap"],
+};
+
+/** Multipart fields sent alongside the uploaded file */
+export const uploadOptionsSchema = z
+  .object({
+    chunkSize: chunkSizeSchema.default(1000),
+    chunkOverlap: chunkOverlapSchema.default(200),
+  })
+  .refine(overlapFitsChunk, overlapMessage);
+
+export const reindexDocSchema = z
+  .object({
+    chunkSize: chunkSizeSchema.optional(),
+    chunkOverlap: chunkOverlapSchema.optional(),
+  })
+  .refine(overlapFitsChunk, overlapMessage);
+
+export const setDocAgentsSchema = z.object({
+  agentIds: z.array(z.string().min(1)).max(100),
+});
+
+export const knowledgeSearchSchema = z.object({
+  query: z.string().min(1).max(2000),
+  docIds: z.array(z.string().min(1)).max(100).optional(),
+  nResults: z.number().int().min(1).max(50).default(5),
+  rerank: z.boolean().default(true),
+});
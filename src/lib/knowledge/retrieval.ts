@@ -0,0 +1,214 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE RETRIEVAL - Top-k Chunks from Knowledge Documents
+//
+// Only documents that have finished indexing are searched. Vector and BM25
+// rankings are fused per owner collection (see lib/ai/hybridSearch), then
+// optionally reranked. For agents, the agent_knowledge link's relevanceScore
+// weights its document's chunks (default 1).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { and, eq, inArray } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { agentKnowledge, knowledgeDocs } from "@/lib/db/schema";
+import { getVectorStore } from "@/lib/ai/vectorStore";
+import { searchKnowledgeChunks } from "@/lib/ai/lexicalIndex";
+import {
+  candidateCount,
+  reciprocalRankFusion,
+  rerankItems,
+  rerankPoolSize,
+} from "@/lib/ai/hybridSearch";
+import { knowledgeCollectionName } from "@/lib/knowledge/ingestion";
+import type { MessageCitation } from "@/types/chat";
+import type { KnowledgeChunk, RetrievalMatchSource } from "@/types/tool";
+import type { DbKnowledgeDoc } from "@/lib/db/schema";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+export const KNOWLEDGE_TOP_K = Number.parseInt(process.env.KNOWLEDGE_TOP_K ?? "5", 10);
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface KnowledgeSource {
+  citation: MessageCitation;
+  /** Chunks in document order */
+  chunks: KnowledgeChunk[];
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+/** A document to search and the weight applied to its scores */
+interface SearchTarget {
+  doc: DbKnowledgeDoc;
+  weight: number;
+}
+
+interface SearchOptions {
+  nResults: number;
+  /** Rerank with RERANK_MODEL when it is configured */
+  rerank: boolean;
+}
+
+/** Order of the rankings passed to reciprocalRankFusion */
+const RANKINGS: RetrievalMatchSource[] = ["vector", "lexical"];
+
+/**
+ * Find the chunks most relevant to the query across the agent's documents.
+ */
+export async function searchAgentKnowledge({
+  agentId,
+  query,
+  nResults = KNOWLEDGE_TOP_K,
+  rerank = true,
+}: {
+  agentId: string;
+  query: string;
+  nResults?: number;
+  rerank?: boolean;
+}): Promise<KnowledgeChunk[]> {
+  const links = await getDB().query.agentKnowledge.findMany({
+    where: eq(agentKnowledge.agentId, agentId),
+    with: { document: true },
+  });
+
+  return searchTargets(
+    links.map((link) => ({ doc: link.document, weight: link.relevanceScore ?? 1 })),
+    query,
+    { nResults, rerank },
+  );
+}
+
+/**
+ * Search an owner's documents directly, optionally limited to some of them.
+ * Used by the knowledge library's retrieval tester.
+ */
+export async function searchKnowledgeDocs({
+  ownerId,
+  query,
+  docIds,
+  nResults = KNOWLEDGE_TOP_K,
+  rerank = true,
+}: {
+  ownerId: string;
+  query: string;
+  docIds?: string[];
+  nResults?: number;
+  rerank?: boolean;
+}): Promise<KnowledgeChunk[]> {
+  const docs = await getDB().query.knowledgeDocs.findMany({
+    where: docIds
+      ? and(eq(knowledgeDocs.ownerId, ownerId), inArray(knowledgeDocs.id, docIds))
+      : eq(knowledgeDocs.ownerId, ownerId),
+  });
+
+  return searchTargets(
+    docs.map((doc) => ({ doc, weight: 1 })),
+    query,
+    { nResults, rerank },
+  );
+}
+
+async function searchTargets(
+  targets: SearchTarget[],
+  query: string,
+  { nResults, rerank }: SearchOptions,
+): Promise<KnowledgeChunk[]> {
+  const ready = targets.filter((target) => target.doc.status === "ready");
+  if (ready.length === 0) return [];
+
+  // Documents live in per-owner collections
+  const byOwner = new Map<string, SearchTarget[]>();
+  for (const target of ready) {
+    const group = byOwner.get(target.doc.ownerId) ?? [];
+    group.push(target);
+    byOwner.set(target.doc.ownerId, group);
+  }
+
+  const store = await getVectorStore();
+  const limit = candidateCount(nResults);
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const [ownerId, group] of byOwner) {
+    const byId = new Map(group.map((target) => [target.doc.id, target]));
+    const docIds = Array.from(byId.keys());
+
+    const matches = await store.query(knowledgeCollectionName(ownerId), {
+      text: query,
+      nResults: limit,
+      where: { docId: { $in: docIds } },
+    });
+    const vectorRanking = matches.map((match) => ({
+      docId: String(match.metadata.docId),
+      chunkIndex: Number(match.metadata.chunkIndex ?? 0),
+      content: match.document,
+    }));
+
+    // The lexical index is an addition; vector results still stand without it
+    let lexicalRanking: typeof vectorRanking = [];
+    try {
+      lexicalRanking = searchKnowledgeChunks({ ownerId, docIds, query, limit });
+    } catch (error) {
+      console.error("[KnowledgeRetrieval] Lexical search failed:", error);
+    }
+
+    const fused = reciprocalRankFusion(
+      [vectorRanking, lexicalRanking],
+      (chunk) => `${chunk.docId}_${chunk.chunkIndex}`,
+    );
+
+    for (const result of fused) {
+      const target = byId.get(result.item.docId);
+      if (!target) continue;
+      chunks.push({
+        docId: target.doc.id,
+        originalName: target.doc.originalName,
+        chunkIndex: result.item.chunkIndex,
+        content: result.item.content,
+        score: result.score * target.weight,
+        matchedBy: result.rankings.map((index) => RANKINGS[index]!),
+      });
+    }
+  }
+
+  const ranked = chunks.sort((a, b) => b.score - a.score);
+  if (!rerank) return ranked.slice(0, nResults);
+
+  const reranked = await rerankItems(
+    query,
+    ranked.slice(0, rerankPoolSize(nResults)),
+    (chunk) => chunk.content,
+  );
+
+  return reranked
+    .slice(0, nResults)
+    .map(({ item, rerankScore }) =>
+      rerankScore === null ? item : { ...item, rerankScore },
+    );
+}
+
+/**
+ * Group retrieved chunks into numbered sources, one per document, in order
+ * of each document's best chunk.
+ */
+export function groupKnowledgeSources(chunks: KnowledgeChunk[]): KnowledgeSource[] {
+  const byDoc = new Map<string, KnowledgeChunk[]>();
+  for (const chunk of chunks) {
+    const group = byDoc.get(chunk.docId) ?? [];
+    group.push(chunk);
+    byDoc.set(chunk.docId, group);
+  }
+
+  return Array.from(byDoc.values()).map((group, i) => {
+    const ordered = [...group].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    const first = ordered[0]!;
+    return {
+      citation: {
+        index: i + 1,
+        docId: first.docId,
+        originalName: first.originalName,
+        chunkIndexes: ordered.map((chunk) => chunk.chunkIndex),
+      },
+      chunks: ordered,
+    };
+  });
+}
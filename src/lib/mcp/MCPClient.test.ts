@@ -0,0 +1,321 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP CLIENT TESTS - Network Transports against an In-process Server
+//
+// The client's `fetch` option sends every request for http://mcp.test to a
+// local HTTP server running the SDK's server transports, which can speak
+// Streamable HTTP or only the older SSE transport.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { MCPClient } from "@/lib/mcp/MCPClient";
+import type { MCPServer, MCPServerConfig } from "@/types/tool";
+
+// ─── In-process Server ───────────────────────────────────────────────────────
+
+/** Address the client is given; `routedFetch` swaps in the local server */
+const SERVER_URL = "http://mcp.test/mcp";
+
+/** Streamable HTTP, or only the SSE transport that predates it */
+let mode: "streamable-http" | "sse" = "streamable-http";
+/** Every request the server received */
+let received: { method: string; path: string; headers: http.IncomingHttpHeaders }[] = [];
+/** Initialize requests the server answered, i.e. sessions started */
+let initializeCount = 0;
+
+const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+const sseSessions = new Map<string, SSEServerTransport>();
+
+function createMCPServer(): Server {
+  const server = new Server(
+    { name: "test-server", version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: "echo",
+        description: "Returns its arguments",
+        inputSchema: { type: "object", properties: { text: { type: "string" } } },
+      },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: "text", text: JSON.stringify(request.params.arguments ?? {}) }],
+  }));
+  return server;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+async function handleStreamable(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  const body = req.method === "POST" ? await readBody(req) : undefined;
+  const sessionId = req.headers["mcp-session-id"];
+
+  if (typeof sessionId === "string") {
+    const transport = streamableSessions.get(sessionId);
+    if (!transport) {
+      res.writeHead(404).end();
+      return;
+    }
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== "POST" || !isInitializeRequest(body)) {
+    res.writeHead(400).end();
+    return;
+  }
+
+  initializeCount++;
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      streamableSessions.set(id, transport);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) streamableSessions.delete(transport.sessionId);
+  };
+  await createMCPServer().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+async function handleSSE(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "GET" && url.pathname === "/mcp") {
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, transport);
+    transport.onclose = () => sseSessions.delete(transport.sessionId);
+    await createMCPServer().connect(transport);
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/messages") {
+    const transport = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      res.writeHead(404).end();
+      return;
+    }
+    const body = await readBody(req);
+    if (isInitializeRequest(body)) initializeCount++;
+    await transport.handlePostMessage(req, res, body);
+    return;
+  }
+
+  // Streamable HTTP requests reach a server that doesn't know them
+  res.writeHead(405).end();
+}
+
+const httpServer = http.createServer((req, res) => {
+  received.push({
+    method: req.method ?? "",
+    path: new URL(req.url ?? "/", "http://localhost").pathname,
+    headers: req.headers,
+  });
+
+  const handle = mode === "sse" ? handleSSE : handleStreamable;
+  handle(req, res).catch((error: unknown) => {
+    if (!res.headersSent) res.writeHead(500);
+    res.end(String(error));
+  });
+});
+
+let localOrigin = "";
+
+const routedFetch: FetchLike = (url, init) => {
+  const target = new URL(url);
+  return fetch(`${localOrigin}${target.pathname}${target.search}`, init);
+};
+
+// ─── Clients ─────────────────────────────────────────────────────────────────
+
+const clients: MCPClient[] = [];
+
+function serverRecord(config: MCPServerConfig = {}): MCPServer {
+  return {
+    id: "server-1",
+    ownerId: "owner-1",
+    name: "Test Server",
+    description: null,
+    transport: "http",
+    command: null,
+    args: [],
+    url: SERVER_URL,
+    env: {},
+    config,
+    status: "disconnected",
+    statusMessage: null,
+    lastSyncedAt: null,
+    toolCount: 0,
+    isBuiltIn: false,
+    isEnabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function createClient(config?: MCPServerConfig, sessionId?: string): MCPClient {
+  const client = new MCPClient({
+    server: serverRecord(config),
+    timeoutMs: 5000,
+    requestTimeoutMs: 5000,
+    sessionId,
+    fetch: routedFetch,
+  });
+  clients.push(client);
+  return client;
+}
+
+async function assertEchoWorks(client: MCPClient): Promise<void> {
+  const tools = await client.listTools();
+  assert.deepEqual(
+    tools.map((tool) => tool.name),
+    ["echo"],
+  );
+
+  const outcome = await client.callTool("echo", { text: "hello" });
+  assert.equal(outcome.success, true, outcome.error);
+  assert.deepEqual(outcome.result, { text: "hello" });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("MCPClient network transports", () => {
+  before(async () => {
+    await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+    localOrigin = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    httpServer.closeAllConnections();
+    httpServer.close();
+  });
+
+  beforeEach(() => {
+    mode = "streamable-http";
+    received = [];
+    initializeCount = 0;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.disconnect()));
+    await Promise.all(
+      [...streamableSessions.values(), ...sseSessions.values()].map((t) => t.close()),
+    );
+    streamableSessions.clear();
+    sseSessions.clear();
+  });
+
+  it("connects over Streamable HTTP", async () => {
+    const client = createClient();
+    await client.connect();
+
+    assert.equal(client.getTransportKind(), "streamable-http");
+    assert.ok(client.getSessionId());
+    await assertEchoWorks(client);
+    assert.ok(received.every((request) => request.path === "/mcp"));
+  });
+
+  it("falls back to SSE when the server predates Streamable HTTP", async () => {
+    mode = "sse";
+    const client = createClient();
+    await client.connect();
+
+    assert.equal(client.getTransportKind(), "sse");
+    assert.equal(client.getSessionId(), undefined);
+    await assertEchoWorks(client);
+    assert.equal(initializeCount, 1);
+  });
+
+  it("does not fall back when sseFallback is off", async () => {
+    mode = "sse";
+    const client = createClient({ sseFallback: false });
+
+    await assert.rejects(client.connect());
+    assert.ok(received.every((request) => request.method !== "GET"));
+  });
+
+  it("resumes its session after the connection drops", async () => {
+    const client = createClient();
+    await client.connect();
+    const sessionId = client.getSessionId();
+
+    await client.close();
+    await client.connect();
+
+    assert.equal(client.getSessionId(), sessionId);
+    assert.equal(initializeCount, 1);
+    await assertEchoWorks(client);
+  });
+
+  it("resumes a session passed in by a new client", async () => {
+    const first = createClient();
+    await first.connect();
+    const sessionId = first.getSessionId();
+    await first.close();
+
+    const second = createClient(undefined, sessionId);
+    await second.connect();
+
+    assert.equal(second.getSessionId(), sessionId);
+    assert.equal(initializeCount, 1);
+    await assertEchoWorks(second);
+  });
+
+  it("starts a new session when the server no longer has the old one", async () => {
+    const client = createClient(undefined, "expired-session");
+    await client.connect();
+
+    assert.equal(client.getTransportKind(), "streamable-http");
+    assert.notEqual(client.getSessionId(), "expired-session");
+    assert.equal(initializeCount, 1);
+    await assertEchoWorks(client);
+  });
+
+  it("sends custom headers with every Streamable HTTP request", async () => {
+    const client = createClient({ headers: { Authorization: "Bearer secret", "X-Team": "omni" } });
+    await client.connect();
+    await assertEchoWorks(client);
+
+    assert.ok(received.length > 0);
+    for (const request of received) {
+      assert.equal(request.headers.authorization, "Bearer secret");
+      assert.equal(request.headers["x-team"], "omni");
+    }
+  });
+
+  it("sends custom headers with every SSE request", async () => {
+    mode = "sse";
+    const client = createClient({ headers: { Authorization: "Bearer secret" } });
+    await client.connect();
+    await assertEchoWorks(client);
+
+    assert.ok(received.some((request) => request.path === "/messages"));
+    for (const request of received) {
+      assert.equal(request.headers.authorization, "Bearer secret");
+    }
+  });
+});
@@ -5,12 +5,26 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { FetchLike, Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import type {
   MCPServer,
   MCPTool,
-  MCPTransportType,
+  MCPResource,
+  MCPResourceContents,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPConnectionTransport,
   ToolExecutionResult,
 } from "@/types/tool";
+import { sandboxCommand } from "./sandbox";
+import type { MCPSandboxConfig } from "./sandbox";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -23,6 +37,32 @@ export interface MCPClientOptions {
   server: MCPServer;
   timeoutMs?: number;
   requestTimeoutMs?: number;
+  /** Confinement for stdio server processes */
+  sandbox?: Pick<MCPSandboxConfig, "maxMemoryBytes" | "fileSystemScope">;
+  /** Streamable HTTP session to resume instead of initializing a new one */
+  sessionId?: string;
+  /** Used for all HTTP requests; lets tests route them to an in-process server */
+  fetch?: FetchLike;
+  /** A subscribed resource changed on the server */
+  onResourceUpdated?: (uri: string) => void;
+  /** The server's list of tools, resources, or prompts changed */
+  onListChanged?: (list: MCPListKind) => void;
+  /** The connection dropped without disconnect() being called */
+  onConnectionLost?: (reason: string) => void;
+}
+
+/**
+ * Server-side lists a client can be told have changed.
+ */
+export type MCPListKind = "tools" | "resources" | "prompts";
+
+/**
+ * One way of reaching the server, tried in order until one connects.
+ */
+interface TransportAttempt {
+  kind: MCPConnectionTransport;
+  /** Resume this Streamable HTTP session */
+  sessionId?: string;
 }
 
 /**
@@ -34,6 +74,15 @@ interface RawMCPTool {
   inputSchema: Record<string, unknown>;
 }
 
+/**
+ * Content item of a prompt message, as sent by the server.
+ */
+type RawPromptContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; mimeType: string }
+  | { type: "resource"; resource: { uri: string; mimeType?: string; text?: string } }
+  | { type: "resource_link"; uri: string; name: string };
+
 /**
  * Tool call progress callback.
  */
@@ -49,57 +98,82 @@ export type ToolProgressCallback = (progress: {
 
 export class MCPClient {
   private client: Client | null = null;
-  private transport: StdioClientTransport | SSEClientTransport | null = null;
+  private transport: Transport | null = null;
   private server: MCPServer;
   private timeoutMs: number;
   private requestTimeoutMs: number;
+  private sandbox: Pick<MCPSandboxConfig, "maxMemoryBytes" | "fileSystemScope">;
+  private fetch: FetchLike | undefined;
+  private onResourceUpdated: ((uri: string) => void) | undefined;
+  private onListChanged: ((list: MCPListKind) => void) | undefined;
+  private onConnectionLost: ((reason: string) => void) | undefined;
+  private connecting: Promise<void> | null = null;
+  /** Last transport error, reported as the reason when the connection drops */
+  private lastError: Error | null = null;
+  /** Resource URIs to re-subscribe when a new session starts */
+  private subscriptions = new Set<string>();
   private isConnected = false;
+  private activeTransport: MCPConnectionTransport | null = null;
+  private sessionId: string | undefined;
+  private protocolVersion: string | undefined;
 
   constructor(options: MCPClientOptions) {
     this.server = options.server;
     this.timeoutMs = options.timeoutMs ?? 30000; // Default 30s for connection
     this.requestTimeoutMs = options.requestTimeoutMs ?? 60000; // Default 60s for tool calls
+    this.sandbox = options.sandbox ?? {};
+    this.sessionId = options.sessionId;
+    this.fetch = options.fetch;
+    this.onResourceUpdated = options.onResourceUpdated;
+    this.onListChanged = options.onListChanged;
+    this.onConnectionLost = options.onConnectionLost;
   }
 
   /**
-   * Connect to the MCP server.
+   * Connect to the MCP server. "http" servers are reached over Streamable
+   * HTTP, resuming the previous session if there is one, and fall back to
+   * SSE for servers that predate it (unless config.sseFallback is false).
+   * After a dropped connection, calling this again resumes the session.
    */
   async connect(): Promise<void> {
     if (this.isConnected) {
       return;
     }
 
-    try {
-      this.transport = this.createTransport(this.server.transport);
-
-      this.client = new Client(
-        {
-          name: "omni-prime-mcp-client",
-          version: "1.0.0",
-        },
-        {
-          capabilities: {},
-        }
-      );
-
-      // Connect with timeout
-      await this.withTimeout(
-        this.client.connect(this.transport),
-        this.timeoutMs,
-        `Connection to ${this.server.name} timed out`
-      );
+    // Callers racing to reconnect share one attempt
+    this.connecting ??= this.establish().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
 
-      this.isConnected = true;
-    } catch (error) {
-      this.cleanup();
-      throw error;
+  /**
+   * Disconnect from the MCP server, ending its Streamable HTTP session.
+   */
+  async disconnect(): Promise<void> {
+    if (this.transport instanceof StreamableHTTPClientTransport && this.transport.sessionId) {
+      try {
+        // Servers may answer 405 when they don't support ending sessions
+        await this.withTimeout(
+          this.transport.terminateSession(),
+          5000,
+          "Session termination timed out"
+        );
+      } catch {
+        // Ignore — the session expires on the server side
+      }
     }
+
+    this.sessionId = undefined;
+    this.cleanup();
+    this.isConnected = false;
   }
 
   /**
-   * Disconnect from the MCP server.
+   * Drop the connection without ending the Streamable HTTP session, so a
+   * later connect() resumes it. Used when the server stops answering.
    */
-  async disconnect(): Promise<void> {
+  async close(): Promise<void> {
     this.cleanup();
     this.isConnected = false;
   }
@@ -111,6 +185,33 @@ export class MCPClient {
     return this.isConnected && this.client !== null;
   }
 
+  /**
+   * Check the server still answers.
+   */
+  async ping(): Promise<void> {
+    this.ensureConnected();
+
+    await this.withTimeout(
+      this.client!.ping(),
+      this.timeoutMs,
+      `Ping to ${this.server.name} timed out`
+    );
+  }
+
+  /**
+   * Transport the current connection uses; null when not connected.
+   */
+  getTransportKind(): MCPConnectionTransport | null {
+    return this.isConnected ? this.activeTransport : null;
+  }
+
+  /**
+   * Streamable HTTP session id, kept across dropped connections.
+   */
+  getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
   /**
    * List available tools from the server.
    */
@@ -229,45 +330,355 @@ export class MCPClient {
     }
   }
 
+  /**
+   * List the resources exposed by the server, following pagination.
+   * Servers without resource support have none.
+   */
+  async listResources(): Promise<MCPResource[]> {
+    this.ensureConnected();
+    if (!this.supports("resources")) return [];
+
+    const resources: MCPResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await this.withTimeout(
+        this.client!.listResources(cursor ? { cursor } : undefined),
+        this.requestTimeoutMs,
+        "Resource listing timed out"
+      );
+      for (const resource of response.resources) {
+        resources.push({
+          id: `${this.server.id}:${resource.uri}`,
+          serverId: this.server.id,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description ?? null,
+          mimeType: resource.mimeType ?? null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return resources;
+  }
+
+  /**
+   * Read a resource's contents.
+   */
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    this.ensureConnected();
+
+    const response = await this.withTimeout(
+      this.client!.readResource({ uri }),
+      this.requestTimeoutMs,
+      `Reading ${uri} timed out`
+    );
+
+    return response.contents.map((item) => ({
+      uri: item.uri,
+      mimeType: item.mimeType ?? null,
+      ...("text" in item ? { text: item.text } : { blob: item.blob }),
+    }));
+  }
+
+  /**
+   * Ask the server to send onResourceUpdated notifications for a resource.
+   * Kept across reconnects.
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    this.ensureConnected();
+
+    await this.withTimeout(
+      this.client!.subscribeResource({ uri }),
+      this.requestTimeoutMs,
+      `Subscribing to ${uri} timed out`
+    );
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Stop notifications for a resource.
+   */
+  async unsubscribeResource(uri: string): Promise<void> {
+    this.subscriptions.delete(uri);
+    if (!this.isActive()) return;
+
+    await this.withTimeout(
+      this.client!.unsubscribeResource({ uri }),
+      this.requestTimeoutMs,
+      `Unsubscribing from ${uri} timed out`
+    );
+  }
+
+  /**
+   * List the prompt templates exposed by the server, following pagination.
+   * Servers without prompt support have none.
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.ensureConnected();
+    if (!this.supports("prompts")) return [];
+
+    const prompts: MCPPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await this.withTimeout(
+        this.client!.listPrompts(cursor ? { cursor } : undefined),
+        this.requestTimeoutMs,
+        "Prompt listing timed out"
+      );
+      for (const prompt of response.prompts) {
+        prompts.push({
+          id: `${this.server.id}:${prompt.name}`,
+          serverId: this.server.id,
+          name: prompt.name,
+          description: prompt.description ?? null,
+          arguments: (prompt.arguments ?? []).map((arg) => ({
+            name: arg.name,
+            description: arg.description,
+            required: arg.required,
+          })),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return prompts;
+  }
+
+  /**
+   * Expand a prompt template with argument values.
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<MCPPromptResult> {
+    this.ensureConnected();
+
+    const response = await this.withTimeout(
+      this.client!.getPrompt({ name, arguments: args }),
+      this.requestTimeoutMs,
+      `Prompt ${name} timed out`
+    );
+
+    return {
+      description: response.description ?? null,
+      messages: response.messages.map((message) => ({
+        role: message.role,
+        content: promptContentToText(message.content as RawPromptContent),
+      })),
+    };
+  }
+
   // ═════════════════════════════════════════════════════════════════════════════
   // PRIVATE METHODS
   // ═════════════════════════════════════════════════════════════════════════════
 
-  private createTransport(
-    type: MCPTransportType
-  ): StdioClientTransport | SSEClientTransport {
-    switch (type) {
-      case "stdio": {
-        if (!this.server.command) {
-          throw new Error("Command is required for stdio transport");
-        }
+  private async establish(): Promise<void> {
+    // A transport left over from a dropped connection
+    this.cleanup();
 
-        const env = {
-          ...process.env,
-          ...this.server.env,
-        } as Record<string, string>;
+    let lastError: unknown;
+    for (const attempt of this.transportAttempts()) {
+      try {
+        await this.connectWith(attempt);
+        this.isConnected = true;
+        return;
+      } catch (error) {
+        lastError = error;
+        this.cleanup();
+        console.log(
+          `[MCPClient] ${this.server.name}: ${attempt.kind}${attempt.sessionId ? " (resume)" : ""} failed:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
 
-        return new StdioClientTransport({
-          command: this.server.command,
-          args: this.server.args,
-          env,
-        });
+    throw lastError;
+  }
+
+  /**
+   * Whether the server advertised a capability. Unknown on a resumed
+   * session, where initialization is skipped, so assume it does.
+   */
+  private supports(capability: "resources" | "prompts"): boolean {
+    const capabilities = this.client?.getServerCapabilities();
+    return !capabilities || capabilities[capability] !== undefined;
+  }
+
+  private registerNotificationHandlers(client: Client): void {
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      this.onResourceUpdated?.(notification.params.uri);
+    });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      this.onListChanged?.("tools");
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      this.onListChanged?.("resources");
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      this.onListChanged?.("prompts");
+    });
+  }
+
+  /**
+   * Subscriptions belong to a session; repeat them on a new one.
+   */
+  private async restoreSubscriptions(client: Client): Promise<void> {
+    for (const uri of this.subscriptions) {
+      try {
+        await this.withTimeout(
+          client.subscribeResource({ uri }),
+          this.requestTimeoutMs,
+          `Subscribing to ${uri} timed out`
+        );
+      } catch (error) {
+        console.error(
+          `[MCPClient] ${this.server.name}: re-subscribing to ${uri} failed:`,
+          error instanceof Error ? error.message : error
+        );
       }
+    }
+  }
+
+  private transportAttempts(): TransportAttempt[] {
+    switch (this.server.transport) {
+      case "stdio":
+        return [{ kind: "stdio" }];
 
       case "sse":
+        return [{ kind: "sse" }];
+
       case "http": {
-        if (!this.server.url) {
-          throw new Error("URL is required for SSE/HTTP transport");
+        const attempts: TransportAttempt[] = [];
+        if (this.sessionId) {
+          attempts.push({ kind: "streamable-http", sessionId: this.sessionId });
         }
-
-        return new SSEClientTransport(new URL(this.server.url));
+        attempts.push({ kind: "streamable-http" });
+        if (this.server.config?.sseFallback !== false) {
+          attempts.push({ kind: "sse" });
+        }
+        return attempts;
       }
 
       default:
-        throw new Error(`Unsupported transport type: ${type}`);
+        throw new Error(`Unsupported transport type: ${this.server.transport}`);
     }
   }
 
+  private async connectWith(attempt: TransportAttempt): Promise<void> {
+    const client = new Client(
+      {
+        name: "omni-prime-mcp-client",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {},
+      }
+    );
+    const transport = this.createTransport(attempt);
+
+    this.client = client;
+    this.transport = transport;
+
+    this.registerNotificationHandlers(client);
+
+    client.onerror = (error) => {
+      this.lastError = error;
+    };
+
+    // Dropped by the server, the network, or an exiting process; connect()
+    // can resume. Closes from disconnect() have already replaced this.client.
+    client.onclose = () => {
+      if (this.client !== client || !this.isConnected) return;
+
+      this.isConnected = false;
+      const reason =
+        attempt.kind === "stdio"
+          ? "Server process exited"
+          : `Connection closed${this.lastError ? `: ${this.lastError.message}` : ""}`;
+      this.onConnectionLost?.(reason);
+    };
+
+    // Connect with timeout
+    await this.withTimeout(
+      client.connect(transport),
+      this.timeoutMs,
+      `Connection to ${this.server.name} timed out`
+    );
+
+    if (transport instanceof StreamableHTTPClientTransport) {
+      if (attempt.sessionId) {
+        // connect() skips initialization for a resumed session, so check the
+        // server still has it
+        if (this.protocolVersion) {
+          transport.setProtocolVersion(this.protocolVersion);
+        }
+        await this.withTimeout(
+          client.ping(),
+          this.timeoutMs,
+          `Resuming session with ${this.server.name} timed out`
+        );
+      }
+      this.sessionId = transport.sessionId;
+      this.protocolVersion = transport.protocolVersion ?? this.protocolVersion;
+    }
+
+    this.activeTransport = attempt.kind;
+    this.lastError = null;
+
+    if (!attempt.sessionId) {
+      await this.restoreSubscriptions(client);
+    }
+  }
+
+  private createTransport(attempt: TransportAttempt): Transport {
+    switch (attempt.kind) {
+      case "stdio":
+        // Only the SDK's safe defaults and the server's own env are passed on
+        return new StdioClientTransport(sandboxCommand(this.server, this.sandbox));
+
+      case "streamable-http":
+        return new StreamableHTTPClientTransport(this.serverUrl(), {
+          requestInit: this.requestInit(),
+          fetch: this.fetch,
+          sessionId: attempt.sessionId,
+        });
+
+      case "sse":
+        return new SSEClientTransport(this.serverUrl(), {
+          requestInit: this.requestInit(),
+          fetch: this.fetch,
+        });
+    }
+  }
+
+  private serverUrl(): URL {
+    if (!this.server.url) {
+      throw new Error("URL is required for SSE/HTTP transport");
+    }
+    return new URL(this.server.url);
+  }
+
+  /**
+   * Custom headers (e.g. auth tokens) from config.headers, sent with every
+   * request on both network transports.
+   */
+  private requestInit(): RequestInit | undefined {
+    const raw = this.server.config?.headers;
+    if (!raw || typeof raw !== "object") return undefined;
+
+    const headers = Object.fromEntries(
+      Object.entries(raw).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    );
+    return Object.keys(headers).length > 0 ? { headers } : undefined;
+  }
+
   private ensureConnected(): void {
     if (!this.isConnected || !this.client) {
       throw new Error("MCP client is not connected");
@@ -288,13 +699,37 @@ export class MCPClient {
   }
 
   private cleanup(): void {
+    const transport = this.transport;
+    this.transport = null;
+    this.client = null;
+    this.activeTransport = null;
+
     try {
-      this.transport?.close();
+      transport?.close().catch(() => undefined);
     } catch {
       // Ignore cleanup errors
     }
-    this.transport = null;
-    this.client = null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Flatten one prompt message's content to text. Embedded text resources are
+ * inlined; media is replaced by a placeholder.
+ */
+function promptContentToText(content: RawPromptContent): string {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "resource":
+      return content.resource.text ?? `[Resource: ${content.resource.uri}]`;
+    case "resource_link":
+      return `[Resource: ${content.name} (${content.uri})]`;
+    default:
+      return `[${content.type}: ${content.mimeType}]`;
   }
 }
 
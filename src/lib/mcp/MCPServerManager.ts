@@ -3,43 +3,30 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { MCPClient } from "./MCPClient";
+import type { MCPListKind } from "./MCPClient";
+import { SandboxViolationError, assertArgumentsAllowed } from "./sandbox";
+import { recordConnectionEvent } from "./connectionEvents";
+import type { MCPSandboxConfig } from "./sandbox";
 import type {
   MCPServer,
   MCPTool,
+  MCPResource,
+  MCPResourceContents,
+  MCPPrompt,
+  MCPPromptResult,
   MCPServerStatus,
   CreateMCPServerPayload,
 } from "@/types/tool";
 import { getDB } from "@/lib/db/client";
-import { mcpServers, mcpTools } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { mcpServers, mcpTools, mcpResources, mcpPrompts } from "@/lib/db/schema";
+import { eq, and, notInArray } from "drizzle-orm";
+
+export type { MCPSandboxConfig, SandboxViolationCode } from "./sandbox";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════════
 
-/**
- * Sandbox configuration for tool execution.
- */
-export interface MCPSandboxConfig {
-  /** Maximum execution time for any tool call (ms) */
-  maxExecutionTimeMs: number;
-
-  /** Maximum memory usage (bytes) - advisory only */
-  maxMemoryBytes?: number;
-
-  /** Allowed domains for HTTP requests */
-  allowedDomains?: string[];
-
-  /** Network access enabled */
-  networkEnabled: boolean;
-
-  /** File system scope restriction */
-  fileSystemScope?: string;
-
-  /** Maximum tool calls per session */
-  maxToolCallsPerSession?: number;
-}
-
 /**
  * Server connection entry.
  */
@@ -47,8 +34,55 @@ interface ServerConnection {
   server: MCPServer;
   client: MCPClient;
   lastUsedAt: Date;
-  toolCallCount: number;
   sandbox: MCPSandboxConfig;
+  /** Reconnection attempts since the connection was last up */
+  reconnectAttempt: number;
+  /** Next reconnection attempt, while the connection is down */
+  reconnectTimer: NodeJS.Timeout | null;
+  /** A health ping is in flight */
+  isChecking: boolean;
+}
+
+/**
+ * Exponential backoff for reconnecting dropped servers.
+ */
+export interface ReconnectPolicy {
+  /** Delay before the first attempt (ms); doubled for each further one */
+  initialDelayMs: number;
+  /** Longest delay between attempts (ms) */
+  maxDelayMs: number;
+  /** Attempts before giving up and marking the server as errored */
+  maxAttempts: number;
+}
+
+/**
+ * Calls made to one server from one chat session.
+ */
+interface SessionCallCount {
+  count: number;
+  lastCallAt: number;
+}
+
+/**
+ * Called when a subscribed resource changes.
+ */
+export type ResourceUpdateListener = (uri: string) => void;
+
+/**
+ * Per-call context for executeTool.
+ */
+export interface ExecuteToolOptions {
+  /**
+   * Chat session the call belongs to; counted against maxToolCallsPerSession.
+   * Calls without one share a single count per server.
+   */
+  sessionId?: string;
+
+  onProgress?: (progress: {
+    status: "started" | "in_progress" | "completed" | "error";
+    message?: string;
+    percentComplete?: number;
+  }) => void;
 }
 
 /**
@@ -66,6 +100,12 @@ export interface ServerManagerOptions {
 
   /** Maximum idle time before disconnect (ms) */
   maxIdleTimeMs?: number;
+
+  /** Interval between health pings of connected servers (ms) */
+  healthCheckIntervalMs?: number;
+
+  /** Backoff for reconnecting dropped servers */
+  reconnect?: Partial<ReconnectPolicy>;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -79,16 +119,33 @@ const DEFAULT_SANDBOX: MCPSandboxConfig = {
   maxToolCallsPerSession: 100,
 };
 
+const DEFAULT_RECONNECT: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  maxAttempts: 8,
+};
+
+/** Session call counts are forgotten after this long without a call */
+const SESSION_COUNT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Calls made outside any chat session share this count */
+const NO_SESSION_KEY = "(no session)";
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // MCP SERVER MANAGER CLASS
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export class MCPServerManager {
   private connections: Map<string, ServerConnection> = new Map();
+  private sessionCalls: Map<string, SessionCallCount> = new Map();
+  /** Listeners per `${serverId}:${uri}` */
+  private resourceListeners: Map<string, Set<ResourceUpdateListener>> = new Map();
   private defaultSandbox: MCPSandboxConfig;
   private connectionTimeoutMs: number;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private healthInterval: NodeJS.Timeout | null = null;
   private maxIdleTimeMs: number;
+  private reconnectPolicy: ReconnectPolicy;
 
   constructor(options: ServerManagerOptions = {}) {
     this.defaultSandbox = {
@@ -97,12 +154,19 @@ export class MCPServerManager {
     };
     this.connectionTimeoutMs = options.connectionTimeoutMs ?? 30000;
     this.maxIdleTimeMs = options.maxIdleTimeMs ?? 5 * 60 * 1000; // 5 minutes
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT, ...options.reconnect };
 
     // Start cleanup interval
     const cleanupIntervalMs = options.cleanupIntervalMs ?? 60000; // 1 minute
     this.cleanupInterval = setInterval(() => {
       this.cleanupIdleConnections();
     }, cleanupIntervalMs);
+
+    // Start health checks
+    const healthCheckIntervalMs = options.healthCheckIntervalMs ?? 30000; // 30 seconds
+    this.healthInterval = setInterval(() => {
+      void this.checkHealth();
+    }, healthCheckIntervalMs);
   }
 
   /**
@@ -113,12 +177,17 @@ export class MCPServerManager {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = null;
+    }
 
     // Disconnect all servers
     await Promise.all(
-      Array.from(this.connections.values()).map((conn) =>
-        conn.client.disconnect()
-      )
+      Array.from(this.connections.values()).map((conn) => {
+        if (conn.reconnectTimer) clearTimeout(conn.reconnectTimer);
+        return conn.client.disconnect();
+      })
     );
 
     this.connections.clear();
@@ -132,7 +201,7 @@ export class MCPServerManager {
     const existing = this.connections.get(server.id);
     if (existing) {
       existing.lastUsedAt = new Date();
-      return "connected";
+      return (await this.reconnect(server.id)) ? "connected" : "error";
     }
 
     // Build sandbox config from server settings
@@ -147,6 +216,10 @@ export class MCPServerManager {
         server,
         timeoutMs: this.connectionTimeoutMs,
         requestTimeoutMs: sandbox.maxExecutionTimeMs,
+        sandbox,
+        onResourceUpdated: (uri) => this.notifyResourceUpdated(server.id, uri),
+        onListChanged: (list) => void this.resyncList(server.id, list),
+        onConnectionLost: (reason) => void this.handleConnectionLost(server.id, reason),
       });
 
       await client.connect();
@@ -156,22 +229,39 @@ export class MCPServerManager {
         server,
         client,
         lastUsedAt: new Date(),
-        toolCallCount: 0,
         sandbox,
+        reconnectAttempt: 0,
+        reconnectTimer: null,
+        isChecking: false,
+      });
+
+      await recordConnectionEvent(server.id, "connected", {
+        message: `Over ${client.getTransportKind()}`,
       });
 
       // Update server status in database
-      await this.updateServerStatus(server.id, "connected");
+      await this.updateServerStatus(
+        server.id,
+        "connected",
+        server.transport === "http" && client.getTransportKind() === "sse"
+          ? "Connected over SSE (no Streamable HTTP support)"
+          : undefined
+      );
 
       // Sync tools from server
       await this.syncServerTools(server.id);
 
+      // Resources and prompts are optional; a failure doesn't fail the connection
+      await this.resyncList(server.id, "resources");
+      await this.resyncList(server.id, "prompts");
+
       return "connected";
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Connection failed";
 
       await this.updateServerStatus(server.id, "error", errorMessage);
+      await recordConnectionEvent(server.id, "error", { message: errorMessage });
 
       return "error";
     }
@@ -180,14 +270,16 @@ export class MCPServerManager {
   /**
    * Disconnect from an MCP server.
    */
-  async disconnectServer(serverId: string): Promise<void> {
+  async disconnectServer(serverId: string, reason?: string): Promise<void> {
     const connection = this.connections.get(serverId);
     if (connection) {
-      await connection.client.disconnect();
+      if (connection.reconnectTimer) clearTimeout(connection.reconnectTimer);
       this.connections.delete(serverId);
+      await connection.client.disconnect();
+      await recordConnectionEvent(serverId, "disconnected", { message: reason });
     }
 
-    await this.updateServerStatus(serverId, "disconnected");
+    await this.updateServerStatus(serverId, "disconnected", reason);
   }
 
   /**
@@ -228,6 +320,11 @@ export class MCPServerManager {
       connection = this.connections.get(serverId);
     }
 
+    // A dropped connection is retried now rather than at its next backoff
+    if (connection && !(await this.reconnect(serverId))) {
+      return null;
+    }
+
     if (connection) {
       connection.lastUsedAt = new Date();
       return connection.client;
@@ -237,21 +334,19 @@ export class MCPServerManager {
   }
 
   /**
-   * Execute a tool with sandboxing.
+   * Execute a tool with sandboxing. Calls the sandbox refuses fail with a
+   * SANDBOX_* error code and are not counted against the session limit.
    */
   async executeTool(
     serverId: string,
     toolName: string,
     args: Record<string, unknown>,
-    onProgress?: (progress: {
-      status: "started" | "in_progress" | "completed" | "error";
-      message?: string;
-      percentComplete?: number;
-    }) => void
+    options: ExecuteToolOptions = {}
   ): Promise<{
     success: boolean;
     result?: unknown;
     error?: string;
+    errorCode?: string;
     executionTimeMs: number;
   }> {
     const connection = this.connections.get(serverId);
@@ -265,51 +360,20 @@ export class MCPServerManager {
     }
 
     // Enforce sandbox limits
-    if (connection.sandbox.maxToolCallsPerSession) {
-      if (connection.toolCallCount >= connection.sandbox.maxToolCallsPerSession) {
-        return {
-          success: false,
-          error: `Tool call limit exceeded (${connection.sandbox.maxToolCallsPerSession} calls per session)`,
-          executionTimeMs: 0,
-        };
-      }
-    }
-
-    // Check domain restrictions for URL-containing args
-    if (!connection.sandbox.networkEnabled) {
-      const hasUrl = Object.values(args).some(
-        (value) =>
-          typeof value === "string" &&
-          (value.startsWith("http://") || value.startsWith("https://"))
-      );
-
-      if (hasUrl) {
+    try {
+      assertArgumentsAllowed(args, connection.sandbox);
+      this.countSessionCall(serverId, options.sessionId, connection.sandbox);
+    } catch (error) {
+      if (error instanceof SandboxViolationError) {
+        console.error(`[MCPSandbox] ${toolName} blocked: ${error.code} - ${error.message}`);
         return {
           success: false,
-          error: "Network access is disabled for this server",
+          error: error.message,
+          errorCode: error.code,
           executionTimeMs: 0,
         };
       }
-    }
-
-    // Check specific domain allowlist
-    if (connection.sandbox.allowedDomains && connection.sandbox.allowedDomains.length > 0) {
-      for (const value of Object.values(args)) {
-        if (typeof value === "string" && value.startsWith("http")) {
-          try {
-            const url = new URL(value);
-            if (!connection.sandbox.allowedDomains.includes(url.hostname)) {
-              return {
-                success: false,
-                error: `Domain ${url.hostname} is not in the allowed list`,
-                executionTimeMs: 0,
-              };
-            }
-          } catch {
-            // Not a valid URL, ignore
-          }
-        }
-      }
+      throw error;
     }
 
     // Execute with timeout enforcement
@@ -327,12 +391,11 @@ export class MCPServerManager {
       const executionPromise = connection.client.callTool(
         toolName,
         args,
-        onProgress
+        options.onProgress
       );
 
       const result = await Promise.race([executionPromise, timeoutPromise]);
 
-      connection.toolCallCount++;
       connection.lastUsedAt = new Date();
 
       return {
@@ -403,12 +466,186 @@ export class MCPServerManager {
     }
   }
 
+  /**
+   * Sync resources from a server to the database. Resources the server no
+   * longer lists are removed.
+   */
+  async syncServerResources(serverId: string): Promise<MCPResource[]> {
+    const connection = this.connections.get(serverId);
+    if (!connection) {
+      throw new Error(`Server ${serverId} is not connected`);
+    }
+
+    const resources = await connection.client.listResources();
+    const db = getDB();
+
+    for (const resource of resources) {
+      await db
+        .insert(mcpResources)
+        .values({
+          serverId,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })
+        .onConflictDoUpdate({
+          target: [mcpResources.serverId, mcpResources.uri],
+          set: {
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    await db
+      .delete(mcpResources)
+      .where(
+        and(
+          eq(mcpResources.serverId, serverId),
+          resources.length > 0
+            ? notInArray(mcpResources.uri, resources.map((r) => r.uri))
+            : undefined
+        )
+      );
+
+    return resources;
+  }
+
+  /**
+   * Sync prompt templates from a server to the database. Prompts the server
+   * no longer lists are removed.
+   */
+  async syncServerPrompts(serverId: string): Promise<MCPPrompt[]> {
+    const connection = this.connections.get(serverId);
+    if (!connection) {
+      throw new Error(`Server ${serverId} is not connected`);
+    }
+
+    const prompts = await connection.client.listPrompts();
+    const db = getDB();
+
+    for (const prompt of prompts) {
+      await db
+        .insert(mcpPrompts)
+        .values({
+          serverId,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        })
+        .onConflictDoUpdate({
+          target: [mcpPrompts.serverId, mcpPrompts.name],
+          set: {
+            description: prompt.description,
+            arguments: prompt.arguments,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    await db
+      .delete(mcpPrompts)
+      .where(
+        and(
+          eq(mcpPrompts.serverId, serverId),
+          prompts.length > 0
+            ? notInArray(mcpPrompts.name, prompts.map((p) => p.name))
+            : undefined
+        )
+      );
+
+    return prompts;
+  }
+
+  /**
+   * List a server's resources, connecting if needed.
+   */
+  async listResources(serverId: string): Promise<MCPResource[]> {
+    const client = await this.requireClient(serverId);
+    return client.listResources();
+  }
+
+  /**
+   * Read a resource's contents, connecting if needed.
+   */
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContents[]> {
+    const client = await this.requireClient(serverId);
+    return client.readResource(uri);
+  }
+
+  /**
+   * Call `listener` whenever the resource changes. The server is subscribed
+   * on the first listener and unsubscribed after the last one leaves; while
+   * anyone listens, the connection is not closed as idle.
+   * @returns Function that removes the listener
+   */
+  async subscribeResource(
+    serverId: string,
+    uri: string,
+    listener: ResourceUpdateListener
+  ): Promise<() => Promise<void>> {
+    const client = await this.requireClient(serverId);
+    const key = `${serverId}:${uri}`;
+
+    let listeners = this.resourceListeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.resourceListeners.set(key, listeners);
+      try {
+        await client.subscribeResource(uri);
+      } catch (error) {
+        this.resourceListeners.delete(key);
+        throw error;
+      }
+    }
+    listeners.add(listener);
+
+    const subscribed = listeners;
+    return async () => {
+      subscribed.delete(listener);
+      if (subscribed.size > 0 || this.resourceListeners.get(key) !== subscribed) {
+        return;
+      }
+
+      this.resourceListeners.delete(key);
+      try {
+        await this.connections.get(serverId)?.client.unsubscribeResource(uri);
+      } catch (error) {
+        console.error(`[MCPServerManager] Unsubscribing from ${uri} failed:`, error);
+      }
+    };
+  }
+
+  /**
+   * List a server's prompt templates, connecting if needed.
+   */
+  async listPrompts(serverId: string): Promise<MCPPrompt[]> {
+    const client = await this.requireClient(serverId);
+    return client.listPrompts();
+  }
+
+  /**
+   * Expand a prompt template, connecting if needed.
+   */
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<MCPPromptResult> {
+    const client = await this.requireClient(serverId);
+    return client.getPrompt(name, args);
+  }
+
   /**
    * Get connection status for a server.
    */
   getConnectionStatus(serverId: string): MCPServerStatus {
     const connection = this.connections.get(serverId);
-    return connection ? "connected" : "disconnected";
+    if (!connection) return "disconnected";
+    return connection.client.isActive() ? "connected" : "connecting";
   }
 
   /**
@@ -419,7 +656,8 @@ export class MCPServerManager {
   }
 
   /**
-   * Update sandbox configuration for a connection.
+   * Update sandbox configuration for a connection. Process limits
+   * (fileSystemScope, maxMemoryBytes) take effect when the server reconnects.
    */
   updateSandboxConfig(
     serverId: string,
@@ -438,6 +676,175 @@ export class MCPServerManager {
   // PRIVATE METHODS
   // ═════════════════════════════════════════════════════════════════════════════
 
+  private async requireClient(serverId: string): Promise<MCPClient> {
+    const client = await this.getClient(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} is not available`);
+    }
+    return client;
+  }
+
+  // ─── Health ────────────────────────────────────────────────────────────────
+
+  /**
+   * Ping every live connection. A server that doesn't answer is treated
+   * like one whose connection closed.
+   */
+  private async checkHealth(): Promise<void> {
+    await Promise.all(
+      Array.from(this.connections.entries()).map(async ([serverId, connection]) => {
+        if (connection.isChecking || !connection.client.isActive()) return;
+
+        connection.isChecking = true;
+        try {
+          await connection.client.ping();
+        } catch (error) {
+          // Disconnected meanwhile, or already being handled
+          if (this.connections.get(serverId) !== connection || !connection.client.isActive()) {
+            return;
+          }
+          await connection.client.close();
+          await this.handleConnectionLost(
+            serverId,
+            `Ping failed: ${error instanceof Error ? error.message : "no response"}`
+          );
+        } finally {
+          connection.isChecking = false;
+        }
+      })
+    );
+  }
+
+  private async handleConnectionLost(serverId: string, reason: string): Promise<void> {
+    const connection = this.connections.get(serverId);
+    if (!connection || connection.reconnectTimer) return;
+
+    await recordConnectionEvent(serverId, "connection_lost", { message: reason });
+    connection.reconnectAttempt = 0;
+    await this.scheduleReconnect(serverId, connection, reason);
+  }
+
+  /**
+   * Queue the next reconnection attempt with exponential backoff, or give
+   * up once the attempts are used.
+   */
+  private async scheduleReconnect(
+    serverId: string,
+    connection: ServerConnection,
+    reason: string
+  ): Promise<void> {
+    if (connection.reconnectTimer) return;
+
+    const { initialDelayMs, maxDelayMs, maxAttempts } = this.reconnectPolicy;
+    const attempt = connection.reconnectAttempt + 1;
+
+    if (attempt > maxAttempts) {
+      this.connections.delete(serverId);
+      await connection.client.disconnect();
+      await recordConnectionEvent(serverId, "disconnected", {
+        message: `Gave up after ${maxAttempts} reconnection attempts`,
+      });
+      await this.updateServerStatus(
+        serverId,
+        "error",
+        `Gave up reconnecting after ${maxAttempts} attempts: ${reason}`
+      );
+      return;
+    }
+
+    const delayMs = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    connection.reconnectTimer = setTimeout(() => {
+      connection.reconnectTimer = null;
+      void this.reconnect(serverId);
+    }, delayMs);
+
+    await recordConnectionEvent(serverId, "reconnecting", {
+      message: `Retrying in ${Math.ceil(delayMs / 1000)}s`,
+      attempt,
+    });
+    await this.updateServerStatus(
+      serverId,
+      "connecting",
+      `${reason}; reconnecting (attempt ${attempt} of ${maxAttempts})`
+    );
+  }
+
+  /**
+   * Bring a dropped connection back, resuming its HTTP session if the
+   * server still has it. A failure schedules the next attempt.
+   * @returns Whether the connection is up
+   */
+  private async reconnect(serverId: string): Promise<boolean> {
+    const connection = this.connections.get(serverId);
+    if (!connection) return false;
+    if (connection.client.isActive()) return true;
+
+    if (connection.reconnectTimer) {
+      clearTimeout(connection.reconnectTimer);
+      connection.reconnectTimer = null;
+    }
+    const attempt = ++connection.reconnectAttempt;
+
+    try {
+      await connection.client.connect();
+    } catch (error) {
+      if (this.connections.get(serverId) !== connection) return false;
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Reconnection failed";
+      await recordConnectionEvent(serverId, "reconnect_failed", {
+        message: errorMessage,
+        attempt,
+      });
+      await this.scheduleReconnect(serverId, connection, errorMessage);
+      return false;
+    }
+
+    // Disconnected while reconnecting
+    if (this.connections.get(serverId) !== connection) {
+      await connection.client.disconnect();
+      return false;
+    }
+
+    connection.reconnectAttempt = 0;
+    await recordConnectionEvent(serverId, "reconnected", { attempt });
+    await this.updateServerStatus(serverId, "connected");
+
+    // The server may have restarted with different tools
+    await this.resyncList(serverId, "tools");
+    await this.resyncList(serverId, "resources");
+    await this.resyncList(serverId, "prompts");
+
+    return true;
+  }
+
+  // ─── Notifications ─────────────────────────────────────────────────────────
+
+  private notifyResourceUpdated(serverId: string, uri: string): void {
+    const listeners = this.resourceListeners.get(`${serverId}:${uri}`);
+    listeners?.forEach((listener) => listener(uri));
+  }
+
+  private hasResourceListeners(serverId: string): boolean {
+    for (const key of this.resourceListeners.keys()) {
+      if (key.startsWith(`${serverId}:`)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Re-sync one of a server's lists, logging rather than throwing.
+   */
+  private async resyncList(serverId: string, list: MCPListKind): Promise<void> {
+    try {
+      if (list === "tools") await this.syncServerTools(serverId);
+      else if (list === "resources") await this.syncServerResources(serverId);
+      else await this.syncServerPrompts(serverId);
+    } catch (error) {
+      console.error(`[MCPServerManager] Syncing ${list} for ${serverId} failed:`, error);
+    }
+  }
+
   private async updateServerStatus(
     serverId: string,
     status: MCPServerStatus,
@@ -457,21 +864,53 @@ export class MCPServerManager {
     }
   }
 
+  /**
+   * Record a call against the session's limit for this server, or throw if
+   * the limit is reached. Calls without a session all count together.
+   */
+  private countSessionCall(
+    serverId: string,
+    sessionId: string | undefined,
+    sandbox: MCPSandboxConfig
+  ): void {
+    if (!sandbox.maxToolCallsPerSession) return;
+
+    const key = `${serverId}:${sessionId ?? NO_SESSION_KEY}`;
+    const entry = this.sessionCalls.get(key) ?? { count: 0, lastCallAt: 0 };
+
+    if (entry.count >= sandbox.maxToolCallsPerSession) {
+      throw new SandboxViolationError(
+        "SANDBOX_CALL_LIMIT",
+        `Tool call limit exceeded (${sandbox.maxToolCallsPerSession} calls per session)`
+      );
+    }
+
+    entry.count++;
+    entry.lastCallAt = Date.now();
+    this.sessionCalls.set(key, entry);
+  }
+
   private async cleanupIdleConnections(): Promise<void> {
     const now = Date.now();
+
+    for (const [key, entry] of this.sessionCalls.entries()) {
+      if (now - entry.lastCallAt > SESSION_COUNT_TTL_MS) {
+        this.sessionCalls.delete(key);
+      }
+    }
     const toDisconnect: string[] = [];
 
     for (const [serverId, connection] of this.connections.entries()) {
       const idleTime = now - connection.lastUsedAt.getTime();
 
-      if (idleTime > this.maxIdleTimeMs) {
+      if (idleTime > this.maxIdleTimeMs && !this.hasResourceListeners(serverId)) {
         toDisconnect.push(serverId);
       }
     }
 
     for (const serverId of toDisconnect) {
       console.log(`Disconnecting idle server: ${serverId}`);
-      await this.disconnectServer(serverId);
+      await this.disconnectServer(serverId, "Idle");
     }
   }
 }
@@ -487,4 +926,5 @@ export const mcpServerManager = new MCPServerManager({
   },
   maxIdleTimeMs: 5 * 60 * 1000, // 5 minutes
   cleanupIntervalMs: 60000, // 1 minute
+  healthCheckIntervalMs: 30000, // 30 seconds
 });
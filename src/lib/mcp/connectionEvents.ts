@@ -0,0 +1,81 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONNECTION EVENTS - Per-server History of MCP Connection Changes
+//
+// The health monitor in MCPServerManager records connects, drops, and
+// reconnection attempts here. Only the newest CONNECTION_EVENT_HISTORY
+// entries per server are kept.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { and, desc, eq, notInArray, sql } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { mcpConnectionEvents } from "@/lib/db/schema";
+import type { DbMCPConnectionEvent } from "@/lib/db/schema";
+import type { MCPConnectionEventType } from "@/types/tool";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Events kept per server */
+export const CONNECTION_EVENT_HISTORY = 50;
+
+// ─── Recording ───────────────────────────────────────────────────────────────
+
+/**
+ * Append an event to a server's history and drop the oldest beyond the
+ * limit. Failures are logged, never thrown: history must not break
+ * connection handling.
+ */
+export async function recordConnectionEvent(
+  serverId: string,
+  type: MCPConnectionEventType,
+  details: { message?: string; attempt?: number } = {},
+): Promise<void> {
+  console.log(
+    `[MCPHealth] ${serverId} ${type}${details.attempt ? ` (attempt ${details.attempt})` : ""}${
+      details.message ? `: ${details.message}` : ""
+    }`,
+  );
+
+  try {
+    const db = getDB();
+    await db.insert(mcpConnectionEvents).values({
+      serverId,
+      type,
+      message: details.message ?? null,
+      attempt: details.attempt ?? null,
+    });
+
+    // Insertion order (rowid) breaks ties between events in the same second
+    const kept = db
+      .select({ id: mcpConnectionEvents.id })
+      .from(mcpConnectionEvents)
+      .where(eq(mcpConnectionEvents.serverId, serverId))
+      .orderBy(desc(mcpConnectionEvents.createdAt), desc(sql`rowid`))
+      .limit(CONNECTION_EVENT_HISTORY);
+
+    await db
+      .delete(mcpConnectionEvents)
+      .where(
+        and(
+          eq(mcpConnectionEvents.serverId, serverId),
+          notInArray(mcpConnectionEvents.id, kept),
+        ),
+      );
+  } catch (error) {
+    console.error(`[MCPHealth] Failed to record ${type} for ${serverId}:`, error);
+  }
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/**
+ * A server's connection history, newest first.
+ */
+export async function listConnectionEvents(serverId: string): Promise<DbMCPConnectionEvent[]> {
+  const db = getDB();
+  return db
+    .select()
+    .from(mcpConnectionEvents)
+    .where(eq(mcpConnectionEvents.serverId, serverId))
+    .orderBy(desc(mcpConnectionEvents.createdAt), desc(sql`rowid`))
+    .limit(CONNECTION_EVENT_HISTORY);
+}
@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP PAYLOADS - Request Validation for Tool Approval and MCP Catalog Routes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod";
+
+// ─── Validation Schemas ──────────────────────────────────────────────────────
+
+const approvalPolicySchema = z.enum(["allow", "ask", "deny"]);
+
+export const toolApprovalDecisionSchema = z
+  .object({
+    decision: z.enum(["approve", "reject"]),
+    /** Replaces the model's arguments when approving */
+    arguments: z.record(z.unknown()).optional(),
+    reason: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.decision === "approve" || data.arguments === undefined, {
+    message: "Arguments can only be given when approving",
+    path: ["arguments"],
+  });
+
+export const listToolApprovalsQuerySchema = z.object({
+  agentId: z.string().optional(),
+  sessionId: z.string().optional(),
+  toolCallId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const listPendingToolCallsQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  swarmId: z.string().optional(),
+});
+
+export const updateAgentToolSchema = z
+  .object({
+    approval: approvalPolicySchema.optional(),
+    isEnabled: z.boolean().optional(),
+  })
+  .refine((data) => data.approval !== undefined || data.isEnabled !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const listMCPCatalogQuerySchema = z.object({
+  serverId: z.string().optional(),
+});
+
+export const getMCPPromptSchema = z.object({
+  arguments: z.record(z.string()).default({}),
+});
@@ -0,0 +1,268 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP SANDBOX - Process Confinement and Argument Checks for Tool Servers
+//
+// Stdio servers are spawned with a scrubbed environment, their working
+// directory set to fileSystemScope, and a data-segment limit of
+// maxMemoryBytes. Tool arguments are walked recursively before each call:
+// URLs are checked against the network settings and paths against the scope.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { realpathSync } from "node:fs";
+import path from "node:path";
+import type { MCPServer } from "@/types/tool";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sandbox configuration for tool execution.
+ */
+export interface MCPSandboxConfig {
+  /** Maximum execution time for any tool call (ms) */
+  maxExecutionTimeMs: number;
+
+  /** Data segment limit for stdio server processes (bytes) */
+  maxMemoryBytes?: number;
+
+  /** Allowed hosts for URLs in tool arguments; "*.example.com" matches subdomains */
+  allowedDomains?: string[];
+
+  /** Network access enabled */
+  networkEnabled: boolean;
+
+  /** Directory stdio servers run in; path arguments must stay inside it */
+  fileSystemScope?: string;
+
+  /** Maximum calls to the server per chat session */
+  maxToolCallsPerSession?: number;
+}
+
+export type SandboxViolationCode =
+  | "SANDBOX_NETWORK_DISABLED"
+  | "SANDBOX_DOMAIN_BLOCKED"
+  | "SANDBOX_PATH_OUTSIDE_SCOPE"
+  | "SANDBOX_CALL_LIMIT";
+
+/**
+ * A tool call the sandbox refused to run.
+ */
+export class SandboxViolationError extends Error {
+  constructor(
+    public readonly code: SandboxViolationCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SandboxViolationError";
+  }
+}
+
+/**
+ * How to spawn a stdio server inside its sandbox.
+ */
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Host variables passed through besides the MCP SDK's defaults (HOME, PATH,
+ * USER, ...). Everything else, API keys included, must be set on the server.
+ */
+const INHERITED_ENV_VARS = ["LANG", "LC_ALL", "TZ", "TMPDIR"];
+
+/** URLs embedded in free text */
+const URL_PATTERN = /\b(?:https?|wss?|ftp):\/\/[^\s"'<>()]+/gi;
+
+/**
+ * Strings treated as file system paths: anything home-relative or containing
+ * a separator or "..". Relative ones are resolved from the scope, so text
+ * that merely looks like a path is harmless unless it climbs out.
+ */
+const PATH_PATTERN = /^~(?:[/\\]|$)|[/\\]|\.\./;
+
+/** URLs other than file:// are checked against the network settings instead */
+const NON_FILE_URL_PATTERN = /^(?!file:)[a-z][a-z0-9+.-]*:\/\//i;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROCESS CONFINEMENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Command, environment, and working directory for a sandboxed stdio server.
+ * The memory limit is applied through a POSIX shell and skipped on Windows.
+ */
+export function sandboxCommand(
+  server: Pick<MCPServer, "command" | "args" | "env">,
+  sandbox: Pick<MCPSandboxConfig, "maxMemoryBytes" | "fileSystemScope">,
+): SandboxedCommand {
+  if (!server.command) {
+    throw new Error("Command is required for stdio transport");
+  }
+
+  const env: Record<string, string> = {};
+  for (const key of INHERITED_ENV_VARS) {
+    const value = process.env[key];
+    if (value !== undefined) env[key] = value;
+  }
+  Object.assign(env, server.env);
+
+  const cwd = sandbox.fileSystemScope ? resolveScope(sandbox.fileSystemScope) : undefined;
+
+  if (!sandbox.maxMemoryBytes || process.platform === "win32") {
+    return { command: server.command, args: server.args, env, cwd };
+  }
+
+  // RLIMIT_DATA rather than RLIMIT_AS: V8 reserves far more address space
+  // than it uses and fails to start under a virtual memory limit
+  const kilobytes = Math.max(1, Math.floor(sandbox.maxMemoryBytes / 1024));
+  return {
+    command: "/bin/sh",
+    args: [
+      "-c",
+      `ulimit -d ${kilobytes} 2>/dev/null; ulimit -c 0 2>/dev/null; exec "$0" "$@"`,
+      server.command,
+      ...server.args,
+    ],
+    env,
+    cwd,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ARGUMENT CHECKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Throw a SandboxViolationError if any URL or path in `args`, at any depth,
+ * is outside what the sandbox allows.
+ */
+export function assertArgumentsAllowed(
+  args: Record<string, unknown>,
+  sandbox: MCPSandboxConfig,
+): void {
+  const scope = sandbox.fileSystemScope ? resolveScope(sandbox.fileSystemScope) : null;
+
+  const visit = (value: unknown, at: string): void => {
+    if (typeof value === "string") {
+      checkString(value, at, sandbox, scope);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => visit(item, `${at}[${i}]`));
+    } else if (value && typeof value === "object") {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, `${at}.${key}`);
+      }
+    }
+  };
+
+  visit(args, "arguments");
+}
+
+function checkString(
+  value: string,
+  at: string,
+  sandbox: MCPSandboxConfig,
+  scope: string | null,
+): void {
+  if (scope) {
+    const target = value.startsWith("file://")
+      ? fileUrlPath(value)
+      : NON_FILE_URL_PATTERN.test(value)
+        ? null
+        : value;
+    if (target !== null && PATH_PATTERN.test(target) && !isInside(scope, target)) {
+      throw new SandboxViolationError(
+        "SANDBOX_PATH_OUTSIDE_SCOPE",
+        `Path ${target} in ${at} is outside the sandbox scope ${scope}`,
+      );
+    }
+  }
+
+  for (const match of value.matchAll(URL_PATTERN)) {
+    let hostname: string;
+    try {
+      hostname = new URL(match[0]).hostname.toLowerCase();
+    } catch {
+      continue;
+    }
+
+    if (!sandbox.networkEnabled) {
+      throw new SandboxViolationError(
+        "SANDBOX_NETWORK_DISABLED",
+        `Network access is disabled for this server (${hostname} in ${at})`,
+      );
+    }
+
+    if (sandbox.allowedDomains?.length && !isAllowedHost(hostname, sandbox.allowedDomains)) {
+      throw new SandboxViolationError(
+        "SANDBOX_DOMAIN_BLOCKED",
+        `Domain ${hostname} in ${at} is not in the allowed list`,
+      );
+    }
+  }
+}
+
+function isAllowedHost(hostname: string, allowedDomains: string[]): boolean {
+  return allowedDomains.some((entry) => {
+    const domain = entry.toLowerCase();
+    return domain.startsWith("*.")
+      ? hostname.endsWith(domain.slice(1))
+      : hostname === domain;
+  });
+}
+
+// ─── Paths ───────────────────────────────────────────────────────────────────
+
+function resolveScope(scope: string): string {
+  return canonical(path.resolve(expandHome(scope)));
+}
+
+/**
+ * Whether `target`, resolved the way the server would from its working
+ * directory, stays inside `scope`. Symlinks are followed where they exist,
+ * and backslashes count as separators in case the server treats them so.
+ */
+function isInside(scope: string, target: string): boolean {
+  const resolved = canonical(path.resolve(scope, expandHome(target.replace(/\\/g, "/"))));
+  const relative = path.relative(scope, resolved);
+  return (
+    relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+  );
+}
+
+/** Real path of the longest existing prefix, with the rest appended */
+function canonical(resolved: string): string {
+  let existing = resolved;
+  const rest: string[] = [];
+
+  for (;;) {
+    try {
+      return path.join(realpathSync(existing), ...rest);
+    } catch {
+      const parent = path.dirname(existing);
+      if (parent === existing) return resolved;
+      rest.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+function expandHome(p: string): string {
+  const home = process.env.HOME;
+  if (!home || !p.startsWith("~")) return p;
+  return path.join(home, p.slice(1));
+}
+
+function fileUrlPath(value: string): string | null {
+  try {
+    return decodeURIComponent(new URL(value).pathname);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,250 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL APPROVAL - Human-in-the-loop Gate for Agent Tool Calls
+//
+// Each agent-tool binding carries an approval policy in agent_tools.config.
+// Calls under "ask" are parked as awaiting_approval until the user approves
+// (optionally with edited arguments) or rejects them; "deny" calls never run.
+// Every decision is written to tool_call_approvals.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { agentTools, mcpTools, toolCallApprovals, toolCalls } from "@/lib/db/schema";
+import type { DbMCPTool, DbToolCall } from "@/lib/db/schema";
+import type { ToolApprovalDecision, ToolApprovalPolicy } from "@/types/tool";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** How long a call waits for a decision before it is refused */
+export const TOOL_APPROVAL_TIMEOUT_MS = Number.parseInt(
+  process.env.TOOL_APPROVAL_TIMEOUT_MS ?? "600000",
+  10,
+);
+
+/** How often a waiting call re-reads its row */
+const POLL_INTERVAL_MS = 1000;
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export class ToolApprovalError extends Error {
+  constructor(
+    public readonly code: "NOT_FOUND" | "NOT_AWAITING_APPROVAL",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ToolApprovalError";
+  }
+}
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+
+/** A tool an agent may call, with the approval policy of its binding */
+export interface BoundTool {
+  tool: DbMCPTool;
+  policy: ToolApprovalPolicy;
+}
+
+/**
+ * Find a tool the model asked for by name among the agent's enabled
+ * bindings. Tools the agent is not bound to are not available to it at all.
+ * If two bound tools share a name, the earliest binding wins. Bindings with
+ * no policy set are allowed, as before policies existed.
+ */
+export async function resolveBoundTool(
+  agentId: string,
+  toolName: string,
+): Promise<BoundTool | null> {
+  const db = getDB();
+  const binding = await db.query.agentTools.findFirst({
+    where: and(
+      eq(agentTools.agentId, agentId),
+      eq(agentTools.isEnabled, true),
+      inArray(
+        agentTools.toolId,
+        db.select({ id: mcpTools.id }).from(mcpTools).where(eq(mcpTools.name, toolName)),
+      ),
+    ),
+    with: { tool: true },
+    orderBy: [asc(agentTools.createdAt)],
+  });
+  if (!binding) return null;
+
+  return { tool: binding.tool, policy: binding.config.approval ?? "allow" };
+}
+
+// ─── Audit ───────────────────────────────────────────────────────────────────
+
+interface ApprovalRecord {
+  call: Pick<DbToolCall, "id" | "toolName" | "arguments">;
+  agentId: string | null;
+  sessionId: string | null;
+  decision: ToolApprovalDecision;
+  decidedBy: "user" | "policy" | "timeout";
+  approvedArguments?: Record<string, unknown>;
+  reason?: string;
+}
+
+/**
+ * Append a decision to the audit log.
+ */
+export async function recordApprovalDecision(record: ApprovalRecord): Promise<void> {
+  const db = getDB();
+  await db.insert(toolCallApprovals).values({
+    toolCallId: record.call.id,
+    agentId: record.agentId,
+    sessionId: record.sessionId,
+    toolName: record.call.toolName,
+    decision: record.decision,
+    decidedBy: record.decidedBy,
+    requestedArguments: record.call.arguments,
+    approvedArguments: record.approvedArguments ?? null,
+    reason: record.reason ?? null,
+  });
+  console.log(
+    `[ToolApproval] ${record.call.toolName} (${record.call.id}) ${record.decision} by ${record.decidedBy}`,
+  );
+}
+
+// ─── Decisions ───────────────────────────────────────────────────────────────
+
+/**
+ * Approve or reject a call awaiting approval. Approved calls go back to
+ * "pending" with the arguments they will run with; the waiting tool loop
+ * then dispatches them. Only the first decision on a call counts.
+ */
+export async function decideToolCall(
+  toolCallId: string,
+  decision: {
+    approve: boolean;
+    arguments?: Record<string, unknown>;
+    reason?: string;
+  },
+): Promise<DbToolCall> {
+  const db = getDB();
+  const call = await db.query.toolCalls.findFirst({
+    where: eq(toolCalls.id, toolCallId),
+    with: { message: { columns: { sessionId: true, agentId: true } } },
+  });
+
+  if (!call) {
+    throw new ToolApprovalError("NOT_FOUND", "Tool call not found");
+  }
+  if (call.status !== "awaiting_approval") {
+    throw new ToolApprovalError(
+      "NOT_AWAITING_APPROVAL",
+      `Tool call is ${call.status}, not awaiting approval`,
+    );
+  }
+
+  const approvedArguments = decision.arguments ?? call.arguments;
+  const [updated] = await db
+    .update(toolCalls)
+    .set(
+      decision.approve
+        ? { status: "pending", arguments: approvedArguments }
+        : {
+            status: "error",
+            error: decision.reason
+              ? `Rejected by the user: ${decision.reason}`
+              : "Rejected by the user",
+            errorCode: "TOOL_REJECTED",
+            executedAt: new Date(),
+          },
+    )
+    .where(and(eq(toolCalls.id, toolCallId), eq(toolCalls.status, "awaiting_approval")))
+    .returning();
+
+  // Lost a race with another decision or the timeout
+  if (!updated) {
+    throw new ToolApprovalError("NOT_AWAITING_APPROVAL", "Tool call was already decided");
+  }
+
+  await recordApprovalDecision({
+    call,
+    agentId: call.message.agentId,
+    sessionId: call.message.sessionId,
+    decision: !decision.approve
+      ? "rejected"
+      : decision.arguments
+        ? "edited"
+        : "approved",
+    decidedBy: "user",
+    approvedArguments: decision.approve ? approvedArguments : undefined,
+    reason: decision.reason,
+  });
+
+  return updated;
+}
+
+/**
+ * Refuse a call that is still awaiting approval, e.g. because nobody
+ * answered in time or the request went away. No-op if it was decided.
+ */
+async function expireToolCall(
+  call: DbToolCall,
+  context: { agentId: string; sessionId: string },
+  reason: string,
+): Promise<void> {
+  const db = getDB();
+  const [expired] = await db
+    .update(toolCalls)
+    .set({
+      status: "error",
+      error: reason,
+      errorCode: "TOOL_APPROVAL_EXPIRED",
+      executedAt: new Date(),
+    })
+    .where(and(eq(toolCalls.id, call.id), eq(toolCalls.status, "awaiting_approval")))
+    .returning({ id: toolCalls.id });
+
+  if (expired) {
+    await recordApprovalDecision({
+      call,
+      ...context,
+      decision: "expired",
+      decidedBy: "timeout",
+      reason,
+    });
+  }
+}
+
+// ─── Waiting ─────────────────────────────────────────────────────────────────
+
+/**
+ * Wait for a decision on a call parked as awaiting_approval. Reads the row
+ * rather than listening for an event so decisions made through any server
+ * process are seen.
+ * @returns The row once decided: "pending" if approved, "error" if not.
+ */
+export async function waitForApproval(
+  call: DbToolCall,
+  context: { agentId: string; sessionId: string },
+  signal?: AbortSignal,
+): Promise<DbToolCall> {
+  const db = getDB();
+  const deadline = Date.now() + TOOL_APPROVAL_TIMEOUT_MS;
+
+  for (;;) {
+    const current = await db.query.toolCalls.findFirst({
+      where: eq(toolCalls.id, call.id),
+    });
+    if (!current) {
+      throw new ToolApprovalError("NOT_FOUND", "Tool call was deleted while awaiting approval");
+    }
+    if (current.status !== "awaiting_approval") return current;
+
+    if (signal?.aborted || Date.now() >= deadline) {
+      await expireToolCall(
+        call,
+        context,
+        signal?.aborted
+          ? "The request ended before the call was approved"
+          : `No decision within ${Math.round(TOOL_APPROVAL_TIMEOUT_MS / 1000)}s`,
+      );
+      // Re-read: a decision may have landed just before the expiry
+      continue;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,252 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MEMORY CONSOLIDATION - Merge Raw Recollections into Short Facts
+//
+// Local-only by design: clustering uses the configured embedding function
+// (Ollama by default) and merging always runs on an Ollama model — the
+// agent's own when it has one, otherwise CONSOLIDATION_MODEL. Raw memories
+// are archived, not deleted, and each fact records the ones it came from.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { and, asc, eq, isNull, lt } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { agentRecollections, agents } from "@/lib/db/schema";
+import type { DbAgent, DbAgentRecollection } from "@/lib/db/schema";
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import { cosineDistance, embedTexts } from "@/lib/ai/vectorStore";
+import { addRecollection, archiveRecollections } from "@/lib/ai/vectorService";
+import {
+  addMemoryConsolidationJob,
+  getConsolidationQueue,
+} from "@/lib/queue/queues";
+import type { MemoryConsolidationResult } from "@/lib/queue/queues";
+import { isRedisConnected } from "@/lib/queue/connection";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+const CONSOLIDATION_MODEL = process.env.CONSOLIDATION_MODEL ?? "ollama/llama3.1";
+
+/** Cosine similarity at which two memories are merged together */
+const SIMILARITY_THRESHOLD = Number.parseFloat(
+  process.env.CONSOLIDATION_SIMILARITY ?? "0.85",
+);
+
+/** Facts scored below this (0–1) are dropped */
+const MIN_IMPORTANCE = Number.parseFloat(
+  process.env.CONSOLIDATION_MIN_IMPORTANCE ?? "0.4",
+);
+
+/** Leave recent memories alone so an ongoing conversation isn't rewritten */
+const MIN_AGE_MS = 60 * 60 * 1000;
+
+/** Raw memories consolidated per run */
+const BATCH_SIZE = 200;
+
+const MAX_CLUSTER_SIZE = 8;
+
+/** Memories longer than this are truncated in the prompt */
+const MAX_MEMORY_CHARS = 1500;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface ConsolidatedFact {
+  fact: string;
+  /** 0–1 */
+  importance: number;
+}
+
+// ─── Model Selection ─────────────────────────────────────────────────────────
+
+/**
+ * The agent's first Ollama model, so consolidation never reaches a cloud
+ * provider.
+ */
+export function resolveConsolidationModel(agent: DbAgent): string {
+  return (
+    [agent.modelPreference, ...agent.modelFallbacks].find(
+      (model) => unifiedGateway.resolveProvider(model) === "ollama",
+    ) ?? CONSOLIDATION_MODEL
+  );
+}
+
+// ─── Clustering ──────────────────────────────────────────────────────────────
+
+/**
+ * Greedy single-pass clustering: each unassigned memory starts a cluster and
+ * pulls in later memories similar enough to it.
+ * @returns Clusters as lists of indexes into `vectors`.
+ */
+export function clusterBySimilarity(
+  vectors: number[][],
+  threshold: number = SIMILARITY_THRESHOLD,
+  maxSize: number = MAX_CLUSTER_SIZE,
+): number[][] {
+  const assigned = new Set<number>();
+  const clusters: number[][] = [];
+
+  for (let i = 0; i < vectors.length; i++) {
+    if (assigned.has(i)) continue;
+    const cluster = [i];
+    assigned.add(i);
+
+    for (let j = i + 1; j < vectors.length && cluster.length < maxSize; j++) {
+      if (assigned.has(j)) continue;
+      if (1 - cosineDistance(vectors[i]!, vectors[j]!) >= threshold) {
+        cluster.push(j);
+        assigned.add(j);
+      }
+    }
+    clusters.push(cluster);
+  }
+
+  return clusters;
+}
+
+// ─── Merging ─────────────────────────────────────────────────────────────────
+
+/**
+ * Ask the model to turn related memories into short standalone facts with
+ * an importance score. Returns null when the reply can't be parsed, so the
+ * memories are left for the next run.
+ */
+async function mergeMemories(
+  model: string,
+  memories: string[],
+): Promise<ConsolidatedFact[] | null> {
+  const numbered = memories
+    .map((memory, i) => `[${i + 1}] ${memory.slice(0, MAX_MEMORY_CHARS)}`)
+    .join("\n\n");
+
+  const response = await unifiedGateway.complete({
+    provider: "ollama",
+    model,
+    temperature: 0.2,
+    maxTokens: 800,
+    messages: [
+      {
+        role: "system",
+        content: [
+          "You maintain an assistant's long-term memory of a user.",
+          "Rewrite the memories below as a few short, standalone facts about the user,",
+          "their work, their preferences, and decisions made. Merge duplicates.",
+          "Leave out small talk, greetings, and anything not worth remembering.",
+          "Score each fact's importance from 0 (trivial) to 10 (essential).",
+          'Reply with only JSON: {"facts": [{"fact": "...", "importance": 7}]}',
+        ].join(" "),
+      },
+      { role: "user", content: `Memories:\n${numbered}` },
+    ],
+  });
+
+  const json = response.content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json) as { facts?: unknown };
+    if (!Array.isArray(parsed.facts)) return null;
+
+    return parsed.facts.flatMap((entry): ConsolidatedFact[] => {
+      const { fact, importance } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof fact !== "string" || !fact.trim()) return [];
+      const score = typeof importance === "number" ? importance : 0;
+      return [{ fact: fact.trim(), importance: Math.min(Math.max(score / 10, 0), 1) }];
+    });
+  } catch {
+    return null;
+  }
+}
+
+// ─── Consolidation ───────────────────────────────────────────────────────────
+
+/**
+ * Consolidate an agent's older raw recollections. Pinned memories are never
+ * touched.
+ */
+export async function consolidateAgentMemories(
+  agentId: string,
+): Promise<MemoryConsolidationResult> {
+  const result: MemoryConsolidationResult = { agentId, archived: 0, created: 0, dropped: 0 };
+  const db = getDB();
+
+  const agent = await db.query.agents.findFirst({ where: eq(agents.id, agentId) });
+  if (!agent) return result;
+
+  const rows = await db.query.agentRecollections.findMany({
+    where: and(
+      eq(agentRecollections.agentId, agentId),
+      eq(agentRecollections.kind, "raw"),
+      eq(agentRecollections.isPinned, false),
+      isNull(agentRecollections.archivedAt),
+      lt(agentRecollections.createdAt, new Date(Date.now() - MIN_AGE_MS)),
+    ),
+    orderBy: [asc(agentRecollections.createdAt)],
+    limit: BATCH_SIZE,
+  });
+  if (rows.length === 0) return result;
+
+  const model = resolveConsolidationModel(agent);
+  const vectors = await embedTexts(rows.map((row) => row.content));
+  const clusters = clusterBySimilarity(vectors);
+
+  for (const indexes of clusters) {
+    const cluster: DbAgentRecollection[] = indexes.map((i) => rows[i]!);
+
+    let facts: ConsolidatedFact[] | null;
+    try {
+      facts = await mergeMemories(model, cluster.map((row) => row.content));
+    } catch (error) {
+      console.error(`[Consolidation] Merge failed for agent ${agentId}:`, error);
+      facts = null;
+    }
+    if (!facts) continue;
+
+    const kept = facts.filter((fact) => fact.importance >= MIN_IMPORTANCE);
+    for (const fact of kept) {
+      await addRecollection({
+        agentId,
+        content: fact.fact,
+        kind: "consolidated",
+        importance: fact.importance,
+        sourceIds: cluster.map((row) => row.id),
+      });
+    }
+
+    await archiveRecollections(cluster);
+    result.archived += cluster.length;
+    result.created += kept.length;
+    result.dropped += facts.length - kept.length;
+  }
+
+  console.log(
+    `[Consolidation] Agent ${agentId}: ${result.archived} archived, ` +
+      `${result.created} created, ${result.dropped} dropped`,
+  );
+  return result;
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────────────
+
+/**
+ * Consolidate an agent's memories now: through the worker when one is
+ * running, otherwise in-process in the background.
+ * @returns Whether the job was queued.
+ */
+export async function requestMemoryConsolidation(agentId: string): Promise<boolean> {
+  let hasWorker = false;
+  if (isRedisConnected()) {
+    try {
+      hasWorker = (await getConsolidationQueue().getWorkersCount()) > 0;
+    } catch {
+      hasWorker = false;
+    }
+  }
+
+  if (hasWorker) {
+    await addMemoryConsolidationJob({ agentId });
+    return true;
+  }
+
+  void consolidateAgentMemories(agentId).catch((error) => {
+    console.error(`[Consolidation] Failed for agent ${agentId}:`, error);
+  });
+  return false;
+}
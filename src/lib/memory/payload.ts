@@ -0,0 +1,39 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MEMORY PAYLOADS - Request Validation for /api/agents/[agentId]/memories
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod";
+
+// ─── Validation Schemas ──────────────────────────────────────────────────────
+
+const memoryContentSchema = z.string().trim().min(1).max(20000);
+
+export const listMemoriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  pinned: z.enum(["true", "false"]).optional(),
+  /** "true" lists the raw memories consolidation archived */
+  archived: z.enum(["true", "false"]).default("false"),
+});
+
+export const searchMemoriesSchema = z.object({
+  query: z.string().min(1).max(2000),
+  nResults: z.number().int().min(1).max(50).default(10),
+  rerank: z.boolean().default(true),
+});
+
+export const updateMemorySchema = z
+  .object({
+    content: memoryContentSchema.optional(),
+    isPinned: z.boolean().optional(),
+  })
+  .refine((data) => data.content !== undefined || data.isPinned !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const forgetMemoriesSchema = z.object({
+  query: z.string().min(1).max(2000),
+  maxDistance: z.number().min(0).max(2).optional(),
+  includePinned: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+});
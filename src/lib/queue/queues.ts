@@ -5,7 +5,7 @@
 // Next.js API route module from crashing on import if Redis is unavailable.
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { Queue } from "bullmq";
+import { Job, Queue, QueueEvents } from "bullmq";
 import type { JobsOptions } from "bullmq";
 import { getRedisConnection } from "./connection";
 
@@ -15,6 +15,8 @@ export const QUEUE_NAMES = {
   TOOL_EXECUTION: "tool-execution",
   SWARM_EXECUTION: "swarm-execution",
   KNOWLEDGE_INDEXING: "knowledge-indexing",
+  MEMORY_CONSOLIDATION: "memory-consolidation",
+  SESSION_SUMMARY: "session-summary",
   NOTIFICATION: "notification",
 } as const;
 
@@ -30,6 +32,14 @@ export interface ToolExecutionJob {
   requestId: string;
 }
 
+export interface ToolExecutionResult {
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  errorCode?: string;
+  executionTimeMs: number;
+}
+
 export interface SwarmExecutionJob {
   swarmId: string;
   sessionId: string;
@@ -48,6 +58,43 @@ export interface KnowledgeIndexingJob {
   chunkOverlap: number;
 }
 
+export interface KnowledgeIndexingResult {
+  docId: string;
+  vectorCount: number;
+}
+
+/**
+ * Consolidate one agent's raw recollections. A job without an agentId
+ * refreshes the per-agent schedules instead.
+ */
+export interface MemoryConsolidationJob {
+  agentId?: string;
+}
+
+export interface MemoryConsolidationResult {
+  agentId?: string;
+  /** Raw recollections archived (merged or dropped) */
+  archived: number;
+  /** Consolidated memories written */
+  created: number;
+  /** Facts dropped for low importance */
+  dropped: number;
+}
+
+/**
+ * Fold a chat session's messages that have left the history window into
+ * its rolling summary.
+ */
+export interface SessionSummaryJob {
+  sessionId: string;
+}
+
+export interface SessionSummaryResult {
+  sessionId: string;
+  /** Messages folded into the summary */
+  summarized: number;
+}
+
 export interface NotificationJob {
   type: "tool_complete" | "swarm_complete" | "agent_message";
   userId: string;
@@ -59,6 +106,8 @@ export type JobData =
   | { type: "tool"; data: ToolExecutionJob }
   | { type: "swarm"; data: SwarmExecutionJob }
   | { type: "indexing"; data: KnowledgeIndexingJob }
+  | { type: "consolidation"; data: MemoryConsolidationJob }
+  | { type: "summary"; data: SessionSummaryJob }
   | { type: "notification"; data: NotificationJob };
 
 // ─── Lazy Queue Singletons ───────────────────────────────────────────────────
@@ -66,7 +115,10 @@ export type JobData =
 let _toolQueue: Queue<ToolExecutionJob> | null = null;
 let _swarmQueue: Queue<SwarmExecutionJob> | null = null;
 let _indexingQueue: Queue<KnowledgeIndexingJob> | null = null;
+let _consolidationQueue: Queue<MemoryConsolidationJob> | null = null;
+let _summaryQueue: Queue<SessionSummaryJob> | null = null;
 let _notificationQueue: Queue<NotificationJob> | null = null;
+let _toolQueueEvents: QueueEvents | null = null;
 
 export function getToolQueue(): Queue<ToolExecutionJob> {
   if (!_toolQueue) {
@@ -83,6 +135,19 @@ export function getToolQueue(): Queue<ToolExecutionJob> {
   return _toolQueue;
 }
 
+/**
+ * Completion events for the tool queue. QueueEvents issues blocking reads,
+ * so it gets its own duplicated connection.
+ */
+export function getToolQueueEvents(): QueueEvents {
+  if (!_toolQueueEvents) {
+    _toolQueueEvents = new QueueEvents(QUEUE_NAMES.TOOL_EXECUTION, {
+      connection: getRedisConnection().duplicate(),
+    });
+  }
+  return _toolQueueEvents;
+}
+
 export function getSwarmQueue(): Queue<SwarmExecutionJob> {
   if (!_swarmQueue) {
     _swarmQueue = new Queue<SwarmExecutionJob>(QUEUE_NAMES.SWARM_EXECUTION, {
@@ -115,6 +180,39 @@ export function getIndexingQueue(): Queue<KnowledgeIndexingJob> {
   return _indexingQueue;
 }
 
+export function getConsolidationQueue(): Queue<MemoryConsolidationJob> {
+  if (!_consolidationQueue) {
+    _consolidationQueue = new Queue<MemoryConsolidationJob>(
+      QUEUE_NAMES.MEMORY_CONSOLIDATION,
+      {
+        connection: getRedisConnection(),
+        defaultJobOptions: {
+          attempts: 2,
+          backoff: { type: "fixed", delay: 60000 },
+          removeOnComplete: 50,
+          removeOnFail: 20,
+        },
+      },
+    );
+  }
+  return _consolidationQueue;
+}
+
+export function getSummaryQueue(): Queue<SessionSummaryJob> {
+  if (!_summaryQueue) {
+    _summaryQueue = new Queue<SessionSummaryJob>(QUEUE_NAMES.SESSION_SUMMARY, {
+      connection: getRedisConnection(),
+      defaultJobOptions: {
+        attempts: 2,
+        backoff: { type: "fixed", delay: 30000 },
+        removeOnComplete: true,
+        removeOnFail: 20,
+      },
+    });
+  }
+  return _summaryQueue;
+}
+
 export function getNotificationQueue(): Queue<NotificationJob> {
   if (!_notificationQueue) {
     _notificationQueue = new Queue<NotificationJob>(QUEUE_NAMES.NOTIFICATION, {
@@ -143,6 +241,24 @@ export async function addToolExecutionJob(
   return job.id ?? "";
 }
 
+/**
+ * Wait for a queued tool execution to finish and return the worker's result.
+ * Rejects if the job fails permanently or does not finish within `timeoutMs`.
+ */
+export async function waitForToolExecutionJob(
+  jobId: string,
+  timeoutMs: number,
+): Promise<ToolExecutionResult> {
+  const job = await Job.fromId<ToolExecutionJob, ToolExecutionResult>(
+    getToolQueue(),
+    jobId,
+  );
+  if (!job) {
+    throw new Error(`Tool execution job ${jobId} not found`);
+  }
+  return job.waitUntilFinished(getToolQueueEvents(), timeoutMs);
+}
+
 export async function addSwarmExecutionJob(
   data: SwarmExecutionJob,
   options?: JobsOptions,
@@ -165,6 +281,33 @@ export async function addKnowledgeIndexingJob(
   return job.id ?? "";
 }
 
+export async function addMemoryConsolidationJob(
+  data: MemoryConsolidationJob,
+  options?: JobsOptions,
+): Promise<string> {
+  const job = await getConsolidationQueue().add("consolidate-memories", data, {
+    priority: 20,
+    ...options,
+  });
+  return job.id ?? "";
+}
+
+/**
+ * Queue a summary update. Jobs are keyed by session, so a session already
+ * waiting to be summarized isn't queued twice.
+ */
+export async function addSessionSummaryJob(
+  data: SessionSummaryJob,
+  options?: JobsOptions,
+): Promise<string> {
+  const job = await getSummaryQueue().add("summarize-session", data, {
+    priority: 15,
+    jobId: `summary-${data.sessionId}`,
+    ...options,
+  });
+  return job.id ?? "";
+}
+
 export async function addNotificationJob(
   data: NotificationJob,
   options?: JobsOptions,
@@ -187,6 +330,18 @@ export async function getQueueStatus(): Promise<{
     completed: number;
     failed: number;
   };
+  consolidation: {
+    waiting: number;
+    active: number;
+    completed: number;
+    failed: number;
+  };
+  summary: {
+    waiting: number;
+    active: number;
+    completed: number;
+    failed: number;
+  };
   notification: {
     waiting: number;
     active: number;
@@ -197,9 +352,11 @@ export async function getQueueStatus(): Promise<{
   const tq = getToolQueue();
   const sq = getSwarmQueue();
   const iq = getIndexingQueue();
+  const cq = getConsolidationQueue();
+  const mq = getSummaryQueue();
   const nq = getNotificationQueue();
 
-  const [tw, ta, tc, tf, sw, sa, sc, sf, iw, ia, ic, iff, nw, na, nc, nf] =
+  const [tw, ta, tc, tf, sw, sa, sc, sf, iw, ia, ic, iff, cw, ca, cc, cf, mw, ma, mc, mf, nw, na, nc, nf] =
     await Promise.all([
       tq.getWaitingCount(),
       tq.getActiveCount(),
@@ -213,6 +370,14 @@ export async function getQueueStatus(): Promise<{
       iq.getActiveCount(),
       iq.getCompletedCount(),
       iq.getFailedCount(),
+      cq.getWaitingCount(),
+      cq.getActiveCount(),
+      cq.getCompletedCount(),
+      cq.getFailedCount(),
+      mq.getWaitingCount(),
+      mq.getActiveCount(),
+      mq.getCompletedCount(),
+      mq.getFailedCount(),
       nq.getWaitingCount(),
       nq.getActiveCount(),
       nq.getCompletedCount(),
@@ -223,15 +388,28 @@ export async function getQueueStatus(): Promise<{
     tool: { waiting: tw, active: ta, completed: tc, failed: tf },
     swarm: { waiting: sw, active: sa, completed: sc, failed: sf },
     indexing: { waiting: iw, active: ia, completed: ic, failed: iff },
+    consolidation: { waiting: cw, active: ca, completed: cc, failed: cf },
+    summary: { waiting: mw, active: ma, completed: mc, failed: mf },
     notification: { waiting: nw, active: na, completed: nc, failed: nf },
   };
 }
 
 export async function closeQueues(): Promise<void> {
-  const queues = [_toolQueue, _swarmQueue, _indexingQueue, _notificationQueue];
+  const queues = [
+    _toolQueue,
+    _swarmQueue,
+    _indexingQueue,
+    _consolidationQueue,
+    _summaryQueue,
+    _notificationQueue,
+  ];
   await Promise.all(queues.filter(Boolean).map((q) => q!.close()));
+  await _toolQueueEvents?.close();
+  _toolQueueEvents = null;
   _toolQueue = null;
   _swarmQueue = null;
   _indexingQueue = null;
+  _consolidationQueue = null;
+  _summaryQueue = null;
   _notificationQueue = null;
 }
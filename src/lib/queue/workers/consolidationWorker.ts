@@ -0,0 +1,163 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSOLIDATION WORKER - Scheduled Memory Consolidation via BullMQ
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Worker, Job } from "bullmq";
+import { and, eq, ne } from "drizzle-orm";
+import { getRedisConnection } from "../connection";
+import { QUEUE_NAMES, getConsolidationQueue } from "../queues";
+import type { MemoryConsolidationJob, MemoryConsolidationResult } from "../queues";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import { consolidateAgentMemories } from "@/lib/memory/consolidation";
+
+/** How often each agent's memories are consolidated */
+const CONSOLIDATION_INTERVAL_MS = Number(
+  process.env.CONSOLIDATION_INTERVAL_MS ?? 6 * 60 * 60 * 1000
+);
+
+/** How often schedules are refreshed to pick up new and deleted agents */
+const SCHEDULE_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+const AGENT_SCHEDULER_PREFIX = "consolidate:";
+const SYNC_SCHEDULER_ID = "consolidation-sync";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let consolidationWorker: Worker<
+  MemoryConsolidationJob,
+  MemoryConsolidationResult
+> | null = null;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SCHEDULING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Give every active agent a repeating consolidation job and remove the
+ * schedules of agents that no longer exist.
+ */
+export async function syncConsolidationSchedules(): Promise<void> {
+  const queue = getConsolidationQueue();
+
+  const activeAgents = await getDB().query.agents.findMany({
+    where: and(eq(agents.isTemplate, false), ne(agents.status, "archived")),
+    columns: { id: true },
+  });
+  const wanted = new Set(activeAgents.map((a) => `${AGENT_SCHEDULER_PREFIX}${a.id}`));
+
+  for (const agent of activeAgents) {
+    await queue.upsertJobScheduler(
+      `${AGENT_SCHEDULER_PREFIX}${agent.id}`,
+      { every: CONSOLIDATION_INTERVAL_MS },
+      { name: "consolidate-memories", data: { agentId: agent.id } }
+    );
+  }
+
+  // Scheduler keys are the IDs passed to upsertJobScheduler
+  for (const { key } of await queue.getJobSchedulers()) {
+    if (key.startsWith(AGENT_SCHEDULER_PREFIX) && !wanted.has(key)) {
+      await queue.removeJobScheduler(key);
+    }
+  }
+
+  await queue.upsertJobScheduler(
+    SYNC_SCHEDULER_ID,
+    { every: SCHEDULE_SYNC_INTERVAL_MS },
+    { name: "sync-schedules", data: {} }
+  );
+
+  console.log(`[ConsolidationWorker] Scheduled ${activeAgents.length} agents`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JOB PROCESSOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process a consolidation job, or a schedule refresh when no agent is given.
+ */
+async function processConsolidationJob(
+  job: Job<MemoryConsolidationJob, MemoryConsolidationResult>
+): Promise<MemoryConsolidationResult> {
+  const { agentId } = job.data;
+
+  if (!agentId) {
+    await syncConsolidationSchedules();
+    return { archived: 0, created: 0, dropped: 0 };
+  }
+
+  console.log(`[ConsolidationWorker] Consolidating agent ${agentId} (job: ${job.id})`);
+  return consolidateAgentMemories(agentId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create and start the consolidation worker.
+ */
+export function createConsolidationWorker(
+  concurrency: number = 1
+): Worker<MemoryConsolidationJob, MemoryConsolidationResult> {
+  if (consolidationWorker) {
+    return consolidationWorker;
+  }
+
+  consolidationWorker = new Worker<MemoryConsolidationJob, MemoryConsolidationResult>(
+    QUEUE_NAMES.MEMORY_CONSOLIDATION,
+    processConsolidationJob,
+    {
+      connection: getRedisConnection(),
+      concurrency,
+    }
+  );
+
+  // Event handlers
+  consolidationWorker.on("completed", (job) => {
+    console.log(`[ConsolidationWorker] Job ${job.id} completed`);
+  });
+
+  consolidationWorker.on("failed", (job, error) => {
+    console.error(`[ConsolidationWorker] Job ${job?.id} failed:`, error.message);
+  });
+
+  consolidationWorker.on("error", (error) => {
+    console.error("[ConsolidationWorker] Worker error:", error);
+  });
+
+  console.log(`[ConsolidationWorker] Started with concurrency ${concurrency}`);
+
+  return consolidationWorker;
+}
+
+/**
+ * Get the current consolidation worker instance.
+ */
+export function getConsolidationWorker(): Worker<
+  MemoryConsolidationJob,
+  MemoryConsolidationResult
+> | null {
+  return consolidationWorker;
+}
+
+/**
+ * Stop the consolidation worker.
+ */
+export async function stopConsolidationWorker(): Promise<void> {
+  if (consolidationWorker) {
+    await consolidationWorker.close();
+    consolidationWorker = null;
+    console.log("[ConsolidationWorker] Stopped");
+  }
+}
+
+/**
+ * Check if the consolidation worker is running.
+ */
+export function isConsolidationWorkerRunning(): boolean {
+  return consolidationWorker !== null;
+}
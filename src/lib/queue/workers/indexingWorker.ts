@@ -0,0 +1,202 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// INDEXING WORKER - Background Knowledge Document Indexing via BullMQ
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Worker, Job } from "bullmq";
+import { eq } from "drizzle-orm";
+import { getRedisConnection } from "../connection";
+import { QUEUE_NAMES } from "../queues";
+import type { KnowledgeIndexingJob, KnowledgeIndexingResult } from "../queues";
+import { getDB } from "@/lib/db/client";
+import { knowledgeDocs } from "@/lib/db/schema";
+import { getVectorStore } from "@/lib/ai/vectorStore";
+import { indexKnowledgeChunks } from "@/lib/ai/lexicalIndex";
+import {
+  chunkText,
+  extractDocumentText,
+  knowledgeCollectionName,
+} from "@/lib/knowledge/ingestion";
+
+/** Chunks embedded and written per vector store call */
+const EMBED_BATCH_SIZE = 64;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let indexingWorker: Worker<KnowledgeIndexingJob, KnowledgeIndexingResult> | null = null;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JOB PROCESSOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process a knowledge indexing job.
+ */
+async function processIndexingJob(
+  job: Job<KnowledgeIndexingJob, KnowledgeIndexingResult>
+): Promise<KnowledgeIndexingResult> {
+  console.log(`[IndexingWorker] Indexing document ${job.data.docId} (job: ${job.id})`);
+
+  return indexKnowledgeDocument(job.data, (percentComplete) =>
+    job.updateProgress({ percentComplete })
+  );
+}
+
+/**
+ * Extract, chunk, and embed a document into its owner's collection, moving
+ * the document through indexing → ready, or to error on failure. Shared by
+ * the queue worker and the upload route when no queue is available.
+ * Throws on failure so BullMQ can retry the job.
+ */
+export async function indexKnowledgeDocument(
+  data: KnowledgeIndexingJob,
+  reportProgress: (percentComplete: number) => Promise<void> = async () => {}
+): Promise<KnowledgeIndexingResult> {
+  const { docId, ownerId, filePath, fileType, chunkSize, chunkOverlap } = data;
+  const db = getDB();
+
+  try {
+    await db
+      .update(knowledgeDocs)
+      .set({ status: "indexing", errorMessage: null, updatedAt: new Date() })
+      .where(eq(knowledgeDocs.id, docId));
+
+    const text = await extractDocumentText(filePath, fileType);
+    const chunks = chunkText(text, chunkSize, chunkOverlap);
+    if (chunks.length === 0) {
+      throw new Error("No text could be extracted from the document");
+    }
+
+    const doc = await db.query.knowledgeDocs.findFirst({
+      where: eq(knowledgeDocs.id, docId),
+    });
+    const store = await getVectorStore();
+    const collection = knowledgeCollectionName(ownerId);
+
+    // Clear vectors from an earlier attempt so retries don't leave duplicates
+    await store.delete(collection, { where: { docId } });
+
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      await store.add(
+        collection,
+        batch.map((chunk, offset) => ({
+          id: `${docId}_${i + offset}`,
+          document: chunk,
+          metadata: {
+            docId,
+            ownerId,
+            chunkIndex: i + offset,
+            source: doc?.originalName ?? docId,
+          },
+        }))
+      );
+      await reportProgress(Math.round(((i + batch.length) / chunks.length) * 100));
+    }
+
+    // Mirror into FTS5 for the lexical half of hybrid search
+    indexKnowledgeChunks(
+      docId,
+      chunks.map((content, chunkIndex) => ({
+        id: `${docId}_${chunkIndex}`,
+        docId,
+        ownerId,
+        chunkIndex,
+        content,
+      }))
+    );
+
+    await db
+      .update(knowledgeDocs)
+      .set({
+        status: "ready",
+        vectorCount: chunks.length,
+        indexedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(knowledgeDocs.id, docId));
+
+    console.log(`[IndexingWorker] Indexed ${docId}: ${chunks.length} chunks`);
+    return { docId, vectorCount: chunks.length };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Indexing failed";
+    console.error(`[IndexingWorker] Failed to index ${docId}:`, errorMessage);
+
+    await db
+      .update(knowledgeDocs)
+      .set({ status: "error", errorMessage, updatedAt: new Date() })
+      .where(eq(knowledgeDocs.id, docId));
+
+    throw error;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create and start the indexing worker.
+ */
+export function createIndexingWorker(
+  concurrency: number = 1
+): Worker<KnowledgeIndexingJob, KnowledgeIndexingResult> {
+  if (indexingWorker) {
+    return indexingWorker;
+  }
+
+  indexingWorker = new Worker<KnowledgeIndexingJob, KnowledgeIndexingResult>(
+    QUEUE_NAMES.KNOWLEDGE_INDEXING,
+    processIndexingJob,
+    {
+      connection: getRedisConnection(),
+      concurrency,
+    }
+  );
+
+  // Event handlers
+  indexingWorker.on("completed", (job) => {
+    console.log(`[IndexingWorker] Job ${job.id} completed`);
+  });
+
+  indexingWorker.on("failed", (job, error) => {
+    console.error(`[IndexingWorker] Job ${job?.id} failed:`, error.message);
+  });
+
+  indexingWorker.on("error", (error) => {
+    console.error("[IndexingWorker] Worker error:", error);
+  });
+
+  console.log(`[IndexingWorker] Started with concurrency ${concurrency}`);
+
+  return indexingWorker;
+}
+
+/**
+ * Get the current indexing worker instance.
+ */
+export function getIndexingWorker(): Worker<
+  KnowledgeIndexingJob,
+  KnowledgeIndexingResult
+> | null {
+  return indexingWorker;
+}
+
+/**
+ * Stop the indexing worker.
+ */
+export async function stopIndexingWorker(): Promise<void> {
+  if (indexingWorker) {
+    await indexingWorker.close();
+    indexingWorker = null;
+    console.log("[IndexingWorker] Stopped");
+  }
+}
+
+/**
+ * Check if the indexing worker is running.
+ */
+export function isIndexingWorkerRunning(): boolean {
+  return indexingWorker !== null;
+}
@@ -0,0 +1,102 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SUMMARY WORKER - Rolling Chat Session Summaries via BullMQ
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Worker, Job } from "bullmq";
+import { getRedisConnection } from "../connection";
+import { QUEUE_NAMES } from "../queues";
+import type { SessionSummaryJob, SessionSummaryResult } from "../queues";
+import { summarizeSession } from "@/lib/chat/summary";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let summaryWorker: Worker<SessionSummaryJob, SessionSummaryResult> | null = null;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JOB PROCESSOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process a session summary job.
+ */
+async function processSummaryJob(
+  job: Job<SessionSummaryJob, SessionSummaryResult>
+): Promise<SessionSummaryResult> {
+  const { sessionId } = job.data;
+
+  console.log(`[SummaryWorker] Summarizing session ${sessionId} (job: ${job.id})`);
+  return summarizeSession(sessionId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create and start the summary worker.
+ */
+export function createSummaryWorker(
+  concurrency: number = 1
+): Worker<SessionSummaryJob, SessionSummaryResult> {
+  if (summaryWorker) {
+    return summaryWorker;
+  }
+
+  summaryWorker = new Worker<SessionSummaryJob, SessionSummaryResult>(
+    QUEUE_NAMES.SESSION_SUMMARY,
+    processSummaryJob,
+    {
+      connection: getRedisConnection(),
+      concurrency,
+    }
+  );
+
+  // Event handlers
+  summaryWorker.on("completed", (job, result) => {
+    console.log(
+      `[SummaryWorker] Job ${job.id} completed: ${result.summarized} messages summarized`
+    );
+  });
+
+  summaryWorker.on("failed", (job, error) => {
+    console.error(`[SummaryWorker] Job ${job?.id} failed:`, error.message);
+  });
+
+  summaryWorker.on("error", (error) => {
+    console.error("[SummaryWorker] Worker error:", error);
+  });
+
+  console.log(`[SummaryWorker] Started with concurrency ${concurrency}`);
+
+  return summaryWorker;
+}
+
+/**
+ * Get the current summary worker instance.
+ */
+export function getSummaryWorker(): Worker<
+  SessionSummaryJob,
+  SessionSummaryResult
+> | null {
+  return summaryWorker;
+}
+
+/**
+ * Stop the summary worker.
+ */
+export async function stopSummaryWorker(): Promise<void> {
+  if (summaryWorker) {
+    await summaryWorker.close();
+    summaryWorker = null;
+    console.log("[SummaryWorker] Stopped");
+  }
+}
+
+/**
+ * Check if the summary worker is running.
+ */
+export function isSummaryWorkerRunning(): boolean {
+  return summaryWorker !== null;
+}
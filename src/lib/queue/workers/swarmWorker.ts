@@ -0,0 +1,137 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM WORKER - Background Swarm Execution via BullMQ
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Worker, Job } from "bullmq";
+import { getRedisConnection } from "../connection";
+import { QUEUE_NAMES } from "../queues";
+import type { SwarmExecutionJob } from "../queues";
+import { SwarmEngine } from "@/lib/swarm/SwarmEngine";
+import type { SwarmExecutionResult } from "@/types/swarm";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let swarmWorker: Worker<SwarmExecutionJob, SwarmExecutionResult> | null = null;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JOB PROCESSOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process a swarm execution job.
+ */
+async function processSwarmJob(
+  job: Job<SwarmExecutionJob, SwarmExecutionResult>
+): Promise<SwarmExecutionResult> {
+  const {
+    swarmId,
+    sessionId,
+    userMessage,
+    entryAgentId,
+    executionId,
+    maxIterations,
+  } = job.data;
+
+  console.log(`[SwarmWorker] Starting swarm ${swarmId} (execution: ${executionId})`);
+
+  const engine = await SwarmEngine.load(swarmId, {
+    onProgress: async (execution) => {
+      await job.updateProgress({
+        executionId,
+        status: execution.status,
+        currentAgentId: execution.currentAgentId,
+        iterationCount: execution.iterationCount,
+        handoffCount: execution.executionLog.length,
+      });
+    },
+  });
+
+  const result = await engine.execute({
+    executionId,
+    sessionId,
+    userMessage,
+    entryAgentId,
+    maxIterations,
+  });
+
+  if (result.success) {
+    console.log(
+      `[SwarmWorker] Completed: ${swarmId} (${result.totalIterations} iterations, ${result.handoffs.length} handoffs, ${result.executionTimeMs}ms)`
+    );
+  } else {
+    console.error(`[SwarmWorker] Failed: ${swarmId} - ${result.error}`);
+  }
+
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create and start the swarm worker.
+ */
+export function createSwarmWorker(
+  concurrency: number = 2
+): Worker<SwarmExecutionJob, SwarmExecutionResult> {
+  if (swarmWorker) {
+    return swarmWorker;
+  }
+
+  swarmWorker = new Worker<SwarmExecutionJob, SwarmExecutionResult>(
+    QUEUE_NAMES.SWARM_EXECUTION,
+    processSwarmJob,
+    {
+      connection: getRedisConnection(),
+      concurrency,
+    }
+  );
+
+  // Event handlers
+  swarmWorker.on("completed", (job) => {
+    console.log(`[SwarmWorker] Job ${job.id} completed`);
+  });
+
+  swarmWorker.on("failed", (job, error) => {
+    console.error(`[SwarmWorker] Job ${job?.id} failed:`, error.message);
+  });
+
+  swarmWorker.on("error", (error) => {
+    console.error("[SwarmWorker] Worker error:", error);
+  });
+
+  console.log(`[SwarmWorker] Started with concurrency ${concurrency}`);
+
+  return swarmWorker;
+}
+
+/**
+ * Get the current swarm worker instance.
+ */
+export function getSwarmWorker(): Worker<
+  SwarmExecutionJob,
+  SwarmExecutionResult
+> | null {
+  return swarmWorker;
+}
+
+/**
+ * Stop the swarm worker.
+ */
+export async function stopSwarmWorker(): Promise<void> {
+  if (swarmWorker) {
+    await swarmWorker.close();
+    swarmWorker = null;
+    console.log("[SwarmWorker] Stopped");
+  }
+}
+
+/**
+ * Check if the swarm worker is running.
+ */
+export function isSwarmWorkerRunning(): boolean {
+  return swarmWorker !== null;
+}
@@ -5,7 +5,7 @@
 import { Worker, Job } from "bullmq";
 import { getRedisConnection } from "../connection";
 import { QUEUE_NAMES } from "../queues";
-import type { ToolExecutionJob } from "../queues";
+import type { ToolExecutionJob, ToolExecutionResult } from "../queues";
 import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
 import { getDB } from "@/lib/db/client";
 import { toolCalls, messages, mcpTools } from "@/lib/db/schema";
@@ -26,12 +26,25 @@ let toolWorker: Worker<ToolExecutionJob> | null = null;
  */
 async function processToolJob(
   job: Job<ToolExecutionJob>
-): Promise<{
-  success: boolean;
-  result?: unknown;
-  error?: string;
-  executionTimeMs: number;
-}> {
+): Promise<ToolExecutionResult> {
+  console.log(`[ToolWorker] Starting execution: ${job.data.toolName} (job: ${job.id})`);
+
+  return executeToolJob(job.data, (progress) => job.updateProgress(progress));
+}
+
+/**
+ * Run a tool call and record the outcome on its tool_calls row. Shared by the
+ * queue worker and the chat tool loop's inline fallback (no worker running).
+ * Throws when the tool could not be reached so BullMQ can retry the job.
+ */
+export async function executeToolJob(
+  data: ToolExecutionJob,
+  reportProgress: (progress: {
+    status: string;
+    message?: string;
+    percentComplete?: number;
+  }) => Promise<void> = async () => {}
+): Promise<ToolExecutionResult> {
   const {
     toolCallId,
     serverId,
@@ -39,19 +52,31 @@ async function processToolJob(
     arguments: toolArgs,
     sessionId,
     messageId,
-    requestId,
-  } = job.data;
+  } = data;
 
   const startTime = Date.now();
 
-  console.log(`[ToolWorker] Starting execution: ${toolName} (job: ${job.id})`);
+  // Calls waiting on the user never run, however the job got queued
+  const record = await getDB().query.toolCalls.findFirst({
+    where: eq(toolCalls.id, toolCallId),
+    columns: { status: true },
+  });
+  if (record?.status === "awaiting_approval") {
+    console.error(`[ToolWorker] Refused: ${toolName} is awaiting approval`);
+    return {
+      success: false,
+      error: "Tool call is awaiting approval",
+      errorCode: "TOOL_APPROVAL_REQUIRED",
+      executionTimeMs: 0,
+    };
+  }
 
   try {
     // 1. Update tool call status to "running"
     await updateToolCallStatus(toolCallId, "running");
 
     // 2. Report progress
-    await job.updateProgress({
+    await reportProgress({
       status: "started",
       message: `Executing ${toolName}...`,
       percentComplete: 10,
@@ -63,7 +88,7 @@ async function processToolJob(
       throw new Error(`MCP server ${serverId} is not available`);
     }
 
-    await job.updateProgress({
+    await reportProgress({
       status: "in_progress",
       message: `Connected to server, calling ${toolName}...`,
       percentComplete: 30,
@@ -74,19 +99,22 @@ async function processToolJob(
       serverId,
       toolName,
       toolArgs,
-      async (progress) => {
-        await job.updateProgress({
-          status: progress.status,
-          message: progress.message,
-          percentComplete: progress.percentComplete
-            ? 30 + progress.percentComplete * 0.6
-            : undefined,
-        });
+      {
+        sessionId,
+        onProgress: async (progress) => {
+          await reportProgress({
+            status: progress.status,
+            message: progress.message,
+            percentComplete: progress.percentComplete
+              ? 30 + progress.percentComplete * 0.6
+              : undefined,
+          });
+        },
       }
     );
 
     // 5. Update tool call with result
-    await job.updateProgress({
+    await reportProgress({
       status: "completed",
       message: "Updating database...",
       percentComplete: 95,
@@ -115,7 +143,8 @@ async function processToolJob(
       await updateToolCallError(
         toolCallId,
         result.error ?? "Unknown error",
-        result.executionTimeMs
+        result.executionTimeMs,
+        result.errorCode
       );
 
       await updateMessageToolStatus(messageId, toolCallId, "error", result.error);
@@ -125,6 +154,7 @@ async function processToolJob(
       return {
         success: false,
         error: result.error,
+        errorCode: result.errorCode,
         executionTimeMs: result.executionTimeMs,
       };
     }
@@ -214,7 +244,8 @@ async function updateToolCallSuccess(
 async function updateToolCallError(
   toolCallId: string,
   errorMessage: string,
-  _executionTimeMs: number
+  _executionTimeMs: number,
+  errorCode?: string
 ): Promise<void> {
   try {
     const db = getDB();
@@ -223,6 +254,7 @@ async function updateToolCallError(
       .set({
         status: "error",
         error: errorMessage,
+        errorCode: errorCode ?? null,
         executedAt: new Date(),
       })
       .where(eq(toolCalls.id, toolCallId));
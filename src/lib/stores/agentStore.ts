@@ -363,6 +363,7 @@ export const useAgentStore = create<AgentStore>()(
             systemPrompt: agent.systemPrompt,
             temperature: agent.temperature,
             modelPreference: agent.modelPreference,
+            modelFallbacks: agent.modelFallbacks,
             voiceId: agent.voiceId ?? undefined,
           };
 
@@ -412,6 +413,7 @@ export const useAgentStore = create<AgentStore>()(
                   systemPrompt: agent.systemPrompt,
                   temperature: agent.temperature,
                   modelPreference: agent.modelPreference,
+                  modelFallbacks: agent.modelFallbacks,
                   voiceId: agent.voiceId ?? undefined,
                 };
               }
@@ -11,10 +11,14 @@ import type {
   ChatSessionType,
   Message,
   MessageWithUIState,
+  MessageResourceRef,
+  SessionSummaryResponse,
   CreateSessionPayload,
   SendMessagePayload,
   StreamChunk,
+  PendingToolApproval,
 } from "@/types/chat";
+import type { ToolApprovalDecisionPayload } from "@/types/tool";
 import type { Agent } from "@/types/agent";
 import type { SwarmDef } from "@/types/swarm";
 
@@ -30,6 +34,8 @@ interface StreamState {
   messageId: string | null;
   sessionId: string | null;
   error: string | null;
+  /** Agent currently speaking (swarm sessions switch agents mid-stream) */
+  agent: { id: string; name: string } | null;
 }
 
 let _abortController: AbortController | null = null;
@@ -56,9 +62,14 @@ interface ChatState {
   inputValue: string;
   isInputFocused: boolean;
   attachments: File[];
+  /** MCP resources to send as context with the next message */
+  resourceAttachments: MessageResourceRef[];
 
   // Expanded states
   expandedToolCalls: string[];
+
+  // Tool calls awaiting approval, by tool_calls.id
+  pendingApprovals: Record<string, PendingToolApproval>;
 }
 
 /**
@@ -77,6 +88,10 @@ interface ChatActions {
   archiveSession: (sessionId: string) => Promise<void>;
   deleteSession: (sessionId: string) => Promise<void>;
 
+  // Session Summary
+  fetchSessionSummary: (sessionId: string) => Promise<void>;
+  updateSessionSummary: (sessionId: string, summary: string) => Promise<boolean>;
+
   // Message Actions
   fetchMessages: (sessionId: string) => Promise<void>;
   setMessages: (sessionId: string, messages: Message[]) => void;
@@ -99,6 +114,8 @@ interface ChatActions {
   addAttachment: (file: File) => void;
   removeAttachment: (file: File) => void;
   clearAttachments: () => void;
+  attachResource: (resource: MessageResourceRef) => void;
+  detachResource: (resourceId: string) => void;
 
   // Send Message
   sendMessage: (payload: SendMessagePayload) => Promise<void>;
@@ -106,13 +123,23 @@ interface ChatActions {
 
   // Stream Handling
   handleStreamChunk: (chunk: StreamChunk) => void;
-  startStream: (sessionId: string, messageId: string) => void;
+  startStream: (
+    sessionId: string,
+    messageId: string,
+    agent?: { id: string; name: string },
+  ) => void;
   endStream: () => void;
 
   // Tool Call UI
   toggleToolCallExpanded: (toolCallId: string) => void;
   isToolCallExpanded: (toolCallId: string) => boolean;
 
+  // Tool Approval
+  decideToolCall: (
+    toolCallId: string,
+    payload: ToolApprovalDecisionPayload,
+  ) => Promise<boolean>;
+
   // Utility
   getSessionById: (sessionId: string) => ChatSession | undefined;
   getCurrentSession: () => ChatSession | null;
@@ -139,6 +166,7 @@ const initialStreamState: StreamState = {
   messageId: null,
   sessionId: null,
   error: null,
+  agent: null,
 };
 
 const initialState: ChatState = {
@@ -153,7 +181,9 @@ const initialState: ChatState = {
   inputValue: "",
   isInputFocused: false,
   attachments: [],
+  resourceAttachments: [],
   expandedToolCalls: [],
+  pendingApprovals: {},
 };
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -301,6 +331,57 @@ export const useChatStore = create<ChatStore>()(
           }
         },
 
+        // ═══════════════════════════════════════════════════════════════════════
+        // SESSION SUMMARY
+        // ═══════════════════════════════════════════════════════════════════════
+
+        fetchSessionSummary: async (sessionId) => {
+          try {
+            const response = await fetch(`/api/chat/sessions/${sessionId}/summary`);
+            if (!response.ok) {
+              throw new Error("Failed to load summary");
+            }
+
+            const data = (await response.json()) as SessionSummaryResponse;
+            get().updateSession(sessionId, {
+              summary: data.summary,
+              summarizedThroughId: data.summarizedThroughId,
+              summaryUpdatedAt: data.summaryUpdatedAt,
+            });
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error ? error.message : "Unknown error";
+            });
+          }
+        },
+
+        updateSessionSummary: async (sessionId, summary) => {
+          try {
+            const response = await fetch(`/api/chat/sessions/${sessionId}/summary`, {
+              method: "PUT",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ summary }),
+            });
+            if (!response.ok) {
+              throw new Error("Failed to save summary");
+            }
+
+            const data = (await response.json()) as SessionSummaryResponse;
+            get().updateSession(sessionId, {
+              summary: data.summary,
+              summaryUpdatedAt: data.summaryUpdatedAt,
+            });
+            return true;
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error ? error.message : "Unknown error";
+            });
+            return false;
+          }
+        },
+
         // ═══════════════════════════════════════════════════════════════════════
         // ASYNC MESSAGE ACTIONS
         // ═══════════════════════════════════════════════════════════════════════
@@ -422,6 +503,23 @@ export const useChatStore = create<ChatStore>()(
         clearAttachments: () => {
           set((state) => {
             state.attachments = [];
+            state.resourceAttachments = [];
+          });
+        },
+
+        attachResource: (resource) => {
+          set((state) => {
+            if (!state.resourceAttachments.some((r) => r.resourceId === resource.resourceId)) {
+              state.resourceAttachments.push(resource);
+            }
+          });
+        },
+
+        detachResource: (resourceId) => {
+          set((state) => {
+            state.resourceAttachments = state.resourceAttachments.filter(
+              (r) => r.resourceId !== resourceId,
+            );
           });
         },
 
@@ -430,7 +528,7 @@ export const useChatStore = create<ChatStore>()(
         // ═══════════════════════════════════════════════════════════════════════
 
         sendMessage: async (payload) => {
-          const { currentSessionId, inputValue, attachments } = get();
+          const { currentSessionId, inputValue, attachments, resourceAttachments } = get();
 
           if (!currentSessionId && !payload.sessionId) {
             set((state) => {
@@ -441,6 +539,7 @@ export const useChatStore = create<ChatStore>()(
 
           const sessionId = payload.sessionId ?? currentSessionId!;
           const content = payload.content ?? inputValue;
+          const resourceIds = resourceAttachments.map((r) => r.resourceId);
 
           if (!content.trim() && attachments.length === 0) {
             return;
@@ -460,6 +559,7 @@ export const useChatStore = create<ChatStore>()(
             agentId: null,
             metadata: {
               hasAttachments: attachments.length > 0,
+              ...(resourceAttachments.length > 0 ? { resources: resourceAttachments } : {}),
             },
             promptTokens: null,
             completionTokens: null,
@@ -487,12 +587,17 @@ export const useChatStore = create<ChatStore>()(
                 sessionId,
                 content,
                 attachments: payload.attachments,
+                resourceIds,
               }),
               signal: _abortController.signal,
             });
 
             if (!response.ok) {
-              throw new Error("Failed to send message");
+              // Unreadable attached resources are reported by name
+              const data = (await response.json().catch(() => null)) as {
+                error?: string;
+              } | null;
+              throw new Error(data?.error ?? "Failed to send message");
             }
 
             // Handle SSE stream
@@ -537,6 +642,8 @@ export const useChatStore = create<ChatStore>()(
             set((state) => {
               state.isSending = false;
               state.stream = { ...initialStreamState };
+              // The server refuses calls still waiting once the stream ends
+              state.pendingApprovals = {};
             });
           }
         },
@@ -553,7 +660,7 @@ export const useChatStore = create<ChatStore>()(
         handleStreamChunk: (chunk) => {
           switch (chunk.type) {
             case "start":
-              get().startStream(chunk.sessionId, chunk.messageId);
+              get().startStream(chunk.sessionId, chunk.messageId, chunk.agent);
               break;
 
             case "content":
@@ -583,9 +690,26 @@ export const useChatStore = create<ChatStore>()(
               }
               break;
 
+            case "approval_required":
+              if (chunk.approval) {
+                set((state) => {
+                  state.pendingApprovals[chunk.approval!.toolCallId] = {
+                    ...chunk.approval!,
+                    sessionId: chunk.sessionId,
+                    messageId: chunk.messageId,
+                  };
+                });
+              }
+              break;
+
             case "tool_result":
               if (chunk.toolResult) {
                 set((state) => {
+                  for (const [id, approval] of Object.entries(state.pendingApprovals)) {
+                    if (approval.modelToolCallId === chunk.toolResult!.toolCallId) {
+                      delete state.pendingApprovals[id];
+                    }
+                  }
                   const msgs = state.messages[chunk.sessionId];
                   const msg = msgs?.find((m) => m.id === chunk.messageId);
                   if (msg) {
@@ -632,17 +756,27 @@ export const useChatStore = create<ChatStore>()(
               break;
 
             case "complete":
+              if (chunk.metadata?.citations) {
+                set((state) => {
+                  const msgs = state.messages[chunk.sessionId];
+                  const msg = msgs?.find((m) => m.id === chunk.messageId);
+                  if (msg) {
+                    msg.metadata.citations = chunk.metadata!.citations;
+                  }
+                });
+              }
               get().endStream();
               break;
           }
         },
 
-        startStream: (sessionId, messageId) => {
+        startStream: (sessionId, messageId, agent) => {
           set((state) => {
             state.stream.isStreaming = true;
             state.stream.sessionId = sessionId;
             state.stream.messageId = messageId;
             state.stream.error = null;
+            state.stream.agent = agent ?? null;
 
             // Add placeholder message for assistant
             if (!state.messages[sessionId]) {
@@ -659,7 +793,7 @@ export const useChatStore = create<ChatStore>()(
                 sessionId,
                 role: "assistant",
                 content: "",
-                agentId: null,
+                agentId: agent?.id ?? null,
                 metadata: {},
                 promptTokens: null,
                 completionTokens: null,
@@ -708,6 +842,37 @@ export const useChatStore = create<ChatStore>()(
           return get().expandedToolCalls.includes(toolCallId);
         },
 
+        // ═══════════════════════════════════════════════════════════════════════
+        // TOOL APPROVAL
+        // ═══════════════════════════════════════════════════════════════════════
+
+        decideToolCall: async (toolCallId, payload) => {
+          try {
+            const response = await fetch(`/api/tools/calls/${toolCallId}/approval`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(payload),
+            });
+            if (!response.ok) {
+              const data = (await response.json().catch(() => ({}))) as {
+                error?: string;
+              };
+              throw new Error(data.error ?? "Failed to record decision");
+            }
+
+            set((state) => {
+              delete state.pendingApprovals[toolCallId];
+            });
+            return true;
+          } catch (error) {
+            set((state) => {
+              state.error =
+                error instanceof Error ? error.message : "Unknown error";
+            });
+            return false;
+          }
+        },
+
         // ═══════════════════════════════════════════════════════════════════════
         // UTILITY
         // ═══════════════════════════════════════════════════════════════════════
@@ -813,3 +978,10 @@ export function useStreamProgress(): {
     };
   }, [stream]);
 }
+
+/**
+ * Get the agent currently speaking in the active stream (swarm sessions).
+ */
+export function useSpeakingAgent(): { id: string; name: string } | null {
+  return useChatStore((state) => state.stream.agent);
+}
@@ -0,0 +1,284 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// KNOWLEDGE STORE - Zustand State Management for the Knowledge Library
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import type {
+  KnowledgeChunk,
+  KnowledgeDocWithAgents,
+  KnowledgeSearchPayload,
+  ReindexKnowledgeDocPayload,
+  UploadKnowledgeDocResponse,
+} from "@/types/tool";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Knowledge store state.
+ */
+interface KnowledgeState {
+  // Data
+  docs: KnowledgeDocWithAgents[];
+
+  // Retrieval Tester
+  results: KnowledgeChunk[];
+  lastQuery: string | null;
+
+  // UI State
+  isLoading: boolean;
+  isUploading: boolean;
+  isSearching: boolean;
+  error: string | null;
+}
+
+/**
+ * Knowledge store actions.
+ */
+interface KnowledgeActions {
+  // Async Actions
+  fetchDocs: () => Promise<void>;
+  uploadFiles: (
+    files: File[],
+    options?: ReindexKnowledgeDocPayload,
+  ) => Promise<void>;
+  reindexDoc: (docId: string, payload: ReindexKnowledgeDocPayload) => Promise<void>;
+  deleteDoc: (docId: string) => Promise<void>;
+  setDocAgents: (docId: string, agentIds: string[]) => Promise<void>;
+  testRetrieval: (payload: KnowledgeSearchPayload) => Promise<void>;
+
+  // Utility
+  clearError: () => void;
+}
+
+/**
+ * Combined knowledge store type.
+ */
+export type KnowledgeStore = KnowledgeState & KnowledgeActions;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DEFAULT STATE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const initialState: KnowledgeState = {
+  docs: [],
+  results: [],
+  lastQuery: null,
+  isLoading: false,
+  isUploading: false,
+  isSearching: false,
+  error: null,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pull the error message out of a failed API response.
+ */
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// STORE CREATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const useKnowledgeStore = create<KnowledgeStore>()(
+  immer((set, get) => ({
+    ...initialState,
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // ASYNC ACTIONS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    fetchDocs: async () => {
+      set((state) => {
+        state.isLoading = true;
+      });
+
+      try {
+        const response = await fetch("/api/knowledge");
+        if (!response.ok) {
+          throw new Error("Failed to fetch documents");
+        }
+
+        const data = (await response.json()) as { docs: KnowledgeDocWithAgents[] };
+        set((state) => {
+          state.docs = data.docs;
+          state.isLoading = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isLoading = false;
+        });
+      }
+    },
+
+    uploadFiles: async (files, options = {}) => {
+      set((state) => {
+        state.isUploading = true;
+        state.error = null;
+      });
+
+      const failures: string[] = [];
+
+      // One request per file so a bad file doesn't reject the whole drop
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        if (options.chunkSize) formData.append("chunkSize", String(options.chunkSize));
+        if (options.chunkOverlap !== undefined) {
+          formData.append("chunkOverlap", String(options.chunkOverlap));
+        }
+
+        try {
+          const response = await fetch("/api/knowledge", {
+            method: "POST",
+            body: formData,
+          });
+          if (!response.ok) {
+            throw new Error(await readError(response, "Upload failed"));
+          }
+
+          const data = (await response.json()) as UploadKnowledgeDocResponse;
+          if (data.duplicate) {
+            failures.push(`${file.name}: already uploaded as ${data.doc.originalName}`);
+          }
+        } catch (error) {
+          failures.push(
+            `${file.name}: ${error instanceof Error ? error.message : "Upload failed"}`,
+          );
+        }
+      }
+
+      set((state) => {
+        state.isUploading = false;
+        state.error = failures.length > 0 ? failures.join("\n") : null;
+      });
+
+      await get().fetchDocs();
+    },
+
+    reindexDoc: async (docId, payload) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/knowledge/${docId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to re-index document"));
+        }
+
+        const data = (await response.json()) as { doc: KnowledgeDocWithAgents | null };
+        set((state) => {
+          const index = state.docs.findIndex((d) => d.id === docId);
+          if (data.doc && index !== -1) {
+            state.docs[index] = data.doc;
+          }
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    deleteDoc: async (docId) => {
+      try {
+        const response = await fetch(`/api/knowledge/${docId}`, {
+          method: "DELETE",
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to delete document"));
+        }
+
+        set((state) => {
+          state.docs = state.docs.filter((d) => d.id !== docId);
+          state.results = state.results.filter((r) => r.docId !== docId);
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    setDocAgents: async (docId, agentIds) => {
+      try {
+        const response = await fetch(`/api/knowledge/${docId}/agents`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ agentIds }),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to update agents"));
+        }
+
+        const data = (await response.json()) as { agentIds: string[] };
+        set((state) => {
+          const doc = state.docs.find((d) => d.id === docId);
+          if (doc) doc.agentIds = data.agentIds;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    testRetrieval: async (payload) => {
+      set((state) => {
+        state.isSearching = true;
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/knowledge/search", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Search failed"));
+        }
+
+        const data = (await response.json()) as { results: KnowledgeChunk[] };
+        set((state) => {
+          state.results = data.results;
+          state.lastQuery = payload.query;
+          state.isSearching = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isSearching = false;
+        });
+      }
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // UTILITY
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  })),
+);
@@ -0,0 +1,216 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MCP STORE - Zustand State Management for MCP Servers, Resources and Prompts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import type {
+  GetMCPPromptPayload,
+  MCPConnectionEvent,
+  MCPConnectionEventListResponse,
+  MCPPromptListResponse,
+  MCPPromptResult,
+  MCPPromptWithServerName,
+  MCPResourceListResponse,
+  MCPResourceWithServerName,
+  MCPServer,
+  MCPServerListResponse,
+} from "@/types/tool";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * MCP store state.
+ */
+interface MCPState {
+  // Data
+  servers: MCPServer[];
+  /** Connection history per server id, newest first */
+  connectionEvents: Record<string, MCPConnectionEvent[]>;
+  resources: MCPResourceWithServerName[];
+  prompts: MCPPromptWithServerName[];
+
+  // UI State
+  isLoading: boolean;
+  isRunningPrompt: boolean;
+  error: string | null;
+}
+
+/**
+ * MCP store actions.
+ */
+interface MCPActions {
+  // Async Actions
+  fetchServers: () => Promise<void>;
+  fetchConnectionEvents: (serverId: string) => Promise<void>;
+  fetchCatalog: () => Promise<void>;
+  runPrompt: (
+    promptId: string,
+    payload: GetMCPPromptPayload,
+  ) => Promise<MCPPromptResult | null>;
+
+  // Utility
+  clearError: () => void;
+}
+
+/**
+ * Combined MCP store type.
+ */
+export type MCPStore = MCPState & MCPActions;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DEFAULT STATE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const initialState: MCPState = {
+  servers: [],
+  connectionEvents: {},
+  resources: [],
+  prompts: [],
+  isLoading: false,
+  isRunningPrompt: false,
+  error: null,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pull the error message out of a failed API response.
+ */
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// STORE CREATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const useMCPStore = create<MCPStore>()(
+  immer((set) => ({
+    ...initialState,
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // ASYNC ACTIONS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    fetchServers: async () => {
+      set((state) => {
+        state.isLoading = true;
+      });
+
+      try {
+        const response = await fetch("/api/mcp/servers");
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to fetch MCP servers"));
+        }
+
+        const { servers } = (await response.json()) as MCPServerListResponse;
+        set((state) => {
+          state.servers = servers;
+          state.isLoading = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isLoading = false;
+        });
+      }
+    },
+
+    fetchConnectionEvents: async (serverId) => {
+      try {
+        const response = await fetch(`/api/mcp/servers/${serverId}/events`);
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to fetch connection history"));
+        }
+
+        const { events } = (await response.json()) as MCPConnectionEventListResponse;
+        set((state) => {
+          state.connectionEvents[serverId] = events;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    fetchCatalog: async () => {
+      set((state) => {
+        state.isLoading = true;
+      });
+
+      try {
+        const [resourcesResponse, promptsResponse] = await Promise.all([
+          fetch("/api/mcp/resources"),
+          fetch("/api/mcp/prompts"),
+        ]);
+        if (!resourcesResponse.ok || !promptsResponse.ok) {
+          throw new Error("Failed to fetch MCP resources and prompts");
+        }
+
+        const { resources } = (await resourcesResponse.json()) as MCPResourceListResponse;
+        const { prompts } = (await promptsResponse.json()) as MCPPromptListResponse;
+        set((state) => {
+          state.resources = resources;
+          state.prompts = prompts;
+          state.isLoading = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isLoading = false;
+        });
+      }
+    },
+
+    runPrompt: async (promptId, payload) => {
+      set((state) => {
+        state.isRunningPrompt = true;
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/mcp/prompts/${promptId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to run prompt"));
+        }
+
+        const result = (await response.json()) as MCPPromptResult;
+        set((state) => {
+          state.isRunningPrompt = false;
+        });
+        return result;
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isRunningPrompt = false;
+        });
+        return null;
+      }
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // UTILITY
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  })),
+);
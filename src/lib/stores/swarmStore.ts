@@ -0,0 +1,652 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM STORE - Zustand State Management for Swarms and the Swarm Builder
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useMemo } from "react";
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import type { Agent } from "@/types/agent";
+import type {
+  Message,
+  PendingToolApproval,
+  PendingToolApprovalListResponse,
+} from "@/types/chat";
+import type {
+  CreateSwarmPayload,
+  HandoffRule,
+  SwarmBuilderState,
+  SwarmDef,
+  SwarmRun,
+} from "@/types/swarm";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Swarm fields edited alongside the graph.
+ */
+interface SwarmDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  entryAgentId: string | null;
+  maxIterations: number;
+}
+
+/**
+ * A past run being stepped through on the canvas.
+ * Step 0 is the entry agent; step N is the state after the Nth handoff.
+ */
+interface SwarmReplay {
+  run: SwarmRun;
+  messages: Message[];
+  step: number;
+  isPlaying: boolean;
+}
+
+/**
+ * Swarm store state.
+ */
+interface SwarmState {
+  // Data
+  swarms: SwarmDef[];
+
+  // Builder
+  draft: SwarmDraft;
+  builder: SwarmBuilderState;
+
+  // Run History
+  runs: SwarmRun[];
+  /** Handoff counts across recent runs, keyed "fromId->toId" */
+  edgeCounts: Record<string, number>;
+  replay: SwarmReplay | null;
+  /** Tool calls in this swarm's sessions waiting for the user, oldest first */
+  pendingApprovals: PendingToolApproval[];
+
+  // UI State
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+/**
+ * Swarm store actions.
+ */
+interface SwarmActions {
+  // Async Actions
+  fetchSwarms: () => Promise<void>;
+  loadSwarm: (swarmId: string) => Promise<void>;
+  saveSwarm: () => Promise<SwarmDef | null>;
+  deleteSwarm: (swarmId: string) => Promise<void>;
+  fetchRuns: (swarmId: string) => Promise<void>;
+  fetchPendingApprovals: (swarmId: string) => Promise<void>;
+  openReplay: (runId: string) => Promise<void>;
+
+  // Replay Actions
+  setReplayStep: (step: number) => void;
+  setReplayPlaying: (isPlaying: boolean) => void;
+  closeReplay: () => void;
+
+  // Builder Actions
+  newSwarm: () => void;
+  updateDraft: (updates: Partial<Omit<SwarmDraft, "id">>) => void;
+  addNode: (agent: Agent, position: { x: number; y: number }) => void;
+  moveNode: (agentId: string, position: { x: number; y: number }) => void;
+  removeNode: (agentId: string) => void;
+  setEntryAgent: (agentId: string) => void;
+  addEdge: (fromAgentId: string, toAgentId: string) => void;
+  updateEdge: (
+    fromAgentId: string,
+    toAgentId: string,
+    updates: Partial<Omit<HandoffRule, "targetAgentId" | "targetAgentName">>,
+  ) => void;
+  removeEdge: (fromAgentId: string, toAgentId: string) => void;
+  selectNode: (agentId: string | null) => void;
+  selectEdge: (edge: { from: string; to: string } | null) => void;
+
+  // Utility
+  clearError: () => void;
+}
+
+/**
+ * Combined swarm store type.
+ */
+export type SwarmStore = SwarmState & SwarmActions;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DEFAULT STATE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const emptyDraft: SwarmDraft = {
+  id: null,
+  name: "Untitled Swarm",
+  description: "",
+  entryAgentId: null,
+  maxIterations: 10,
+};
+
+const emptyBuilder: SwarmBuilderState = {
+  nodes: [],
+  selectedNodeId: null,
+  selectedEdge: null,
+  isDirty: false,
+  errors: validateSwarmGraph([], null),
+};
+
+const initialState: SwarmState = {
+  swarms: [],
+  draft: emptyDraft,
+  builder: emptyBuilder,
+  runs: [],
+  edgeCounts: {},
+  replay: null,
+  pendingApprovals: [],
+  isLoading: false,
+  isSaving: false,
+  error: null,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Mark the graph as edited and re-run validation.
+ */
+function touch(state: SwarmState): void {
+  state.builder.isDirty = true;
+  state.builder.errors = validateSwarmGraph(
+    state.builder.nodes,
+    state.draft.entryAgentId,
+  );
+}
+
+/**
+ * Flatten the builder graph into the /api/swarms payload.
+ */
+function toPayload(state: SwarmState): CreateSwarmPayload {
+  const { nodes } = state.builder;
+
+  return {
+    name: state.draft.name,
+    description: state.draft.description || undefined,
+    agentIds: nodes.map((node) => node.agentId),
+    entryAgentId: state.draft.entryAgentId ?? "",
+    handoffRules: nodes.flatMap((node) =>
+      node.handoffRules.map((rule) => ({
+        fromAgentId: node.agentId,
+        toAgentId: rule.targetAgentId,
+        condition: rule.condition,
+        conditionValue: rule.conditionValue,
+        customPrompt: rule.customPrompt,
+        priority: rule.priority,
+      })),
+    ),
+    positions: Object.fromEntries(
+      nodes.map((node) => [node.agentId, node.position]),
+    ),
+    maxIterations: state.draft.maxIterations,
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: string; details?: unknown };
+    if (Array.isArray(data.details) && typeof data.details[0] === "string") {
+      return `${data.error ?? fallback}: ${data.details.join("; ")}`;
+    }
+    return data.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// STORE CREATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const useSwarmStore = create<SwarmStore>()(
+  immer((set, get) => ({
+    ...initialState,
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // ASYNC ACTIONS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    fetchSwarms: async () => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/swarms");
+        if (!response.ok) {
+          throw new Error("Failed to fetch swarms");
+        }
+
+        const data = (await response.json()) as { swarms: SwarmDef[] };
+        set((state) => {
+          state.swarms = data.swarms;
+          state.isLoading = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isLoading = false;
+        });
+      }
+    },
+
+    loadSwarm: async (swarmId) => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/swarms/${swarmId}`);
+        if (!response.ok) {
+          throw new Error("Failed to load swarm");
+        }
+
+        const data = (await response.json()) as { swarm: SwarmDef };
+        set((state) => {
+          state.draft = {
+            id: data.swarm.id,
+            name: data.swarm.name,
+            description: data.swarm.description ?? "",
+            entryAgentId: data.swarm.entryAgentId,
+            maxIterations: data.swarm.maxIterations,
+          };
+          state.runs = [];
+          state.edgeCounts = {};
+        state.pendingApprovals = [];
+          state.pendingApprovals = [];
+          state.replay = null;
+          state.builder = {
+            nodes: data.swarm.graphJson,
+            selectedNodeId: null,
+            selectedEdge: null,
+            isDirty: false,
+            errors: validateSwarmGraph(
+              data.swarm.graphJson,
+              data.swarm.entryAgentId,
+            ),
+          };
+          state.isLoading = false;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+          state.isLoading = false;
+        });
+      }
+    },
+
+    saveSwarm: async () => {
+      const state = get();
+      if (state.builder.errors.length > 0) {
+        set((s) => {
+          s.error = "Fix the graph errors before saving";
+        });
+        return null;
+      }
+
+      set((s) => {
+        s.isSaving = true;
+        s.error = null;
+      });
+
+      try {
+        const swarmId = state.draft.id;
+        const response = await fetch(
+          swarmId ? `/api/swarms/${swarmId}` : "/api/swarms",
+          {
+            method: swarmId ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(toPayload(state)),
+          },
+        );
+
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to save swarm"));
+        }
+
+        const data = (await response.json()) as { swarm: SwarmDef };
+        set((s) => {
+          const index = s.swarms.findIndex((sw) => sw.id === data.swarm.id);
+          if (index === -1) {
+            s.swarms.unshift(data.swarm);
+          } else {
+            s.swarms[index] = data.swarm;
+          }
+          s.draft.id = data.swarm.id;
+          s.builder.isDirty = false;
+          s.isSaving = false;
+        });
+
+        return data.swarm;
+      } catch (error) {
+        set((s) => {
+          s.error = error instanceof Error ? error.message : "Unknown error";
+          s.isSaving = false;
+        });
+        return null;
+      }
+    },
+
+    deleteSwarm: async (swarmId) => {
+      try {
+        const response = await fetch(`/api/swarms/${swarmId}`, {
+          method: "DELETE",
+        });
+        if (!response.ok) {
+          throw new Error("Failed to delete swarm");
+        }
+
+        set((state) => {
+          state.swarms = state.swarms.filter((s) => s.id !== swarmId);
+          if (state.draft.id === swarmId) {
+            state.draft = { ...emptyDraft };
+            state.builder = { ...emptyBuilder };
+            state.runs = [];
+            state.edgeCounts = {};
+        state.pendingApprovals = [];
+            state.pendingApprovals = [];
+          state.pendingApprovals = [];
+            state.replay = null;
+          }
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    fetchRuns: async (swarmId) => {
+      try {
+        const response = await fetch(`/api/swarms/${swarmId}/runs`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch swarm runs");
+        }
+
+        const data = (await response.json()) as {
+          runs: SwarmRun[];
+          edgeCounts: Record<string, number>;
+        };
+        set((state) => {
+          state.runs = data.runs;
+          state.edgeCounts = data.edgeCounts;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    fetchPendingApprovals: async (swarmId) => {
+      try {
+        const response = await fetch(
+          `/api/tools/calls?swarmId=${encodeURIComponent(swarmId)}`,
+        );
+        if (!response.ok) {
+          throw new Error("Failed to fetch pending tool calls");
+        }
+
+        const data = (await response.json()) as PendingToolApprovalListResponse;
+        set((state) => {
+          state.pendingApprovals = data.approvals;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    openReplay: async (runId) => {
+      const swarmId = get().draft.id;
+      if (!swarmId) return;
+
+      try {
+        const response = await fetch(`/api/swarms/${swarmId}/runs/${runId}`);
+        if (!response.ok) {
+          throw new Error("Failed to load swarm run");
+        }
+
+        const data = (await response.json()) as {
+          run: SwarmRun;
+          messages: Message[];
+        };
+        set((state) => {
+          state.replay = {
+            run: data.run,
+            messages: data.messages,
+            step: 0,
+            isPlaying: false,
+          };
+          state.builder.selectedNodeId = null;
+          state.builder.selectedEdge = null;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error = error instanceof Error ? error.message : "Unknown error";
+        });
+      }
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // REPLAY ACTIONS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    setReplayStep: (step) => {
+      set((state) => {
+        if (!state.replay) return;
+        const last = state.replay.run.executionLog.length;
+        state.replay.step = Math.min(Math.max(step, 0), last);
+        if (state.replay.step === last) state.replay.isPlaying = false;
+      });
+    },
+
+    setReplayPlaying: (isPlaying) => {
+      set((state) => {
+        if (!state.replay) return;
+        // Playing from the end starts over
+        if (isPlaying && state.replay.step >= state.replay.run.executionLog.length) {
+          state.replay.step = 0;
+        }
+        state.replay.isPlaying = isPlaying;
+      });
+    },
+
+    closeReplay: () => {
+      set((state) => {
+        state.replay = null;
+      });
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // BUILDER ACTIONS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    newSwarm: () => {
+      set((state) => {
+        state.draft = { ...emptyDraft };
+        state.builder = { ...emptyBuilder };
+        state.runs = [];
+        state.edgeCounts = {};
+        state.pendingApprovals = [];
+        state.replay = null;
+        state.error = null;
+      });
+    },
+
+    updateDraft: (updates) => {
+      set((state) => {
+        Object.assign(state.draft, updates);
+        touch(state);
+      });
+    },
+
+    addNode: (agent, position) => {
+      set((state) => {
+        if (state.builder.nodes.some((n) => n.agentId === agent.id)) return;
+
+        state.builder.nodes.push({
+          agentId: agent.id,
+          agentName: agent.name,
+          position,
+          handoffRules: [],
+        });
+        // The first agent dropped in becomes the entry point
+        state.draft.entryAgentId ??= agent.id;
+        state.builder.selectedNodeId = agent.id;
+        state.builder.selectedEdge = null;
+        touch(state);
+      });
+    },
+
+    moveNode: (agentId, position) => {
+      set((state) => {
+        const node = state.builder.nodes.find((n) => n.agentId === agentId);
+        if (!node) return;
+        node.position = position;
+        state.builder.isDirty = true;
+      });
+    },
+
+    removeNode: (agentId) => {
+      set((state) => {
+        state.builder.nodes = state.builder.nodes.filter(
+          (n) => n.agentId !== agentId,
+        );
+        for (const node of state.builder.nodes) {
+          node.handoffRules = node.handoffRules.filter(
+            (r) => r.targetAgentId !== agentId,
+          );
+        }
+        if (state.draft.entryAgentId === agentId) {
+          state.draft.entryAgentId = state.builder.nodes[0]?.agentId ?? null;
+        }
+        if (state.builder.selectedNodeId === agentId) {
+          state.builder.selectedNodeId = null;
+        }
+        const edge = state.builder.selectedEdge;
+        if (edge && (edge.from === agentId || edge.to === agentId)) {
+          state.builder.selectedEdge = null;
+        }
+        touch(state);
+      });
+    },
+
+    setEntryAgent: (agentId) => {
+      set((state) => {
+        state.draft.entryAgentId = agentId;
+        touch(state);
+      });
+    },
+
+    addEdge: (fromAgentId, toAgentId) => {
+      set((state) => {
+        if (fromAgentId === toAgentId) return;
+
+        const from = state.builder.nodes.find((n) => n.agentId === fromAgentId);
+        const to = state.builder.nodes.find((n) => n.agentId === toAgentId);
+        if (!from || !to) return;
+
+        if (!from.handoffRules.some((r) => r.targetAgentId === toAgentId)) {
+          // New edges go to the bottom of the evaluation order
+          const lowest = Math.min(0, ...from.handoffRules.map((r) => r.priority));
+          from.handoffRules.push({
+            targetAgentId: toAgentId,
+            targetAgentName: to.agentName,
+            condition: "keyword",
+            conditionValue: "",
+            priority: from.handoffRules.length === 0 ? 0 : lowest - 1,
+          });
+        }
+
+        state.builder.selectedEdge = { from: fromAgentId, to: toAgentId };
+        state.builder.selectedNodeId = null;
+        touch(state);
+      });
+    },
+
+    updateEdge: (fromAgentId, toAgentId, updates) => {
+      set((state) => {
+        const from = state.builder.nodes.find((n) => n.agentId === fromAgentId);
+        const rule = from?.handoffRules.find((r) => r.targetAgentId === toAgentId);
+        if (!rule) return;
+        Object.assign(rule, updates);
+        touch(state);
+      });
+    },
+
+    removeEdge: (fromAgentId, toAgentId) => {
+      set((state) => {
+        const from = state.builder.nodes.find((n) => n.agentId === fromAgentId);
+        if (!from) return;
+        from.handoffRules = from.handoffRules.filter(
+          (r) => r.targetAgentId !== toAgentId,
+        );
+        const edge = state.builder.selectedEdge;
+        if (edge?.from === fromAgentId && edge.to === toAgentId) {
+          state.builder.selectedEdge = null;
+        }
+        touch(state);
+      });
+    },
+
+    selectNode: (agentId) => {
+      set((state) => {
+        state.builder.selectedNodeId = agentId;
+        state.builder.selectedEdge = null;
+      });
+    },
+
+    selectEdge: (edge) => {
+      set((state) => {
+        state.builder.selectedEdge = edge;
+        state.builder.selectedNodeId = null;
+      });
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // UTILITY
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  })),
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SELECTOR HOOKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Active agent and edge at the current replay step, if a replay is open.
+ */
+export function useReplayPosition(): {
+  activeAgentId: string | null;
+  activeEdge: { from: string; to: string } | null;
+} | null {
+  const replay = useSwarmStore((state) => state.replay);
+
+  return useMemo(() => {
+    if (!replay) return null;
+    const event = replay.run.executionLog[replay.step - 1];
+    return {
+      activeAgentId: event ? event.toAgentId : replay.run.entryAgentId,
+      activeEdge: event ? { from: event.fromAgentId, to: event.toAgentId } : null,
+    };
+  }, [replay]);
+}
@@ -0,0 +1,125 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// HANDOFF DETECTOR - Decides When Control Passes Between Swarm Agents
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  HandoffCondition,
+  HandoffDetectionResult,
+  HandoffRule,
+  HandoffRuleEvaluation,
+} from "@/types/swarm";
+import { createDefaultEvaluators, type HandoffEvaluator } from "./handoffEvaluators";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Everything the detector knows about the turn that just finished.
+ */
+export interface HandoffContext {
+  /** Agent that produced the response */
+  agentId: string;
+  agentName: string;
+
+  /** The user message that started the swarm run */
+  userMessage: string;
+
+  /** The agent's completed response */
+  response: string;
+
+  /** Tool calls the agent requested during the turn */
+  toolCalls: { name: string; arguments: Record<string, unknown> }[];
+
+  /** Outgoing rules for the agent, highest priority first */
+  rules: HandoffRule[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HANDOFF DETECTOR CLASS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class HandoffDetector {
+  private evaluators: Map<HandoffCondition, HandoffEvaluator> = new Map();
+
+  constructor(evaluators: HandoffEvaluator[] = createDefaultEvaluators()) {
+    for (const evaluator of evaluators) {
+      this.register(evaluator);
+    }
+  }
+
+  /**
+   * Register an evaluator, replacing any existing one for its condition.
+   */
+  register(evaluator: HandoffEvaluator): void {
+    this.evaluators.set(evaluator.condition, evaluator);
+  }
+
+  /**
+   * Evaluate the rules in order and return the first one that fires.
+   * Rules after the first match are not evaluated.
+   */
+  async evaluate(context: HandoffContext): Promise<HandoffDetectionResult> {
+    const evaluations: HandoffRuleEvaluation[] = [];
+
+    for (const rule of context.rules) {
+      const reason = await this.evaluateRule(rule, context);
+      evaluations.push({
+        targetAgentId: rule.targetAgentId,
+        triggeredCondition: rule.condition,
+        matched: reason !== null,
+        reason: reason ?? undefined,
+      });
+
+      if (reason) {
+        return {
+          shouldHandoff: true,
+          handoff: {
+            toAgentId: rule.targetAgentId,
+            toAgentName: rule.targetAgentName,
+            reason,
+            triggeredCondition: rule.condition,
+          },
+          evaluations,
+        };
+      }
+    }
+
+    return { shouldHandoff: false, evaluations };
+  }
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Returns a human-readable reason when the rule matches, otherwise null.
+   * A failing evaluator never blocks the remaining rules.
+   */
+  private async evaluateRule(
+    rule: HandoffRule,
+    context: HandoffContext,
+  ): Promise<string | null> {
+    const evaluator = this.evaluators.get(rule.condition);
+    if (!evaluator) {
+      console.warn(`[HandoffDetector] No evaluator registered for "${rule.condition}"`);
+      return null;
+    }
+
+    try {
+      return await evaluator.evaluate(rule, context);
+    } catch (error) {
+      console.error(
+        `[HandoffDetector] Evaluator "${rule.condition}" failed:`,
+        error,
+      );
+      return null;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const handoffDetector = new HandoffDetector();
@@ -0,0 +1,702 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM ENGINE - Multi-Agent Orchestration over swarm_defs.graph_json
+//
+// Server-side only. Walks the swarm graph starting at the entry agent, runs
+// each agent through the tool loop, and follows HandoffRules (highest
+// priority first) until no rule fires or maxIterations is reached.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { v4 as uuidv4 } from "uuid";
+import { eq, sql } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import {
+  agents,
+  chatSessions,
+  messages,
+  swarmDefs,
+  swarmRuns,
+} from "@/lib/db/schema";
+import type { DbAgent, DbMessage, DbSwarmDef } from "@/lib/db/schema";
+import type { GatewayMessage } from "@/lib/ai/unifiedGateway";
+import { toolLoop, ToolLoopError } from "@/lib/ai/toolLoop";
+import type { ToolLoopResult } from "@/lib/ai/toolLoop";
+import { contextInjector } from "@/lib/ai/contextInjector";
+import { withResourceContext } from "@/lib/chat/resources";
+import type { ResourceContext } from "@/lib/chat/resources";
+import { loadSessionHistory, requestSessionSummary } from "@/lib/chat/summary";
+import { toolRegistry } from "@/lib/mcp/toolRegistry";
+import { SwarmGraph } from "./SwarmGraph";
+import { handoffDetector } from "./HandoffDetector";
+import type {
+  SwarmExecution,
+  SwarmExecutionResult,
+  SwarmHandoffEvent,
+} from "@/types/swarm";
+import type { MessageCitation, PromptBudgetReport } from "@/types/chat";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Input for a single swarm run.
+ */
+export interface SwarmRunInput {
+  executionId: string;
+  sessionId: string;
+  userMessage: string;
+
+  /** MCP resources attached to the user message */
+  resources?: ResourceContext;
+
+  /** Overrides swarm_defs.entry_agent_id */
+  entryAgentId?: string;
+
+  /** Overrides swarm_defs.max_iterations */
+  maxIterations?: number;
+
+  /** Stream each agent's response token by token instead of waiting for it */
+  stream?: boolean;
+
+  signal?: AbortSignal;
+}
+
+/**
+ * Events yielded by SwarmEngine.run() while a swarm is executing.
+ */
+export type SwarmStreamEvent =
+  | {
+      type: "turn_start";
+      messageId: string;
+      agentId: string;
+      agentName: string;
+      model: string;
+    }
+  | { type: "content"; messageId: string; agentId: string; content: string }
+  | {
+      type: "tool_call";
+      messageId: string;
+      agentId: string;
+      toolCall: { id: string; name: string; arguments: Record<string, unknown> };
+    }
+  | {
+      type: "approval_required";
+      messageId: string;
+      agentId: string;
+      /** Id assigned by the model */
+      toolCallId: string;
+      /** tool_calls row to approve or reject */
+      recordId: string;
+      name: string;
+      arguments: Record<string, unknown>;
+      expiresAt: number;
+    }
+  | {
+      type: "tool_result";
+      messageId: string;
+      agentId: string;
+      toolCallId: string;
+      result: unknown;
+      error?: string;
+      errorCode?: string;
+    }
+  | { type: "turn_complete"; message: DbMessage }
+  | { type: "handoff"; handoff: SwarmHandoffEvent };
+
+/**
+ * Swarm engine options.
+ */
+export interface SwarmEngineOptions {
+  /** Called whenever the execution state changes (agent switch, completion) */
+  onProgress?: (execution: SwarmExecution) => void | Promise<void>;
+}
+
+/**
+ * One agent's tool loop outcome plus the knowledge sources in its prompt
+ * and how its context window was spent.
+ */
+type AgentTurnResult = ToolLoopResult & {
+  citations: MessageCitation[];
+  promptBudget: PromptBudgetReport;
+};
+
+/**
+ * Error raised inside the run loop with a stable error code.
+ */
+class SwarmRunError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SwarmRunError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const MESSAGE_PREVIEW_LENGTH = 200;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM ENGINE CLASS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class SwarmEngine {
+  private graph: SwarmGraph;
+  private agentCache: Map<string, DbAgent> = new Map();
+  private execution: SwarmExecution;
+
+  constructor(
+    private readonly swarm: DbSwarmDef,
+    private readonly options: SwarmEngineOptions = {},
+  ) {
+    this.graph = new SwarmGraph(swarm.graphJson, swarm.entryAgentId);
+    this.execution = {
+      swarmId: swarm.id,
+      sessionId: "",
+      status: "idle",
+      currentAgentId: null,
+      iterationCount: 0,
+      executionLog: [],
+      startedAt: null,
+      completedAt: null,
+    };
+  }
+
+  /**
+   * Load a swarm definition from SQLite and build an engine for it.
+   */
+  static async load(
+    swarmId: string,
+    options: SwarmEngineOptions = {},
+  ): Promise<SwarmEngine> {
+    const db = getDB();
+    const swarm = await db.query.swarmDefs.findFirst({
+      where: eq(swarmDefs.id, swarmId),
+    });
+
+    if (!swarm) {
+      throw new Error(`Swarm ${swarmId} not found`);
+    }
+
+    return new SwarmEngine(swarm, options);
+  }
+
+  /**
+   * Snapshot of the current execution state.
+   */
+  getExecution(): SwarmExecution {
+    return {
+      ...this.execution,
+      executionLog: [...this.execution.executionLog],
+    };
+  }
+
+  /**
+   * Run the swarm for one user message and wait for the result.
+   */
+  async execute(input: SwarmRunInput): Promise<SwarmExecutionResult> {
+    const run = this.run(input);
+    let next = await run.next();
+    while (!next.done) {
+      next = await run.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Run the swarm for one user message, yielding events as agents speak
+   * and hand off. Errors end the run and are reported in the result.
+   */
+  async *run(
+    input: SwarmRunInput,
+  ): AsyncGenerator<SwarmStreamEvent, SwarmExecutionResult> {
+    const startTime = Date.now();
+    const maxIterations = input.maxIterations ?? this.swarm.maxIterations;
+    const produced: DbMessage[] = [];
+
+    this.execution = {
+      swarmId: this.swarm.id,
+      sessionId: input.sessionId,
+      status: "running",
+      currentAgentId: null,
+      iterationCount: 0,
+      executionLog: [],
+      startedAt: new Date(),
+      completedAt: null,
+    };
+
+    let currentAgentId = input.entryAgentId ?? this.graph.getEntryAgentId();
+    await this.createRunRecord(input, currentAgentId);
+
+    /** Assistant row of the turn in progress, until it is completed */
+    let openMessageId: string | null = null;
+
+    try {
+      if (!currentAgentId || !this.graph.hasAgent(currentAgentId)) {
+        throw new SwarmRunError(
+          "NO_ENTRY_AGENT",
+          "Swarm has no entry agent in its graph",
+        );
+      }
+
+      const { summary, history } = await loadSessionHistory(input.sessionId);
+      produced.push(
+        await this.insertMessage({
+          sessionId: input.sessionId,
+          role: "user",
+          content: input.userMessage,
+          metadata: input.resources?.refs.length ? { resources: input.resources.refs } : {},
+        }),
+      );
+
+      const conversation: GatewayMessage[] = [
+        ...history,
+        {
+          role: "user",
+          content: input.resources
+            ? withResourceContext(input.userMessage, input.resources)
+            : input.userMessage,
+        },
+      ];
+      let incomingHandoff: SwarmHandoffEvent | null = null;
+
+      while (true) {
+        if (input.signal?.aborted) {
+          throw new SwarmRunError("ABORTED", "Swarm run was aborted");
+        }
+
+        if (this.execution.iterationCount >= maxIterations) {
+          throw new SwarmRunError(
+            "MAX_ITERATIONS_EXCEEDED",
+            `Swarm stopped after ${maxIterations} iterations without settling on an agent`,
+          );
+        }
+
+        const agent = await this.getAgent(currentAgentId);
+        this.execution.currentAgentId = agent.id;
+        this.execution.iterationCount++;
+        await this.reportProgress();
+
+        const messageId = uuidv4();
+        yield {
+          type: "turn_start",
+          messageId,
+          agentId: agent.id,
+          agentName: agent.name,
+          model: agent.modelPreference,
+        };
+
+        // The assistant row must exist before tool_calls rows reference it
+        await this.insertMessage({
+          id: messageId,
+          sessionId: input.sessionId,
+          role: "assistant",
+          content: "",
+          agentId: agent.id,
+          metadata: { custom: { swarmExecutionId: input.executionId } },
+          isComplete: false,
+        });
+        openMessageId = messageId;
+
+        const response: AgentTurnResult = yield* this.runAgentTurn(
+          agent,
+          conversation,
+          summary,
+          input,
+          messageId,
+        );
+        const hasToolCalls = response.toolCalls.length > 0;
+
+        const assistantMessage = await this.completeMessage(messageId, {
+          content: response.content,
+          metadata: {
+            provider: response.provider,
+            model: response.model,
+            fallback: response.fallback && {
+              requestedModel: response.fallback.requestedModel,
+              reason: response.fallback.reason,
+            },
+            hasToolCalls,
+            toolCallIds: response.toolCalls.flatMap((tc) =>
+              tc.recordId ? [tc.recordId] : [],
+            ),
+            citations: response.citations.length > 0 ? response.citations : undefined,
+            promptBudget: response.promptBudget,
+            swarmHandoff: incomingHandoff
+              ? {
+                  fromAgentId: incomingHandoff.fromAgentId,
+                  toAgentId: incomingHandoff.toAgentId,
+                  reason: incomingHandoff.reason,
+                }
+              : undefined,
+            custom: {
+              swarmExecutionId: input.executionId,
+              ...(hasToolCalls && {
+                toolSteps: response.steps,
+                toolStepLimitReached: response.stepLimitReached,
+              }),
+            },
+          },
+          promptTokens: response.usage.promptTokens,
+          completionTokens: response.usage.completionTokens,
+          totalTokens: response.usage.totalTokens,
+        });
+        openMessageId = null;
+        produced.push(assistantMessage);
+
+        yield { type: "turn_complete", message: assistantMessage };
+
+        conversation.push({ role: "assistant", content: response.content });
+
+        const detection = await handoffDetector.evaluate({
+          agentId: agent.id,
+          agentName: agent.name,
+          userMessage: input.userMessage,
+          response: response.content,
+          toolCalls: response.toolCalls,
+          rules: this.graph.getHandoffRules(agent.id),
+        });
+
+        if (!detection.shouldHandoff || !detection.handoff) {
+          break;
+        }
+
+        const event: SwarmHandoffEvent = {
+          timestamp: Date.now(),
+          fromAgentId: agent.id,
+          fromAgentName: agent.name,
+          toAgentId: detection.handoff.toAgentId,
+          toAgentName: detection.handoff.toAgentName,
+          reason: detection.handoff.reason,
+          messagePreview: response.content.slice(0, MESSAGE_PREVIEW_LENGTH),
+          triggeredCondition: detection.handoff.triggeredCondition,
+        };
+
+        this.execution.executionLog.push(event);
+        await this.saveRunRecord(input.executionId);
+        yield { type: "handoff", handoff: event };
+        conversation.push({
+          role: "system",
+          content: `[Handoff: ${event.fromAgentName} → ${event.toAgentName}] ${event.reason}`,
+        });
+
+        incomingHandoff = event;
+        currentAgentId = event.toAgentId;
+      }
+
+      this.execution.status = "completed";
+    } catch (error) {
+      this.execution.status = "error";
+      this.execution.error = {
+        code:
+          error instanceof SwarmRunError || error instanceof ToolLoopError
+            ? error.code
+            : "EXECUTION_ERROR",
+        message: error instanceof Error ? error.message : "Swarm run failed",
+        agentId: currentAgentId ?? undefined,
+      };
+      console.error(
+        `[SwarmEngine] Run ${input.executionId} failed:`,
+        this.execution.error.message,
+      );
+
+      if (openMessageId) {
+        await this.failMessage(openMessageId, this.execution.error);
+      }
+    }
+
+    this.execution.completedAt = new Date();
+    await this.saveRunRecord(input.executionId);
+    await this.recordRunStats(input.sessionId, produced);
+    await this.reportProgress();
+
+    requestSessionSummary(input.sessionId).catch((error) => {
+      console.error("[SwarmEngine] Session summary failed:", error);
+    });
+
+    return {
+      success: this.execution.status === "completed",
+      sessionId: input.sessionId,
+      messages: produced,
+      handoffs: [...this.execution.executionLog],
+      totalIterations: this.execution.iterationCount,
+      executionTimeMs: Date.now() - startTime,
+      error: this.execution.error?.message,
+    };
+  }
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // PRIVATE METHODS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Run one agent against the shared conversation through the tool loop,
+   * so its tool calls follow the agent's bindings and approval policies and
+   * their results go back to the model. Calls to tools the agent is not
+   * bound to fail; a tool_required handoff rule routes them onwards.
+   */
+  private async *runAgentTurn(
+    agent: DbAgent,
+    conversation: GatewayMessage[],
+    summary: string | null,
+    input: SwarmRunInput,
+    messageId: string,
+  ): AsyncGenerator<SwarmStreamEvent, AgentTurnResult> {
+    const agentTools = await toolRegistry.getAgentTools(agent.id);
+    const availableTools = toolRegistry.convertToGatewayTools(agentTools);
+
+    await contextInjector.ensureLoaded();
+    const { messages: promptMessages, citations, budget } =
+      await contextInjector.assemblePrompt({
+        basePrompt: agent.systemPrompt,
+        agentId: agent.id,
+        model: agent.modelPreference,
+        query: input.userMessage,
+        conversation,
+        summary,
+        tools: availableTools,
+      });
+
+    const loop = toolLoop.run({
+      model: agent.modelPreference,
+      fallbackModels: agent.modelFallbacks,
+      messages: promptMessages,
+      tools: availableTools.length > 0 ? availableTools : undefined,
+      temperature: agent.temperature,
+      sessionId: input.sessionId,
+      agentId: agent.id,
+      messageId,
+      stream: input.stream,
+      signal: input.signal,
+    });
+
+    let next = await loop.next();
+    while (!next.done) {
+      const event = next.value;
+
+      switch (event.type) {
+        case "content":
+          yield { type: "content", messageId, agentId: agent.id, content: event.content };
+          break;
+
+        case "tool_call":
+          yield { type: "tool_call", messageId, agentId: agent.id, toolCall: event.toolCall };
+          break;
+
+        case "approval_required":
+          yield {
+            type: "approval_required",
+            messageId,
+            agentId: agent.id,
+            toolCallId: event.toolCallId,
+            recordId: event.recordId,
+            name: event.name,
+            arguments: event.arguments,
+            expiresAt: event.expiresAt,
+          };
+          break;
+
+        case "tool_result":
+          yield {
+            type: "tool_result",
+            messageId,
+            agentId: agent.id,
+            toolCallId: event.toolCallId,
+            result: event.result,
+            error: event.error,
+            errorCode: event.errorCode,
+          };
+          break;
+      }
+
+      next = await loop.next();
+    }
+
+    return { ...next.value, citations, promptBudget: budget };
+  }
+
+  private async getAgent(agentId: string): Promise<DbAgent> {
+    const cached = this.agentCache.get(agentId);
+    if (cached) return cached;
+
+    const db = getDB();
+    const agent = await db.query.agents.findFirst({
+      where: eq(agents.id, agentId),
+    });
+
+    if (!agent) {
+      throw new SwarmRunError(
+        "AGENT_NOT_FOUND",
+        `Agent ${agentId} in swarm graph no longer exists`,
+      );
+    }
+
+    this.agentCache.set(agentId, agent);
+    return agent;
+  }
+
+  private async insertMessage(
+    values: typeof messages.$inferInsert,
+  ): Promise<DbMessage> {
+    const db = getDB();
+    const [row] = await db
+      .insert(messages)
+      .values({ id: uuidv4(), isComplete: true, ...values })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to persist swarm message");
+    }
+    return row;
+  }
+
+  /**
+   * Fill in an agent's placeholder row once its turn is over.
+   */
+  private async completeMessage(
+    messageId: string,
+    values: Pick<
+      typeof messages.$inferInsert,
+      "content" | "metadata" | "promptTokens" | "completionTokens" | "totalTokens"
+    >,
+  ): Promise<DbMessage> {
+    const db = getDB();
+    const [row] = await db
+      .update(messages)
+      .set({ ...values, isComplete: true })
+      .where(eq(messages.id, messageId))
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to persist swarm message");
+    }
+    return row;
+  }
+
+  /**
+   * Leave the placeholder row of a failed turn marked with the failure.
+   */
+  private async failMessage(
+    messageId: string,
+    error: { code: string; message: string },
+  ): Promise<void> {
+    try {
+      const db = getDB();
+      await db
+        .update(messages)
+        .set({ metadata: { error: { code: error.code, message: error.message } }, isComplete: true })
+        .where(eq(messages.id, messageId));
+    } catch (err) {
+      console.error("[SwarmEngine] Failed to mark message as failed:", err);
+    }
+  }
+
+  /**
+   * Persist a swarm_runs row for this execution so it can be replayed.
+   */
+  private async createRunRecord(
+    input: SwarmRunInput,
+    entryAgentId: string | null,
+  ): Promise<void> {
+    try {
+      const db = getDB();
+      await db.insert(swarmRuns).values({
+        id: input.executionId,
+        swarmId: this.swarm.id,
+        sessionId: input.sessionId,
+        status: "running",
+        userMessage: input.userMessage,
+        entryAgentId,
+        currentAgentId: entryAgentId,
+      });
+    } catch (error) {
+      console.error("[SwarmEngine] Failed to create run record:", error);
+    }
+  }
+
+  private async saveRunRecord(executionId: string): Promise<void> {
+    const { status, currentAgentId, iterationCount, executionLog, error } =
+      this.execution;
+
+    try {
+      const db = getDB();
+      await db
+        .update(swarmRuns)
+        .set({
+          status: status === "completed" || status === "error" ? status : "running",
+          currentAgentId,
+          iterationCount,
+          executionLog,
+          error: error ?? null,
+          completedAt: this.execution.completedAt,
+        })
+        .where(eq(swarmRuns.id, executionId));
+    } catch (err) {
+      console.error("[SwarmEngine] Failed to save run record:", err);
+    }
+  }
+
+  private async recordRunStats(
+    sessionId: string,
+    produced: DbMessage[],
+  ): Promise<void> {
+    try {
+      const db = getDB();
+
+      await db
+        .update(swarmDefs)
+        .set({ totalExecutions: sql`${swarmDefs.totalExecutions} + 1` })
+        .where(eq(swarmDefs.id, this.swarm.id));
+
+      if (produced.length === 0) return;
+
+      await db
+        .update(chatSessions)
+        .set({
+          messageCount: sql`${chatSessions.messageCount} + ${produced.length}`,
+          lastMessageAt: new Date(),
+        })
+        .where(eq(chatSessions.id, sessionId));
+
+      for (const message of produced) {
+        if (!message.agentId) continue;
+        await db
+          .update(agents)
+          .set({
+            totalMessages: sql`${agents.totalMessages} + 1`,
+            lastActiveAt: new Date(),
+          })
+          .where(eq(agents.id, message.agentId));
+      }
+    } catch (error) {
+      console.error("[SwarmEngine] Failed to record run stats:", error);
+    }
+  }
+
+  private async reportProgress(): Promise<void> {
+    try {
+      await this.options.onProgress?.(this.getExecution());
+    } catch (error) {
+      console.error("[SwarmEngine] Progress callback failed:", error);
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FACTORY FUNCTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convenience wrapper: load a swarm and run it once.
+ */
+export async function runSwarm(
+  swarmId: string,
+  input: SwarmRunInput,
+  options?: SwarmEngineOptions,
+): Promise<SwarmExecutionResult> {
+  const engine = await SwarmEngine.load(swarmId, options);
+  return engine.execute(input);
+}
@@ -0,0 +1,155 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM GRAPH TESTS - Graph Validation and Keyword Patterns
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { keywordPatternProblem, validateSwarmGraph } from "@/lib/swarm/SwarmGraph";
+import type { HandoffCondition, HandoffRule, SwarmGraphNode } from "@/types/swarm";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function node(agentId: string, handoffRules: HandoffRule[] = []): SwarmGraphNode {
+  return { agentId, agentName: agentId, position: { x: 0, y: 0 }, handoffRules };
+}
+
+function to(
+  targetAgentId: string,
+  condition: HandoffCondition = "keyword",
+  fields: Partial<HandoffRule> = {},
+): HandoffRule {
+  return {
+    targetAgentId,
+    targetAgentName: targetAgentId,
+    condition,
+    conditionValue: "next",
+    priority: 0,
+    ...fields,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("validateSwarmGraph", () => {
+  it("accepts a chain that can stop", () => {
+    const nodes = [node("triage", [to("billing"), to("tech")]), node("billing"), node("tech")];
+    assert.deepEqual(validateSwarmGraph(nodes, "triage"), []);
+  });
+
+  it("accepts a single agent with no rules", () => {
+    assert.deepEqual(validateSwarmGraph([node("solo")], "solo"), []);
+  });
+
+  it("requires agents and an entry agent that belongs to the swarm", () => {
+    assert.deepEqual(validateSwarmGraph([], null), [
+      "Swarm must contain at least one agent",
+      "An entry agent is required",
+    ]);
+    assert.deepEqual(validateSwarmGraph([node("a")], "ghost"), [
+      "Entry agent ghost is not a member of the swarm",
+    ]);
+  });
+
+  it("reports duplicate agents", () => {
+    assert.ok(
+      validateSwarmGraph([node("a"), node("a")], "a").includes('Agent "a" appears more than once'),
+    );
+  });
+
+  it("reports rules pointing at the agent itself or outside the swarm", () => {
+    const errors = validateSwarmGraph([node("a", [to("a"), to("b", "keyword", { targetAgentName: "Bob" })])], "a");
+    assert.ok(errors.includes('"a" has a handoff rule pointing at itself'));
+    assert.ok(errors.includes('"a" hands off to Bob, which is not in the swarm'));
+  });
+
+  it("requires the value each condition needs", () => {
+    const nodes = [
+      node("a", [
+        to("b", "keyword", { conditionValue: " " }),
+        to("b", "intent_match", { conditionValue: undefined }),
+        to("b", "custom", { customPrompt: "" }),
+        to("b", "tool_required", { conditionValue: undefined }),
+      ]),
+      node("b"),
+    ];
+    assert.deepEqual(validateSwarmGraph(nodes, "a"), [
+      '"a" has a keyword rule without a keyword',
+      '"a" has an intent rule without an intent',
+      '"a" has a custom rule without a prompt',
+    ]);
+  });
+
+  it("reports keyword patterns that can't be used", () => {
+    const errors = validateSwarmGraph([node("a", [to("b", "keyword", { conditionValue: "/(a+)+/" })]), node("b")], "a");
+    assert.equal(errors.length, 1);
+    assert.match(errors[0]!, /^"a" has a keyword pattern that can't be used: nested repetition/);
+  });
+
+  it("reports agents the entry agent cannot reach", () => {
+    assert.deepEqual(validateSwarmGraph([node("a"), node("b")], "a"), [
+      'Entry agent "a" has no handoff rules, so no other agent can be reached',
+    ]);
+    assert.deepEqual(
+      validateSwarmGraph([node("a", [to("b")]), node("b"), node("c", [to("a")])], "a"),
+      ['"c" cannot be reached from the entry agent'],
+    );
+  });
+
+  it("reports agents that always hand off in a cycle", () => {
+    const nodes = [node("a", [to("b", "always")]), node("b", [to("a", "always")])];
+    assert.deepEqual(validateSwarmGraph(nodes, "a"), [
+      '"a", "b" always hand off in a cycle with no stop condition',
+    ]);
+  });
+
+  it("allows a cycle that has a way out", () => {
+    const nodes = [
+      node("a", [to("b", "always")]),
+      node("b", [to("a", "keyword")]),
+    ];
+    assert.deepEqual(validateSwarmGraph(nodes, "a"), []);
+  });
+
+  it("ignores rules shadowed by a higher-priority always rule", () => {
+    const nodes = [
+      node("a", [to("b", "keyword", { priority: 0 }), to("c", "always", { priority: 5 })]),
+      node("b"),
+      node("c", [to("a", "always")]),
+    ];
+    assert.deepEqual(validateSwarmGraph(nodes, "a"), [
+      '"a", "c" always hand off in a cycle with no stop condition',
+    ]);
+  });
+});
+
+describe("keywordPatternProblem", () => {
+  it("accepts plain keywords and ordinary patterns", () => {
+    for (const value of [
+      "refund",
+      "(a+)+",
+      "/refund|chargeback/i",
+      "/order #\\d+/",
+      "/(?:re)?fund(s|ed)?/",
+      "/[()+*]+x/",
+      "/\\(a+\\)+/",
+      "/(ab){2,3}/",
+    ]) {
+      assert.equal(keywordPatternProblem(value), null, value);
+    }
+  });
+
+  it("refuses repeated groups that repeat or branch inside", () => {
+    for (const value of ["/(a+)+$/", "/(a*)*b/", "/(a|aa)+/", "/((ab)*c)+/", "/(?:x+y){2,}/", "/(\\w+\\s?)*$/"]) {
+      assert.match(keywordPatternProblem(value) ?? "", /exponential/, value);
+    }
+  });
+
+  it("refuses backreferences, invalid syntax, and very long patterns", () => {
+    assert.match(keywordPatternProblem("/(a)\\1/") ?? "", /backreferences/);
+    assert.match(keywordPatternProblem("/(?<q>a)\\k<q>/") ?? "", /backreferences/);
+    assert.match(keywordPatternProblem("/(/") ?? "", /not a valid/);
+    assert.match(keywordPatternProblem(`/${"a".repeat(201)}/`) ?? "", /200 characters/);
+  });
+});
@@ -0,0 +1,295 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM GRAPH - Read-Only View over swarm_defs.graph_json
+//
+// Pure module (no DB / Node imports) so it can be shared by the SwarmEngine,
+// API validation, and the client-side swarm builder.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { HandoffRule, SwarmGraphNode } from "@/types/swarm";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM GRAPH CLASS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class SwarmGraph {
+  private nodes: Map<string, SwarmGraphNode> = new Map();
+  private entryAgentId: string | null;
+
+  constructor(nodes: SwarmGraphNode[], entryAgentId: string | null = null) {
+    for (const node of nodes) {
+      this.nodes.set(node.agentId, node);
+    }
+    this.entryAgentId = entryAgentId;
+  }
+
+  /**
+   * Resolve the entry agent. Falls back to the first node in the graph
+   * when the swarm definition does not name one explicitly.
+   */
+  getEntryAgentId(): string | null {
+    if (this.entryAgentId && this.nodes.has(this.entryAgentId)) {
+      return this.entryAgentId;
+    }
+    const first = this.nodes.keys().next();
+    return first.done ? null : first.value;
+  }
+
+  /**
+   * Get a node by agent ID.
+   */
+  getNode(agentId: string): SwarmGraphNode | undefined {
+    return this.nodes.get(agentId);
+  }
+
+  /**
+   * Check whether an agent is a member of the graph.
+   */
+  hasAgent(agentId: string): boolean {
+    return this.nodes.has(agentId);
+  }
+
+  /**
+   * Get all member agent IDs in graph order.
+   */
+  getAgentIds(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  /**
+   * Get all nodes in graph order.
+   */
+  getNodes(): SwarmGraphNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Get the outgoing handoff rules for an agent, highest priority first.
+   * Rules pointing outside the graph (or back at the same agent) are dropped.
+   */
+  getHandoffRules(agentId: string): HandoffRule[] {
+    const node = this.nodes.get(agentId);
+    if (!node) return [];
+
+    return node.handoffRules
+      .filter(
+        (rule) =>
+          rule.targetAgentId !== agentId && this.nodes.has(rule.targetAgentId),
+      )
+      .sort((a, b) => b.priority - a.priority);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Structural validation of a swarm graph.
+ * Returns a list of human-readable problems; an empty list means valid.
+ */
+export function validateSwarmGraph(
+  nodes: SwarmGraphNode[],
+  entryAgentId: string | null,
+): string[] {
+  const errors: string[] = [];
+  const memberIds = new Set<string>();
+
+  if (nodes.length === 0) {
+    errors.push("Swarm must contain at least one agent");
+  }
+
+  for (const node of nodes) {
+    if (memberIds.has(node.agentId)) {
+      errors.push(`Agent "${node.agentName}" appears more than once`);
+    }
+    memberIds.add(node.agentId);
+  }
+
+  if (!entryAgentId) {
+    errors.push("An entry agent is required");
+  } else if (!memberIds.has(entryAgentId)) {
+    errors.push(`Entry agent ${entryAgentId} is not a member of the swarm`);
+  }
+
+  for (const node of nodes) {
+    for (const rule of node.handoffRules) {
+      if (rule.targetAgentId === node.agentId) {
+        errors.push(`"${node.agentName}" has a handoff rule pointing at itself`);
+      } else if (!memberIds.has(rule.targetAgentId)) {
+        errors.push(
+          `"${node.agentName}" hands off to ${rule.targetAgentName || rule.targetAgentId}, which is not in the swarm`,
+        );
+      }
+
+      if (rule.condition === "keyword") {
+        const keyword = rule.conditionValue?.trim();
+        const problem = keyword ? keywordPatternProblem(keyword) : null;
+        if (!keyword) {
+          errors.push(`"${node.agentName}" has a keyword rule without a keyword`);
+        } else if (problem) {
+          errors.push(`"${node.agentName}" has a keyword pattern that can't be used: ${problem}`);
+        }
+      }
+      if (rule.condition === "intent_match" && !rule.conditionValue?.trim()) {
+        errors.push(`"${node.agentName}" has an intent rule without an intent`);
+      }
+      if (rule.condition === "custom" && !rule.customPrompt?.trim()) {
+        errors.push(`"${node.agentName}" has a custom rule without a prompt`);
+      }
+    }
+  }
+
+  if (entryAgentId && memberIds.has(entryAgentId)) {
+    errors.push(...validateReachability(nodes, entryAgentId));
+  }
+  errors.push(...validateTermination(nodes));
+
+  return errors;
+}
+
+// ─── Keyword Patterns ────────────────────────────────────────────────────────
+
+/** A keyword written as `/pattern/flags` */
+export const KEYWORD_REGEX = /^\/(.+)\/([a-z]*)$/;
+
+/** Longest `/pattern/` source a keyword rule may use */
+const MAX_KEYWORD_PATTERN_LENGTH = 200;
+
+/**
+ * Why a keyword rule's `/pattern/flags` can't be used, or null when it can
+ * (plain keywords always can). Patterns run against every agent response,
+ * so ones that can backtrack exponentially are refused: a repeated group
+ * that itself contains a repetition or an alternation, and backreferences.
+ */
+export function keywordPatternProblem(value: string): string | null {
+  const regex = value.match(KEYWORD_REGEX);
+  if (!regex) return null;
+
+  const source = regex[1]!;
+  if (source.length > MAX_KEYWORD_PATTERN_LENGTH) {
+    return `patterns are limited to ${MAX_KEYWORD_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(source, regex[2]);
+  } catch {
+    return "not a valid regular expression";
+  }
+
+  // One frame per open group: whether it repeats or branches inside
+  const groups = [{ repeats: false, branches: false }];
+  const isQuantifier = (at: number) =>
+    source[at] === "*" ||
+    source[at] === "+" ||
+    source[at] === "?" ||
+    (source[at] === "{" && /^\{\d+(,\d*)?\}/.test(source.slice(at)));
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const group = groups[groups.length - 1]!;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(source[i + 1] ?? "")) return "backreferences are not supported";
+      i++;
+    } else if (char === "[") {
+      // Skip the character class, minding escaped brackets
+      for (i++; i < source.length && source[i] !== "]"; i++) {
+        if (source[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ repeats: false, branches: false });
+    } else if (char === ")") {
+      const closed = groups.pop()!;
+      const parent = groups[groups.length - 1]!;
+      const repeated = isQuantifier(i + 1) && source[i + 1] !== "?";
+      if (repeated && (closed.repeats || closed.branches)) {
+        return `nested repetition like "(a+)+" or "(a|b)*" can take exponential time`;
+      }
+      parent.repeats ||= closed.repeats || repeated;
+    } else if (char === "|") {
+      group.branches = true;
+    } else if (isQuantifier(i) && source[i - 1] !== "(") {
+      group.repeats = true;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every agent must be reachable from the entry agent.
+ */
+function validateReachability(
+  nodes: SwarmGraphNode[],
+  entryAgentId: string,
+): string[] {
+  const graph = new SwarmGraph(nodes, entryAgentId);
+  const entry = graph.getNode(entryAgentId)!;
+
+  if (nodes.length > 1 && graph.getHandoffRules(entryAgentId).length === 0) {
+    return [
+      `Entry agent "${entry.agentName}" has no handoff rules, so no other agent can be reached`,
+    ];
+  }
+
+  const reached = new Set([entryAgentId]);
+  const queue = [entryAgentId];
+  while (queue.length > 0) {
+    for (const rule of graph.getHandoffRules(queue.shift()!)) {
+      if (!reached.has(rule.targetAgentId)) {
+        reached.add(rule.targetAgentId);
+        queue.push(rule.targetAgentId);
+      }
+    }
+  }
+
+  return nodes
+    .filter((node) => !reached.has(node.agentId))
+    .map((node) => `"${node.agentName}" cannot be reached from the entry agent`);
+}
+
+/**
+ * A run only ends on an agent whose rules can all fail. Rules are evaluated
+ * highest priority first, so an "always" rule shadows everything after it.
+ * Agents that can only ever hand off into other such agents loop forever.
+ */
+function validateTermination(nodes: SwarmGraphNode[]): string[] {
+  const graph = new SwarmGraph(nodes);
+  const canStop = new Set<string>();
+  const successors = new Map<string, string[]>();
+
+  for (const agentId of graph.getAgentIds()) {
+    const rules = graph.getHandoffRules(agentId);
+    const alwaysIndex = rules.findIndex((rule) => rule.condition === "always");
+    if (alwaysIndex === -1) {
+      canStop.add(agentId);
+    } else {
+      successors.set(
+        agentId,
+        rules.slice(0, alwaysIndex + 1).map((rule) => rule.targetAgentId),
+      );
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    successors.forEach((targets, agentId) => {
+      if (!canStop.has(agentId) && targets.some((id) => canStop.has(id))) {
+        canStop.add(agentId);
+        changed = true;
+      }
+    });
+  }
+
+  const looping = graph
+    .getNodes()
+    .filter((node) => !canStop.has(node.agentId))
+    .map((node) => `"${node.agentName}"`);
+
+  return looping.length > 0
+    ? [
+        `${looping.join(", ")} always hand off in a cycle with no stop condition`,
+      ]
+    : [];
+}
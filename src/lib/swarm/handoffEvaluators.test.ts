@@ -0,0 +1,230 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// HANDOFF EVALUATOR TESTS - One Suite per HandoffCondition
+//
+// The tool registry and the judge model are replaced per test with
+// node:test mocks, so the rules are checked without a database or Ollama.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AlwaysEvaluator,
+  CustomPromptEvaluator,
+  IntentMatchEvaluator,
+  KeywordEvaluator,
+  ToolRequiredEvaluator,
+} from "@/lib/swarm/handoffEvaluators";
+import type { HandoffContext } from "@/lib/swarm/HandoffDetector";
+import { toolRegistry } from "@/lib/mcp/toolRegistry";
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import type { CompletionResponse } from "@/lib/ai/unifiedGateway";
+import type { MCPTool } from "@/types/tool";
+import type { HandoffCondition, HandoffRule } from "@/types/swarm";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function rule(
+  condition: HandoffCondition,
+  fields: Partial<HandoffRule> = {},
+): HandoffRule {
+  return {
+    targetAgentId: "agent-b",
+    targetAgentName: "Billing",
+    condition,
+    priority: 0,
+    ...fields,
+  };
+}
+
+function context(fields: Partial<HandoffContext> = {}): HandoffContext {
+  return {
+    agentId: "agent-a",
+    agentName: "Support",
+    userMessage: "I was charged twice",
+    response: "Let me look into that.",
+    toolCalls: [],
+    rules: [],
+    ...fields,
+  };
+}
+
+/** Answer every judge call with `content`, recording the prompts */
+function judgeReplies(...contents: string[]) {
+  return mock.method(unifiedGateway, "complete", async (): Promise<CompletionResponse> => ({
+    content: contents.shift() ?? "",
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    model: "judge",
+    provider: "ollama",
+    finishReason: "stop",
+  }));
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("AlwaysEvaluator", () => {
+  it("fires for every turn", async () => {
+    const reason = await new AlwaysEvaluator().evaluate(rule("always"), context());
+    assert.equal(reason, "Support always hands off to Billing");
+  });
+});
+
+describe("KeywordEvaluator", () => {
+  const evaluator = new KeywordEvaluator();
+  const respond = (response: string, conditionValue: string) =>
+    evaluator.evaluate(rule("keyword", { conditionValue }), context({ response }));
+
+  it("matches a phrase case-insensitively as whole words", async () => {
+    assert.equal(await respond("Please see our REFUND policy.", "refund policy"), 'Response matched "REFUND policy"');
+    assert.equal(await respond("Refunds take a week.", "refund"), null);
+  });
+
+  it("matches keywords that start or end with punctuation", async () => {
+    assert.equal(await respond("Call the C++ team.", "c++"), 'Response matched "C++"');
+    assert.equal(await respond("Call the C team.", "c++"), null);
+  });
+
+  it("treats /pattern/flags as a regular expression", async () => {
+    assert.equal(await respond("Order #4521 is late", "/#\\d{4}/"), 'Response matched "#4521"');
+    assert.equal(await respond("ESCALATE now", "/escalate/"), null);
+    assert.equal(await respond("ESCALATE now", "/escalate/i"), 'Response matched "ESCALATE"');
+  });
+
+  it("never matches an invalid or unsafe pattern", async () => {
+    assert.equal(await respond("((( anything", "/(/"), null);
+    assert.equal(await respond("aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!", "/(a+)+$/"), null);
+  });
+
+  it("ignores an empty keyword", async () => {
+    assert.equal(await respond("anything", "   "), null);
+  });
+
+  it("only looks at the start of very long responses", async () => {
+    const response = `${"filler ".repeat(4000)}escalate`;
+    assert.equal(await respond(response, "escalate"), null);
+  });
+});
+
+describe("ToolRequiredEvaluator", () => {
+  const evaluator = new ToolRequiredEvaluator();
+
+  function bindTools(...names: string[]) {
+    mock.method(toolRegistry, "getAgentTools", async () =>
+      names.map((name) => ({ name }) as MCPTool),
+    );
+  }
+
+  it("fires when the agent asked for a tool it is not bound to", async () => {
+    bindTools("search");
+    const reason = await evaluator.evaluate(
+      rule("tool_required"),
+      context({ toolCalls: [{ name: "search", arguments: {} }, { name: "refund", arguments: {} }] }),
+    );
+    assert.equal(reason, 'Support requested tool "refund" it is not bound to');
+  });
+
+  it("does not fire when every requested tool is bound", async () => {
+    bindTools("search");
+    const reason = await evaluator.evaluate(
+      rule("tool_required"),
+      context({ toolCalls: [{ name: "search", arguments: {} }] }),
+    );
+    assert.equal(reason, null);
+  });
+
+  it("only counts the named tool when conditionValue is set", async () => {
+    bindTools();
+    const calls = context({ toolCalls: [{ name: "search", arguments: {} }] });
+    assert.equal(await evaluator.evaluate(rule("tool_required", { conditionValue: "refund" }), calls), null);
+    assert.notEqual(await evaluator.evaluate(rule("tool_required", { conditionValue: "search" }), calls), null);
+  });
+
+  it("skips the registry lookup when no tools were requested", async () => {
+    const lookup = mock.method(toolRegistry, "getAgentTools", async () => []);
+    assert.equal(await evaluator.evaluate(rule("tool_required"), context()), null);
+    assert.equal(lookup.mock.callCount(), 0);
+  });
+});
+
+describe("IntentMatchEvaluator", () => {
+  const billing = rule("intent_match", { conditionValue: "billing" });
+  const sales = rule("intent_match", { conditionValue: "sales", targetAgentId: "agent-c" });
+
+  it("fires on a confident classification of the rule's intent", async () => {
+    judgeReplies('```json\n{"primaryIntent": "Billing", "confidence": 0.9, "secondaryIntents": []}\n```');
+    const reason = await new IntentMatchEvaluator().evaluate(billing, context({ rules: [billing] }));
+    assert.equal(reason, 'Intent "Billing" (confidence 0.90)');
+  });
+
+  it("does not fire below the confidence threshold", async () => {
+    judgeReplies('{"primaryIntent": "billing", "confidence": 0.4}');
+    assert.equal(await new IntentMatchEvaluator().evaluate(billing, context({ rules: [billing] })), null);
+  });
+
+  it("classifies a turn once for all of its intent rules", async () => {
+    const judge = judgeReplies('{"primaryIntent": "sales", "confidence": 0.8}');
+    const evaluator = new IntentMatchEvaluator();
+    const turn = context({ rules: [billing, sales] });
+
+    assert.equal(await evaluator.evaluate(billing, turn), null);
+    assert.notEqual(await evaluator.evaluate(sales, turn), null);
+    assert.equal(judge.mock.callCount(), 1);
+
+    const prompt = judge.mock.calls[0]!.arguments[0]!.messages[0]!.content;
+    assert.match(String(prompt), /Candidate intents: billing, sales, none\./);
+  });
+
+  it("does not fire on unparseable output", async () => {
+    judgeReplies("I think this is about billing.");
+    assert.equal(await new IntentMatchEvaluator().evaluate(billing, context({ rules: [billing] })), null);
+  });
+
+  it("parses a classification, clamping confidences and dropping bad entries", async () => {
+    judgeReplies(
+      '{"primaryIntent": "billing", "confidence": 3, "secondaryIntents": [{"intent": "sales", "confidence": -1}, {"confidence": 1}]}',
+    );
+    assert.deepEqual(await new IntentMatchEvaluator().classify(context({ rules: [billing] })), {
+      primaryIntent: "billing",
+      confidence: 1,
+      secondaryIntents: [{ intent: "sales", confidence: 0 }],
+    });
+  });
+});
+
+describe("CustomPromptEvaluator", () => {
+  const question = rule("custom", { customPrompt: "Does the user want a refund?" });
+
+  it("fires when the judge answers yes", async () => {
+    judgeReplies("Yes.");
+    assert.equal(
+      await new CustomPromptEvaluator().evaluate(question, context()),
+      'Judge answered yes to "Does the user want a refund?"',
+    );
+  });
+
+  it("does not fire on no or on a word that merely starts with yes", async () => {
+    judgeReplies("NO", "Yesterday");
+    const evaluator = new CustomPromptEvaluator();
+    assert.equal(await evaluator.evaluate(question, context()), null);
+    assert.equal(await evaluator.evaluate(question, context()), null);
+  });
+
+  it("does not fire when the judge fails", async () => {
+    mock.method(unifiedGateway, "complete", async () => {
+      throw new Error("Ollama is down");
+    });
+    mock.method(console, "error", () => undefined);
+    assert.equal(await new CustomPromptEvaluator().evaluate(question, context()), null);
+  });
+
+  it("ignores a rule without a prompt", async () => {
+    const judge = judgeReplies("YES");
+    assert.equal(await new CustomPromptEvaluator().evaluate(rule("custom"), context()), null);
+    assert.equal(judge.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,282 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// HANDOFF EVALUATORS - One Pluggable Evaluator per HandoffCondition
+//
+// Each evaluator decides whether a single rule fires for the turn that just
+// finished. The HandoffDetector owns the registry and rule ordering.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { unifiedGateway } from "@/lib/ai/unifiedGateway";
+import { toolRegistry } from "@/lib/mcp/toolRegistry";
+import type {
+  HandoffCondition,
+  HandoffRule,
+  IntentClassification,
+} from "@/types/swarm";
+import type { HandoffContext } from "./HandoffDetector";
+import { KEYWORD_REGEX, keywordPatternProblem } from "./SwarmGraph";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface HandoffEvaluator {
+  /** The condition this evaluator handles */
+  readonly condition: HandoffCondition;
+
+  /**
+   * Returns a human-readable reason when the rule fires, otherwise null.
+   */
+  evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null>;
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Small local model used for intent classification and custom judges */
+const JUDGE_MODEL = process.env.HANDOFF_JUDGE_MODEL ?? "ollama/llama3.2:1b";
+
+/** Minimum classifier confidence for an intent_match rule to fire */
+const INTENT_CONFIDENCE_THRESHOLD = 0.6;
+
+/** How much of the agent response the judges get to see */
+const RESPONSE_EXCERPT_LENGTH = 2000;
+
+/** How much of the agent response keyword rules are matched against */
+const KEYWORD_MATCH_LENGTH = 20000;
+
+// ─── always ──────────────────────────────────────────────────────────────────
+
+export class AlwaysEvaluator implements HandoffEvaluator {
+  readonly condition = "always" as const;
+
+  async evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null> {
+    return `${context.agentName} always hands off to ${rule.targetAgentName}`;
+  }
+}
+
+// ─── keyword ─────────────────────────────────────────────────────────────────
+
+/**
+ * Matches `conditionValue` against the agent response.
+ * `/pattern/flags` is treated as a regular expression; anything else is
+ * matched case-insensitively as a whole word or phrase. Patterns that
+ * validateSwarmGraph would refuse never match.
+ */
+export class KeywordEvaluator implements HandoffEvaluator {
+  readonly condition = "keyword" as const;
+
+  async evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null> {
+    const value = rule.conditionValue?.trim();
+    if (!value) return null;
+
+    const pattern = this.toPattern(value);
+    if (!pattern) return null;
+
+    const match = context.response.slice(0, KEYWORD_MATCH_LENGTH).match(pattern);
+    return match ? `Response matched "${match[0]}"` : null;
+  }
+
+  private toPattern(value: string): RegExp | null {
+    const regex = value.match(KEYWORD_REGEX);
+    if (regex) {
+      const problem = keywordPatternProblem(value);
+      if (problem) {
+        console.warn(`[HandoffEvaluator] Skipping keyword regex ${value}: ${problem}`);
+        return null;
+      }
+      return new RegExp(regex[1]!, regex[2]);
+    }
+
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    // \b only works next to word characters, so guard with lookarounds instead
+    return new RegExp(`(?<![\\w])${escaped}(?![\\w])`, "i");
+  }
+}
+
+// ─── tool_required ───────────────────────────────────────────────────────────
+
+/**
+ * Fires when the agent requested a tool that is not bound to it in
+ * agent_tools. With a `conditionValue`, only that tool name counts.
+ */
+export class ToolRequiredEvaluator implements HandoffEvaluator {
+  readonly condition = "tool_required" as const;
+
+  async evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null> {
+    if (context.toolCalls.length === 0) return null;
+
+    const bound = await toolRegistry.getAgentTools(context.agentId);
+    const boundNames = new Set(bound.map((tool) => tool.name));
+    const wanted = rule.conditionValue?.trim();
+
+    const missing = context.toolCalls.find(
+      (call) =>
+        !boundNames.has(call.name) && (!wanted || call.name === wanted),
+    );
+
+    return missing
+      ? `${context.agentName} requested tool "${missing.name}" it is not bound to`
+      : null;
+  }
+}
+
+// ─── intent_match ────────────────────────────────────────────────────────────
+
+/**
+ * Classifies the turn with a small local LLM and fires when the primary
+ * intent equals `conditionValue`. One classification is shared by all
+ * intent_match rules of the same turn.
+ */
+export class IntentMatchEvaluator implements HandoffEvaluator {
+  readonly condition = "intent_match" as const;
+
+  private classifications = new WeakMap<
+    HandoffContext,
+    Promise<IntentClassification | null>
+  >();
+
+  async evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null> {
+    const intent = rule.conditionValue?.trim().toLowerCase();
+    if (!intent) return null;
+
+    let pending = this.classifications.get(context);
+    if (!pending) {
+      pending = this.classify(context);
+      this.classifications.set(context, pending);
+    }
+
+    const classification = await pending;
+    if (!classification) return null;
+
+    if (
+      classification.primaryIntent.toLowerCase() === intent &&
+      classification.confidence >= INTENT_CONFIDENCE_THRESHOLD
+    ) {
+      return `Intent "${classification.primaryIntent}" (confidence ${classification.confidence.toFixed(2)})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Ask the judge model to pick among the intents this agent routes on.
+   */
+  async classify(context: HandoffContext): Promise<IntentClassification | null> {
+    const intents = context.rules
+      .filter((r) => r.condition === "intent_match" && r.conditionValue?.trim())
+      .map((r) => r.conditionValue!.trim());
+
+    try {
+      const response = await unifiedGateway.complete({
+        model: JUDGE_MODEL,
+        temperature: 0,
+        maxTokens: 200,
+        messages: [
+          {
+            role: "system",
+            content: [
+              "You classify the intent of a conversation turn.",
+              `Candidate intents: ${[...intents, "none"].join(", ")}.`,
+              "Reply with JSON only:",
+              '{"primaryIntent": string, "confidence": number between 0 and 1, "secondaryIntents": [{"intent": string, "confidence": number}]}',
+            ].join("\n"),
+          },
+          { role: "user", content: describeTurn(context) },
+        ],
+      });
+
+      return parseClassification(response.content);
+    } catch (error) {
+      console.error("[HandoffEvaluator] Intent classification failed:", error);
+      return null;
+    }
+  }
+}
+
+// ─── custom ──────────────────────────────────────────────────────────────────
+
+/**
+ * Runs `customPrompt` as a yes/no question against the turn.
+ */
+export class CustomPromptEvaluator implements HandoffEvaluator {
+  readonly condition = "custom" as const;
+
+  async evaluate(rule: HandoffRule, context: HandoffContext): Promise<string | null> {
+    const question = rule.customPrompt?.trim();
+    if (!question) return null;
+
+    try {
+      const response = await unifiedGateway.complete({
+        model: JUDGE_MODEL,
+        temperature: 0,
+        maxTokens: 5,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are a routing judge. Answer the question about the conversation turn with a single word: YES or NO.",
+          },
+          {
+            role: "user",
+            content: `${describeTurn(context)}\n\nQuestion: ${question}`,
+          },
+        ],
+      });
+
+      return /^\W*yes\b/i.test(response.content)
+        ? `Judge answered yes to "${question}"`
+        : null;
+    } catch (error) {
+      console.error("[HandoffEvaluator] Custom judge failed:", error);
+      return null;
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function describeTurn(context: HandoffContext): string {
+  return [
+    `User message:\n${context.userMessage}`,
+    `Response from ${context.agentName}:\n${context.response.slice(0, RESPONSE_EXCERPT_LENGTH)}`,
+  ].join("\n\n");
+}
+
+/**
+ * Parse the classifier output, tolerating prose or code fences around the JSON.
+ */
+function parseClassification(raw: string): IntentClassification | null {
+  const json = raw.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json[0]) as Partial<IntentClassification>;
+    if (typeof parsed.primaryIntent !== "string") return null;
+
+    return {
+      primaryIntent: parsed.primaryIntent,
+      confidence: clamp(Number(parsed.confidence) || 0),
+      secondaryIntents: Array.isArray(parsed.secondaryIntents)
+        ? parsed.secondaryIntents
+            .filter((s) => typeof s?.intent === "string")
+            .map((s) => ({ intent: s.intent, confidence: clamp(Number(s.confidence) || 0) }))
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * The evaluators registered by default, one per HandoffCondition.
+ */
+export function createDefaultEvaluators(): HandoffEvaluator[] {
+  return [
+    new AlwaysEvaluator(),
+    new KeywordEvaluator(),
+    new ToolRequiredEvaluator(),
+    new IntentMatchEvaluator(),
+    new CustomPromptEvaluator(),
+  ];
+}
@@ -0,0 +1,166 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SWARM PAYLOADS - Request Validation and Graph Assembly for /api/swarms
+// Server-side only (reads agent names from SQLite).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod";
+import { inArray } from "drizzle-orm";
+import { getDB } from "@/lib/db/client";
+import { agents } from "@/lib/db/schema";
+import type { HandoffRule, SwarmGraphNode } from "@/types/swarm";
+
+// ─── Validation Schemas (aligned with CreateSwarmPayload from @/types/swarm) ─
+
+export const handoffConditionSchema = z.enum([
+  "always",
+  "keyword",
+  "tool_required",
+  "intent_match",
+  "custom",
+]);
+
+const handoffRuleInputSchema = z.object({
+  fromAgentId: z.string().min(1),
+  toAgentId: z.string().min(1),
+  condition: handoffConditionSchema,
+  conditionValue: z.string().max(500).optional(),
+  customPrompt: z.string().max(4000).optional(),
+  priority: z.number().int().optional(),
+});
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+export const createSwarmSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(2000).optional(),
+  agentIds: z.array(z.string().min(1)).min(1),
+  entryAgentId: z.string().min(1),
+  handoffRules: z.array(handoffRuleInputSchema).default([]),
+  positions: z.record(positionSchema).optional(),
+  maxIterations: z.number().int().min(1).max(100).default(10),
+  autoStart: z.boolean().default(false),
+});
+
+export const updateSwarmSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(2000).optional(),
+  agentIds: z.array(z.string().min(1)).min(1).optional(),
+  entryAgentId: z.string().min(1).optional(),
+  handoffRules: z.array(handoffRuleInputSchema).optional(),
+  positions: z.record(positionSchema).optional(),
+  maxIterations: z.number().int().min(1).max(100).optional(),
+  autoStart: z.boolean().optional(),
+});
+
+export const executeSwarmSchema = z.object({
+  content: z.string().min(1).max(50000),
+  sessionId: z.string().min(1).optional(),
+});
+
+export type HandoffRuleInput = z.infer<typeof handoffRuleInputSchema>;
+
+// ─── Graph Assembly ──────────────────────────────────────────────────────────
+
+/**
+ * Look up display names for the given agent IDs.
+ * Agents that do not exist are simply absent from the returned map.
+ */
+export async function loadAgentNames(
+  agentIds: string[],
+): Promise<Map<string, string>> {
+  if (agentIds.length === 0) return new Map();
+
+  const db = getDB();
+  const rows = await db
+    .select({ id: agents.id, name: agents.name })
+    .from(agents)
+    .where(inArray(agents.id, agentIds));
+
+  return new Map(rows.map((row) => [row.id, row.name]));
+}
+
+/**
+ * Flatten stored graph nodes back into the payload rule format.
+ * Used by PATCH when only part of the graph is being replaced.
+ */
+export function flattenHandoffRules(nodes: SwarmGraphNode[]): HandoffRuleInput[] {
+  return nodes.flatMap((node) =>
+    node.handoffRules.map((rule) => ({
+      fromAgentId: node.agentId,
+      toAgentId: rule.targetAgentId,
+      condition: rule.condition,
+      conditionValue: rule.conditionValue,
+      customPrompt: rule.customPrompt,
+      priority: rule.priority,
+    })),
+  );
+}
+
+/**
+ * Build swarm_defs.graph_json nodes from the flat API payload.
+ *
+ * @param agentNames - Names of the agents that exist in the database, by ID.
+ * @param existing - Current graph (node positions/metadata are preserved).
+ * @returns The assembled nodes and any problems found while assembling them.
+ */
+export function buildGraphNodes(
+  input: {
+    agentIds: string[];
+    handoffRules: HandoffRuleInput[];
+    positions?: Record<string, { x: number; y: number }>;
+  },
+  agentNames: Map<string, string>,
+  existing: SwarmGraphNode[] = [],
+): { nodes: SwarmGraphNode[]; errors: string[] } {
+  const errors: string[] = [];
+  const previous = new Map(existing.map((node) => [node.agentId, node]));
+
+  const nodes: SwarmGraphNode[] = input.agentIds.map((agentId, index) => {
+    const name = agentNames.get(agentId);
+    if (!name) {
+      errors.push(`Agent ${agentId} does not exist`);
+    }
+
+    const prior = previous.get(agentId);
+    // New nodes without a position are laid out on a 4-column grid
+    const position = input.positions?.[agentId] ??
+      prior?.position ?? {
+        x: 80 + (index % 4) * 240,
+        y: 80 + Math.floor(index / 4) * 180,
+      };
+
+    return {
+      agentId,
+      agentName: name ?? prior?.agentName ?? agentId,
+      position,
+      handoffRules: [],
+      metadata: prior?.metadata,
+    };
+  });
+
+  const byAgentId = new Map(nodes.map((node) => [node.agentId, node]));
+  const ruleCount = input.handoffRules.length;
+
+  input.handoffRules.forEach((rule, index) => {
+    const node = byAgentId.get(rule.fromAgentId);
+    if (!node) {
+      errors.push(
+        `Handoff rule source ${agentNames.get(rule.fromAgentId) ?? rule.fromAgentId} is not in the swarm`,
+      );
+      return;
+    }
+
+    const handoffRule: HandoffRule = {
+      targetAgentId: rule.toAgentId,
+      targetAgentName: agentNames.get(rule.toAgentId) ?? rule.toAgentId,
+      condition: rule.condition,
+      conditionValue: rule.conditionValue,
+      customPrompt: rule.customPrompt,
+      // Earlier rules win by default
+      priority: rule.priority ?? ruleCount - index,
+    };
+    node.handoffRules.push(handoffRule);
+  });
+
+  return { nodes, errors };
+}
@@ -7,7 +7,12 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import type { UseCaseType } from "./genesis";
-import type { MCPTool, KnowledgeDoc } from "./tool";
+import type {
+  MCPTool,
+  KnowledgeDoc,
+  RetrievalMatchSource,
+  ToolApprovalPolicy,
+} from "./tool";
 
 // ─── Enums ───────────────────────────────────────────────────────────────────
 
@@ -17,6 +22,13 @@ import type { MCPTool, KnowledgeDoc } from "./tool";
  */
 export type AgentStatus = "active" | "paused" | "error" | "archived";
 
+/**
+ * Where a memory came from: a raw conversation exchange, or facts merged
+ * from raw memories by the consolidation job.
+ * Stored in: agent_recollections.kind
+ */
+export type RecollectionKind = "raw" | "consolidated";
+
 // ─── Core Entities ───────────────────────────────────────────────────────────
 
 /**
@@ -54,6 +66,9 @@ export interface Agent {
   /** Preferred LLM identifier (e.g. "ollama/llama3.1", "gpt-4o") */
   modelPreference: string;
 
+  /** Models tried in order when the preferred one fails (cloud only if enabled) */
+  modelFallbacks: string[];
+
   /** Voice ID for TTS (optional, future use) */
   voiceId: string | null;
 
@@ -112,8 +127,8 @@ export interface AgentTool {
   /** FK → mcp_tools.id */
   toolId: string;
 
-  /** Per-agent tool configuration overrides (JSON) */
-  config: Record<string, unknown>;
+  /** Per-agent tool configuration overrides (JSON) — see AgentToolConfig */
+  config: AgentToolConfig;
 
   /** Whether this tool binding is active */
   isEnabled: boolean;
@@ -124,6 +139,15 @@ export interface AgentTool {
   tool?: MCPTool;
 }
 
+/**
+ * Known keys of agent_tools.config.
+ */
+export interface AgentToolConfig {
+  /** Whether calls run straight away, wait for the user, or are refused */
+  approval?: ToolApprovalPolicy;
+  [key: string]: unknown;
+}
+
 /**
  * Agent-Knowledge assignment (join table row).
  * Links an agent to a knowledge document for RAG retrieval scoping.
@@ -150,6 +174,41 @@ export interface AgentKnowledge {
   document?: KnowledgeDoc;
 }
 
+/**
+ * Something an agent remembers from past conversations.
+ * Maps to: agent_recollections table (mirrored in the vector store).
+ */
+export interface AgentMemory {
+  id: string;
+
+  /** FK → agents.id */
+  agentId: string;
+
+  content: string;
+
+  /** ID of the memory's entry in the vector store */
+  chromaId: string;
+
+  /** Pinned memories are always injected and survive bulk forgets */
+  isPinned: boolean;
+
+  kind: RecollectionKind;
+
+  /** 0–1 importance, scored when consolidated */
+  importance: number | null;
+
+  /** IDs of the raw memories a consolidated memory was merged from (JSON) */
+  sourceIds: string[];
+
+  /** Set when consolidated away; archived memories are no longer retrieved */
+  archivedAt: Date | null;
+
+  createdAt: Date;
+
+  /** Set when the content has been edited */
+  editedAt: Date | null;
+}
+
 // ─── API Payloads ────────────────────────────────────────────────────────────
 
 /**
@@ -163,6 +222,7 @@ export interface CreateAgentPayload {
   systemPrompt: string;
   temperature?: number;
   modelPreference?: string;
+  modelFallbacks?: string[];
   voiceId?: string;
   toolIds?: string[];
   knowledgeDocIds?: string[];
@@ -179,6 +239,40 @@ export type UpdateAgentPayload = Partial<
   knowledgeDocIds?: string[];
 };
 
+/**
+ * Agent tool binding update payload.
+ * PATCH /api/agents/[agentId]/tools/[toolId]
+ */
+export interface UpdateAgentToolPayload {
+  approval?: ToolApprovalPolicy;
+  isEnabled?: boolean;
+}
+
+/**
+ * Memory edit payload.
+ * PATCH /api/agents/[agentId]/memories/[memoryId]
+ */
+export interface UpdateAgentMemoryPayload {
+  /** New content; the memory is re-embedded */
+  content?: string;
+  isPinned?: boolean;
+}
+
+/**
+ * Bulk forget payload.
+ * POST /api/agents/[agentId]/memories/forget
+ */
+export interface ForgetAgentMemoriesPayload {
+  /** What to forget, e.g. "my old job at Acme" */
+  query: string;
+  /** Cosine distance at or below which a memory counts as a match */
+  maxDistance?: number;
+  /** Forget pinned memories too (default false) */
+  includePinned?: boolean;
+  /** Return the matches without deleting them */
+  dryRun?: boolean;
+}
+
 // ─── UI / Display Types ──────────────────────────────────────────────────────
 
 /**
@@ -251,6 +345,38 @@ export interface AgentFilterOptions {
   sortOrder: "asc" | "desc";
 }
 
+/**
+ * Memory list response.
+ * GET /api/agents/[agentId]/memories
+ */
+export interface AgentMemoryListResponse {
+  memories: AgentMemory[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Memory search result.
+ * POST /api/agents/[agentId]/memories/search
+ */
+export interface AgentMemoryMatch extends AgentMemory {
+  /** Fused (reciprocal rank) relevance score; higher is better */
+  score: number;
+  matchedBy: RetrievalMatchSource[];
+  rerankScore?: number;
+}
+
+/**
+ * Bulk forget response.
+ * POST /api/agents/[agentId]/memories/forget
+ */
+export interface ForgetAgentMemoriesResponse {
+  /** Memories that matched (and were deleted unless dryRun) */
+  memories: AgentMemory[];
+  deleted: boolean;
+}
+
 /**
  * Agent list response.
  * GET /api/agents → response
@@ -93,6 +93,15 @@ export interface ChatSession {
   /** Last message timestamp */
   lastMessageAt: Date | null;
 
+  /** Rolling summary of messages older than the prompt's history window */
+  summary: string | null;
+
+  /** FK → messages.id of the last message folded into the summary */
+  summarizedThroughId: string | null;
+
+  /** When the summary was last written, by the summarizer or the user */
+  summaryUpdatedAt: Date | null;
+
   /** Timestamps */
   createdAt: Date;
   updatedAt: Date;
@@ -153,6 +162,12 @@ export interface MessageMetadata {
   /** Specific model used */
   model?: string;
 
+  /** Set when a fallback model answered instead of the agent's preferred one */
+  fallback?: {
+    requestedModel: string;
+    reason: string;
+  };
+
   /** Streaming information */
   streaming?: boolean;
   streamId?: string;
@@ -171,6 +186,15 @@ export interface MessageMetadata {
   /** Attachment indicator */
   hasAttachments?: boolean;
 
+  /** MCP resources attached to a user message as context */
+  resources?: MessageResourceRef[];
+
+  /** Knowledge sources injected into the prompt, numbered as cited ([1], [2], ...) */
+  citations?: MessageCitation[];
+
+  /** How the prompt was fitted to the model's context window */
+  promptBudget?: PromptBudgetReport;
+
   /** User feedback */
   userRating?: "positive" | "negative" | null;
   userFeedback?: string | null;
@@ -185,6 +209,94 @@ export interface MessageMetadata {
   custom?: Record<string, unknown>;
 }
 
+/**
+ * Knowledge document passage given to the model for a reply.
+ * Stored in: MessageMetadata.citations.
+ * Not rendered yet: the app has no chat view to show them as footnotes under
+ * the reply. chatStore keeps them on the message for when it does.
+ */
+export interface MessageCitation {
+  /** Footnote number used in the prompt and reply */
+  index: number;
+
+  /** FK → knowledge_docs.id */
+  docId: string;
+
+  /** Original upload filename */
+  originalName: string;
+
+  /** Indexes of the chunks used, ascending */
+  chunkIndexes: number[];
+}
+
+/**
+ * MCP resource whose contents were sent with a user message. The contents
+ * go to the model for that turn only; the message keeps the reference.
+ * Stored in: MessageMetadata.resources.
+ */
+export interface MessageResourceRef {
+  /** FK → mcp_resources.id */
+  resourceId: string;
+
+  /** FK → mcp_servers.id */
+  serverId: string;
+
+  uri: string;
+  name: string;
+}
+
+/**
+ * Part of an assembled prompt, in the order the budget is filled.
+ * "message" is the latest message, which is always sent.
+ */
+export type PromptSection =
+  | "system"
+  | "message"
+  | "pinned"
+  | "knowledge"
+  | "summary"
+  | "history"
+  | "recollections";
+
+/**
+ * What one prompt section contributed. Items are messages, memories, or
+ * knowledge chunks.
+ */
+export interface PromptSectionUsage {
+  section: PromptSection;
+
+  /** Estimated tokens used */
+  tokens: number;
+
+  included: number;
+
+  /** Items left out because they didn't fit */
+  dropped: number;
+
+  /** Items shortened to fit */
+  truncated: number;
+}
+
+/**
+ * Token budget of an assembled prompt.
+ * Stored in: MessageMetadata.promptBudget.
+ */
+export interface PromptBudgetReport {
+  /** Model the prompt was fitted to */
+  model: string;
+
+  /** Context window in tokens */
+  contextLength: number;
+
+  /** Tokens held back for the reply and tool definitions */
+  reserved: number;
+
+  /** Estimated prompt tokens sent */
+  used: number;
+
+  sections: PromptSectionUsage[];
+}
+
 // ─── SSE Streaming Types ─────────────────────────────────────────────────────
 
 /**
@@ -194,6 +306,7 @@ export type StreamChunkType =
   | "start"
   | "content"
   | "tool_call"
+  | "approval_required"
   | "tool_result"
   | "handoff"
   | "error"
@@ -220,11 +333,22 @@ export interface StreamChunk {
     arguments: Record<string, unknown>;
   };
 
+  /** Tool call waiting for the user (for 'approval_required' type) */
+  approval?: ToolApprovalRequest;
+
   /** Tool result (for 'tool_result' type) */
   toolResult?: {
     toolCallId: string;
     result: unknown;
     error?: string;
+    /** e.g. SANDBOX_DOMAIN_BLOCKED when the sandbox refused the call */
+    errorCode?: string;
+  };
+
+  /** Agent producing the message (for 'start' type in swarm sessions) */
+  agent?: {
+    id: string;
+    name: string;
   };
 
   /** Handoff info (for 'handoff' type) */
@@ -246,6 +370,8 @@ export interface StreamChunk {
   metadata?: {
     model?: string;
     provider?: string;
+    citations?: MessageCitation[];
+    promptBudget?: PromptBudgetReport;
     tokens?: {
       prompt: number;
       completion: number;
@@ -257,6 +383,43 @@ export interface StreamChunk {
   timestamp: number;
 }
 
+/**
+ * A tool call the agent's binding says must be approved before it runs.
+ * Decided with POST /api/tools/calls/[toolCallId]/approval.
+ */
+export interface ToolApprovalRequest {
+  /** FK → tool_calls.id */
+  toolCallId: string;
+
+  /**
+   * Id the model gave the call (matches the 'tool_call' chunk). Absent when
+   * listed from the database, which does not keep it.
+   */
+  modelToolCallId?: string;
+
+  toolName: string;
+  arguments: Record<string, unknown>;
+
+  /** Epoch ms after which the call is refused */
+  expiresAt: number;
+}
+
+/**
+ * Tool call waiting for the user to approve, edit, or reject it.
+ */
+export interface PendingToolApproval extends ToolApprovalRequest {
+  sessionId: string;
+  messageId: string;
+}
+
+/**
+ * Calls waiting for a decision, oldest first.
+ * GET /api/tools/calls
+ */
+export interface PendingToolApprovalListResponse {
+  approvals: PendingToolApproval[];
+}
+
 // ─── API Payloads ────────────────────────────────────────────────────────────
 
 /**
@@ -282,6 +445,27 @@ export interface SendMessagePayload {
     url: string;
     name: string;
   }[];
+  /** MCP resources (mcp_resources.id) to send as context */
+  resourceIds?: string[];
+}
+
+/**
+ * Session summary edit payload. An empty summary clears it.
+ * PUT /api/chat/sessions/[sessionId]/summary
+ */
+export interface UpdateSessionSummaryPayload {
+  summary: string;
+}
+
+/**
+ * Session summary response.
+ * GET/PUT /api/chat/sessions/[sessionId]/summary
+ */
+export interface SessionSummaryResponse {
+  sessionId: string;
+  summary: string | null;
+  summarizedThroughId: string | null;
+  summaryUpdatedAt: Date | null;
 }
 
 // ─── UI / Display Types ──────────────────────────────────────────────────────
@@ -201,6 +201,47 @@ export interface SwarmExecutionResult {
   error?: string;
 }
 
+/**
+ * Persisted swarm run status.
+ */
+export type SwarmRunStatus = "running" | "completed" | "error";
+
+/**
+ * A persisted swarm run (swarm_runs table).
+ * One row per SwarmEngine execution, keyed by the execution ID.
+ */
+export interface SwarmRun {
+  /** PK — the execution ID */
+  id: string;
+
+  /** FK → swarm_defs.id */
+  swarmId: string;
+
+  /** FK → chat_sessions.id */
+  sessionId: string | null;
+
+  status: SwarmRunStatus;
+
+  /** The user message that started the run */
+  userMessage: string;
+
+  entryAgentId: string | null;
+
+  /** Last agent that was active */
+  currentAgentId: string | null;
+
+  iterationCount: number;
+
+  /** Handoffs in the order they happened (JSON column) */
+  executionLog: SwarmHandoffEvent[];
+
+  /** Error information when status is 'error' (JSON column) */
+  error: SwarmExecution["error"] | null;
+
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
 /**
  * Handoff detection result.
  * Returned by HandoffDetector.evaluate().
@@ -213,13 +254,25 @@ export interface HandoffDetectionResult {
     reason: string;
     triggeredCondition: HandoffCondition;
   };
+  /** Every rule that was checked, in evaluation order */
+  evaluations: HandoffRuleEvaluation[];
+}
+
+/**
+ * Outcome of evaluating a single handoff rule.
+ */
+export interface HandoffRuleEvaluation {
+  targetAgentId: string;
+  triggeredCondition: HandoffCondition;
+  matched: boolean;
+  reason?: string;
 }
 
 // ─── API Payloads ────────────────────────────────────────────────────────────
 
 /**
  * Swarm creation payload.
- * POST /api/swarm
+ * POST /api/swarms
  */
 export interface CreateSwarmPayload {
   name: string;
@@ -232,14 +285,18 @@ export interface CreateSwarmPayload {
     condition: HandoffCondition;
     conditionValue?: string;
     customPrompt?: string;
+    /** Higher values are evaluated first (defaults to list order) */
+    priority?: number;
   }[];
+  /** Visual editor positions keyed by agent ID */
+  positions?: Record<string, { x: number; y: number }>;
   maxIterations?: number;
   autoStart?: boolean;
 }
 
 /**
  * Swarm update payload.
- * PATCH /api/swarm/[swarmId]
+ * PATCH /api/swarms/[swarmId]
  */
 export type UpdateSwarmPayload = Partial<
   Omit<CreateSwarmPayload, "agentIds">
@@ -247,6 +304,26 @@ export type UpdateSwarmPayload = Partial<
   agentIds?: string[];
 };
 
+/**
+ * Swarm execution request payload.
+ * POST /api/swarms/[swarmId]/execute
+ */
+export interface ExecuteSwarmPayload {
+  content: string;
+  /** Existing swarm session to continue; a new one is created when omitted */
+  sessionId?: string;
+}
+
+/**
+ * Swarm execution response.
+ * POST /api/swarms/[swarmId]/execute → 202
+ */
+export interface ExecuteSwarmResponse {
+  executionId: string;
+  sessionId: string;
+  jobId: string;
+}
+
 // ─── UI / Display Types ──────────────────────────────────────────────────────
 
 /**
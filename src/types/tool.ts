@@ -21,6 +21,13 @@
  */
 export type MCPTransportType = "stdio" | "sse" | "http";
 
+/**
+ * Transport a live connection actually uses. "http" servers are reached
+ * over Streamable HTTP, or over SSE when they predate it.
+ * Derived at runtime by MCPClient — not stored in DB.
+ */
+export type MCPConnectionTransport = "stdio" | "streamable-http" | "sse";
+
 /**
  * MCP Server connection status.
  * Stored in: mcp_servers.status
@@ -31,11 +38,46 @@ export type MCPServerStatus =
   | "error"
   | "connecting";
 
+/**
+ * Entry kind in a server's connection history.
+ * Stored in: mcp_connection_events.type
+ */
+export type MCPConnectionEventType =
+  | "connected"
+  | "disconnected"
+  | "connection_lost"
+  | "reconnecting"
+  | "reconnected"
+  | "reconnect_failed"
+  | "error";
+
 /**
  * Tool call execution status.
  * Stored in: tool_calls.status
  */
-export type ToolCallStatus = "pending" | "running" | "completed" | "error";
+export type ToolCallStatus =
+  | "awaiting_approval"
+  | "pending"
+  | "running"
+  | "completed"
+  | "error";
+
+/**
+ * Whether an agent may run a tool without asking.
+ * Stored in: agent_tools.config.approval (absent means "allow")
+ */
+export type ToolApprovalPolicy = "allow" | "ask" | "deny";
+
+/**
+ * Outcome of a tool call that needed a decision.
+ * Stored in: tool_call_approvals.decision
+ */
+export type ToolApprovalDecision =
+  | "approved"
+  | "edited"
+  | "rejected"
+  | "denied"
+  | "expired";
 
 /**
  * Knowledge document indexing status.
@@ -43,6 +85,12 @@ export type ToolCallStatus = "pending" | "running" | "completed" | "error";
  */
 export type KnowledgeDocStatus = "pending" | "indexing" | "ready" | "error";
 
+/**
+ * Which ranking a retrieved chunk or recollection came from.
+ * Hybrid search fuses both; see lib/ai/hybridSearch.
+ */
+export type RetrievalMatchSource = "vector" | "lexical";
+
 /**
  * Tool category for organization.
  * Derived at runtime by the ToolRegistry — not stored in DB.
@@ -91,8 +139,8 @@ export interface MCPServer {
   /** Environment variables (JSON column) */
   env: Record<string, string>;
 
-  /** Additional configuration (JSON column) */
-  config: Record<string, unknown>;
+  /** Additional configuration (JSON column) — see MCPServerConfig */
+  config: MCPServerConfig;
 
   /** Current connection status */
   status: MCPServerStatus;
@@ -120,6 +168,40 @@ export interface MCPServer {
   tools?: MCPTool[];
 }
 
+/**
+ * Known keys of mcp_servers.config.
+ */
+export interface MCPServerConfig {
+  /** Request headers (e.g. Authorization) sent to sse/http servers */
+  headers?: Record<string, string>;
+  /** Whether an http server may fall back to SSE (default true) */
+  sseFallback?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Entry in a server's connection history, written by the health monitor in
+ * MCPServerManager. Only the newest entries per server are kept.
+ * Maps to: mcp_connection_events table.
+ */
+export interface MCPConnectionEvent {
+  /** PK — auto-generated UUID */
+  id: string;
+
+  /** FK → mcp_servers.id */
+  serverId: string;
+
+  type: MCPConnectionEventType;
+
+  /** Reason or details, e.g. the ping error */
+  message: string | null;
+
+  /** Reconnection attempt number, for reconnect events */
+  attempt: number | null;
+
+  createdAt: Date;
+}
+
 /**
  * MCP Tool entity.
  * Maps to: mcp_tools table.
@@ -158,6 +240,75 @@ export interface MCPTool {
   server?: MCPServer;
 }
 
+/**
+ * MCP Resource entity — context a server exposes by URI.
+ * Maps to: mcp_resources table.
+ */
+export interface MCPResource {
+  /** PK — auto-generated UUID */
+  id: string;
+
+  /** FK → mcp_servers.id */
+  serverId: string;
+
+  /** Resource URI (unique within server) */
+  uri: string;
+
+  /** Display name */
+  name: string;
+
+  /** Resource description */
+  description: string | null;
+
+  /** MIME type, if the server declares one */
+  mimeType: string | null;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+
+  /** Expanded relations (NOT in DB row) */
+  server?: MCPServer;
+}
+
+/**
+ * Argument an MCP prompt template takes.
+ * Stored in: mcp_prompts.arguments (JSON column)
+ */
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt entity — a prompt template a server exposes.
+ * Maps to: mcp_prompts table.
+ */
+export interface MCPPrompt {
+  /** PK — auto-generated UUID */
+  id: string;
+
+  /** FK → mcp_servers.id */
+  serverId: string;
+
+  /** Prompt name (unique within server); run as /name in chat */
+  name: string;
+
+  /** Prompt description */
+  description: string | null;
+
+  /** Arguments the template takes (JSON column) */
+  arguments: MCPPromptArgument[];
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+
+  /** Expanded relations (NOT in DB row) */
+  server?: MCPServer;
+}
+
 /**
  * Tool call entity.
  * Maps to: tool_calls table.
@@ -184,6 +335,9 @@ export interface ToolCall {
   /** Error message if failed */
   error: string | null;
 
+  /** Machine-readable failure reason, e.g. SANDBOX_DOMAIN_BLOCKED */
+  errorCode: string | null;
+
   /** Execution status */
   status: ToolCallStatus;
 
@@ -198,6 +352,43 @@ export interface ToolCall {
   tool?: MCPTool | null;
 }
 
+/**
+ * Audit record of a decision on a tool call that needed approval.
+ * Maps to: tool_call_approvals table.
+ */
+export interface ToolCallApproval {
+  /** PK — auto-generated UUID */
+  id: string;
+
+  /** FK → tool_calls.id (nullable — kept when the call is deleted) */
+  toolCallId: string | null;
+
+  /** FK → agents.id (nullable — kept when the agent is deleted) */
+  agentId: string | null;
+
+  /** FK → chat_sessions.id (nullable — kept when the session is deleted) */
+  sessionId: string | null;
+
+  /** Tool name at time of call */
+  toolName: string;
+
+  decision: ToolApprovalDecision;
+
+  /** "user", "policy", or "timeout" */
+  decidedBy: string;
+
+  /** Arguments the model asked for (JSON column) */
+  requestedArguments: Record<string, unknown>;
+
+  /** Arguments the tool ran with, if it ran (JSON column) */
+  approvedArguments: Record<string, unknown> | null;
+
+  /** Why the call was rejected, if given */
+  reason: string | null;
+
+  createdAt: Date;
+}
+
 // ─── Core Entity: Knowledge Base ─────────────────────────────────────────────
 
 /**
@@ -273,9 +464,40 @@ export interface ToolExecutionResult {
   success: boolean;
   result?: unknown;
   error?: string;
+  errorCode?: string;
   executionTimeMs: number;
 }
 
+/**
+ * One item read from a resource: `text` for text resources, base64 `blob`
+ * for binary ones.
+ * Returned by MCPClient.readResource().
+ */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string | null;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Message produced by running a prompt template. Non-text content is
+ * flattened to text.
+ */
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Expanded prompt template.
+ * Returned by MCPClient.getPrompt().
+ */
+export interface MCPPromptResult {
+  description: string | null;
+  messages: MCPPromptMessage[];
+}
+
 // ─── API Payloads ────────────────────────────────────────────────────────────
 
 /**
@@ -290,7 +512,7 @@ export interface CreateMCPServerPayload {
   args?: string[];
   url?: string;
   env?: Record<string, string>;
-  config?: Record<string, unknown>;
+  config?: MCPServerConfig;
 }
 
 /**
@@ -303,6 +525,180 @@ export interface ExecuteToolPayload {
   timeout?: number;
 }
 
+/**
+ * Decision on a tool call awaiting approval. `arguments` replaces what the
+ * model asked for when approving.
+ * POST /api/tools/calls/[toolCallId]/approval
+ */
+export interface ToolApprovalDecisionPayload {
+  decision: "approve" | "reject";
+  arguments?: Record<string, unknown>;
+  reason?: string;
+}
+
+/**
+ * Tool approval audit log page.
+ * GET /api/tools/approvals
+ */
+export interface ToolApprovalListResponse {
+  approvals: ToolCallApproval[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Registered MCP servers with their current status.
+ * GET /api/mcp/servers
+ */
+export interface MCPServerListResponse {
+  servers: MCPServer[];
+}
+
+/**
+ * A server's connection history, newest first.
+ * GET /api/mcp/servers/[serverId]/events
+ */
+export interface MCPConnectionEventListResponse {
+  events: MCPConnectionEvent[];
+}
+
+/**
+ * Synced resources, optionally of one server.
+ * GET /api/mcp/resources
+ */
+export interface MCPResourceListResponse {
+  resources: MCPResourceWithServerName[];
+}
+
+/**
+ * Resource with its current contents.
+ * GET /api/mcp/resources/[resourceId]
+ */
+export interface MCPResourceReadResponse {
+  resource: MCPResource;
+  contents: MCPResourceContents[];
+}
+
+/**
+ * Change notification for a subscribed resource.
+ * GET /api/mcp/resources/[resourceId]/updates (SSE)
+ */
+export interface MCPResourceUpdateEvent {
+  resourceId: string;
+  uri: string;
+  updatedAt: number;
+}
+
+/**
+ * Synced prompt templates, optionally of one server.
+ * GET /api/mcp/prompts
+ */
+export interface MCPPromptListResponse {
+  prompts: MCPPromptWithServerName[];
+}
+
+/**
+ * Values for a prompt template's arguments.
+ * POST /api/mcp/prompts/[promptId]
+ */
+export interface GetMCPPromptPayload {
+  arguments?: Record<string, string>;
+}
+
+/**
+ * Knowledge document with the agents it is attached to.
+ * GET /api/knowledge
+ */
+export interface KnowledgeDocWithAgents extends KnowledgeDoc {
+  agentIds: string[];
+}
+
+/**
+ * Re-index payload; omitted fields keep the document's current settings.
+ * PATCH /api/knowledge/[docId]
+ */
+export interface ReindexKnowledgeDocPayload {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+/**
+ * Retrieval test payload.
+ * POST /api/knowledge/search
+ */
+export interface KnowledgeSearchPayload {
+  query: string;
+  /** Limit the search to these documents (default: all ready documents) */
+  docIds?: string[];
+  nResults?: number;
+  /** Rerank with RERANK_MODEL when configured (default true) */
+  rerank?: boolean;
+}
+
+/**
+ * A retrieved knowledge chunk.
+ * Returned by POST /api/knowledge/search and used for prompt injection.
+ */
+export interface KnowledgeChunk {
+  docId: string;
+  originalName: string;
+  chunkIndex: number;
+  content: string;
+  /** Fused (reciprocal rank) relevance score; higher is better */
+  score: number;
+  /** Rankings the chunk appeared in */
+  matchedBy: RetrievalMatchSource[];
+  /** 0–10 score from the rerank model, when reranking ran */
+  rerankScore?: number;
+}
+
+/**
+ * A retrieved agent recollection.
+ * Returned by POST /api/search and used for prompt injection.
+ */
+export interface RecollectionMatch {
+  id: string;
+  content: string;
+  /** Fused (reciprocal rank) relevance score; higher is better */
+  score: number;
+  matchedBy: RetrievalMatchSource[];
+  rerankScore?: number;
+}
+
+/**
+ * Hybrid search payload.
+ * POST /api/search — knowledge is searched across the owner's documents, or
+ * the agent's linked documents when agentId is set; recollections need an
+ * agentId.
+ */
+export interface HybridSearchPayload {
+  query: string;
+  agentId?: string;
+  scope?: "all" | "knowledge" | "recollections";
+  nResults?: number;
+  rerank?: boolean;
+}
+
+/**
+ * Hybrid search response.
+ * POST /api/search
+ */
+export interface HybridSearchResponse {
+  knowledge: KnowledgeChunk[];
+  recollections: RecollectionMatch[];
+}
+
+/**
+ * Knowledge upload response.
+ * POST /api/knowledge (multipart: file, chunkSize?, chunkOverlap?)
+ */
+export interface UploadKnowledgeDocResponse {
+  doc: KnowledgeDoc;
+  /** True when an identical file was already uploaded; nothing was queued */
+  duplicate: boolean;
+}
+
 // ─── UI / Display Types ──────────────────────────────────────────────────────
 
 /**
@@ -312,6 +708,20 @@ export interface ToolWithServer extends MCPTool {
   server: MCPServer;
 }
 
+/**
+ * Resource labelled with its server for pickers.
+ */
+export interface MCPResourceWithServerName extends MCPResource {
+  serverName: string;
+}
+
+/**
+ * Prompt template labelled with its server for the slash command menu.
+ */
+export interface MCPPromptWithServerName extends MCPPrompt {
+  serverName: string;
+}
+
 /**
  * Tool registry entry.
  * Categorized tool for discovery UI.
@@ -0,0 +1,70 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WORKER PROCESS - Entry Point for Background BullMQ Workers
+// Run with: npm run worker:start
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createToolWorker, stopToolWorker } from "@/lib/queue/workers/toolWorker";
+import {
+  createSwarmWorker,
+  stopSwarmWorker,
+} from "@/lib/queue/workers/swarmWorker";
+import {
+  createIndexingWorker,
+  stopIndexingWorker,
+} from "@/lib/queue/workers/indexingWorker";
+import {
+  createConsolidationWorker,
+  stopConsolidationWorker,
+  syncConsolidationSchedules,
+} from "@/lib/queue/workers/consolidationWorker";
+import {
+  createSummaryWorker,
+  stopSummaryWorker,
+} from "@/lib/queue/workers/summaryWorker";
+import { closeQueues } from "@/lib/queue/queues";
+import { closeRedisConnections } from "@/lib/queue/connection";
+import { mcpServerManager } from "@/lib/mcp/MCPServerManager";
+import { closeDB } from "@/lib/db/client";
+
+// ─── Startup ─────────────────────────────────────────────────────────────────
+
+createToolWorker(Number(process.env.TOOL_WORKER_CONCURRENCY ?? 5));
+createSwarmWorker(Number(process.env.SWARM_WORKER_CONCURRENCY ?? 2));
+createIndexingWorker(Number(process.env.INDEXING_WORKER_CONCURRENCY ?? 1));
+createConsolidationWorker(Number(process.env.CONSOLIDATION_WORKER_CONCURRENCY ?? 1));
+createSummaryWorker(Number(process.env.SUMMARY_WORKER_CONCURRENCY ?? 1));
+
+syncConsolidationSchedules().catch((error) => {
+  console.error("[Workers] Failed to schedule memory consolidation:", error);
+});
+
+console.log("[Workers] Background workers running");
+
+// ─── Graceful Shutdown ───────────────────────────────────────────────────────
+
+let shuttingDown = false;
+
+/**
+ * Stop taking jobs, then release everything that keeps the event loop alive:
+ * queues, Redis, MCP connections and their timers, and the database.
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  console.log(`[Workers] Received ${signal}, shutting down...`);
+  await Promise.allSettled([
+    stopToolWorker(),
+    stopSwarmWorker(),
+    stopIndexingWorker(),
+    stopConsolidationWorker(),
+    stopSummaryWorker(),
+  ]);
+  await Promise.allSettled([closeQueues(), mcpServerManager.dispose()]);
+  await closeRedisConnections();
+  closeDB();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));